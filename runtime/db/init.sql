@@ -34,7 +34,17 @@ CREATE TABLE agents (
         "maxTokensPerRequest": 4096,
         "maxRequestsPerMinute": 60,
         "blockedTopics": [],
-        "requireHumanApproval": false
+        "requireHumanApproval": false,
+        "maxToolIterations": 5
+    }'::jsonb,
+    
+    -- Retry policy for failed orders
+    retry_policy JSONB DEFAULT '{
+        "maxAttempts": 3,
+        "backoffMs": 5000,
+        "backoffMultiplier": 2,
+        "maxBackoffMs": 300000,
+        "retryOn": ["timeout", "rate_limit", "network", "provider"]
     }'::jsonb,
     
     -- Knowledge base config (optional)
@@ -82,6 +92,12 @@ CREATE TABLE agent_secrets (
 
 CREATE INDEX idx_agent_secrets_agent ON agent_secrets(agent_id);
 
+-- Spent OAuth connect states, kept until they expire so they can't be replayed
+CREATE TABLE oauth_state_nonces (
+    nonce UUID PRIMARY KEY,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
 -- ============================================================================
 -- ORDERS
 -- ============================================================================
@@ -109,6 +125,7 @@ CREATE TABLE orders (
     result_data JSONB,
     result_uri VARCHAR(500),  -- IPFS or other storage URI
     result_hash VARCHAR(66),
+    partial_output TEXT,  -- Streamed output checkpointed while processing
     
     -- Execution
     status VARCHAR(20) DEFAULT 'pending' CHECK (status IN (
@@ -117,14 +134,26 @@ CREATE TABLE orders (
         'completed',    -- Successfully completed
         'failed',       -- Execution failed
         'cancelled',    -- Cancelled by user
-        'expired'       -- Timed out
+        'expired',      -- Timed out
+        'dead_letter',  -- Out of retries, awaiting manual retry or refund
+        'refunded',     -- Buyer refunded on-chain
+        'rejected'      -- Refused by the agent's guardrails
     )),
     error_message TEXT,
+    claimed_by VARCHAR(100),  -- Worker holding the order while processing
+    lease_expires_at TIMESTAMP WITH TIME ZONE,  -- Reclaimable by another worker after this
+    
+    -- Retries
+    attempts INTEGER DEFAULT 0,  -- Executions started so far
+    next_attempt_at TIMESTAMP WITH TIME ZONE,  -- Scheduled retries aren't claimed before this
+    retry_policy JSONB,  -- Agent's retry policy, fixed at the order's first failure
+    error_history JSONB DEFAULT '[]'::jsonb,  -- Error of every failed attempt
     
     -- Metrics
     started_at TIMESTAMP WITH TIME ZONE,
     completed_at TIMESTAMP WITH TIME ZONE,
     tokens_used INTEGER,
+    cost_usd NUMERIC(12,6),  -- Model cost, counted against USD budgets
     execution_time_ms INTEGER,
     
     -- On-chain tx
@@ -143,6 +172,9 @@ CREATE INDEX idx_orders_status ON orders(status);
 CREATE INDEX idx_orders_buyer ON orders(buyer_address);
 CREATE INDEX idx_orders_seller ON orders(seller_address);
 CREATE INDEX idx_orders_queue ON orders(status, priority DESC, created_at ASC) WHERE status = 'pending';
+CREATE INDEX idx_orders_lease ON orders(lease_expires_at) WHERE status = 'processing';
+CREATE INDEX idx_orders_usage ON orders(agent_id, completed_at DESC);
+CREATE INDEX idx_orders_dead_letter ON orders(agent_id, updated_at DESC) WHERE status = 'dead_letter';
 
 -- ============================================================================
 -- EXECUTION LOGS
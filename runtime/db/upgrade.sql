@@ -0,0 +1,70 @@
+-- AgentL2 Runtime Database Upgrade
+-- Brings a database created from an earlier init.sql up to the current schema.
+-- init.sql only runs on an empty database; run this against existing ones.
+-- Safe to run more than once.
+
+BEGIN;
+
+-- ============================================================================
+-- AGENTS
+-- ============================================================================
+
+ALTER TABLE agents ALTER COLUMN guardrails SET DEFAULT '{
+    "maxTokensPerRequest": 4096,
+    "maxRequestsPerMinute": 60,
+    "blockedTopics": [],
+    "requireHumanApproval": false,
+    "maxToolIterations": 5
+}'::jsonb;
+
+-- Retry policy for failed orders
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS retry_policy JSONB DEFAULT '{
+    "maxAttempts": 3,
+    "backoffMs": 5000,
+    "backoffMultiplier": 2,
+    "maxBackoffMs": 300000,
+    "retryOn": ["timeout", "rate_limit", "network", "provider"]
+}'::jsonb;
+
+-- ============================================================================
+-- OAUTH STATE NONCES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS oauth_state_nonces (
+    nonce UUID PRIMARY KEY,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- ============================================================================
+-- ORDERS
+-- ============================================================================
+
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS partial_output TEXT,
+    ADD COLUMN IF NOT EXISTS claimed_by VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS attempts INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS retry_policy JSONB,
+    ADD COLUMN IF NOT EXISTS error_history JSONB DEFAULT '[]'::jsonb,
+    ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12,6);
+
+-- Statuses added for dead-lettering, refunds and guardrail rejections
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check CHECK (status IN (
+    'pending',
+    'processing',
+    'completed',
+    'failed',
+    'cancelled',
+    'expired',
+    'dead_letter',
+    'refunded',
+    'rejected'
+));
+
+CREATE INDEX IF NOT EXISTS idx_orders_lease ON orders(lease_expires_at) WHERE status = 'processing';
+CREATE INDEX IF NOT EXISTS idx_orders_usage ON orders(agent_id, completed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_dead_letter ON orders(agent_id, updated_at DESC) WHERE status = 'dead_letter';
+
+COMMIT;
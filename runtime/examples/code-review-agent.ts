@@ -5,11 +5,11 @@
 
 import 'dotenv/config';
 import { ethers } from 'ethers';
-import { AgentRuntime, BaseExecutor, type TaskInput, type TaskResult } from '../src/index.js';
+import { AgentRuntime, TaskExecutor, type TaskInput, type TaskResult } from '../src/index.js';
 import OpenAI from 'openai';
 
 // Custom executor for code review with structured output
-class CodeReviewExecutor extends BaseExecutor {
+class CodeReviewExecutor extends TaskExecutor {
   id = 'code-review-executor';
   name = 'Code Review Executor';
   version = '1.0.0';
@@ -66,26 +66,16 @@ Be thorough but fair. Only report real issues, not style preferences unless they
       const reviewContent = response.choices[0]?.message?.content || '{}';
       const review = JSON.parse(reviewContent);
 
-      // Generate proof
-      const proof = await this.proofGenerator.generateLLMProof(
-        task,
+      // Generate proof (signed with this executor's key)
+      const proof = await this.createProof(
         { model: 'gpt-4o', code: code.slice(0, 500) }, // Truncate for proof
-        { id: response.id, usage: response.usage },
         review
       );
 
-      const resultHash = this.proofGenerator.generateResultHash(review);
-
-      return {
-        success: true,
-        resultURI: '',
-        resultHash,
-        proof,
-        metadata: this.createMetadata(startTime, {
-          modelUsed: 'gpt-4o',
-          tokensUsed: response.usage?.total_tokens,
-        }),
-      };
+      return this.createSuccessResult({ content: reviewContent, structured: review }, proof, startTime, {
+        modelUsed: 'gpt-4o',
+        tokensUsed: response.usage?.total_tokens,
+      });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       return this.createFailedResult(task, message, startTime);
@@ -5,12 +5,79 @@
 import { Router, type Request, type Response } from 'express';
 import { z } from 'zod';
 import * as db from '../../shared/db.js';
+import { integrationRoutes } from './integrations.js';
 import { encrypt, decrypt } from '../../shared/crypto.js';
-import type { CreateAgentRequest, UpdateAgentRequest } from '../../shared/types.js';
+import { actionToJsonSchema, resolveIntegrationAction } from '../../integrations/tools.js';
+import type { AgentTool, CreateAgentRequest, UpdateAgentRequest } from '../../shared/types.js';
 
 export const agentRoutes = Router();
 
 // Validation schemas
+
+// Integration tools may omit name, description and parameters; they come from the action
+const toolSchema = z.object({
+  name: z.string().optional(),
+  description: z.string().optional(),
+  parameters: z.record(z.unknown()).optional(),
+  handler: z.enum(['builtin', 'webhook', 'integration']),
+  webhookUrl: z.string().url().optional(),
+  integration: z.string().optional(),
+}).transform((tool, ctx) => {
+  if (tool.handler !== 'integration') {
+    if (!tool.name || tool.description === undefined || !tool.parameters) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'name, description and parameters are required' });
+      return z.NEVER;
+    }
+    return tool as AgentTool;
+  }
+
+  if (!tool.integration) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'integration is required for integration tools', path: ['integration'] });
+    return z.NEVER;
+  }
+  try {
+    const { integration, action } = resolveIntegrationAction(tool.integration);
+    return {
+      ...tool,
+      name: tool.name ?? `${integration.id}_${action.name}`,
+      description: tool.description ?? action.description,
+      parameters: actionToJsonSchema(action),
+    } as AgentTool;
+  } catch (err) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: (err as Error).message, path: ['integration'] });
+    return z.NEVER;
+  }
+});
+
+const guardrailActionSchema = z.enum(['defer', 'reject', 'pause']);
+
+// Guardrails an agent can go without; updates clear them with null
+const optionalGuardrailFields = {
+  approvalThreshold: z.number().min(0).max(1).optional(),
+  maxToolIterations: z.number().int().min(0).max(20).optional(),
+  dailyTokenBudget: z.number().int().min(0).optional(),
+  monthlyTokenBudget: z.number().int().min(0).optional(),
+  dailyUsdBudget: z.number().min(0).optional(),
+  monthlyUsdBudget: z.number().min(0).optional(),
+  buyerDailyOrderQuota: z.number().int().min(0).optional(),
+  buyerDailyTokenQuota: z.number().int().min(0).optional(),
+  onRateLimit: guardrailActionSchema.optional(),
+  onBudgetExceeded: guardrailActionSchema.optional(),
+  onQuotaExceeded: guardrailActionSchema.optional(),
+};
+
+const guardrailsSchema = z.object({
+  maxTokensPerRequest: z.number().int().optional(),
+  maxRequestsPerMinute: z.number().int().optional(),
+  blockedTopics: z.array(z.string()).optional(),
+  requireHumanApproval: z.boolean().optional(),
+  ...optionalGuardrailFields,
+});
+
+const clearableGuardrailFields = Object.fromEntries(
+  Object.entries(optionalGuardrailFields).map(([key, schema]) => [key, schema.nullable()])
+) as { [K in keyof typeof optionalGuardrailFields]: z.ZodNullable<(typeof optionalGuardrailFields)[K]> };
+
 const createAgentSchema = z.object({
   name: z.string().min(1).max(255),
   description: z.string().optional(),
@@ -19,19 +86,14 @@ const createAgentSchema = z.object({
   temperature: z.number().min(0).max(2).optional(),
   maxTokens: z.number().int().min(1).max(128000).optional(),
   systemPrompt: z.string().min(1),
-  tools: z.array(z.object({
-    name: z.string(),
-    description: z.string(),
-    parameters: z.record(z.unknown()),
-    handler: z.enum(['builtin', 'webhook']),
-    webhookUrl: z.string().url().optional(),
-  })).optional(),
-  guardrails: z.object({
-    maxTokensPerRequest: z.number().int().optional(),
-    maxRequestsPerMinute: z.number().int().optional(),
-    blockedTopics: z.array(z.string()).optional(),
-    requireHumanApproval: z.boolean().optional(),
-    approvalThreshold: z.number().min(0).max(1).optional(),
+  tools: z.array(toolSchema).optional(),
+  guardrails: guardrailsSchema.optional(),
+  retryPolicy: z.object({
+    maxAttempts: z.number().int().min(1).max(20).optional(),
+    backoffMs: z.number().int().min(0).optional(),
+    backoffMultiplier: z.number().min(1).max(10).optional(),
+    maxBackoffMs: z.number().int().min(0).optional(),
+    retryOn: z.array(z.enum(['timeout', 'rate_limit', 'network', 'provider', 'validation', 'guardrail', 'unknown'])).optional(),
   }).optional(),
   knowledgeConfig: z.object({
     type: z.enum(['pinecone', 'qdrant', 'pgvector']),
@@ -43,6 +105,7 @@ const createAgentSchema = z.object({
 });
 
 const updateAgentSchema = createAgentSchema.partial().omit({ ownerAddress: true }).extend({
+  guardrails: guardrailsSchema.extend(clearableGuardrailFields).optional(),
   status: z.enum(['draft', 'active', 'paused', 'disabled']).optional(),
 });
 
@@ -191,6 +254,12 @@ agentRoutes.delete('/:id/secrets/:key', async (req: Request, res: Response) => {
   }
 });
 
+// =============================================================================
+// Integrations
+// =============================================================================
+
+agentRoutes.use('/:id/integrations', integrationRoutes);
+
 // =============================================================================
 // Logs
 // =============================================================================
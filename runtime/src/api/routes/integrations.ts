@@ -0,0 +1,170 @@
+/**
+ * Integration API Routes
+ * OAuth connect flow and connection status for an agent's integrations
+ */
+
+import { Router, type Request, type Response } from 'express';
+import * as db from '../../shared/db.js';
+import { encrypt, decrypt } from '../../shared/crypto.js';
+import { integrationRegistry } from '../../integrations/base.js';
+import { issueOAuthState, redeemOAuthState, type OAuthState } from '../../integrations/oauth.js';
+import { apiKeySecretKey, credentialsSecretKey, loadCredentials } from '../../integrations/tools.js';
+
+// Mounted under /api/agents/:id/integrations
+export const integrationRoutes = Router({ mergeParams: true });
+
+/** How long a user has to complete the provider's consent screen */
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+function callbackUrl(req: Request, agentId: string, integrationId: string): string {
+  const base = process.env.OAUTH_REDIRECT_BASE_URL || `${req.protocol}://${req.get('host')}`;
+  return `${base}/api/agents/${agentId}/integrations/${integrationId}/callback`;
+}
+
+// List integrations and whether the agent is connected to each
+integrationRoutes.get('/', async (req: Request, res: Response) => {
+  try {
+    const agent = await db.getAgentById(req.params.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const keys = new Set(await db.getAgentSecretKeys(agent.id));
+    const integrations = [];
+
+    for (const integration of integrationRegistry.list()) {
+      const secrets: Record<string, string> = {};
+      for (const key of [credentialsSecretKey(integration.id), apiKeySecretKey(integration.id)]) {
+        if (!keys.has(key)) continue;
+        const encrypted = await db.getAgentSecret(agent.id, key);
+        if (encrypted) secrets[key] = decrypt(encrypted);
+      }
+
+      let connection: Record<string, unknown> = { connected: false };
+      if (Object.keys(secrets).length > 0) {
+        const credentials = loadCredentials(integration.id, secrets);
+        connection = {
+          connected: true,
+          method: credentials.accessToken ? 'oauth' : 'apiKey',
+          expiresAt: credentials.expiresAt?.toISOString(),
+          expired: !integration.isCredentialsValid(credentials),
+          refreshable: !!credentials.refreshToken,
+        };
+      }
+
+      integrations.push({
+        id: integration.id,
+        name: integration.name,
+        category: integration.category,
+        icon: integration.icon,
+        oauth: !!integration.oauth,
+        actions: integration.actions.map((a) => a.name),
+        ...connection,
+      });
+    }
+
+    res.json({ integrations });
+  } catch (err) {
+    console.error('Error fetching integrations:', err);
+    res.status(500).json({ error: 'Failed to fetch integrations' });
+  }
+});
+
+// Start the OAuth flow: returns the provider URL the user should be sent to
+integrationRoutes.get('/:integrationId/connect', async (req: Request, res: Response) => {
+  try {
+    const agent = await db.getAgentById(req.params.id);
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+
+    const integration = integrationRegistry.get(req.params.integrationId);
+    if (!integration) {
+      return res.status(404).json({ error: 'Integration not found' });
+    }
+    if (!integration.oauth) {
+      return res.status(400).json({ error: `${integration.name} does not support OAuth` });
+    }
+
+    const redirectUri = callbackUrl(req, agent.id, integration.id);
+    const state = issueOAuthState({ agentId: agent.id, integrationId: integration.id, redirectUri }, STATE_TTL_MS);
+
+    res.json({
+      authUrl: integration.getAuthUrl(redirectUri, state),
+      expiresAt: new Date(Date.now() + STATE_TTL_MS).toISOString(),
+    });
+  } catch (err) {
+    console.error('Error starting OAuth flow:', err);
+    res.status(500).json({ error: 'Failed to start OAuth flow' });
+  }
+});
+
+// OAuth redirect target. Authenticated by the signed, single-use state, not the API key.
+integrationRoutes.get('/:integrationId/callback', async (req: Request, res: Response) => {
+  try {
+    if (typeof req.query.error === 'string') {
+      return res.status(400).json({ error: `Authorization denied: ${req.query.error_description || req.query.error}` });
+    }
+
+    const code = req.query.code;
+    const stateParam = req.query.state;
+    if (typeof code !== 'string' || typeof stateParam !== 'string') {
+      return res.status(400).json({ error: 'Missing code or state' });
+    }
+
+    let state: OAuthState;
+    try {
+      state = await redeemOAuthState(
+        stateParam,
+        { agentId: req.params.id, integrationId: req.params.integrationId },
+        { spend: db.spendOAuthNonce }
+      );
+    } catch (err) {
+      return res.status(400).json({ error: `Invalid state: ${(err as Error).message}` });
+    }
+
+    const integration = integrationRegistry.get(state.integrationId);
+    if (!integration?.oauth) {
+      return res.status(404).json({ error: 'Integration not found' });
+    }
+
+    let credentials;
+    try {
+      credentials = await integration.exchangeCode(code, state.redirectUri);
+    } catch (err) {
+      return res.status(502).json({ error: (err as Error).message });
+    }
+
+    const key = credentialsSecretKey(integration.id);
+    await db.storeAgentSecret(state.agentId, key, encrypt(JSON.stringify(credentials)));
+
+    res.json({
+      message: `${integration.name} connected`,
+      integration: integration.id,
+      expiresAt: credentials.expiresAt?.toISOString(),
+    });
+  } catch (err) {
+    console.error('Error completing OAuth flow:', err);
+    res.status(500).json({ error: 'Failed to complete OAuth flow' });
+  }
+});
+
+// Revoke: forget the stored credentials
+integrationRoutes.delete('/:integrationId', async (req: Request, res: Response) => {
+  try {
+    const integration = integrationRegistry.get(req.params.integrationId);
+    if (!integration) {
+      return res.status(404).json({ error: 'Integration not found' });
+    }
+
+    const deletedCredentials = await db.deleteAgentSecret(req.params.id, credentialsSecretKey(integration.id));
+    const deletedApiKey = await db.deleteAgentSecret(req.params.id, apiKeySecretKey(integration.id));
+    if (!deletedCredentials && !deletedApiKey) {
+      return res.status(404).json({ error: 'Integration not connected' });
+    }
+    res.status(204).send();
+  } catch (err) {
+    console.error('Error revoking integration:', err);
+    res.status(500).json({ error: 'Failed to revoke integration' });
+  }
+});
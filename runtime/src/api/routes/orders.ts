@@ -3,10 +3,114 @@
  */
 
 import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
 import * as db from '../../shared/db.js';
+import { refundOrder, type RefundOutcome } from '../../shared/refunds.js';
 
 export const orderRoutes = Router();
 
+const STREAM_POLL_MS = parseInt(process.env.STREAM_POLL_INTERVAL_MS || '500', 10);
+/** Polls between keepalive comments, so idle proxies don't drop the connection */
+const STREAM_KEEPALIVE_POLLS = Math.max(1, Math.round(15_000 / STREAM_POLL_MS));
+/** Streams are closed after this long; clients reconnect with Last-Event-ID */
+const STREAM_MAX_DURATION_MS = parseInt(process.env.STREAM_MAX_DURATION_MS || '600000', 10);
+const TERMINAL_STATUSES = new Set(['completed', 'failed', 'cancelled', 'expired', 'dead_letter', 'refunded', 'rejected']);
+
+const bulkOrdersSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).max(100),
+});
+
+// =============================================================================
+// Dead letter (registered before /:id so the paths aren't taken as ids)
+// =============================================================================
+
+// List orders that ran out of retries
+orderRoutes.get('/dead-letter', async (req: Request, res: Response) => {
+  try {
+    const agentId = req.query.agentId as string | undefined;
+    if (agentId !== undefined && !z.string().uuid().safeParse(agentId).success) {
+      return res.status(400).json({ error: 'Invalid agentId' });
+    }
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 200);
+    const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0);
+
+    const orders = await db.getDeadLetterOrders({ agentId, limit, offset });
+    res.json({ orders, limit, offset });
+  } catch (err) {
+    console.error('Error listing dead-lettered orders:', err);
+    res.status(500).json({ error: 'Failed to list dead-lettered orders' });
+  }
+});
+
+// Inspect a dead-lettered order, with every attempt's error
+orderRoutes.get('/dead-letter/:id', async (req: Request, res: Response) => {
+  try {
+    const order = await db.getOrderById(req.params.id);
+    if (!order || order.status !== 'dead_letter') {
+      return res.status(404).json({ error: 'Dead-lettered order not found' });
+    }
+    res.json(order);
+  } catch (err) {
+    console.error('Error fetching dead-lettered order:', err);
+    res.status(500).json({ error: 'Failed to fetch dead-lettered order' });
+  }
+});
+
+// Queue dead-lettered orders to run again with a fresh set of attempts
+orderRoutes.post('/dead-letter/retry', async (req: Request, res: Response) => {
+  try {
+    const parsed = bulkOrdersSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Validation failed', details: parsed.error.issues });
+    }
+
+    const retried = await db.requeueOrders(parsed.data.ids, ['dead_letter']);
+    const skipped = parsed.data.ids.filter((id) => !retried.includes(id));
+    res.json({ retried, skipped });
+  } catch (err) {
+    console.error('Error retrying dead-lettered orders:', err);
+    res.status(500).json({ error: 'Failed to retry orders' });
+  }
+});
+
+// Refund dead-lettered orders' buyers, as far as the marketplace allows
+orderRoutes.post('/dead-letter/refund', async (req: Request, res: Response) => {
+  try {
+    const parsed = bulkOrdersSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Validation failed', details: parsed.error.issues });
+    }
+
+    const results: RefundOutcome[] = [];
+    for (const id of parsed.data.ids) {
+      const order = await db.getOrderById(id);
+      if (!order || order.status !== 'dead_letter') {
+        results.push({ id, refunded: false, reason: 'Not a dead-lettered order' });
+        continue;
+      }
+
+      try {
+        const outcome = await refundOrder(order);
+        if (outcome.refunded) {
+          await db.updateOrderStatus(order.id, 'refunded');
+        }
+        results.push(outcome);
+      } catch (err) {
+        results.push({ id, refunded: false, reason: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    res.json({ results });
+  } catch (err) {
+    console.error('Error refunding dead-lettered orders:', err);
+    res.status(500).json({ error: 'Failed to refund orders' });
+  }
+});
+
+// =============================================================================
+// Orders
+// =============================================================================
+
 // Get order by ID
 orderRoutes.get('/:id', async (req: Request, res: Response) => {
   try {
@@ -35,6 +139,96 @@ orderRoutes.get('/chain/:orderId', async (req: Request, res: Response) => {
   }
 });
 
+/** In-flight output polls by order, shared by every stream of that order */
+const outputPolls = new Map<string, ReturnType<typeof db.getOrderOutput>>();
+
+/**
+ * The order's output after the next poll interval. Streams waiting at the same
+ * time share one query.
+ */
+function pollOrderOutput(id: string): ReturnType<typeof db.getOrderOutput> {
+  let poll = outputPolls.get(id);
+  if (!poll) {
+    poll = new Promise((resolve) => setTimeout(resolve, STREAM_POLL_MS))
+      .then(() => db.getOrderOutput(id))
+      .finally(() => outputPolls.delete(id));
+    outputPolls.set(id, poll);
+  }
+  return poll;
+}
+
+// Stream an order's output as Server-Sent Events
+// Events: `chunk`, `reset` (a retry started over) and `end` (final status). Event ids are
+// `<attempt>:<offset>`, so a client reconnecting with Last-Event-ID (or ?from=) resumes
+// where it left off, or is told to reset if the order was retried in the meantime.
+// Streams still open after STREAM_MAX_DURATION_MS are closed without `end`; clients reconnect.
+orderRoutes.get('/:id/stream', async (req: Request, res: Response) => {
+  const openedAt = Date.now();
+  try {
+    const initial = await db.getOrderOutput(req.params.id);
+    if (!initial) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    let closed = false;
+    req.on('close', () => { closed = true; });
+
+    const send = (event: string, data: unknown, id?: string) => {
+      res.write(`${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const [resumeAttempt, resumeOffset] = String(req.get('Last-Event-ID') ?? req.query.from ?? '').split(':');
+    let attempt = resumeAttempt || undefined;
+    let offset = parseInt(resumeOffset, 10) || 0;
+    let output: Awaited<ReturnType<typeof db.getOrderOutput>> = initial;
+
+    for (let polls = 1; !closed && output; polls++) {
+      const currentAttempt = String(output.startedAt?.getTime() ?? 0);
+      const text = output.partialOutput ?? '';
+
+      if ((attempt !== undefined && attempt !== currentAttempt) || text.length < offset) {
+        if (offset > 0) send('reset', {}, `${currentAttempt}:0`);
+        offset = 0;
+      }
+      attempt = currentAttempt;
+
+      if (text.length > offset) {
+        send('chunk', { text: text.slice(offset) }, `${attempt}:${text.length}`);
+        offset = text.length;
+      }
+
+      if (TERMINAL_STATUSES.has(output.status)) {
+        send('end', {
+          status: output.status,
+          response: output.response ?? undefined,
+          error: output.errorMessage ?? undefined,
+        });
+        break;
+      }
+
+      if (Date.now() - openedAt >= STREAM_MAX_DURATION_MS) break;
+      if (polls % STREAM_KEEPALIVE_POLLS === 0) res.write(': keepalive\n\n');
+      output = await pollOrderOutput(req.params.id);
+    }
+
+    res.end();
+  } catch (err) {
+    console.error('Error streaming order:', err);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to stream order' });
+    } else {
+      res.end();
+    }
+  }
+});
+
 // Retry a failed order (for manual intervention)
 orderRoutes.post('/:id/retry', async (req: Request, res: Response) => {
   try {
@@ -43,11 +237,11 @@ orderRoutes.post('/:id/retry', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Order not found' });
     }
     
-    if (order.status !== 'failed' && order.status !== 'expired') {
-      return res.status(400).json({ error: 'Only failed or expired orders can be retried' });
+    const retried = await db.requeueOrders([order.id], ['failed', 'expired', 'dead_letter', 'rejected']);
+    if (retried.length === 0) {
+      return res.status(400).json({ error: 'Only failed, expired, dead-lettered or rejected orders can be retried' });
     }
     
-    await db.updateOrderStatus(order.id, 'pending', { errorMessage: undefined });
     res.json({ message: 'Order queued for retry' });
   } catch (err) {
     console.error('Error retrying order:', err);
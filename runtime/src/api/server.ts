@@ -10,6 +10,7 @@ import { agentRoutes } from './routes/agents.js';
 import { orderRoutes } from './routes/orders.js';
 import { pool } from '../shared/db.js';
 import { errorTracker } from '../utils/errors.js';
+import { registerBuiltinIntegrations } from '../integrations/tools.js';
 
 const logger = pino({ name: 'api' });
 const app = express();
@@ -106,6 +107,7 @@ const sensitiveLimiter = createRateLimiter(10, 60 * 1000);
 // =============================================================================
 
 const RUNTIME_API_KEY = process.env.RUNTIME_API_KEY;
+const OAUTH_CALLBACK_PATH = /^\/api\/agents\/[^/]+\/integrations\/[^/]+\/callback$/;
 
 function apiKeyAuth(req: express.Request, res: express.Response, next: express.NextFunction): void {
   if (!RUNTIME_API_KEY) {
@@ -120,6 +122,12 @@ function apiKeyAuth(req: express.Request, res: express.Response, next: express.N
     return;
   }
 
+  // OAuth provider redirects can't carry the API key; the signed state authenticates them
+  if (OAUTH_CALLBACK_PATH.test(req.path)) {
+    next();
+    return;
+  }
+
   const key = req.headers['x-api-key'] as string | undefined || req.query.apiKey as string | undefined;
   if (key !== RUNTIME_API_KEY) {
     res.status(401).json({ error: 'Unauthorized: invalid or missing API key' });
@@ -284,6 +292,7 @@ app.use((err: Error, req: express.Request, res: express.Response, _next: express
 });
 
 // Start server
+registerBuiltinIntegrations();
 app.listen(PORT, '0.0.0.0', () => {
   logger.info({ port: PORT }, 'API server started');
   if (RUNTIME_API_KEY) {
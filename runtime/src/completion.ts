@@ -0,0 +1,373 @@
+/**
+ * Completion Manager
+ * Crash-safe, idempotent on-chain order completion
+ * - Intended completions are persisted before any transaction is sent
+ * - Nonces are assigned locally and written ahead of each broadcast; a failed
+ *   broadcast hands its nonce back
+ * - Stuck transactions are replaced with bumped fees
+ * - Orders already completed on-chain are detected instead of resubmitted
+ * - Pending completions resume after a restart
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { Contract, Wallet, TransactionReceipt } from 'ethers';
+import type { CompletionRecord, CompletionOptions } from './types.js';
+import { OrderStatus } from './contracts.js';
+
+/** Failed or reverted broadcasts before a completion is abandoned */
+const MAX_ATTEMPTS = 3;
+
+interface CompletionSnapshot {
+  version: 1;
+  records: CompletionRecord[];
+}
+
+export interface CompletionHandlers {
+  /** The order is completed on-chain (txHash is '' if the completing tx couldn't be found) */
+  onConfirmed?: (orderId: string, txHash: string) => void;
+  /** The completion was abandoned */
+  onFailed?: (orderId: string, error: string) => void;
+}
+
+export class CompletionManager {
+  private marketplace: Contract;
+  private wallet: Wallet;
+  private file: string;
+  private confirmations: number;
+  private bumpAfterMs: number;
+  private bumpPercent: bigint;
+  private maxBumps: number;
+  private pollInterval: number;
+  private handlers: CompletionHandlers;
+
+  private records = new Map<string, CompletionRecord>();
+  private nextNonce?: number;
+  private freeNonces: number[] = [];
+  private timer?: ReturnType<typeof setInterval>;
+  private ticking = false;
+
+  constructor(marketplace: Contract, wallet: Wallet, options: CompletionOptions = {}, handlers: CompletionHandlers = {}) {
+    this.marketplace = marketplace;
+    this.wallet = wallet;
+    this.file = options.file ?? './data/completions.json';
+    this.confirmations = options.confirmations ?? 1;
+    this.bumpAfterMs = options.bumpAfterMs ?? 60_000;
+    this.bumpPercent = BigInt(options.bumpPercent ?? 20);
+    this.maxBumps = options.maxBumps ?? 5;
+    this.pollInterval = options.pollInterval ?? 5000;
+    this.handlers = handlers;
+    this.load();
+  }
+
+  /** Completions not yet final */
+  get size(): number {
+    return this.records.size;
+  }
+
+  has(orderId: string): boolean {
+    return this.records.has(orderId);
+  }
+
+  /**
+   * Record the intent to complete an order. Once this returns, the completion
+   * survives restarts; it is sent on the next tick.
+   */
+  enqueue(completion: { orderId: string; resultURI: string; resultHash: string; deadline: number }): void {
+    if (this.records.has(completion.orderId)) return;
+
+    this.records.set(completion.orderId, {
+      ...completion,
+      status: 'pending',
+      txHashes: [],
+      bumps: 0,
+      attempts: 0,
+      createdAt: Date.now(),
+    });
+    this.persist();
+    void this.tick();
+  }
+
+  start(): void {
+    if (this.timer) return;
+    if (this.records.size > 0) {
+      console.log(`[Completion] Resuming ${this.records.size} pending completions`);
+    }
+    this.timer = setInterval(() => void this.tick(), this.pollInterval);
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // ============================================================================
+  // Processing
+  // ============================================================================
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      // One at a time so nonces are handed out in order
+      for (const record of [...this.records.values()]) {
+        try {
+          await this.advance(record);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          console.error(`[Completion] Order ${record.orderId.slice(0, 10)}...: ${message}`);
+          record.lastError = message;
+          if (record.status === 'pending') record.attempts++;
+          this.persist();
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async advance(record: CompletionRecord): Promise<void> {
+    // A broadcast may have been mined since the last tick
+    if (record.status === 'submitted') {
+      const receipt = await this.findReceipt(record);
+      if (receipt?.status === 1) {
+        if (await receipt.confirmations() >= this.confirmations) {
+          this.finish(record, receipt.hash);
+        }
+        return;
+      }
+      if (receipt) {
+        // Reverted: the nonce is spent, so any retry needs a new one
+        console.warn(`[Completion] Transaction ${receipt.hash} reverted`);
+        this.release(record);
+        record.attempts++;
+        this.persist();
+      }
+    }
+
+    const order = await this.marketplace.orders(record.orderId);
+    const status = Number(order.status);
+
+    if (status === OrderStatus.Completed) {
+      // Completed by a broadcast we lost track of, e.g. before a crash
+      this.finish(record, await this.findCompletionTx(record.orderId));
+      return;
+    }
+    if (status !== OrderStatus.Pending) {
+      this.fail(record, `Order is no longer pending (status ${OrderStatus[status] ?? status})`);
+      return;
+    }
+
+    if (record.status === 'submitted') {
+      const latestNonce = await this.wallet.provider!.getTransactionCount(this.wallet.address, 'latest');
+      if (latestNonce > record.nonce!) {
+        // Nonce used by another transaction and none of ours was mined: send again
+        console.warn(`[Completion] Nonce ${record.nonce} was consumed elsewhere, resending`);
+        this.release(record);
+        this.persist();
+        return;
+      }
+
+      if (Date.now() - (record.lastSentAt ?? 0) >= this.bumpAfterMs && record.bumps < this.maxBumps) {
+        await this.send(record, true);
+      }
+      return;
+    }
+
+    if (record.attempts >= MAX_ATTEMPTS) {
+      this.fail(record, record.lastError ?? 'Too many failed attempts');
+      return;
+    }
+    if (Date.now() / 1000 > record.deadline) {
+      this.fail(record, 'Deadline passed before completion was mined');
+      return;
+    }
+
+    await this.send(record, false);
+  }
+
+  /**
+   * Broadcast a completion, or replace the current one with higher fees
+   */
+  private async send(record: CompletionRecord, replace: boolean): Promise<void> {
+    const { orderId, resultURI, resultHash } = record;
+    const tx = await this.marketplace.completeOrder.populateTransaction(orderId, resultURI, resultHash);
+
+    if (!replace) {
+      // Surface reverts (deadline, not seller, ...) before paying for them
+      await this.marketplace.completeOrder.staticCall(orderId, resultURI, resultHash);
+      record.nonce = await this.reserveNonce();
+    } else {
+      record.bumps++;
+    }
+
+    const previousFees = record.fees;
+    let sent;
+    try {
+      record.fees = await this.nextFees(replace ? previousFees : undefined);
+      record.status = 'submitted';
+      // Write ahead: nonce and fees are on disk before the transaction exists
+      this.persist();
+
+      sent = await this.wallet.sendTransaction({
+        ...tx,
+        nonce: record.nonce,
+        ...toFeeFields(record.fees),
+      });
+    } catch (error) {
+      if (replace) {
+        // The transaction being replaced is still live at its old fees
+        record.fees = previousFees;
+      } else {
+        // Nothing went out: hand the nonce back and count the attempt
+        this.releaseNonce(record.nonce!);
+        this.release(record);
+      }
+      this.persist();
+      throw error;
+    }
+    record.txHashes.push(sent.hash);
+    record.lastSentAt = Date.now();
+    this.persist();
+
+    console.log(
+      `[Completion] ${replace ? `Replaced (bump ${record.bumps})` : 'Submitted'} order ` +
+      `${orderId.slice(0, 10)}... nonce ${record.nonce}: ${sent.hash}`
+    );
+  }
+
+  private async reserveNonce(): Promise<number> {
+    const chainNonce = await this.wallet.provider!.getTransactionCount(this.wallet.address, 'pending');
+    // Reuse nonces handed back before they were broadcast, so they leave no gap
+    this.freeNonces = this.freeNonces.filter((n) => n >= chainNonce).sort((a, b) => a - b);
+    const free = this.freeNonces.shift();
+    if (free !== undefined) return free;
+
+    const nonce = Math.max(chainNonce, this.nextNonce ?? 0);
+    this.nextNonce = nonce + 1;
+    return nonce;
+  }
+
+  /** Give back a reserved nonce that was never broadcast */
+  private releaseNonce(nonce: number): void {
+    if (this.nextNonce === nonce + 1) {
+      this.nextNonce = nonce;
+    } else {
+      this.freeNonces.push(nonce);
+    }
+  }
+
+  /**
+   * Current network fees; replacements pay at least bumpPercent more than before
+   */
+  private async nextFees(previous?: CompletionRecord['fees']): Promise<NonNullable<CompletionRecord['fees']>> {
+    const feeData = await this.wallet.provider!.getFeeData();
+    const bump = (value?: string) => value ? (BigInt(value) * (100n + this.bumpPercent)) / 100n : 0n;
+    const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      return {
+        maxFeePerGas: max(feeData.maxFeePerGas, bump(previous?.maxFeePerGas)).toString(),
+        maxPriorityFeePerGas: max(feeData.maxPriorityFeePerGas, bump(previous?.maxPriorityFeePerGas)).toString(),
+      };
+    }
+
+    return {
+      gasPrice: max(feeData.gasPrice ?? 0n, bump(previous?.gasPrice)).toString(),
+    };
+  }
+
+  private async findReceipt(record: CompletionRecord): Promise<TransactionReceipt | null> {
+    for (const hash of [...record.txHashes].reverse()) {
+      const receipt = await this.wallet.provider!.getTransactionReceipt(hash);
+      if (receipt) return receipt;
+    }
+    return null;
+  }
+
+  private async findCompletionTx(orderId: string): Promise<string> {
+    try {
+      const events = await this.marketplace.queryFilter(this.marketplace.filters.OrderCompleted(orderId));
+      return events[0]?.transactionHash ?? '';
+    } catch {
+      return '';
+    }
+  }
+
+  /** Forget the live transaction so the next tick sends a fresh one */
+  private release(record: CompletionRecord): void {
+    record.status = 'pending';
+    record.nonce = undefined;
+    record.fees = undefined;
+    record.bumps = 0;
+    record.lastSentAt = undefined;
+  }
+
+  private finish(record: CompletionRecord, txHash: string): void {
+    this.records.delete(record.orderId);
+    this.persist();
+    console.log(`[Completion] Order ${record.orderId.slice(0, 10)}... completed${txHash ? `: ${txHash}` : ' (already on-chain)'}`);
+    this.handlers.onConfirmed?.(record.orderId, txHash);
+  }
+
+  private fail(record: CompletionRecord, error: string): void {
+    // Reserved before a crash, never broadcast
+    if (record.status === 'submitted' && record.nonce !== undefined && record.lastSentAt === undefined) {
+      this.releaseNonce(record.nonce);
+    }
+    this.records.delete(record.orderId);
+    this.persist();
+    console.error(`[Completion] Giving up on order ${record.orderId.slice(0, 10)}...: ${error}`);
+    this.handlers.onFailed?.(record.orderId, error);
+  }
+
+  // ============================================================================
+  // Persistence
+  // ============================================================================
+
+  private load(): void {
+    try {
+      if (!existsSync(this.file)) return;
+      const snapshot = JSON.parse(readFileSync(this.file, 'utf-8')) as CompletionSnapshot;
+      for (const record of snapshot.records ?? []) {
+        this.records.set(record.orderId, record);
+        if (record.nonce !== undefined) {
+          this.nextNonce = Math.max(this.nextNonce ?? 0, record.nonce + 1);
+        }
+      }
+    } catch (error) {
+      console.error('[Completion] Failed to load completion state:', error);
+    }
+  }
+
+  private persist(): void {
+    const snapshot: CompletionSnapshot = {
+      version: 1,
+      records: [...this.records.values()],
+    };
+
+    try {
+      const dir = dirname(this.file);
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+      const tmp = `${this.file}.tmp`;
+      writeFileSync(tmp, JSON.stringify(snapshot));
+      renameSync(tmp, this.file);
+    } catch (error) {
+      console.error('[Completion] Failed to persist completion state:', error);
+    }
+  }
+}
+
+function toFeeFields(fees: CompletionRecord['fees']) {
+  if (fees?.maxFeePerGas !== undefined) {
+    return {
+      maxFeePerGas: BigInt(fees.maxFeePerGas),
+      maxPriorityFeePerGas: BigInt(fees.maxPriorityFeePerGas ?? '0'),
+    };
+  }
+  return { gasPrice: BigInt(fees?.gasPrice ?? '0') };
+}
@@ -0,0 +1,34 @@
+/**
+ * Contract Bindings
+ * Minimal ABIs and enums for the contracts the runtime talks to
+ */
+
+export const REGISTRY_ABI = [
+  'function agents(address) view returns (address owner, string did, string metadataURI, uint256 reputationScore, uint256 totalEarned, uint256 totalSpent, uint256 registeredAt, bool active)',
+  'function services(bytes32) view returns (address agent, string serviceType, uint256 pricePerUnit, string metadataURI, bool active)',
+  'function getAgentServices(address agent) view returns (bytes32[])',
+  'function isActiveAgent(address agent) view returns (bool)',
+];
+
+export const MARKETPLACE_ABI = [
+  'function orders(bytes32) view returns (bytes32 serviceId, address buyer, address seller, uint256 units, uint256 totalPrice, uint256 createdAt, uint256 deadline, uint8 status, string resultURI, bytes resultHash)',
+  'function getAgentOrders(address agent) view returns (bytes32[])',
+  'function completeOrder(bytes32 orderId, string resultURI, bytes resultHash)',
+  'function feeCollector() view returns (address)',
+  'function resolveDispute(bytes32 orderId, bool refundBuyer)',
+  'event OrderCreated(bytes32 indexed orderId, bytes32 indexed serviceId, address buyer, address seller, uint256 totalPrice)',
+  'event OrderCompleted(bytes32 indexed orderId, string resultURI)',
+  'event OrderDisputed(bytes32 indexed orderId, string reason)',
+  'event OrderCancelled(bytes32 indexed orderId)',
+  'event OrderRefunded(bytes32 indexed orderId, uint256 amount)',
+];
+
+/** Mirrors AgentMarketplace.OrderStatus */
+export enum OrderStatus {
+  Pending = 0,
+  Completed = 1,
+  Disputed = 2,
+  Cancelled = 3,
+  Refunded = 4,
+  DisputeResolved = 5,
+}
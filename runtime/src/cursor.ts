@@ -0,0 +1,234 @@
+/**
+ * Block Cursor
+ * Single ingestion path for marketplace events
+ * - Scans OrderCreated / OrderCancelled / OrderDisputed logs in bounded block ranges
+ * - Persists the last processed block so restarts pick up where they left off
+ * - Keeps the hashes of the last reorgDepth processed blocks and, before each
+ *   range, rescans from the first of them that was reorged out
+ * Events may be delivered more than once (after a crash or reorg); handlers must be idempotent.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { Contract, Provider, Log } from 'ethers';
+import type { BlockCursorOptions, MarketplaceLogEvent } from './types.js';
+
+interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+interface CursorSnapshot {
+  version: 2;
+  lastBlock: number;
+  /** Most recent processed blocks, oldest first */
+  blocks: BlockRef[];
+}
+
+/** Snapshot written by older runtimes, with only the last block's hash */
+interface LegacyCursorSnapshot {
+  version: 1;
+  lastBlock: number;
+  lastBlockHash: string;
+}
+
+export class BlockCursor {
+  private provider: Provider;
+  private marketplace: Contract;
+  private file: string;
+  private startBlock?: number;
+  private reorgDepth: number;
+  private maxBlockRange: number;
+  private onEvent: (event: MarketplaceLogEvent) => Promise<void>;
+
+  /** Processed blocks near the tip, oldest first; empty before the first scan */
+  private blocks: BlockRef[] = [];
+  private scanning = false;
+
+  constructor(
+    provider: Provider,
+    marketplace: Contract,
+    onEvent: (event: MarketplaceLogEvent) => Promise<void>,
+    options: BlockCursorOptions = {}
+  ) {
+    this.provider = provider;
+    this.marketplace = marketplace;
+    this.onEvent = onEvent;
+    this.file = options.file ?? './data/block-cursor.json';
+    this.startBlock = options.startBlock;
+    this.reorgDepth = Math.max(1, options.reorgDepth ?? 12);
+    this.maxBlockRange = options.maxBlockRange ?? 2000;
+    this.load();
+  }
+
+  /** Last fully processed block, if any */
+  get lastBlock(): number | undefined {
+    return this.blocks.at(-1)?.number;
+  }
+
+  /**
+   * Whether there is no persisted position and no configured start block,
+   * i.e. the caller should backfill existing orders another way
+   */
+  get needsBootstrap(): boolean {
+    return this.blocks.length === 0 && this.startBlock === undefined;
+  }
+
+  /**
+   * Start scanning after the given block (used after a bootstrap sweep)
+   */
+  async resetTo(blockNumber: number): Promise<void> {
+    this.blocks = [await this.fetchBlock(blockNumber)];
+    this.persist();
+  }
+
+  /**
+   * Process all logs up to the current head. Overlapping calls are ignored.
+   */
+  async scan(): Promise<void> {
+    if (this.scanning) return;
+    this.scanning = true;
+
+    try {
+      const head = await this.provider.getBlockNumber();
+      let from = await this.resumeFrom();
+
+      let range = this.maxBlockRange;
+      while (from <= head) {
+        const to = Math.min(from + range - 1, head);
+
+        // Hashes are read before the logs, so a reorg in between is caught below
+        const blocks = await this.fetchTail(from, to);
+        let logs: Log[];
+        try {
+          logs = await this.provider.getLogs({
+            address: await this.marketplace.getAddress(),
+            fromBlock: from,
+            toBlock: to,
+            topics: [[
+              this.marketplace.interface.getEvent('OrderCreated')!.topicHash,
+              this.marketplace.interface.getEvent('OrderCancelled')!.topicHash,
+              this.marketplace.interface.getEvent('OrderDisputed')!.topicHash,
+            ]],
+          });
+        } catch (error) {
+          // Providers cap range or result size; retry smaller before giving up
+          if (range > 1) {
+            range = Math.max(1, Math.floor(range / 2));
+            continue;
+          }
+          throw error;
+        }
+
+        logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+        for (const log of logs) {
+          const event = this.parse(log);
+          if (event) await this.onEvent(event);
+        }
+
+        // Only advance once every event in the range has been handled
+        this.blocks = [...this.blocks.filter((b) => b.number < from), ...blocks].slice(-this.reorgDepth);
+        this.persist();
+
+        // A reorg may have happened while this range was processed
+        from = await this.resumeFrom();
+      }
+    } finally {
+      this.scanning = false;
+    }
+  }
+
+  /**
+   * Next block to scan. Recent blocks are checked newest first; if any were
+   * reorged out, scanning resumes at the oldest of them so every replaced
+   * block is scanned again.
+   */
+  private async resumeFrom(): Promise<number> {
+    const last = this.blocks.at(-1);
+    if (!last) {
+      return this.startBlock ?? (await this.provider.getBlockNumber());
+    }
+
+    let kept = this.blocks.length;
+    while (kept > 0) {
+      const { number, hash } = this.blocks[kept - 1];
+      const block = await this.provider.getBlock(number);
+      if (block?.hash === hash) break;
+      kept--;
+    }
+    if (kept === this.blocks.length) return last.number + 1;
+
+    const rewindTo = this.blocks[kept].number;
+    if (kept === 0) {
+      console.warn(`[Cursor] Reorg deeper than the ${this.blocks.length} tracked blocks, rescanning from ${rewindTo}`);
+    } else {
+      console.warn(`[Cursor] Reorg detected at block ${rewindTo}, rescanning from it`);
+    }
+    // The replaced blocks are dropped once the rescan records them again
+    return rewindTo;
+  }
+
+  /**
+   * The last reorgDepth blocks of a range
+   */
+  private fetchTail(from: number, to: number): Promise<BlockRef[]> {
+    const first = Math.max(from, to - this.reorgDepth + 1);
+    return Promise.all(Array.from({ length: to - first + 1 }, (_, i) => this.fetchBlock(first + i)));
+  }
+
+  private async fetchBlock(blockNumber: number): Promise<BlockRef> {
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block?.hash) throw new Error(`Block ${blockNumber} not found`);
+    return { number: blockNumber, hash: block.hash };
+  }
+
+  private parse(log: Log): MarketplaceLogEvent | undefined {
+    const parsed = this.marketplace.interface.parseLog(log);
+    if (!parsed) return undefined;
+
+    const orderId = parsed.args.orderId as string;
+    switch (parsed.name) {
+      case 'OrderCreated':
+        return { type: 'created', orderId, seller: parsed.args.seller as string, blockNumber: log.blockNumber };
+      case 'OrderCancelled':
+        return { type: 'cancelled', orderId, blockNumber: log.blockNumber };
+      case 'OrderDisputed':
+        return { type: 'disputed', orderId, reason: parsed.args.reason as string, blockNumber: log.blockNumber };
+      default:
+        return undefined;
+    }
+  }
+
+  // ============================================================================
+  // Persistence
+  // ============================================================================
+
+  private load(): void {
+    try {
+      if (!existsSync(this.file)) return;
+      const snapshot = JSON.parse(readFileSync(this.file, 'utf-8')) as CursorSnapshot | LegacyCursorSnapshot;
+      this.blocks = snapshot.version === 1
+        ? [{ number: snapshot.lastBlock, hash: snapshot.lastBlockHash }]
+        : snapshot.blocks;
+      console.log(`[Cursor] Resuming after block ${snapshot.lastBlock}`);
+    } catch (error) {
+      console.error('[Cursor] Failed to load cursor state:', error);
+    }
+  }
+
+  private persist(): void {
+    const last = this.blocks.at(-1);
+    if (!last) return;
+    const snapshot: CursorSnapshot = { version: 2, lastBlock: last.number, blocks: this.blocks };
+
+    try {
+      const dir = dirname(this.file);
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+      const tmp = `${this.file}.tmp`;
+      writeFileSync(tmp, JSON.stringify(snapshot));
+      renameSync(tmp, this.file);
+    } catch (error) {
+      console.error('[Cursor] Failed to persist cursor state:', error);
+    }
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Model Executor Adapter
+ * Runs an order through a model executor (BaseExecutor) and returns a TaskResult
+ */
+
+import type { JsonSchema, ResultOutput, ServiceTemplate, TaskInput, TaskResult } from '../types.js';
+import { buildResultOutput } from '../result.js';
+import { validateSchema } from '../schema.js';
+import { renderTemplate } from '../template.js';
+import type { BaseExecutor, ExecutorInput, ExecutorResult } from './base.js';
+import type { CacheHit } from './cache.js';
+import { TaskExecutor } from './task.js';
+
+export interface ModelExecutorAdapterOptions {
+  /** Service types to claim explicitly (default: none, routed by provider) */
+  serviceTypes?: string[];
+  /** Build the model request for an order (default: the service template, else payload as JSON prompt) */
+  buildInput?: (task: TaskInput) => ExecutorInput;
+  /** Key for signing proofs (default: unsigned, signed by the runtime) */
+  privateKey?: string;
+}
+
+export class ModelExecutorAdapter extends TaskExecutor {
+  id: string;
+  name: string;
+  serviceTypes: string[];
+
+  readonly model: BaseExecutor;
+  private inputBuilder?: (task: TaskInput) => ExecutorInput;
+
+  constructor(model: BaseExecutor, options: ModelExecutorAdapterOptions = {}) {
+    super(options.privateKey);
+    this.model = model;
+    this.id = model.id;
+    this.name = model.name;
+    this.serviceTypes = options.serviceTypes ?? [];
+    this.inputBuilder = options.buildInput;
+  }
+
+  get provider(): string {
+    return this.model.provider;
+  }
+
+  /**
+   * Model request for an order; a routed model overrides the built one
+   */
+  buildModelInput(task: TaskInput): ExecutorInput {
+    const built = this.inputBuilder?.(task)
+      ?? (task.template ? buildTemplateInput(task, task.template) : defaultBuildInput(task));
+    const input = { ...built, signal: task.signal };
+    return task.model ? { ...input, model: task.model } : input;
+  }
+
+  /**
+   * Rough USD cost of a request aborted mid-flight: the prompt is billed once
+   * accepted; partial output is unknown and not counted
+   */
+  estimatePromptCost(task: TaskInput): number {
+    const input = this.buildModelInput(task);
+    const model = input.model || this.model.defaultModel;
+    const pricing = this.model.pricing[model] || this.model.pricing[this.model.defaultModel];
+    return (estimateTokens(input.prompt + (input.systemPrompt ?? '')) / 1_000_000) * pricing.input;
+  }
+
+  async execute(task: TaskInput): Promise<TaskResult> {
+    const startTime = Date.now();
+
+    try {
+      const input = this.buildModelInput(task);
+      const schema = task.template?.outputSchema;
+      // Output that may still need repairing isn't streamed
+      let result = task.onOutput && !schema
+        ? await this.executeStreaming(input, task.onOutput)
+        : await this.model.execute(input);
+      let tokensUsed = result.usage.totalTokens;
+      let costUsd = result.cost.total;
+
+      if (schema) {
+        let errors = replyErrors(result, schema);
+        const maxRepairs = task.template?.maxRepairs ?? 1;
+        for (let repair = 0; errors && errors.length > 0 && repair < maxRepairs; repair++) {
+          result = await this.model.execute(buildRepairInput(input, result.content, errors, schema));
+          tokensUsed += result.usage.totalTokens;
+          costUsd += result.cost.total;
+          errors = replyErrors(result, schema);
+        }
+
+        if (errors && errors.length > 0) {
+          return {
+            ...this.createFailedResult(task, `Output does not match the schema: ${errors.slice(0, 5).join('; ')}`, startTime),
+            metadata: this.createMetadata(startTime, { modelUsed: result.model, tokensUsed, costUsd }),
+          };
+        }
+      }
+
+      if (!result.success) {
+        return this.createFailedResult(task, result.error ?? (result.content || 'Unknown error'), startTime);
+      }
+
+      const output = resultOutput(result);
+      const cache = result.metadata?.cache as CacheHit | undefined;
+      const proof = await this.createProof(task.payload, result.content, {
+        evidence: cache ? { cacheKey: cache.key, cachedAt: cache.cachedAt } : undefined,
+      });
+
+      return this.createSuccessResult(output, proof, startTime, {
+        modelUsed: result.model,
+        tokensUsed,
+        costUsd,
+        ...(cache && { cacheHit: true }),
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return this.createFailedResult(task, message, startTime);
+    }
+  }
+
+  /**
+   * Run through the model's stream(), forwarding chunks. Streams don't report
+   * usage, so tokens and cost are estimated. A cached reply is forwarded whole.
+   */
+  private async executeStreaming(input: ExecutorInput, onOutput: (chunk: string) => void): Promise<ExecutorResult> {
+    const cached = await this.model.cached?.(input);
+    if (cached) {
+      onOutput(cached.content);
+      return cached;
+    }
+
+    const model = input.model || this.model.defaultModel;
+    let content = '';
+    for await (const chunk of this.model.stream({ ...input, stream: true })) {
+      content += chunk;
+      onOutput(chunk);
+    }
+
+    const pricing = this.model.pricing[model] || this.model.pricing[this.model.defaultModel];
+    const promptTokens = estimateTokens(input.prompt + (input.systemPrompt ?? ''));
+    const completionTokens = estimateTokens(content);
+    const cost = {
+      input: (promptTokens / 1_000_000) * pricing.input,
+      output: (completionTokens / 1_000_000) * pricing.output,
+    };
+
+    return {
+      success: true,
+      content,
+      model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      cost: { ...cost, total: cost.input + cost.output },
+      metadata: { streamed: true, usageEstimated: true },
+    };
+  }
+}
+
+/** Same 4 chars per token heuristic as BaseExecutor.estimateCost */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Render the service template over the order's input. The output schema is
+ * passed on as the responseSchema.
+ */
+function buildTemplateInput(task: TaskInput, template: ServiceTemplate): ExecutorInput {
+  const context = { input: task.payload ?? {} };
+  return {
+    prompt: template.user !== undefined ? renderTemplate(template.user, context) : JSON.stringify(task.payload ?? {}),
+    systemPrompt: template.system !== undefined
+      ? renderTemplate(template.system, context)
+      : `Process ${task.serviceType} order ${task.orderId}`,
+    maxTokens: template.maxTokens ?? 4096,
+    temperature: template.temperature,
+    responseSchema: template.outputSchema,
+  };
+}
+
+/**
+ * Output for a reply, preferring the executor's parsed structured value
+ */
+function resultOutput(result: ExecutorResult): ResultOutput {
+  const output = buildResultOutput(result.content, result.metadata);
+  if (result.structured !== undefined) output.structured = result.structured;
+  return output;
+}
+
+/**
+ * Why a reply doesn't match the schema; undefined when it failed for another
+ * reason. Executors that ignore responseSchema are validated here.
+ */
+function replyErrors(result: ExecutorResult, schema: JsonSchema): string[] | undefined {
+  if (result.schemaErrors) return result.schemaErrors;
+  if (!result.success) return undefined;
+  const { structured } = resultOutput(result);
+  if (structured === undefined) return ['Output is not JSON'];
+  return validateSchema(structured, schema);
+}
+
+/**
+ * Original request plus the rejected reply and what was wrong with it
+ */
+function buildRepairInput(input: ExecutorInput, reply: string, errors: string[], schema: JsonSchema): ExecutorInput {
+  return {
+    ...input,
+    prompt: [
+      input.prompt,
+      `Your previous reply was:\n${reply}`,
+      `It does not match the required JSON Schema:\n${errors.map((e) => `- ${e}`).join('\n')}`,
+      `Reply again with only JSON matching this schema:\n${JSON.stringify(schema)}`,
+    ].join('\n\n'),
+  };
+}
+
+function defaultBuildInput(task: TaskInput): ExecutorInput {
+  return {
+    prompt: JSON.stringify(task.payload ?? {}),
+    systemPrompt: `Process ${task.serviceType} order ${task.orderId}`,
+    maxTokens: 4096,
+  };
+}
@@ -5,6 +5,8 @@
 
 import { BaseExecutor, ExecutorInput, ExecutorResult, ToolDefinition } from './base.js';
 
+const STRUCTURED_RESPONSE_TOOL = 'structured_response';
+
 export class AnthropicExecutor extends BaseExecutor {
   id = 'anthropic';
   name = 'Anthropic Claude';
@@ -66,8 +68,9 @@ export class AnthropicExecutor extends BaseExecutor {
       temperature: input.temperature ?? 0.7,
     };
 
-    if (input.systemPrompt) {
-      body.system = input.systemPrompt;
+    const systemPrompt = this.systemPromptFor(input);
+    if (systemPrompt) {
+      body.system = systemPrompt;
     }
 
     if (input.tools && input.tools.length > 0) {
@@ -78,6 +81,17 @@ export class AnthropicExecutor extends BaseExecutor {
       }));
     }
 
+    // No JSON mode: force a tool whose input is the schema, unless the caller has tools of its own
+    const structuredTool = !!input.responseSchema && input.responseSchema.type === 'object' && !body.tools;
+    if (structuredTool) {
+      body.tools = [{
+        name: STRUCTURED_RESPONSE_TOOL,
+        description: 'Respond with the structured result',
+        input_schema: input.responseSchema,
+      }];
+      body.tool_choice = { type: 'tool', name: STRUCTURED_RESPONSE_TOOL };
+    }
+
     const response = await fetch(`${this.baseUrl}/v1/messages`, {
       method: 'POST',
       headers: {
@@ -86,6 +100,7 @@ export class AnthropicExecutor extends BaseExecutor {
         'anthropic-version': '2023-06-01',
       },
       body: JSON.stringify(body),
+      signal: input.signal,
     });
 
     if (!response.ok) {
@@ -95,15 +110,20 @@ export class AnthropicExecutor extends BaseExecutor {
 
     const data = await response.json();
     
-    // Extract text content
-    const textContent = data.content
-      ?.filter((c: any) => c.type === 'text')
-      ?.map((c: any) => c.text)
-      ?.join('') || '';
+    // Extract text content (or the forced tool's input)
+    const structuredResponse = structuredTool
+      ? data.content?.find((c: any) => c.type === 'tool_use' && c.name === STRUCTURED_RESPONSE_TOOL)
+      : undefined;
+    const textContent = structuredResponse
+      ? JSON.stringify(structuredResponse.input)
+      : data.content
+        ?.filter((c: any) => c.type === 'text')
+        ?.map((c: any) => c.text)
+        ?.join('') || '';
 
     const usage = data.usage || { input_tokens: 0, output_tokens: 0 };
     
-    return {
+    return this.applyResponseSchema(input, {
       success: true,
       content: textContent,
       model,
@@ -117,7 +137,7 @@ export class AnthropicExecutor extends BaseExecutor {
         stopReason: data.stop_reason,
         toolUse: data.content?.filter((c: any) => c.type === 'tool_use'),
       },
-    };
+    });
   }
 
   async *stream(input: ExecutorInput): AsyncGenerator<string, void, unknown> {
@@ -133,8 +153,9 @@ export class AnthropicExecutor extends BaseExecutor {
       stream: true,
     };
 
-    if (input.systemPrompt) {
-      body.system = input.systemPrompt;
+    const systemPrompt = this.systemPromptFor(input);
+    if (systemPrompt) {
+      body.system = systemPrompt;
     }
 
     const response = await fetch(`${this.baseUrl}/v1/messages`, {
@@ -145,6 +166,7 @@ export class AnthropicExecutor extends BaseExecutor {
         'anthropic-version': '2023-06-01',
       },
       body: JSON.stringify(body),
+      signal: input.signal,
     });
 
     if (!response.ok) {
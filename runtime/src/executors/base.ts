@@ -3,15 +3,22 @@
  * All AI model executors implement this interface
  */
 
+import type { JsonSchema } from '../types.js';
+import { parseStructured } from '../result.js';
+import { validateSchema } from '../schema.js';
+
 export interface ExecutorInput {
   prompt: string;
   systemPrompt?: string;
   model?: string;
   maxTokens?: number;
   temperature?: number;
+  seed?: number; // Sampling seed, for providers that support reproducible output
   stream?: boolean;
   tools?: ToolDefinition[];
   images?: string[]; // Base64 or URLs
+  signal?: AbortSignal; // Aborts the provider request (e.g. order deadline)
+  responseSchema?: JsonSchema; // Reply with JSON matching this schema (native JSON mode where the provider has one)
 }
 
 export interface ExecutorResult {
@@ -29,6 +36,12 @@ export interface ExecutorResult {
     total: number;
   };
   metadata?: Record<string, any>;
+  /** Parsed reply, when responseSchema was given and the reply matched it */
+  structured?: unknown;
+  /** Why the reply didn't match responseSchema (success is then false) */
+  schemaErrors?: string[];
+  /** Failure reason when success is false */
+  error?: string;
 }
 
 export interface ToolDefinition {
@@ -62,6 +75,18 @@ export abstract class BaseExecutor {
   
   abstract stream(input: ExecutorInput): AsyncGenerator<string, void, unknown>;
 
+  /**
+   * Refresh `models` from the endpoint, for executors whose models aren't known
+   * up front. Called when the runtime starts.
+   */
+  discoverModels?(): Promise<string[]>;
+
+  /**
+   * Reply for a request served without calling the provider, or null. Lets
+   * callers that stream use a response cache.
+   */
+  cached?(input: ExecutorInput): Promise<ExecutorResult | null>;
+
   estimateCost(input: ExecutorInput): CostEstimate {
     const model = input.model || this.defaultModel;
     const pricing = this.pricing[model] || this.pricing[this.defaultModel];
@@ -80,6 +105,39 @@ export abstract class BaseExecutor {
     };
   }
 
+  /**
+   * System prompt plus, with a responseSchema, the instruction to reply in
+   * matching JSON. Native JSON modes are given it too: some require JSON to be
+   * asked for, and most don't enforce every schema keyword.
+   */
+  protected systemPromptFor(input: ExecutorInput): string | undefined {
+    if (!input.responseSchema) return input.systemPrompt;
+    const instruction = `Reply with only JSON matching this schema:\n${JSON.stringify(input.responseSchema)}`;
+    return input.systemPrompt ? `${input.systemPrompt}\n\n${instruction}` : instruction;
+  }
+
+  /**
+   * Parse and validate a reply against responseSchema. A reply that doesn't
+   * match fails with schemaErrors, so callers can ask the model to fix it.
+   */
+  protected applyResponseSchema(input: ExecutorInput, result: ExecutorResult): ExecutorResult {
+    if (!input.responseSchema || !result.success) return result;
+
+    const structured = parseStructured(result.content);
+    const schemaErrors = structured === undefined
+      ? ['Reply is not JSON']
+      : validateSchema(structured, input.responseSchema);
+    if (schemaErrors.length === 0) {
+      return { ...result, structured };
+    }
+    return {
+      ...result,
+      success: false,
+      schemaErrors,
+      error: `Reply does not match the schema: ${schemaErrors.slice(0, 5).join('; ')}`,
+    };
+  }
+
   protected calculateCost(model: string, promptTokens: number, completionTokens: number) {
     const pricing = this.pricing[model] || this.pricing[this.defaultModel];
     return {
@@ -89,48 +147,3 @@ export abstract class BaseExecutor {
     };
   }
 }
-
-export class ExecutorRegistry {
-  private executors: Map<string, BaseExecutor> = new Map();
-
-  register(executor: BaseExecutor): void {
-    this.executors.set(executor.id, executor);
-    console.log(`Registered executor: ${executor.name} (${executor.provider})`);
-  }
-
-  get(id: string): BaseExecutor | undefined {
-    return this.executors.get(id);
-  }
-
-  getByProvider(provider: string): BaseExecutor[] {
-    return Array.from(this.executors.values()).filter(e => e.provider === provider);
-  }
-
-  list(): BaseExecutor[] {
-    return Array.from(this.executors.values());
-  }
-
-  getForServiceType(serviceType: string): BaseExecutor | undefined {
-    // Map service types to appropriate executors
-    const mapping: Record<string, string[]> = {
-      'text-generation': ['openai', 'anthropic', 'google', 'deepseek'],
-      'code-review': ['anthropic', 'openai', 'deepseek'],
-      'sentiment-analysis': ['openai', 'google', 'anthropic'],
-      'translation': ['google', 'openai', 'deepseek'],
-      'image-analysis': ['openai', 'google', 'anthropic'],
-      'reasoning': ['openai', 'anthropic', 'deepseek'],
-    };
-
-    const preferredProviders = mapping[serviceType] || ['openai'];
-    
-    for (const provider of preferredProviders) {
-      const executors = this.getByProvider(provider);
-      if (executors.length > 0) return executors[0];
-    }
-    
-    // Fallback to first available
-    return this.executors.values().next().value;
-  }
-}
-
-export const executorRegistry = new ExecutorRegistry();
@@ -0,0 +1,142 @@
+/**
+ * Caching Executor
+ * Serves identical model requests from a response cache. Wraps a model
+ * executor; requests are keyed by provider, model, messages and parameters,
+ * and only successful replies are cached.
+ */
+
+import type { CachedResponse, ResponseCacheConfig, ResponseCacheStore } from '../types.js';
+import { hashObject } from '../proof.js';
+import { MemoryResponseCache } from '../storage.js';
+import { BaseExecutor, type ExecutorInput, type ExecutorResult } from './base.js';
+
+/** Marker put in ExecutorResult.metadata.cache on a cache hit */
+export interface CacheHit {
+  key: string;
+  cachedAt: number;
+}
+
+/**
+ * Cache key of a model request (signal and stream don't affect the reply)
+ */
+export function responseCacheKey(provider: string, defaultModel: string, input: ExecutorInput): string {
+  const { signal: _signal, stream: _stream, ...request } = input;
+  return hashObject({ provider, request: { ...request, model: request.model || defaultModel } });
+}
+
+export class CachingExecutor extends BaseExecutor {
+  readonly inner: BaseExecutor;
+  private store: ResponseCacheStore;
+  private ttlMs: number;
+  private maxEntryBytes: number;
+
+  constructor(inner: BaseExecutor, config: ResponseCacheConfig = {}) {
+    super();
+    this.inner = inner;
+    this.store = config.store ?? new MemoryResponseCache();
+    this.ttlMs = config.ttlMs ?? 3_600_000;
+    this.maxEntryBytes = config.maxEntryBytes ?? 1_000_000;
+    if (inner.discoverModels) {
+      this.discoverModels = () => inner.discoverModels!();
+    }
+  }
+
+  // The cache takes the wrapped executor's place, so it shares its identity
+  get id() { return this.inner.id; }
+  get name() { return this.inner.name; }
+  get provider() { return this.inner.provider; }
+  get models() { return this.inner.models; }
+  get defaultModel() { return this.inner.defaultModel; }
+  get pricing() { return this.inner.pricing; }
+
+  async execute(input: ExecutorInput): Promise<ExecutorResult> {
+    const key = responseCacheKey(this.provider, this.defaultModel, input);
+    const hit = await this.lookup(key);
+    if (hit) return hit;
+
+    const result = await this.inner.execute(input);
+    if (result.success) {
+      await this.save(key, result);
+    }
+    return result;
+  }
+
+  async *stream(input: ExecutorInput): AsyncGenerator<string, void, unknown> {
+    const key = responseCacheKey(this.provider, this.defaultModel, input);
+    const hit = await this.lookup(key);
+    if (hit) {
+      yield hit.content;
+      return;
+    }
+
+    // Saved once the stream ends; one that throws or is abandoned isn't
+    let content = '';
+    for await (const chunk of this.inner.stream(input)) {
+      content += chunk;
+      yield chunk;
+    }
+    if (content) {
+      await this.save(key, this.streamedResult(input, content));
+    }
+  }
+
+  /**
+   * Reply for a request if it's cached, without calling the provider
+   */
+  async cached(input: ExecutorInput): Promise<ExecutorResult | null> {
+    return this.lookup(responseCacheKey(this.provider, this.defaultModel, input));
+  }
+
+  /**
+   * Cached reply for a key; usage and cost are zero since the provider
+   * wasn't called. Cache errors count as a miss.
+   */
+  private async lookup(key: string): Promise<ExecutorResult | null> {
+    let entry: CachedResponse | null;
+    try {
+      entry = await this.store.get(key);
+    } catch (error: unknown) {
+      console.warn(`[Cache] Lookup failed: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+    if (!entry || entry.expiresAt <= Date.now()) return null;
+
+    const cache: CacheHit = { key, cachedAt: entry.cachedAt };
+    return {
+      ...entry.result,
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      cost: { input: 0, output: 0, total: 0 },
+      metadata: { ...entry.result.metadata, cache },
+    };
+  }
+
+  /**
+   * Result for a streamed reply; streams don't report usage, so it's estimated
+   * (4 chars per token)
+   */
+  private streamedResult(input: ExecutorInput, content: string): ExecutorResult {
+    const model = input.model || this.defaultModel;
+    const promptTokens = Math.ceil((input.prompt.length + (input.systemPrompt?.length ?? 0)) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+    return {
+      success: true,
+      content,
+      model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      cost: this.calculateCost(model, promptTokens, completionTokens),
+      metadata: { streamed: true, usageEstimated: true },
+    };
+  }
+
+  private async save(key: string, result: ExecutorResult): Promise<void> {
+    const now = Date.now();
+    const entry: CachedResponse = { key, result, cachedAt: now, expiresAt: now + this.ttlMs };
+    if (Buffer.byteLength(JSON.stringify(entry)) > this.maxEntryBytes) return;
+
+    try {
+      await this.store.set(entry);
+    } catch (error: unknown) {
+      console.warn(`[Cache] Store failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Consensus Executor
+ * Fans an order out to several executors (local models or peer agents behind
+ * webhooks) and returns the answer a quorum agrees on, with a 'multi-party'
+ * proof carrying the agreeing participants' signed proofs.
+ */
+
+import type { Executor, ProofOfWork, ResultOutput, TaskInput, TaskResult } from '../types.js';
+import { ProofGenerator, hashObject } from '../proof.js';
+import { BaseExecutor } from './base.js';
+import { ModelExecutorAdapter } from './adapter.js';
+import { TaskExecutor } from './task.js';
+
+/**
+ * Decides whether two outputs agree
+ */
+export type ConsensusJudge = (a: ResultOutput, b: ResultOutput) => boolean | Promise<boolean>;
+
+export interface ConsensusParticipant {
+  executor: Executor | BaseExecutor;
+  /** Signs this participant's proofs when the executor doesn't sign its own */
+  privateKey?: string;
+}
+
+export interface ConsensusExecutorConfig {
+  participants: ConsensusParticipant[];
+  /** Agreeing participants required (default: majority) */
+  quorum?: number;
+  /** How outputs are compared (default: exactMatchJudge) */
+  judge?: ConsensusJudge;
+  serviceTypes?: string[];
+  id?: string;
+  name?: string;
+  /** Key for signing the consensus proof (default: unsigned, signed by the runtime) */
+  privateKey?: string;
+}
+
+interface ParticipantResult {
+  /** Position in participants */
+  index: number;
+  executorId: string;
+  result: TaskResult & { output: ResultOutput };
+}
+
+export class ConsensusExecutor extends TaskExecutor {
+  id: string;
+  name: string;
+  serviceTypes: string[];
+
+  private participants: Array<{ executor: Executor; signer?: ProofGenerator }>;
+  private quorum: number;
+  private judge: ConsensusJudge;
+
+  constructor(config: ConsensusExecutorConfig) {
+    super(config.privateKey);
+    if (config.participants.length === 0) {
+      throw new Error('Consensus needs at least one participant');
+    }
+
+    this.participants = config.participants.map((p) => ({
+      executor: p.executor instanceof BaseExecutor ? new ModelExecutorAdapter(p.executor) : p.executor,
+      signer: p.privateKey ? new ProofGenerator(p.privateKey) : undefined,
+    }));
+    this.quorum = config.quorum ?? Math.floor(this.participants.length / 2) + 1;
+    if (this.quorum < 1 || this.quorum > this.participants.length) {
+      throw new Error(`Quorum must be between 1 and ${this.participants.length}`);
+    }
+    this.judge = config.judge ?? exactMatchJudge;
+    this.serviceTypes = config.serviceTypes ?? [];
+    this.id = config.id ?? `consensus-${this.participants.map((p) => p.executor.id).join('+')}`;
+    this.name = config.name ?? `Consensus (${this.quorum} of ${this.participants.length})`;
+  }
+
+  async execute(task: TaskInput): Promise<TaskResult> {
+    const startTime = Date.now();
+
+    try {
+      // Participants pick their own models and don't stream
+      const participantTask: TaskInput = { ...task, model: undefined, onOutput: undefined };
+      const settled = await Promise.allSettled(
+        this.participants.map((p) => p.executor.execute(participantTask))
+      );
+
+      const succeeded: ParticipantResult[] = [];
+      const failures: string[] = [];
+      let tokensUsed = 0;
+      let costUsd = 0;
+
+      settled.forEach((outcome, i) => {
+        const executorId = this.participants[i].executor.id;
+        if (outcome.status === 'rejected') {
+          failures.push(`${executorId}: ${outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error'}`);
+          return;
+        }
+        const result = outcome.value;
+        // Every participant's spend counts, agreeing or not
+        tokensUsed += result.metadata.tokensUsed ?? 0;
+        costUsd += result.metadata.costUsd ?? 0;
+        if (result.success && result.output) {
+          succeeded.push({ index: i, executorId, result: result as ParticipantResult['result'] });
+        } else {
+          failures.push(`${executorId}: ${result.error ?? 'No output'}`);
+        }
+      });
+
+      const agreeing = await this.largestAgreement(succeeded);
+      if (agreeing.length < this.quorum) {
+        const detail = failures.length > 0 ? ` (failed: ${failures.join('; ')})` : '';
+        return {
+          ...this.createFailedResult(
+            task,
+            `No consensus: ${agreeing.length} of ${this.participants.length} agreed, quorum is ${this.quorum}${detail}`,
+            startTime
+          ),
+          metadata: this.createMetadata(startTime, { tokensUsed, costUsd }),
+        };
+      }
+
+      const participantProofs = await Promise.all(agreeing.map((p) => this.signedProof(p)));
+      // A signature only vouches for the agreed answer if the proof commits to the
+      // output the judge compared
+      const signed = participantProofs.filter((proof, i) => {
+        if (!proof.signature) return false;
+        if (!attestsTo(proof, agreeing[i].result.output)) {
+          console.warn(`[Consensus] Dropping ${agreeing[i].executorId}'s proof: it doesn't attest to the output it returned`);
+          return false;
+        }
+        return true;
+      });
+
+      const [representative] = agreeing;
+      const output = representative.result.output;
+      const proof = await this.createProof(task.payload, output.content, {
+        type: 'multi-party',
+        evidence: {
+          verifierSignatures: signed.map((p) => p.signature),
+          verifierProofs: Buffer.from(JSON.stringify(signed)).toString('base64'),
+        },
+      });
+
+      return this.createSuccessResult(output, proof, startTime, {
+        modelUsed: representative.result.metadata.modelUsed,
+        tokensUsed,
+        costUsd,
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return this.createFailedResult(task, message, startTime);
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    const checks = await Promise.all(
+      this.participants.map((p) => p.executor.healthCheck().catch(() => false))
+    );
+    return checks.filter(Boolean).length >= this.quorum;
+  }
+
+  /**
+   * Group results by agreement with each group's first member and return the
+   * largest group (earliest on ties)
+   */
+  private async largestAgreement(results: ParticipantResult[]): Promise<ParticipantResult[]> {
+    const groups: ParticipantResult[][] = [];
+    for (const candidate of results) {
+      let placed = false;
+      for (const group of groups) {
+        if (await this.judge(group[0].result.output, candidate.result.output)) {
+          group.push(candidate);
+          placed = true;
+          break;
+        }
+      }
+      if (!placed) groups.push([candidate]);
+    }
+
+    return groups.reduce<ParticipantResult[]>((best, group) => (group.length > best.length ? group : best), []);
+  }
+
+  /**
+   * A participant's proof, signed with its configured key if it came back unsigned
+   */
+  private async signedProof({ index, result }: ParticipantResult): Promise<ProofOfWork> {
+    if (result.proof.signature) return result.proof;
+    const signer = this.participants[index].signer;
+    return signer ? signer.sign(result.proof) : result.proof;
+  }
+}
+
+// ============================================================================
+// Judges
+// ============================================================================
+
+/**
+ * Outputs agree when their structured values are equal or, for plain text,
+ * their content matches ignoring surrounding and repeated whitespace
+ */
+export const exactMatchJudge: ConsensusJudge = (a, b) => {
+  if (a.structured !== undefined || b.structured !== undefined) {
+    return JSON.stringify(a.structured) === JSON.stringify(b.structured);
+  }
+  return normalizeText(a.content) === normalizeText(b.content);
+};
+
+/**
+ * Outputs agree when the overlap of their word sets (Jaccard index) is at
+ * least `threshold`
+ */
+export function createSimilarityJudge(threshold = 0.8): ConsensusJudge {
+  return (a, b) => {
+    const wordsA = new Set(normalizeText(a.content).toLowerCase().split(' ').filter(Boolean));
+    const wordsB = new Set(normalizeText(b.content).toLowerCase().split(' ').filter(Boolean));
+    if (wordsA.size === 0 && wordsB.size === 0) return true;
+
+    let shared = 0;
+    for (const word of wordsA) {
+      if (wordsB.has(word)) shared++;
+    }
+    return shared / (wordsA.size + wordsB.size - shared) >= threshold;
+  };
+}
+
+/**
+ * Whether a proof's output hash covers this output, as executors hash it:
+ * the content, or the structured value it was serialized from
+ */
+function attestsTo(proof: ProofOfWork, output: ResultOutput): boolean {
+  return proof.outputHash === hashObject(output.content)
+    || (output.structured !== undefined && proof.outputHash === hashObject(output.structured));
+}
+
+function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
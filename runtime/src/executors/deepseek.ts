@@ -31,8 +31,9 @@ export class DeepSeekExecutor extends BaseExecutor {
     const model = input.model || this.defaultModel;
     
     const messages: any[] = [];
-    if (input.systemPrompt) {
-      messages.push({ role: 'system', content: input.systemPrompt });
+    const systemPrompt = this.systemPromptFor(input);
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
     }
     messages.push({ role: 'user', content: input.prompt });
 
@@ -54,6 +55,10 @@ export class DeepSeekExecutor extends BaseExecutor {
       }));
     }
 
+    if (input.responseSchema) {
+      body.response_format = { type: 'json_object' };
+    }
+
     const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: 'POST',
       headers: {
@@ -61,6 +66,7 @@ export class DeepSeekExecutor extends BaseExecutor {
         'Authorization': `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: input.signal,
     });
 
     if (!response.ok) {
@@ -74,7 +80,7 @@ export class DeepSeekExecutor extends BaseExecutor {
     // DeepSeek R1 includes reasoning tokens
     const reasoningTokens = usage.reasoning_tokens || 0;
     
-    return {
+    return this.applyResponseSchema(input, {
       success: true,
       content: data.choices[0]?.message?.content || '',
       model,
@@ -90,15 +96,16 @@ export class DeepSeekExecutor extends BaseExecutor {
         reasoningTokens,
         reasoningContent: data.choices[0]?.message?.reasoning_content,
       },
-    };
+    });
   }
 
   async *stream(input: ExecutorInput): AsyncGenerator<string, void, unknown> {
     const model = input.model || this.defaultModel;
     
     const messages: any[] = [];
-    if (input.systemPrompt) {
-      messages.push({ role: 'system', content: input.systemPrompt });
+    const systemPrompt = this.systemPromptFor(input);
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
     }
     messages.push({ role: 'user', content: input.prompt });
 
@@ -117,6 +124,7 @@ export class DeepSeekExecutor extends BaseExecutor {
         'Authorization': `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: input.signal,
     });
 
     if (!response.ok) {
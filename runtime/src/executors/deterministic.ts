@@ -0,0 +1,116 @@
+/**
+ * Deterministic Executor
+ * Runs a model with temperature 0 and a pinned seed, recording the full
+ * request/response transcript. A request already in the transcript store is
+ * replayed instead of sent again, and the transcript goes into a
+ * 'deterministic' proof so verifiers can recompute the output hash.
+ */
+
+import type { ExecutionTranscript, TaskInput, TaskResult, TranscriptRequest, TranscriptStore } from '../types.js';
+import { buildResultOutput } from '../result.js';
+import { hashObject, transcriptRequestHash } from '../proof.js';
+import { MemoryTranscriptStore } from '../storage.js';
+import type { BaseExecutor } from './base.js';
+import { ModelExecutorAdapter, type ModelExecutorAdapterOptions } from './adapter.js';
+
+export interface DeterministicExecutorOptions extends ModelExecutorAdapterOptions {
+  /** Seed pinned on every request (default: 0) */
+  seed?: number;
+  /** Where transcripts are recorded and replayed from (default: in memory) */
+  transcripts?: TranscriptStore;
+  /** Fail on requests without a recorded transcript instead of calling the model */
+  replayOnly?: boolean;
+}
+
+export class DeterministicExecutor extends ModelExecutorAdapter {
+  private seed: number;
+  private transcripts: TranscriptStore;
+  private replayOnly: boolean;
+
+  constructor(model: BaseExecutor, options: DeterministicExecutorOptions = {}) {
+    super(model, options);
+    this.id = `${model.id}-deterministic`;
+    this.name = `${model.name} (deterministic)`;
+    this.seed = options.seed ?? 0;
+    this.transcripts = options.transcripts ?? new MemoryTranscriptStore();
+    this.replayOnly = options.replayOnly ?? false;
+  }
+
+  /**
+   * Model request for an order with sampling pinned
+   */
+  buildTranscriptRequest(task: TaskInput): TranscriptRequest {
+    const { signal: _signal, stream: _stream, ...input } = this.buildModelInput(task);
+    return {
+      ...input,
+      model: input.model || this.model.defaultModel,
+      temperature: 0,
+      seed: this.seed,
+    };
+  }
+
+  async execute(task: TaskInput): Promise<TaskResult> {
+    const startTime = Date.now();
+
+    try {
+      const request = this.buildTranscriptRequest(task);
+      // Same hash as the proof's inputHash
+      const inputHash = hashObject(task.payload);
+      const requestHash = transcriptRequestHash(this.provider, request, inputHash);
+
+      let transcript = await this.transcripts.get(requestHash);
+      const replayed = transcript !== null;
+      let costUsd = 0;
+
+      if (!transcript) {
+        if (this.replayOnly) {
+          return this.createFailedResult(task, `No recorded transcript for request ${requestHash.slice(0, 12)}...`, startTime);
+        }
+
+        const result = await this.model.execute({ ...request, signal: task.signal });
+        if (!result.success) {
+          const error = result.error ?? (result.content || 'Unknown error');
+          return this.createFailedResult(task, error, startTime);
+        }
+
+        transcript = {
+          version: 1,
+          requestHash,
+          inputHash,
+          provider: this.provider,
+          request,
+          response: {
+            content: result.content,
+            model: result.model,
+            usage: result.usage,
+            finishReason: result.metadata?.finishReason,
+          },
+          recordedAt: Date.now(),
+        } satisfies ExecutionTranscript;
+        await this.transcripts.put(transcript);
+        costUsd = result.cost.total;
+      }
+
+      const { content } = transcript.response;
+      const output = buildResultOutput(content);
+      const proof = await this.createProof(task.payload, content, {
+        type: 'deterministic',
+        evidence: {
+          seed: String(request.seed),
+          algorithm: `${this.provider}/${request.model}`,
+          apiCallHash: requestHash,
+          transcript: Buffer.from(JSON.stringify(transcript)).toString('base64'),
+        },
+      });
+
+      return this.createSuccessResult(output, proof, startTime, {
+        modelUsed: transcript.response.model,
+        tokensUsed: replayed ? 0 : transcript.response.usage.totalTokens,
+        costUsd,
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return this.createFailedResult(task, message, startTime);
+    }
+  }
+}
@@ -31,7 +31,7 @@ export class GoogleExecutor extends BaseExecutor {
   constructor(apiKey?: string) {
     super();
     this.apiKey = apiKey || process.env.GOOGLE_API_KEY || '';
-    this.baseUrl = 'https://generativelanguage.googleapis.com/v1beta';
+    this.baseUrl = process.env.GOOGLE_BASE_URL || 'https://generativelanguage.googleapis.com/v1beta';
   }
 
   async execute(input: ExecutorInput): Promise<ExecutorResult> {
@@ -71,11 +71,13 @@ export class GoogleExecutor extends BaseExecutor {
       generationConfig: {
         maxOutputTokens: input.maxTokens || 4096,
         temperature: input.temperature ?? 0.7,
+        seed: input.seed,
       },
     };
 
-    if (input.systemPrompt) {
-      body.systemInstruction = { parts: [{ text: input.systemPrompt }] };
+    const systemPrompt = this.systemPromptFor(input);
+    if (systemPrompt) {
+      body.systemInstruction = { parts: [{ text: systemPrompt }] };
     }
 
     if (input.tools && input.tools.length > 0) {
@@ -88,12 +90,18 @@ export class GoogleExecutor extends BaseExecutor {
       }];
     }
 
+    // Gemini's responseSchema takes an OpenAPI subset, so the schema goes in the prompt
+    if (input.responseSchema) {
+      body.generationConfig.responseMimeType = 'application/json';
+    }
+
     const url = `${this.baseUrl}/models/${model}:generateContent?key=${this.apiKey}`;
     
     const response = await fetch(url, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(body),
+      signal: input.signal,
     });
 
     if (!response.ok) {
@@ -110,7 +118,7 @@ export class GoogleExecutor extends BaseExecutor {
 
     const usage = data.usageMetadata || { promptTokenCount: 0, candidatesTokenCount: 0 };
     
-    return {
+    return this.applyResponseSchema(input, {
       success: true,
       content: textContent,
       model,
@@ -124,7 +132,7 @@ export class GoogleExecutor extends BaseExecutor {
         finishReason: data.candidates?.[0]?.finishReason,
         safetyRatings: data.candidates?.[0]?.safetyRatings,
       },
-    };
+    });
   }
 
   async *stream(input: ExecutorInput): AsyncGenerator<string, void, unknown> {
@@ -137,11 +145,13 @@ export class GoogleExecutor extends BaseExecutor {
       generationConfig: {
         maxOutputTokens: input.maxTokens || 4096,
         temperature: input.temperature ?? 0.7,
+        seed: input.seed,
       },
     };
 
-    if (input.systemPrompt) {
-      body.systemInstruction = { parts: [{ text: input.systemPrompt }] };
+    const systemPrompt = this.systemPromptFor(input);
+    if (systemPrompt) {
+      body.systemInstruction = { parts: [{ text: systemPrompt }] };
     }
 
     const url = `${this.baseUrl}/models/${model}:streamGenerateContent?key=${this.apiKey}&alt=sse`;
@@ -150,6 +160,7 @@ export class GoogleExecutor extends BaseExecutor {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(body),
+      signal: input.signal,
     });
 
     if (!response.ok) {
@@ -33,8 +33,9 @@ export class GrokExecutor extends BaseExecutor {
     const model = input.model || this.defaultModel;
     
     const messages: any[] = [];
-    if (input.systemPrompt) {
-      messages.push({ role: 'system', content: input.systemPrompt });
+    const systemPrompt = this.systemPromptFor(input);
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
     }
     
     // Handle multimodal input (Grok supports images)
@@ -69,6 +70,10 @@ export class GrokExecutor extends BaseExecutor {
       }));
     }
 
+    if (input.responseSchema) {
+      body.response_format = { type: 'json_schema', json_schema: { name: 'response', schema: input.responseSchema } };
+    }
+
     const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: 'POST',
       headers: {
@@ -76,6 +81,7 @@ export class GrokExecutor extends BaseExecutor {
         'Authorization': `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: input.signal,
     });
 
     if (!response.ok) {
@@ -86,7 +92,7 @@ export class GrokExecutor extends BaseExecutor {
     const data = await response.json();
     const usage = data.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
     
-    return {
+    return this.applyResponseSchema(input, {
       success: true,
       content: data.choices[0]?.message?.content || '',
       model,
@@ -100,15 +106,16 @@ export class GrokExecutor extends BaseExecutor {
         finishReason: data.choices[0]?.finish_reason,
         toolCalls: data.choices[0]?.message?.tool_calls,
       },
-    };
+    });
   }
 
   async *stream(input: ExecutorInput): AsyncGenerator<string, void, unknown> {
     const model = input.model || this.defaultModel;
     
     const messages: any[] = [];
-    if (input.systemPrompt) {
-      messages.push({ role: 'system', content: input.systemPrompt });
+    const systemPrompt = this.systemPromptFor(input);
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
     }
     messages.push({ role: 'user', content: input.prompt });
 
@@ -127,6 +134,7 @@ export class GrokExecutor extends BaseExecutor {
         'Authorization': `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: input.signal,
     });
 
     if (!response.ok) {
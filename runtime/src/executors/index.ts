@@ -4,12 +4,21 @@
  */
 
 export * from './base.js';
+export * from './task.js';
+export * from './adapter.js';
+export * from './cache.js';
+export * from './deterministic.js';
+export * from './consensus.js';
+export * from './pipeline.js';
+export * from './registry.js';
+export * from './routing.js';
 export * from './openai.js';
 export * from './anthropic.js';
 export * from './google.js';
 export * from './deepseek.js';
 export * from './grok.js';
 export * from './kimi.js';
+export * from './local.js';
 export * from './webhook.js';
 
 /**
@@ -19,7 +28,7 @@ export type OpenAIExecutorConfig = {
   apiKey?: string;
 };
 
-import { executorRegistry } from './base.js';
+import { executorRegistry } from './registry.js';
 import { OpenAIExecutor } from './openai.js';
 import { AnthropicExecutor } from './anthropic.js';
 import { GoogleExecutor } from './google.js';
@@ -70,7 +79,7 @@ export function getExecutor(idOrServiceType: string) {
 export function listAllModels() {
   const models: { provider: string; model: string; pricing: { input: number; output: number } }[] = [];
   
-  for (const executor of executorRegistry.list()) {
+  for (const { model: executor } of executorRegistry.listModels()) {
     for (const model of executor.models) {
       models.push({
         provider: executor.provider,
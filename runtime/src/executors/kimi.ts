@@ -32,8 +32,9 @@ export class KimiExecutor extends BaseExecutor {
     const model = input.model || this.defaultModel;
     
     const messages: any[] = [];
-    if (input.systemPrompt) {
-      messages.push({ role: 'system', content: input.systemPrompt });
+    const systemPrompt = this.systemPromptFor(input);
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
     }
     messages.push({ role: 'user', content: input.prompt });
 
@@ -55,6 +56,10 @@ export class KimiExecutor extends BaseExecutor {
       }));
     }
 
+    if (input.responseSchema) {
+      body.response_format = { type: 'json_object' };
+    }
+
     const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: 'POST',
       headers: {
@@ -62,6 +67,7 @@ export class KimiExecutor extends BaseExecutor {
         'Authorization': `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: input.signal,
     });
 
     if (!response.ok) {
@@ -72,7 +78,7 @@ export class KimiExecutor extends BaseExecutor {
     const data = await response.json();
     const usage = data.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
     
-    return {
+    return this.applyResponseSchema(input, {
       success: true,
       content: data.choices[0]?.message?.content || '',
       model,
@@ -86,15 +92,16 @@ export class KimiExecutor extends BaseExecutor {
         finishReason: data.choices[0]?.finish_reason,
         toolCalls: data.choices[0]?.message?.tool_calls,
       },
-    };
+    });
   }
 
   async *stream(input: ExecutorInput): AsyncGenerator<string, void, unknown> {
     const model = input.model || this.defaultModel;
     
     const messages: any[] = [];
-    if (input.systemPrompt) {
-      messages.push({ role: 'system', content: input.systemPrompt });
+    const systemPrompt = this.systemPromptFor(input);
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
     }
     messages.push({ role: 'user', content: input.prompt });
 
@@ -113,6 +120,7 @@ export class KimiExecutor extends BaseExecutor {
         'Authorization': `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: input.signal,
     });
 
     if (!response.ok) {
@@ -0,0 +1,295 @@
+/**
+ * Local Model Executor
+ * Self-hosted models behind an OpenAI-compatible API (llama.cpp server, vLLM,
+ * LM Studio, Ollama's /v1) or Ollama's native API. Free by default.
+ */
+
+import { BaseExecutor, ExecutorInput, ExecutorResult, ToolDefinition } from './base.js';
+
+export interface LocalModelExecutorConfig {
+  /** Endpoint base URL (default: LOCAL_MODEL_BASE_URL or http://localhost:11434/v1) */
+  baseUrl?: string;
+  /** 'openai' for /chat/completions, 'ollama' for Ollama's /api/chat (default: 'openai') */
+  api?: 'openai' | 'ollama';
+  /** Models served; replaced by discovered models at startup (default: [defaultModel]) */
+  models?: string[];
+  /** Model used when a request doesn't pick one (default: first of models) */
+  defaultModel?: string;
+  /** Bearer token, for servers started with an API key */
+  apiKey?: string;
+  /** Executor id, to run several local endpoints side by side (default: 'local') */
+  id?: string;
+  name?: string;
+  /** Pricing per 1M tokens (USD), e.g. to account for hardware cost (default: free) */
+  pricing?: Record<string, { input: number; output: number }>;
+}
+
+const FREE = { input: 0, output: 0 };
+
+export class LocalModelExecutor extends BaseExecutor {
+  id: string;
+  name: string;
+  provider = 'local';
+  models: string[];
+  defaultModel: string;
+  pricing: Record<string, { input: number; output: number }>;
+
+  private baseUrl: string;
+  private api: 'openai' | 'ollama';
+  private apiKey?: string;
+  private configuredPricing: Record<string, { input: number; output: number }>;
+
+  constructor(config: LocalModelExecutorConfig = {}) {
+    super();
+    this.id = config.id ?? 'local';
+    this.name = config.name ?? 'Local Model';
+    this.baseUrl = (config.baseUrl || process.env.LOCAL_MODEL_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, '');
+    this.api = config.api ?? 'openai';
+    this.apiKey = config.apiKey || process.env.LOCAL_MODEL_API_KEY || undefined;
+    this.defaultModel = config.defaultModel ?? config.models?.[0] ?? 'default';
+    this.models = config.models ?? [this.defaultModel];
+    this.configuredPricing = config.pricing ?? {};
+    this.pricing = this.priceModels(this.models);
+  }
+
+  /**
+   * Ask the endpoint which models it serves and use them as the model list.
+   * The default model is kept if it is served, otherwise the first one is used.
+   */
+  async discoverModels(): Promise<string[]> {
+    const url = this.api === 'ollama' ? `${this.baseUrl}/api/tags` : `${this.baseUrl}/models`;
+    const response = await fetch(url, { headers: this.headers() });
+    if (!response.ok) {
+      throw new Error(`Local model discovery failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const discovered: string[] = this.api === 'ollama'
+      ? (data.models ?? []).map((m: { name: string }) => m.name)
+      : (data.data ?? []).map((m: { id: string }) => m.id);
+
+    if (discovered.length > 0) {
+      this.models = discovered;
+      if (!discovered.includes(this.defaultModel)) {
+        this.defaultModel = discovered[0];
+      }
+      this.pricing = this.priceModels(discovered);
+    }
+    return discovered;
+  }
+
+  async execute(input: ExecutorInput): Promise<ExecutorResult> {
+    const model = input.model || this.defaultModel;
+
+    const response = await fetch(this.chatUrl(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers() },
+      body: JSON.stringify(this.buildBody(input, model, false)),
+      signal: input.signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Local model error: ${response.status} ${error}`);
+    }
+
+    const data = await response.json();
+
+    if (this.api === 'ollama') {
+      const promptTokens = data.prompt_eval_count ?? 0;
+      const completionTokens = data.eval_count ?? 0;
+      return this.applyResponseSchema(input, {
+        success: true,
+        content: data.message?.content || '',
+        model,
+        usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+        cost: this.calculateCost(model, promptTokens, completionTokens),
+        metadata: {
+          finishReason: data.done_reason,
+          toolCalls: normalizeOllamaToolCalls(data.message?.tool_calls),
+        },
+      });
+    }
+
+    const usage = data.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    return this.applyResponseSchema(input, {
+      success: true,
+      content: data.choices[0]?.message?.content || '',
+      model,
+      usage: {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      },
+      cost: this.calculateCost(model, usage.prompt_tokens, usage.completion_tokens),
+      metadata: {
+        finishReason: data.choices[0]?.finish_reason,
+        toolCalls: data.choices[0]?.message?.tool_calls,
+      },
+    });
+  }
+
+  async *stream(input: ExecutorInput): AsyncGenerator<string, void, unknown> {
+    const model = input.model || this.defaultModel;
+
+    const response = await fetch(this.chatUrl(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers() },
+      body: JSON.stringify(this.buildBody(input, model, true)),
+      signal: input.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Local model error: ${response.status}`);
+    }
+
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
+
+    if (!reader) throw new Error('No response body');
+
+    // Lines can be split across reads, so only complete lines are parsed
+    let buffered = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const content = this.parseStreamLine(line.trim());
+        if (content === null) return;
+        if (content) yield content;
+      }
+    }
+
+    const content = this.parseStreamLine(buffered.trim());
+    if (content) yield content;
+  }
+
+  /**
+   * Text in one streamed line; null once the stream says it is done
+   */
+  private parseStreamLine(line: string): string | null | undefined {
+    if (!line) return undefined;
+
+    try {
+      if (this.api === 'ollama') {
+        // NDJSON: one object per line
+        const parsed = JSON.parse(line);
+        return parsed.done ? (parsed.message?.content || null) : parsed.message?.content;
+      }
+
+      if (!line.startsWith('data: ')) return undefined;
+      const data = line.slice(6);
+      if (data === '[DONE]') return null;
+      return JSON.parse(data).choices[0]?.delta?.content;
+    } catch {
+      // Skip invalid JSON
+      return undefined;
+    }
+  }
+
+  private buildBody(input: ExecutorInput, model: string, stream: boolean): Record<string, unknown> {
+    const messages: any[] = [];
+    const systemPrompt = this.systemPromptFor(input);
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
+    }
+
+    const images = input.images ?? [];
+    if (images.length > 0 && this.api === 'ollama') {
+      // Ollama takes bare base64 images next to the text
+      messages.push({ role: 'user', content: input.prompt, images });
+    } else if (images.length > 0) {
+      const content: any[] = [{ type: 'text', text: input.prompt }];
+      for (const image of images) {
+        content.push({
+          type: 'image_url',
+          image_url: { url: image.startsWith('http') ? image : `data:image/jpeg;base64,${image}` }
+        });
+      }
+      messages.push({ role: 'user', content });
+    } else {
+      messages.push({ role: 'user', content: input.prompt });
+    }
+
+    const tools = input.tools && input.tools.length > 0
+      ? input.tools.map((t: ToolDefinition) => ({
+          type: 'function',
+          function: {
+            name: t.name,
+            description: t.description,
+            parameters: t.parameters,
+          }
+        }))
+      : undefined;
+
+    if (this.api === 'ollama') {
+      return {
+        model,
+        messages,
+        stream,
+        tools,
+        options: {
+          temperature: input.temperature ?? 0.7,
+          num_predict: input.maxTokens || 4096,
+          seed: input.seed,
+        },
+        // Ollama constrains output to a JSON Schema given as the format
+        format: input.responseSchema,
+      };
+    }
+
+    return {
+      model,
+      messages,
+      max_tokens: input.maxTokens || 4096,
+      temperature: input.temperature ?? 0.7,
+      seed: input.seed,
+      stream,
+      tools,
+      response_format: input.responseSchema
+        ? { type: 'json_schema', json_schema: { name: 'response', schema: input.responseSchema } }
+        : undefined,
+    };
+  }
+
+  private chatUrl(): string {
+    return this.api === 'ollama' ? `${this.baseUrl}/api/chat` : `${this.baseUrl}/chat/completions`;
+  }
+
+  private headers(): Record<string, string> {
+    return this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {};
+  }
+
+  private priceModels(models: string[]): Record<string, { input: number; output: number }> {
+    const pricing: Record<string, { input: number; output: number }> = {};
+    for (const model of [...models, this.defaultModel]) {
+      pricing[model] = this.configuredPricing[model] ?? FREE;
+    }
+    return pricing;
+  }
+}
+
+/**
+ * Ollama returns tool arguments as objects and without ids; use the OpenAI shape
+ * every other executor reports
+ */
+function normalizeOllamaToolCalls(
+  toolCalls?: Array<{ function: { name: string; arguments: unknown } }>
+): unknown[] | undefined {
+  if (!toolCalls || toolCalls.length === 0) return undefined;
+  return toolCalls.map((call, index) => ({
+    id: `call_${index}`,
+    type: 'function',
+    function: {
+      name: call.function.name,
+      arguments: typeof call.function.arguments === 'string'
+        ? call.function.arguments
+        : JSON.stringify(call.function.arguments ?? {}),
+    },
+  }));
+}
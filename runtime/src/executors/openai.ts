@@ -3,6 +3,7 @@
  * Supports GPT-4, GPT-4o, o1, o3 models
  */
 
+import type { JsonSchema } from '../types.js';
 import { BaseExecutor, ExecutorInput, ExecutorResult, ToolDefinition } from './base.js';
 
 export class OpenAIExecutor extends BaseExecutor {
@@ -35,8 +36,9 @@ export class OpenAIExecutor extends BaseExecutor {
     const model = input.model || this.defaultModel;
     
     const messages: any[] = [];
-    if (input.systemPrompt) {
-      messages.push({ role: 'system', content: input.systemPrompt });
+    const systemPrompt = this.systemPromptFor(input);
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
     }
     
     // Handle multimodal input
@@ -63,6 +65,7 @@ export class OpenAIExecutor extends BaseExecutor {
     if (!model.startsWith('o1') && !model.startsWith('o3')) {
       body.temperature = input.temperature ?? 0.7;
     }
+    if (input.seed !== undefined) body.seed = input.seed;
 
     if (input.tools && input.tools.length > 0) {
       body.tools = input.tools.map((t: ToolDefinition) => ({
@@ -75,6 +78,11 @@ export class OpenAIExecutor extends BaseExecutor {
       }));
     }
 
+    if (input.responseSchema) {
+      const format = jsonResponseFormat(model, input.responseSchema);
+      if (format) body.response_format = format;
+    }
+
     const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: 'POST',
       headers: {
@@ -82,6 +90,7 @@ export class OpenAIExecutor extends BaseExecutor {
         'Authorization': `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: input.signal,
     });
 
     if (!response.ok) {
@@ -92,7 +101,7 @@ export class OpenAIExecutor extends BaseExecutor {
     const data = await response.json();
     const usage = data.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
     
-    return {
+    return this.applyResponseSchema(input, {
       success: true,
       content: data.choices[0]?.message?.content || '',
       model,
@@ -106,15 +115,16 @@ export class OpenAIExecutor extends BaseExecutor {
         finishReason: data.choices[0]?.finish_reason,
         toolCalls: data.choices[0]?.message?.tool_calls,
       },
-    };
+    });
   }
 
   async *stream(input: ExecutorInput): AsyncGenerator<string, void, unknown> {
     const model = input.model || this.defaultModel;
     
     const messages: any[] = [];
-    if (input.systemPrompt) {
-      messages.push({ role: 'system', content: input.systemPrompt });
+    const systemPrompt = this.systemPromptFor(input);
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
     }
     messages.push({ role: 'user', content: input.prompt });
 
@@ -128,6 +138,7 @@ export class OpenAIExecutor extends BaseExecutor {
     if (!model.startsWith('o1') && !model.startsWith('o3')) {
       body.temperature = input.temperature ?? 0.7;
     }
+    if (input.seed !== undefined) body.seed = input.seed;
 
     const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: 'POST',
@@ -136,6 +147,7 @@ export class OpenAIExecutor extends BaseExecutor {
         'Authorization': `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: input.signal,
     });
 
     if (!response.ok) {
@@ -169,3 +181,13 @@ export class OpenAIExecutor extends BaseExecutor {
     }
   }
 }
+
+/**
+ * Native structured output for a model: schema-constrained where supported,
+ * plain JSON mode for gpt-4-turbo, none for o1-mini (prompted only)
+ */
+function jsonResponseFormat(model: string, schema: JsonSchema): Record<string, unknown> | undefined {
+  if (model.startsWith('o1-mini')) return undefined;
+  if (model.startsWith('gpt-4-turbo')) return { type: 'json_object' };
+  return { type: 'json_schema', json_schema: { name: 'response', schema } };
+}
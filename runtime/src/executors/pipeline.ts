@@ -0,0 +1,201 @@
+/**
+ * Pipeline Executor
+ * Runs an order through several registered executors in sequence (e.g.
+ * translate → summarize → sentiment). Each step's output feeds the next;
+ * the last step's output is the result. Cost is accounted per step and the
+ * proof carries a step-by-step trail of hashes.
+ */
+
+import type {
+  PipelineConfig,
+  PipelineStep,
+  PipelineStepRecord,
+  ResultOutput,
+  TaskInput,
+  TaskResult,
+} from '../types.js';
+import { hashObject } from '../proof.js';
+import { buildResultOutput } from '../result.js';
+import { getPath, renderTemplate } from '../template.js';
+import { ModelExecutorAdapter } from './adapter.js';
+import type { ExecutorRegistry } from './registry.js';
+import { TaskExecutor } from './task.js';
+
+interface StepOutcome {
+  output: ResultOutput;
+  record: PipelineStepRecord;
+}
+
+/** A step that failed, with what it spent before failing */
+class StepError extends Error {
+  tokensUsed?: number;
+  costUsd?: number;
+
+  constructor(message: string, spent: { tokensUsed?: number; costUsd?: number } = {}) {
+    super(message);
+    this.tokensUsed = spent.tokensUsed;
+    this.costUsd = spent.costUsd;
+  }
+}
+
+interface PipelineContext extends Record<string, unknown> {
+  input?: Record<string, unknown>;
+  previous?: ResultOutput;
+  steps: Record<string, ResultOutput>;
+  vars: Record<string, unknown>;
+}
+
+export class PipelineExecutor extends TaskExecutor {
+  id: string;
+  name: string;
+  serviceTypes: string[];
+
+  private steps: PipelineStep[];
+  private executors: ExecutorRegistry;
+
+  /**
+   * Steps are resolved against the registry when an order runs, so executors
+   * may be registered after the pipeline
+   */
+  constructor(config: PipelineConfig, executors: ExecutorRegistry, privateKey?: string) {
+    super(privateKey);
+    if (config.steps.length === 0) {
+      throw new Error(`Pipeline ${config.name} has no steps`);
+    }
+    const names = new Set(config.steps.map((s) => s.name));
+    if (names.size !== config.steps.length) {
+      throw new Error(`Pipeline ${config.name} has duplicate step names`);
+    }
+
+    this.id = config.id ?? `pipeline-${config.name}`;
+    this.name = `Pipeline: ${config.name}`;
+    this.serviceTypes = config.serviceTypes;
+    this.steps = config.steps;
+    this.executors = executors;
+  }
+
+  async execute(task: TaskInput): Promise<TaskResult> {
+    const startTime = Date.now();
+    const context: PipelineContext = { input: task.payload, steps: {}, vars: {} };
+    const records: PipelineStepRecord[] = [];
+    const totals = (failed?: StepError) => ({
+      tokensUsed: records.reduce((sum, r) => sum + (r.tokensUsed ?? 0), failed?.tokensUsed ?? 0),
+      costUsd: records.reduce((sum, r) => sum + (r.costUsd ?? 0), failed?.costUsd ?? 0),
+    });
+    // Pipelines running this one, so pipelines that name each other can't recurse
+    const chain = [...(task.pipelineChain ?? []), this.id];
+
+    for (const step of this.steps) {
+      let outcome: StepOutcome;
+      try {
+        if (task.signal?.aborted) throw new Error('Aborted');
+        outcome = await this.runStep(step, task, context, chain);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        // A failed step's spend still counts
+        return {
+          ...this.createFailedResult(task, `Step "${step.name}" failed: ${message}`, startTime),
+          metadata: this.createMetadata(startTime, totals(error instanceof StepError ? error : undefined)),
+        };
+      }
+
+      records.push(outcome.record);
+      context.previous = outcome.output;
+      context.steps[step.name] = outcome.output;
+      for (const [name, path] of Object.entries(step.output ?? {})) {
+        context.vars[name] = getPath(outcome.output, path);
+      }
+    }
+
+    const output = context.previous!;
+    const proof = await this.createProof(task.payload, output.content, {
+      evidence: { steps: records },
+    });
+
+    return this.createSuccessResult(output, proof, startTime, {
+      modelUsed: records[records.length - 1].model,
+      ...totals(),
+    });
+  }
+
+  /**
+   * Run one step: model executors get rendered prompts, task executors a
+   * rendered payload. Throws when the step fails.
+   */
+  private async runStep(
+    step: PipelineStep,
+    task: TaskInput,
+    context: PipelineContext,
+    chain: string[]
+  ): Promise<StepOutcome> {
+    const stepStart = Date.now();
+    const executor = this.executors.get(step.executor);
+    if (!executor) {
+      throw new Error(`Unknown executor: ${step.executor}`);
+    }
+    if (chain.includes(executor.id)) {
+      throw new Error(`Pipeline cycle: ${[...chain, executor.id].join(' -> ')}`);
+    }
+
+    if (executor instanceof ModelExecutorAdapter) {
+      const prompt = step.prompt !== undefined
+        ? renderTemplate(step.prompt, context)
+        : context.previous?.content ?? JSON.stringify(context.input ?? {});
+      const input = {
+        prompt,
+        systemPrompt: step.systemPrompt !== undefined ? renderTemplate(step.systemPrompt, context) : undefined,
+        model: step.model,
+        maxTokens: step.maxTokens ?? 4096,
+        signal: task.signal,
+      };
+
+      const result = await executor.model.execute(input);
+      if (!result.success) {
+        throw new StepError(result.error ?? (result.content || 'Unknown error'), {
+          tokensUsed: result.usage?.totalTokens,
+          costUsd: result.cost?.total,
+        });
+      }
+
+      const output = buildResultOutput(result.content, result.metadata);
+      return {
+        output,
+        record: {
+          step: step.name,
+          executorId: executor.id,
+          model: result.model,
+          inputHash: hashObject({ prompt: input.prompt, systemPrompt: input.systemPrompt }),
+          outputHash: hashObject(output.content),
+          tokensUsed: result.usage.totalTokens,
+          costUsd: result.cost.total,
+          durationMs: Date.now() - stepStart,
+        },
+      };
+    }
+
+    const payload: Record<string, unknown> | undefined = step.input
+      ? Object.fromEntries(Object.entries(step.input).map(([key, template]) => [key, renderTemplate(template, context)]))
+      : context.previous ? { ...context.previous } : context.input;
+    const result = await executor.execute({ ...task, payload, model: undefined, onOutput: undefined, pipelineChain: chain });
+    if (!result.success || !result.output) {
+      throw new StepError(result.error ?? 'No output', {
+        tokensUsed: result.metadata?.tokensUsed,
+        costUsd: result.metadata?.costUsd,
+      });
+    }
+
+    return {
+      output: result.output,
+      record: {
+        step: step.name,
+        executorId: executor.id,
+        model: result.metadata.modelUsed,
+        inputHash: hashObject(payload),
+        outputHash: hashObject(result.output.content),
+        tokensUsed: result.metadata.tokensUsed,
+        costUsd: result.metadata.costUsd,
+        durationMs: Date.now() - stepStart,
+      },
+    };
+  }
+}
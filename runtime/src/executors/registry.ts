@@ -0,0 +1,226 @@
+/**
+ * Executor Registry
+ * Holds task executors; model executors are wrapped on registration.
+ * Routes orders to executors using per-service-type policies.
+ */
+
+import type {
+  Executor,
+  ExecutorStats,
+  RoutingPolicy,
+  RoutingPolicyConfig,
+  RoutingContext,
+  RoutingDecision,
+  RouteCandidate,
+} from '../types.js';
+import { BaseExecutor } from './base.js';
+import { ModelExecutorAdapter } from './adapter.js';
+import { createRoutingPolicy } from './routing.js';
+
+/** Consecutive failures before an executor is considered unhealthy */
+const FAILURE_THRESHOLD = 3;
+/** How long an unhealthy executor is skipped before it is tried again */
+const FAILURE_COOLDOWN_MS = 60_000;
+/** Weight of the newest sample in the latency moving average */
+const LATENCY_ALPHA = 0.3;
+
+export interface RouteRecord {
+  executorId: string;
+  model?: string;
+  reason: string;
+  at: number;
+}
+
+export interface RoutingStatus {
+  policy: string;
+  lastRoute?: RouteRecord;
+}
+
+export class ExecutorRegistry {
+  private executors: Map<string, Executor> = new Map();
+  private stats: Map<string, Omit<ExecutorStats, 'healthy'> & { healthCheckFailed?: boolean }> = new Map();
+  private policies: Map<string, RoutingPolicy> = new Map();
+  private lastRoutes: Map<string, RouteRecord> = new Map();
+
+  /**
+   * Register a task executor, or a model executor (wrapped in a ModelExecutorAdapter).
+   * Returns the executor as registered.
+   */
+  register(executor: Executor | BaseExecutor): Executor {
+    const registered = executor instanceof BaseExecutor ? new ModelExecutorAdapter(executor) : executor;
+    this.executors.set(registered.id, registered);
+
+    const handles = registered instanceof ModelExecutorAdapter
+      ? registered.provider
+      : registered.serviceTypes.join(', ');
+    console.log(`Registered executor: ${registered.name} (${handles})`);
+    return registered;
+  }
+
+  get(id: string): Executor | undefined {
+    return this.executors.get(id);
+  }
+
+  getByProvider(provider: string): ModelExecutorAdapter[] {
+    return this.listModels().filter(e => e.provider === provider);
+  }
+
+  list(): Executor[] {
+    return Array.from(this.executors.values());
+  }
+
+  /**
+   * Registered executors backed by a model executor
+   */
+  listModels(): ModelExecutorAdapter[] {
+    return this.list().filter((e): e is ModelExecutorAdapter => e instanceof ModelExecutorAdapter);
+  }
+
+  getForServiceType(serviceType: string): Executor | undefined {
+    // Executors that explicitly claim the service type win
+    for (const executor of this.executors.values()) {
+      if (executor.serviceTypes.includes(serviceType)) return executor;
+    }
+
+    // Map service types to appropriate executors
+    const mapping: Record<string, string[]> = {
+      'text-generation': ['openai', 'anthropic', 'google', 'deepseek'],
+      'code-review': ['anthropic', 'openai', 'deepseek'],
+      'sentiment-analysis': ['openai', 'google', 'anthropic'],
+      'translation': ['google', 'openai', 'deepseek'],
+      'image-analysis': ['openai', 'google', 'anthropic'],
+      'reasoning': ['openai', 'anthropic', 'deepseek'],
+    };
+
+    const preferredProviders = mapping[serviceType] || ['openai'];
+
+    for (const provider of preferredProviders) {
+      const executors = this.getByProvider(provider);
+      if (executors.length > 0) return executors[0];
+    }
+
+    // Fallback to first available
+    return this.executors.values().next().value;
+  }
+
+  // ============================================================================
+  // Routing
+  // ============================================================================
+
+  /**
+   * Set the routing policy for a service type ('*' for the default)
+   */
+  setPolicy(serviceType: string, policy: RoutingPolicyConfig | RoutingPolicy): void {
+    this.policies.set(serviceType, createRoutingPolicy(policy));
+  }
+
+  getPolicy(serviceType: string): RoutingPolicy | undefined {
+    return this.policies.get(serviceType) ?? this.policies.get('*');
+  }
+
+  /**
+   * Pick an executor for an order. Without a policy this is getForServiceType.
+   */
+  route(context: RoutingContext): RoutingDecision | undefined {
+    const { serviceType } = context.task;
+    const policy = this.getPolicy(serviceType);
+
+    let decision: RoutingDecision | undefined;
+    if (!policy) {
+      const executor = this.getForServiceType(serviceType);
+      decision = executor ? { executor, reason: 'provider preference' } : undefined;
+    } else {
+      decision = policy.select(this.candidatesFor(serviceType), context);
+    }
+
+    if (decision) {
+      this.lastRoutes.set(serviceType, {
+        executorId: decision.executor.id,
+        model: decision.model,
+        reason: decision.reason,
+        at: Date.now(),
+      });
+    }
+    return decision;
+  }
+
+  /**
+   * Healthy executors able to serve a service type. Executors that claim it
+   * explicitly take precedence over generic ones. If none are healthy, all are
+   * returned so the order is still attempted.
+   */
+  private candidatesFor(serviceType: string): RouteCandidate[] {
+    const all = this.list();
+    const claiming = all.filter(e => e.serviceTypes.includes(serviceType));
+    const generic = all.filter(e => e.serviceTypes.length === 0);
+    const pool = claiming.length > 0 ? claiming : generic.length > 0 ? generic : all;
+
+    const candidates = pool.map(executor => ({ executor, stats: this.getStats(executor.id) }));
+    const healthy = candidates.filter(c => c.stats.healthy);
+    return healthy.length > 0 ? healthy : candidates;
+  }
+
+  // ============================================================================
+  // Stats
+  // ============================================================================
+
+  /**
+   * Record the outcome of an execution for latency and health tracking
+   */
+  recordOutcome(executorId: string, success: boolean, durationMs: number): void {
+    const stats = this.stats.get(executorId) ?? { requests: 0, failures: 0, consecutiveFailures: 0 };
+    stats.requests++;
+
+    if (success) {
+      stats.consecutiveFailures = 0;
+      stats.avgLatencyMs = stats.avgLatencyMs === undefined
+        ? durationMs
+        : LATENCY_ALPHA * durationMs + (1 - LATENCY_ALPHA) * stats.avgLatencyMs;
+    } else {
+      stats.failures++;
+      stats.consecutiveFailures++;
+      stats.lastFailureAt = Date.now();
+    }
+
+    this.stats.set(executorId, stats);
+  }
+
+  /**
+   * Record the result of an explicit health check
+   */
+  recordHealthCheck(executorId: string, healthy: boolean): void {
+    const stats = this.stats.get(executorId) ?? { requests: 0, failures: 0, consecutiveFailures: 0 };
+    stats.healthCheckFailed = !healthy;
+    this.stats.set(executorId, stats);
+  }
+
+  getStats(executorId: string): ExecutorStats {
+    const stats = this.stats.get(executorId);
+    if (!stats) return { requests: 0, failures: 0, consecutiveFailures: 0, healthy: true };
+
+    const { healthCheckFailed, ...rest } = stats;
+    const failing = stats.consecutiveFailures >= FAILURE_THRESHOLD
+      && Date.now() - (stats.lastFailureAt ?? 0) < FAILURE_COOLDOWN_MS;
+
+    return { ...rest, healthy: !failing && !healthCheckFailed };
+  }
+
+  /**
+   * Configured policies and the latest decision for each routed service type
+   */
+  getRoutingStatus(): Record<string, RoutingStatus> {
+    const status: Record<string, RoutingStatus> = {};
+
+    for (const [serviceType, policy] of this.policies) {
+      status[serviceType] = { policy: policy.name };
+    }
+    for (const [serviceType, lastRoute] of this.lastRoutes) {
+      const policy = this.getPolicy(serviceType)?.name ?? 'provider-preference';
+      status[serviceType] = { policy, lastRoute };
+    }
+
+    return status;
+  }
+}
+
+export const executorRegistry = new ExecutorRegistry();
@@ -0,0 +1,196 @@
+/**
+ * Executor Routing Policies
+ * Pick an executor (and model) for an order from the registered candidates
+ */
+
+import type {
+  Executor,
+  RoutingPolicy,
+  RoutingPolicyConfig,
+  RouteCandidate,
+  RoutingContext,
+  RoutingDecision,
+} from '../types.js';
+import { ModelExecutorAdapter } from './adapter.js';
+
+/**
+ * Whether a policy key (executor id or provider) refers to an executor
+ */
+export function matchesExecutor(executor: Executor, key: string): boolean {
+  if (executor.id === key) return true;
+  return executor instanceof ModelExecutorAdapter && executor.provider === key;
+}
+
+function filterCandidates(candidates: RouteCandidate[], keys?: string[]): RouteCandidate[] {
+  if (!keys || keys.length === 0) return candidates;
+  return candidates.filter(c => keys.some(key => matchesExecutor(c.executor, key)));
+}
+
+// ============================================================================
+// Cheapest
+// ============================================================================
+
+export class CheapestPolicy implements RoutingPolicy {
+  name = 'cheapest';
+
+  private options: { candidates?: string[]; maxCostUsd?: number };
+
+  constructor(options: { candidates?: string[]; maxCostUsd?: number } = {}) {
+    this.options = options;
+  }
+
+  select(candidates: RouteCandidate[], context: RoutingContext): RoutingDecision | undefined {
+    const budgets = [this.options.maxCostUsd, context.budgetUsd].filter((b): b is number => b !== undefined);
+    const budget = budgets.length > 0 ? Math.min(...budgets) : Infinity;
+
+    let best: { executor: ModelExecutorAdapter; model: string; cost: number } | undefined;
+
+    for (const { executor } of filterCandidates(candidates, this.options.candidates)) {
+      // Only model executors can price a request up front
+      if (!(executor instanceof ModelExecutorAdapter)) continue;
+
+      const input = executor.buildModelInput(context.task);
+      const models = context.task.model ? [context.task.model] : executor.model.models;
+
+      for (const model of models) {
+        const { estimatedCost } = executor.model.estimateCost({ ...input, model });
+        if (estimatedCost > budget) continue;
+        if (!best || estimatedCost < best.cost) {
+          best = { executor, model, cost: estimatedCost };
+        }
+      }
+    }
+
+    if (!best) return undefined;
+
+    return {
+      executor: best.executor,
+      model: best.model,
+      reason: `cheapest: ~$${best.cost.toFixed(6)}${budget !== Infinity ? ` of $${budget.toFixed(6)} budget` : ''}`,
+    };
+  }
+}
+
+// ============================================================================
+// Fastest
+// ============================================================================
+
+export class FastestPolicy implements RoutingPolicy {
+  name = 'fastest';
+
+  private options: { candidates?: string[] };
+
+  constructor(options: { candidates?: string[] } = {}) {
+    this.options = options;
+  }
+
+  select(candidates: RouteCandidate[]): RoutingDecision | undefined {
+    const eligible = filterCandidates(candidates, this.options.candidates);
+
+    // Measure every executor at least once before trusting the averages
+    const unmeasured = eligible.find(c => c.stats.avgLatencyMs === undefined);
+    if (unmeasured) {
+      return { executor: unmeasured.executor, reason: 'fastest: no latency samples yet' };
+    }
+
+    let best: RouteCandidate | undefined;
+    for (const candidate of eligible) {
+      if (!best || candidate.stats.avgLatencyMs! < best.stats.avgLatencyMs!) {
+        best = candidate;
+      }
+    }
+
+    if (!best) return undefined;
+
+    return {
+      executor: best.executor,
+      reason: `fastest: ${Math.round(best.stats.avgLatencyMs!)}ms average`,
+    };
+  }
+}
+
+// ============================================================================
+// Failover
+// ============================================================================
+
+export class FailoverPolicy implements RoutingPolicy {
+  name = 'failover';
+
+  private options: { candidates: string[] };
+
+  constructor(options: { candidates: string[] }) {
+    this.options = options;
+  }
+
+  select(candidates: RouteCandidate[]): RoutingDecision | undefined {
+    for (const [index, key] of this.options.candidates.entries()) {
+      const match = candidates.find(c => matchesExecutor(c.executor, key));
+      if (match) {
+        return {
+          executor: match.executor,
+          reason: index === 0 ? 'failover: primary' : `failover: ${key} (#${index + 1})`,
+        };
+      }
+    }
+    return undefined;
+  }
+}
+
+// ============================================================================
+// Weighted
+// ============================================================================
+
+export class WeightedPolicy implements RoutingPolicy {
+  name = 'weighted';
+
+  private options: { weights: Record<string, number> };
+  private random: () => number;
+
+  constructor(options: { weights: Record<string, number> }, random: () => number = Math.random) {
+    this.options = options;
+    this.random = random;
+  }
+
+  select(candidates: RouteCandidate[]): RoutingDecision | undefined {
+    const weighted: { candidate: RouteCandidate; key: string; weight: number }[] = [];
+    for (const [key, weight] of Object.entries(this.options.weights)) {
+      if (weight <= 0) continue;
+      const match = candidates.find(c => matchesExecutor(c.executor, key));
+      if (match) weighted.push({ candidate: match, key, weight });
+    }
+
+    const total = weighted.reduce((sum, w) => sum + w.weight, 0);
+    if (total === 0) return undefined;
+
+    let roll = this.random() * total;
+    for (const { candidate, key, weight } of weighted) {
+      roll -= weight;
+      if (roll < 0) {
+        return { executor: candidate.executor, reason: `weighted: ${key} (${weight}/${total})` };
+      }
+    }
+
+    const last = weighted[weighted.length - 1];
+    return { executor: last.candidate.executor, reason: `weighted: ${last.key} (${last.weight}/${total})` };
+  }
+}
+
+/**
+ * Build a policy from its config; custom policies are returned as-is
+ */
+export function createRoutingPolicy(config: RoutingPolicyConfig | RoutingPolicy): RoutingPolicy {
+  if ('select' in config) return config;
+
+  switch (config.policy) {
+    case 'cheapest':
+      return new CheapestPolicy(config);
+    case 'fastest':
+      return new FastestPolicy(config);
+    case 'failover':
+      return new FailoverPolicy(config);
+    case 'weighted':
+      return new WeightedPolicy(config);
+    default:
+      throw new Error(`Unknown routing policy: ${(config as { policy: string }).policy}`);
+  }
+}
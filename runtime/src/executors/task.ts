@@ -0,0 +1,93 @@
+/**
+ * Task Executor Base
+ * Base class for executors that take a whole order (TaskInput) and return a TaskResult
+ */
+
+import type {
+  Executor,
+  TaskInput,
+  TaskResult,
+  ExecutionMetadata,
+  ProofOfWork,
+  ProofType,
+  ProofEvidence,
+  ResultOutput,
+} from '../types.js';
+import { ProofGenerator, createUnsignedProof } from '../proof.js';
+import { hashResultOutput } from '../result.js';
+
+export abstract class TaskExecutor implements Executor {
+  abstract id: string;
+  abstract name: string;
+  version = '1.0.0';
+  abstract serviceTypes: string[];
+
+  /** Present when constructed with a key; otherwise the runtime signs proofs */
+  protected proofGenerator?: ProofGenerator;
+
+  constructor(privateKey?: string) {
+    if (privateKey) {
+      this.proofGenerator = new ProofGenerator(privateKey);
+    }
+  }
+
+  abstract execute(task: TaskInput): Promise<TaskResult>;
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Proof over the input and output, signed if this executor has a key
+   */
+  protected async createProof(
+    input: unknown,
+    output: unknown,
+    options: { type?: ProofType; evidence?: ProofEvidence } = {}
+  ): Promise<ProofOfWork> {
+    const proof = createUnsignedProof(input, output, options.type, { evidence: options.evidence });
+    return this.proofGenerator ? this.proofGenerator.sign(proof) : proof;
+  }
+
+  protected createSuccessResult(
+    output: ResultOutput,
+    proof: ProofOfWork,
+    startTime: number,
+    extra?: Partial<ExecutionMetadata>
+  ): TaskResult {
+    return {
+      success: true,
+      resultURI: '', // Set by runtime after storage
+      resultHash: hashResultOutput(output),
+      output,
+      proof,
+      metadata: this.createMetadata(startTime, extra),
+    };
+  }
+
+  protected createFailedResult(task: TaskInput, error: string, startTime: number): TaskResult {
+    return {
+      success: false,
+      resultURI: '',
+      resultHash: new Uint8Array(32),
+      proof: {
+        ...createUnsignedProof(task.payload, null, 'llm-completion', { includeRawLog: false }),
+        outputHash: '',
+      },
+      error,
+      metadata: this.createMetadata(startTime),
+    };
+  }
+
+  protected createMetadata(startTime: number, extra?: Partial<ExecutionMetadata>): ExecutionMetadata {
+    const endTime = Date.now();
+    return {
+      ...extra,
+      startTime,
+      endTime,
+      durationMs: endTime - startTime,
+      executorId: this.id,
+      executorVersion: this.version,
+    };
+  }
+}
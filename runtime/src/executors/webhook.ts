@@ -3,8 +3,9 @@
  * Delegates task execution to external services via webhooks
  */
 
-import type { TaskInput, TaskResult, ExecutionEstimate, ExecutionMetadata, Executor } from '../types.js';
-import { createHash } from 'crypto';
+import type { TaskInput, TaskResult, ExecutionEstimate } from '../types.js';
+import { hashObject } from '../proof.js';
+import { TaskExecutor } from './task.js';
 
 export interface WebhookExecutorConfig {
   /** Base URL for the webhook endpoint */
@@ -30,7 +31,7 @@ export interface WebhookResponse {
   };
 }
 
-export class WebhookExecutor implements Executor {
+export class WebhookExecutor extends TaskExecutor {
   id: string;
   name: string;
   version = '1.0.0';
@@ -42,6 +43,7 @@ export class WebhookExecutor implements Executor {
   private headers: Record<string, string>;
 
   constructor(config: WebhookExecutorConfig) {
+    super();
     this.webhookUrl = config.webhookUrl;
     this.apiKey = config.apiKey;
     this.serviceTypes = config.serviceTypes;
@@ -83,7 +85,7 @@ export class WebhookExecutor implements Executor {
           deadline: task.deadline,
           payload: task.payload,
         }),
-        signal: controller.signal,
+        signal: task.signal ? AbortSignal.any([controller.signal, task.signal]) : controller.signal,
       });
 
       clearTimeout(timeoutId);
@@ -98,28 +100,21 @@ export class WebhookExecutor implements Executor {
         return this.createFailedResult(task, result.error ?? 'Webhook execution failed', startTime);
       }
 
-      // Generate result hash
-      const resultHash = this.generateResultHash(result.output);
-
-      return {
-        success: true,
-        resultURI: '', // Will be set by runtime after storage
-        resultHash,
-        proof: {
-          type: 'llm-completion',
-          timestamp: Date.now(),
-          inputHash: this.hashData(task.payload),
-          outputHash: this.hashData(result.output),
-          evidence: {
-            apiCallHash: this.hashData({ url: this.webhookUrl, response: result.output }),
-          },
-          signature: '',
+      // String output is stored as-is; anything else is kept as structured output
+      const output = typeof result.output === 'string'
+        ? { content: result.output }
+        : { content: JSON.stringify(result.output), structured: result.output };
+
+      const proof = await this.createProof(task.payload, result.output, {
+        evidence: {
+          apiCallHash: hashObject({ url: this.webhookUrl, response: result.output }),
         },
-        metadata: this.createMetadata(startTime, {
-          modelUsed: result.metadata?.modelUsed,
-          tokensUsed: result.metadata?.tokensUsed,
-        }),
-      };
+      });
+
+      return this.createSuccessResult(output, proof, startTime, {
+        modelUsed: result.metadata?.modelUsed,
+        tokensUsed: result.metadata?.tokensUsed,
+      });
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       return this.createFailedResult(task, message, startTime);
@@ -147,50 +142,4 @@ export class WebhookExecutor implements Executor {
       return true;
     }
   }
-
-  private createFailedResult(task: TaskInput, error: string, startTime: number): TaskResult {
-    return {
-      success: false,
-      resultURI: '',
-      resultHash: new Uint8Array(32),
-      proof: {
-        type: 'llm-completion',
-        timestamp: Date.now(),
-        inputHash: this.hashData(task.payload),
-        outputHash: '',
-        evidence: {},
-        signature: '',
-      },
-      error,
-      metadata: this.createMetadata(startTime),
-    };
-  }
-
-  private createMetadata(
-    startTime: number,
-    extra?: { modelUsed?: string; tokensUsed?: number }
-  ): ExecutionMetadata {
-    const endTime = Date.now();
-    return {
-      startTime,
-      endTime,
-      durationMs: endTime - startTime,
-      executorId: this.id,
-      executorVersion: this.version,
-      modelUsed: extra?.modelUsed,
-      tokensUsed: extra?.tokensUsed,
-    };
-  }
-
-  private generateResultHash(data: unknown): Uint8Array {
-    const hash = createHash('sha256');
-    hash.update(JSON.stringify(data));
-    return new Uint8Array(hash.digest());
-  }
-
-  private hashData(data: unknown): string {
-    const hash = createHash('sha256');
-    hash.update(JSON.stringify(data ?? ''));
-    return hash.digest('hex');
-  }
 }
@@ -4,15 +4,63 @@
  */
 
 export { AgentRuntime } from './runtime.js';
-export { ProofGenerator, ProofVerifier } from './proof.js';
-export { LocalStorage, IPFSStorage, HTTPStorage, MemoryStorage } from './storage.js';
+export { ProofGenerator, ProofVerifier, transcriptRequestHash } from './proof.js';
+export {
+  LocalStorage,
+  IPFSStorage,
+  HTTPStorage,
+  MemoryStorage,
+  FileTranscriptStore,
+  MemoryTranscriptStore,
+  MemoryResponseCache,
+  FileResponseCache,
+  RedisResponseCache,
+} from './storage.js';
+export { OrderQueue } from './queue.js';
+export { BlockCursor } from './cursor.js';
+export { CompletionManager, type CompletionHandlers } from './completion.js';
+export { OutputStreams } from './stream.js';
+export { renderTemplate } from './template.js';
+export { validateSchema } from './schema.js';
+export { ProfitabilityGuard, StaticPriceSource, AggregatorPriceSource, type OrderQuote } from './profitability.js';
+export {
+  HTTPInputSource,
+  MemoryInputSource,
+  orderInputMessage,
+  verifyOrderInput,
+  recoverInputPublicKey,
+} from './input.js';
+export { buildResultOutput, hashResultOutput, encryptForPublicKey, decryptWithPrivateKey } from './result.js';
 export {
   ExecutorRegistry,
   BaseExecutor,
+  TaskExecutor,
+  ModelExecutorAdapter,
   OpenAIExecutor,
   WebhookExecutor,
+  LocalModelExecutor,
+  DeterministicExecutor,
+  ConsensusExecutor,
+  PipelineExecutor,
+  CachingExecutor,
+  responseCacheKey,
+  exactMatchJudge,
+  createSimilarityJudge,
+  CheapestPolicy,
+  FastestPolicy,
+  FailoverPolicy,
+  WeightedPolicy,
+  createRoutingPolicy,
+  type ModelExecutorAdapterOptions,
+  type RoutingStatus,
   type OpenAIExecutorConfig,
   type WebhookExecutorConfig,
+  type LocalModelExecutorConfig,
+  type DeterministicExecutorOptions,
+  type CacheHit,
+  type ConsensusExecutorConfig,
+  type ConsensusParticipant,
+  type ConsensusJudge,
 } from './executors/index.js';
 
 export type {
@@ -23,10 +71,45 @@ export type {
   ProofType,
   ProofEvidence,
   Executor,
+  RoutingPolicy,
+  RoutingPolicyConfig,
+  RoutingContext,
+  RoutingDecision,
+  RouteCandidate,
+  ServiceTemplate,
+  JsonSchema,
+  JsonSchemaType,
+  PipelineConfig,
+  PipelineStep,
+  PipelineStepRecord,
+  ExecutorStats,
+  PriceSource,
+  ProfitabilityConfig,
+  ProfitabilityCheck,
+  OrderPnl,
   ExecutionMetadata,
   ExecutionEstimate,
   RuntimeEvent,
   EventCallback,
   ResultStorage,
   ResultData,
+  ResultOutput,
+  ResultAttachment,
+  EncryptedPayload,
+  ExecutionTranscript,
+  TranscriptRequest,
+  TranscriptStore,
+  CachedResponse,
+  ResponseCacheStore,
+  ResponseCacheConfig,
+  QueuedOrder,
+  BlockCursorOptions,
+  MarketplaceLogEvent,
+  CompletionRecord,
+  CompletionOptions,
+  OutputStreamOptions,
+  OutputStreamStatus,
+  OutputStreamEvent,
+  OrderInputDocument,
+  OrderInputSource,
 } from './types.js';
@@ -0,0 +1,132 @@
+/**
+ * Order Input
+ * Buyer-supplied task input, published per order and signed by the buyer
+ */
+
+import { hashMessage, SigningKey, verifyMessage } from 'ethers';
+import type { OrderInputDocument, OrderInputSource } from './types.js';
+
+/**
+ * Canonical message a buyer signs for an input document.
+ * Fields are serialized in a fixed order so signer and verifier agree.
+ */
+export function orderInputMessage(doc: Omit<OrderInputDocument, 'signature'>): string {
+  return JSON.stringify({
+    version: doc.version,
+    orderId: doc.orderId,
+    serviceId: doc.serviceId,
+    buyer: doc.buyer,
+    payload: doc.payload,
+    createdAt: doc.createdAt,
+  });
+}
+
+/**
+ * Check an input document against the on-chain order it claims to belong to
+ */
+export function verifyOrderInput(
+  doc: OrderInputDocument,
+  order: { orderId: string; serviceId: string; buyer: string }
+): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (doc.version !== 1) {
+    errors.push(`Unsupported input version: ${doc.version}`);
+  }
+
+  if (doc.orderId.toLowerCase() !== order.orderId.toLowerCase()) {
+    errors.push('Order ID mismatch');
+  }
+
+  if (doc.serviceId.toLowerCase() !== order.serviceId.toLowerCase()) {
+    errors.push('Service ID mismatch');
+  }
+
+  if (doc.buyer.toLowerCase() !== order.buyer.toLowerCase()) {
+    errors.push('Buyer mismatch');
+  }
+
+  if (!doc.payload || typeof doc.payload !== 'object' || Array.isArray(doc.payload)) {
+    errors.push('Payload must be an object');
+  }
+
+  try {
+    const { signature, ...unsigned } = doc;
+    const recovered = verifyMessage(orderInputMessage(unsigned), signature);
+    if (recovered.toLowerCase() !== order.buyer.toLowerCase()) {
+      errors.push('Input not signed by buyer');
+    }
+  } catch {
+    errors.push('Invalid signature');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Recover the buyer's secp256k1 public key from a signed input document.
+ * Used to encrypt results so only the buyer can read them.
+ */
+export function recoverInputPublicKey(doc: OrderInputDocument): string {
+  const { signature, ...unsigned } = doc;
+  return SigningKey.recoverPublicKey(hashMessage(orderInputMessage(unsigned)), signature);
+}
+
+// ============================================================================
+// HTTP Input Source
+// ============================================================================
+
+/**
+ * Reads input documents from `${endpoint}/${orderId}`.
+ *
+ * The runtime doesn't host this endpoint; any store with this contract works:
+ * - POST {endpoint} with the signed document publishes it (the SDK's publishOrderInput)
+ * - GET {endpoint}/{orderId} returns the document, or 404 until it is published
+ * Reads carry `Authorization: Bearer <apiKey>` when a key is set. Documents are
+ * verified against the on-chain order, so the store needn't be trusted, but it
+ * should only take an order's document from its buyer: otherwise anyone can
+ * publish first and get the order rejected.
+ */
+export class HTTPInputSource implements OrderInputSource {
+  private endpoint: string;
+  private apiKey?: string;
+
+  constructor(endpoint: string, apiKey?: string) {
+    this.endpoint = endpoint.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+  }
+
+  async fetch(orderId: string): Promise<OrderInputDocument | null> {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.endpoint}/${orderId}`, { headers });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Input source returned ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json() as OrderInputDocument;
+  }
+}
+
+// ============================================================================
+// In-Memory Input Source (Testing)
+// ============================================================================
+
+export class MemoryInputSource implements OrderInputSource {
+  private docs = new Map<string, OrderInputDocument>();
+
+  publish(doc: OrderInputDocument): void {
+    this.docs.set(doc.orderId.toLowerCase(), doc);
+  }
+
+  async fetch(orderId: string): Promise<OrderInputDocument | null> {
+    return this.docs.get(orderId.toLowerCase()) ?? null;
+  }
+}
@@ -63,7 +63,7 @@ export abstract class BaseIntegration {
       ...(state && { state }),
     });
     
-    return `${this.oauth.authUrl}?${params.toString()}`;
+    return `${this.oauthUrl('auth')}?${params.toString()}`;
   }
 
   /**
@@ -72,9 +72,10 @@ export abstract class BaseIntegration {
   async exchangeCode(code: string, redirectUri: string): Promise<Credentials> {
     if (!this.oauth) throw new Error('OAuth not configured');
     
-    const response = await fetch(this.oauth.tokenUrl, {
+    const response = await fetch(this.oauthUrl('token'), {
       method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      // GitHub answers form-encoded unless JSON is asked for
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
       body: new URLSearchParams({
         grant_type: 'authorization_code',
         code,
@@ -89,6 +90,10 @@ export abstract class BaseIntegration {
     }
 
     const data = await response.json();
+    // Some providers report a bad or reused code with a 200 and an error body
+    if (!data.access_token) {
+      throw new Error(`OAuth token exchange failed: ${data.error_description || data.error || 'no access token'}`);
+    }
     
     return {
       accessToken: data.access_token,
@@ -106,9 +111,9 @@ export abstract class BaseIntegration {
       throw new Error('Cannot refresh: no OAuth config or refresh token');
     }
 
-    const response = await fetch(this.oauth.tokenUrl, {
+    const response = await fetch(this.oauthUrl('token'), {
       method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
       body: new URLSearchParams({
         grant_type: 'refresh_token',
         refresh_token: credentials.refreshToken,
@@ -131,6 +136,16 @@ export abstract class BaseIntegration {
     };
   }
 
+  /**
+   * OAuth endpoint, overridable with <ID>_OAUTH_AUTH_URL / <ID>_OAUTH_TOKEN_URL
+   * (e.g. to point at a local fake OAuth server)
+   */
+  protected oauthUrl(kind: 'auth' | 'token'): string {
+    if (!this.oauth) throw new Error('OAuth not configured');
+    const override = process.env[`${this.id.toUpperCase()}_OAUTH_${kind.toUpperCase()}_URL`];
+    return override || (kind === 'auth' ? this.oauth.authUrl : this.oauth.tokenUrl);
+  }
+
   /**
    * Check if credentials are valid/not expired
    */
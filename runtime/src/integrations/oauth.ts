@@ -0,0 +1,51 @@
+/**
+ * OAuth State
+ * Signed, single-use state for the integration connect flow. The state names
+ * the agent and integration it was issued for, and carries a nonce that the
+ * first callback spends, so a state can't be replayed to overwrite an agent's
+ * credentials with another authorization code.
+ */
+
+import { randomUUID } from 'crypto';
+import { signToken, verifyToken } from '../shared/crypto.js';
+
+export interface OAuthState extends Record<string, unknown> {
+  agentId: string;
+  integrationId: string;
+  redirectUri: string;
+  nonce: string;
+}
+
+/**
+ * Remembers spent nonces until their state expires
+ */
+export interface OAuthNonceStore {
+  /** Mark a nonce spent; false if it already was */
+  spend(nonce: string, expiresAt: Date): Promise<boolean>;
+}
+
+/**
+ * Sign a fresh state for a connect request
+ */
+export function issueOAuthState(fields: Omit<OAuthState, 'nonce'>, ttlMs: number): string {
+  return signToken({ ...fields, nonce: randomUUID() }, ttlMs);
+}
+
+/**
+ * Verify a state returned to the callback for the agent and integration it
+ * was issued for, and spend it. Throws if it's invalid, expired or used.
+ */
+export async function redeemOAuthState(
+  token: string,
+  expected: { agentId: string; integrationId: string },
+  nonces: OAuthNonceStore
+): Promise<OAuthState> {
+  const state = verifyToken<OAuthState>(token);
+  if (state.agentId !== expected.agentId || state.integrationId !== expected.integrationId) {
+    throw new Error('issued for a different agent or integration');
+  }
+  if (typeof state.nonce !== 'string' || !(await nonces.spend(state.nonce, new Date(state.exp)))) {
+    throw new Error('already used');
+  }
+  return state;
+}
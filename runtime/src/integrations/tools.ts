@@ -0,0 +1,129 @@
+/**
+ * Integration Tools
+ * Exposes integration actions (e.g. github.createIssue) as agent tools
+ */
+
+import { integrationRegistry } from './base.js';
+import type { BaseIntegration, Credentials, IntegrationAction } from './base.js';
+import { GitHubIntegration } from './dev/github.js';
+import { TwitterIntegration } from './social/twitter.js';
+
+/**
+ * Register the integrations that ship with the runtime (safe to call more than once)
+ */
+export function registerBuiltinIntegrations(): void {
+  for (const integration of [new GitHubIntegration(), new TwitterIntegration()]) {
+    if (!integrationRegistry.get(integration.id)) {
+      integrationRegistry.register(integration);
+    }
+  }
+}
+
+/**
+ * Look up an action from a '<integration>.<action>' reference
+ */
+export function resolveIntegrationAction(ref: string): { integration: BaseIntegration; action: IntegrationAction } {
+  const [integrationId, actionName, ...rest] = ref.split('.');
+  if (!integrationId || !actionName || rest.length > 0) {
+    throw new Error(`Invalid integration reference: ${ref} (expected <integration>.<action>)`);
+  }
+
+  const integration = integrationRegistry.get(integrationId);
+  if (!integration) {
+    throw new Error(`Unknown integration: ${integrationId}`);
+  }
+  const action = integration.actions.find(a => a.name === actionName);
+  if (!action) {
+    throw new Error(`Unknown action for ${integration.name}: ${actionName}`);
+  }
+
+  return { integration, action };
+}
+
+/**
+ * JSON Schema for an action's parameters, as expected by model tool definitions
+ */
+export function actionToJsonSchema(action: IntegrationAction): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  const required: string[] = [];
+
+  for (const [name, param] of Object.entries(action.parameters)) {
+    properties[name] = {
+      type: param.type,
+      description: param.description,
+      ...(param.enum && { enum: param.enum }),
+      // Providers reject array schemas without an item type
+      ...(param.type === 'array' && { items: { type: 'string' } }),
+    };
+    if (param.required) required.push(name);
+  }
+
+  return { type: 'object', properties, required };
+}
+
+/**
+ * Agent secret holding an integration's credentials as JSON, e.g. GITHUB_CREDENTIALS
+ */
+export function credentialsSecretKey(integrationId: string): string {
+  return `${integrationId.toUpperCase()}_CREDENTIALS`;
+}
+
+/**
+ * Agent secret holding a plain API key for an integration, e.g. GITHUB_API_KEY
+ */
+export function apiKeySecretKey(integrationId: string): string {
+  return `${integrationId.toUpperCase()}_API_KEY`;
+}
+
+/**
+ * Credentials for an integration from agent secrets. Either a JSON Credentials
+ * object under <ID>_CREDENTIALS or a plain <ID>_API_KEY.
+ */
+export function loadCredentials(integrationId: string, secrets: Record<string, string>): Credentials {
+  const stored = secrets[credentialsSecretKey(integrationId)];
+  if (stored) {
+    const parsed = JSON.parse(stored) as Omit<Credentials, 'expiresAt'> & { expiresAt?: string };
+    return {
+      ...parsed,
+      expiresAt: parsed.expiresAt ? new Date(parsed.expiresAt) : undefined,
+    };
+  }
+
+  const apiKey = secrets[apiKeySecretKey(integrationId)];
+  if (apiKey) return { apiKey };
+
+  throw new Error(`No credentials configured for ${integrationId} (set ${credentialsSecretKey(integrationId)})`);
+}
+
+/**
+ * Run an integration action for an agent tool call. Expired OAuth credentials are
+ * refreshed first and handed to saveCredentials so the next call reuses them.
+ */
+export async function executeIntegrationTool(
+  ref: string,
+  params: Record<string, unknown>,
+  secrets: Record<string, string>,
+  saveCredentials?: (key: string, value: string) => Promise<void>
+): Promise<unknown> {
+  const { integration, action } = resolveIntegrationAction(ref);
+
+  let credentials = loadCredentials(integration.id, secrets);
+  if (!integration.isCredentialsValid(credentials) && credentials.refreshToken) {
+    credentials = await integration.refreshAccessToken(credentials);
+
+    const key = credentialsSecretKey(integration.id);
+    const value = JSON.stringify(credentials);
+    secrets[key] = value;
+    await saveCredentials?.(key, value);
+  }
+
+  if (!integration.validateParams(action.name, params)) {
+    throw new Error(`Missing required parameters for ${ref}`);
+  }
+
+  const result = await integration.execute(action.name, params, credentials);
+  if (!result.success) {
+    throw new Error(result.error || `${ref} failed`);
+  }
+  return result.data;
+}
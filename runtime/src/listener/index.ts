@@ -13,6 +13,7 @@ const MARKETPLACE_ABI = [
   'event OrderCreated(bytes32 indexed orderId, bytes32 indexed serviceId, address indexed buyer, address seller, uint256 totalPrice, bytes32 inputHash)',
   'event OrderCompleted(bytes32 indexed orderId, string resultURI, bytes32 resultHash)',
   'event OrderCancelled(bytes32 indexed orderId)',
+  'event OrderRefunded(bytes32 indexed orderId, uint256 amount)',
 ];
 
 const POLL_INTERVAL_MS = parseInt(process.env.POLL_INTERVAL_MS || '5000', 10);
@@ -99,7 +100,7 @@ async function main() {
 
     try {
       const order = await db.getOrderByChainId(orderId);
-      if (order && order.status === 'pending') {
+      if (order && ['pending', 'dead_letter', 'rejected'].includes(order.status)) {
         await db.updateOrderStatus(order.id, 'cancelled');
         logger.info({ orderId }, 'Order marked as cancelled');
       }
@@ -108,6 +109,21 @@ async function main() {
     }
   });
 
+  // Listen for OrderRefunded events (disputes resolved in the buyer's favour)
+  marketplace.on('OrderRefunded', async (orderId: string) => {
+    logger.info({ orderId }, 'OrderRefunded event');
+
+    try {
+      const order = await db.getOrderByChainId(orderId);
+      if (order && order.status !== 'refunded') {
+        await db.updateOrderStatus(order.id, 'refunded');
+        logger.info({ orderId }, 'Order marked as refunded');
+      }
+    } catch (err) {
+      logger.error({ err, orderId }, 'Failed to process OrderRefunded event');
+    }
+  });
+
   // Periodic health check
   setInterval(async () => {
     try {
@@ -0,0 +1,193 @@
+/**
+ * Profitability Guard
+ * Compares estimated execution cost to what the order pays before any tokens are spent
+ */
+
+import { ethers } from 'ethers';
+import type {
+  Executor,
+  TaskInput,
+  PriceSource,
+  ProfitabilityConfig,
+  ProfitabilityCheck,
+  OrderPnl,
+} from './types.js';
+import { ModelExecutorAdapter } from './executors/adapter.js';
+
+// ============================================================================
+// Price Sources
+// ============================================================================
+
+export class StaticPriceSource implements PriceSource {
+  private price: number;
+
+  constructor(price: number) {
+    if (!(price > 0)) {
+      throw new Error(`Invalid ETH/USD price: ${price}`);
+    }
+    this.price = price;
+  }
+
+  async getEthUsd(): Promise<number> {
+    return this.price;
+  }
+}
+
+const AGGREGATOR_ABI = [
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+];
+
+/**
+ * Reads a Chainlink-style ETH/USD aggregator (or a local stub with the same ABI).
+ * Prices are cached briefly and rejected once older than maxAgeSeconds.
+ */
+export class AggregatorPriceSource implements PriceSource {
+  private aggregator: ethers.Contract;
+  private cacheMs: number;
+  private maxAgeSeconds: number;
+  private cached?: { price: number; fetchedAt: number };
+
+  constructor(address: string, provider: ethers.Provider, options: { cacheMs?: number; maxAgeSeconds?: number } = {}) {
+    this.aggregator = new ethers.Contract(address, AGGREGATOR_ABI, provider);
+    this.cacheMs = options.cacheMs ?? 60_000;
+    this.maxAgeSeconds = options.maxAgeSeconds ?? 3600;
+  }
+
+  async getEthUsd(): Promise<number> {
+    if (this.cached && Date.now() - this.cached.fetchedAt < this.cacheMs) {
+      return this.cached.price;
+    }
+
+    const [decimals, round] = await Promise.all([
+      this.aggregator.decimals(),
+      this.aggregator.latestRoundData(),
+    ]);
+
+    const answer = BigInt(round.answer);
+    if (answer <= 0n) {
+      throw new Error('Oracle returned a non-positive price');
+    }
+    if (Date.now() / 1000 - Number(round.updatedAt) > this.maxAgeSeconds) {
+      throw new Error('Oracle price is stale');
+    }
+
+    const price = Number(ethers.formatUnits(answer, decimals));
+    this.cached = { price, fetchedAt: Date.now() };
+    return price;
+  }
+}
+
+// ============================================================================
+// Guard
+// ============================================================================
+
+/** Order revenue priced at the current ETH/USD rate */
+export interface OrderQuote {
+  ethUsd: number;
+  revenueUsd: number;
+  /** Most the order may cost while keeping the minimum margin */
+  budgetUsd: number;
+}
+
+export class ProfitabilityGuard {
+  readonly minMargin: number;
+  readonly onUnprofitable: 'skip' | 'downgrade' | 'approve';
+  private priceSource: PriceSource;
+  private approveHook?: (check: ProfitabilityCheck) => Promise<boolean>;
+
+  constructor(config: ProfitabilityConfig) {
+    this.priceSource = typeof config.ethUsd === 'number' ? new StaticPriceSource(config.ethUsd) : config.ethUsd;
+    this.minMargin = config.minMargin ?? 0.2;
+    this.onUnprofitable = config.onUnprofitable ?? 'downgrade';
+    this.approveHook = config.approve;
+  }
+
+  async quote(totalPrice: bigint): Promise<OrderQuote> {
+    const ethUsd = await this.priceSource.getEthUsd();
+    const revenueUsd = Number(ethers.formatEther(totalPrice)) * ethUsd;
+    return {
+      ethUsd,
+      revenueUsd,
+      budgetUsd: revenueUsd * (1 - this.minMargin),
+    };
+  }
+
+  /**
+   * Estimated USD cost of running a task on an executor, if it can tell
+   */
+  async estimateCostUsd(executor: Executor, task: TaskInput, ethUsd: number): Promise<number | undefined> {
+    if (executor instanceof ModelExecutorAdapter) {
+      return executor.model.estimateCost(executor.buildModelInput(task)).estimatedCost;
+    }
+    if (executor.estimate) {
+      const estimate = await executor.estimate(task);
+      return Number(ethers.formatEther(estimate.estimatedCost)) * ethUsd;
+    }
+    return undefined;
+  }
+
+  async check(task: TaskInput, executor: Executor, quote: OrderQuote): Promise<ProfitabilityCheck> {
+    const estimatedCostUsd = await this.estimateCostUsd(executor, task, quote.ethUsd);
+    const margin = estimatedCostUsd === undefined ? undefined : marginOf(quote.revenueUsd, estimatedCostUsd);
+
+    return {
+      orderId: task.orderId,
+      executorId: executor.id,
+      model: executor instanceof ModelExecutorAdapter ? task.model ?? executor.model.defaultModel : task.model,
+      ethUsd: quote.ethUsd,
+      revenueUsd: quote.revenueUsd,
+      estimatedCostUsd,
+      margin,
+      // Executors that can't estimate are let through; their P&L is recorded afterwards
+      profitable: margin === undefined || margin >= this.minMargin,
+    };
+  }
+
+  /**
+   * Most capable (priciest) model on the same executor that still fits the budget
+   */
+  downgrade(task: TaskInput, executor: Executor, quote: OrderQuote): { model: string; estimatedCostUsd: number } | undefined {
+    if (!(executor instanceof ModelExecutorAdapter)) return undefined;
+
+    const input = executor.buildModelInput(task);
+    let best: { model: string; estimatedCostUsd: number } | undefined;
+
+    for (const model of executor.model.models) {
+      const { estimatedCost } = executor.model.estimateCost({ ...input, model });
+      if (estimatedCost > quote.budgetUsd) continue;
+      if (!best || estimatedCost > best.estimatedCostUsd) {
+        best = { model, estimatedCostUsd: estimatedCost };
+      }
+    }
+
+    return best;
+  }
+
+  async approve(check: ProfitabilityCheck): Promise<boolean> {
+    if (!this.approveHook) return false;
+    return this.approveHook(check);
+  }
+
+  /**
+   * P&L for a finished order, using the reported cost when the executor gave one
+   */
+  pnl(quote: OrderQuote, costUsd: number | undefined, estimatedCostUsd: number | undefined, downgradedFrom?: string): OrderPnl {
+    const cost = costUsd ?? estimatedCostUsd ?? 0;
+    return {
+      ethUsd: quote.ethUsd,
+      revenueUsd: quote.revenueUsd,
+      costUsd: cost,
+      profitUsd: quote.revenueUsd - cost,
+      margin: marginOf(quote.revenueUsd, cost),
+      estimated: costUsd === undefined,
+      downgradedFrom,
+    };
+  }
+}
+
+function marginOf(revenueUsd: number, costUsd: number): number {
+  // Free orders have no meaningful ratio; treat any cost as a total loss
+  if (revenueUsd <= 0) return costUsd > 0 ? -1 : 0;
+  return (revenueUsd - costUsd) / revenueUsd;
+}
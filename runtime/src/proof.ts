@@ -5,7 +5,8 @@
 
 import { createHash, randomBytes } from 'crypto';
 import { Wallet, verifyMessage } from 'ethers';
-import type { ProofOfWork, ProofType, ProofEvidence, TaskInput } from './types.js';
+import type { ProofOfWork, ProofType, ProofEvidence, TaskInput, ExecutionTranscript, TranscriptRequest } from './types.js';
+import type { BaseExecutor } from './executors/base.js';
 
 // ============================================================================
 // Proof Generation
@@ -128,31 +129,25 @@ export class ProofGenerator {
 
   /**
    * Generate a simple proof (for basic verification)
+   * Pass includeRawLog = false when the input/output must not be published in clear
    */
   async generateSimpleProof(
     task: TaskInput,
     input: unknown,
     output: unknown,
-    type: ProofType = 'llm-completion'
+    type: ProofType = 'llm-completion',
+    includeRawLog = true
   ): Promise<ProofOfWork> {
-    const timestamp = Date.now();
-    const inputHash = this.hashObject(input);
-    const outputHash = this.hashObject(output);
-
-    const evidence: ProofEvidence = {
-      rawLog: Buffer.from(JSON.stringify({ input, output, timestamp })).toString('base64'),
-    };
-
-    const proofData = {
-      type,
-      timestamp,
-      inputHash,
-      outputHash,
-      evidence,
-    };
+    return this.sign(createUnsignedProof(input, output, type, { includeRawLog }));
+  }
 
+  /**
+   * Sign proof data (replaces any existing signature)
+   */
+  async sign(proof: Omit<ProofOfWork, 'signature'> | ProofOfWork): Promise<ProofOfWork> {
+    const { type, timestamp, inputHash, outputHash, evidence } = proof;
+    const proofData = { type, timestamp, inputHash, outputHash, evidence };
     const signature = await this.signProof(proofData);
-
     return {
       ...proofData,
       signature,
@@ -164,10 +159,7 @@ export class ProofGenerator {
   // ============================================================================
 
   private hashObject(obj: unknown): string {
-    const json = JSON.stringify(obj, (_, v) =>
-      typeof v === 'bigint' ? v.toString() : v
-    );
-    return createHash('sha256').update(json).digest('hex');
+    return hashObject(obj);
   }
 
   private async signProof(proofData: Omit<ProofOfWork, 'signature'>): Promise<string> {
@@ -184,6 +176,51 @@ export class ProofGenerator {
   }
 }
 
+/**
+ * SHA-256 of an object's JSON (bigints serialized as strings)
+ */
+export function hashObject(obj: unknown): string {
+  const json = JSON.stringify(obj, (_, v) =>
+    typeof v === 'bigint' ? v.toString() : v
+  );
+  return createHash('sha256').update(json).digest('hex');
+}
+
+/**
+ * Key of a recorded model request; also the deterministic proof's apiCallHash.
+ * Covers the hash of the order input the request was built from, so a
+ * transcript can't be reused as proof for another order's input.
+ */
+export function transcriptRequestHash(provider: string, request: TranscriptRequest, inputHash: string): string {
+  return hashObject({ provider, inputHash, request });
+}
+
+/**
+ * Build simple proof data without signing it.
+ * Executors without a key return these and the runtime signs them.
+ */
+export function createUnsignedProof(
+  input: unknown,
+  output: unknown,
+  type: ProofType = 'llm-completion',
+  options: { evidence?: ProofEvidence; includeRawLog?: boolean } = {}
+): ProofOfWork {
+  const timestamp = Date.now();
+  const evidence: ProofEvidence = { ...options.evidence };
+  if (options.includeRawLog !== false) {
+    evidence.rawLog = Buffer.from(JSON.stringify({ input, output, timestamp })).toString('base64');
+  }
+
+  return {
+    type,
+    timestamp,
+    inputHash: hashObject(input),
+    outputHash: hashObject(output),
+    evidence,
+    signature: '',
+  };
+}
+
 // ============================================================================
 // Proof Verification
 // ============================================================================
@@ -233,6 +270,95 @@ export class ProofVerifier {
     return age >= 0 && age <= maxAgeMs;
   }
 
+  /**
+   * Addresses that signed a multi-party proof's participant proofs. Participant
+   * proofs whose signature isn't listed in verifierSignatures are ignored.
+   */
+  static recoverParticipants(proof: ProofOfWork): string[] {
+    if (!proof.evidence.verifierProofs) return [];
+
+    let participants: ProofOfWork[];
+    try {
+      participants = JSON.parse(Buffer.from(proof.evidence.verifierProofs, 'base64').toString('utf-8'));
+    } catch {
+      return [];
+    }
+
+    const listed = new Set(proof.evidence.verifierSignatures ?? []);
+    const signers = new Set<string>();
+    for (const participant of participants) {
+      if (!listed.has(participant.signature)) continue;
+      try {
+        const { signature, ...proofData } = participant;
+        signers.add(verifyMessage(JSON.stringify(proofData), signature).toLowerCase());
+      } catch {
+        // Unrecoverable signature
+      }
+    }
+    return [...signers];
+  }
+
+  /**
+   * Re-check a deterministic proof from its recorded transcript: the transcript
+   * must hash to the proof's request, be recorded for the proof's inputHash,
+   * and its response must hash to outputHash. With an
+   * executor, the request is also run again and must reproduce the output.
+   */
+  static async replay(
+    proof: ProofOfWork,
+    options: { executor?: BaseExecutor } = {}
+  ): Promise<{ valid: boolean; errors: string[] }> {
+    const errors: string[] = [];
+
+    if (proof.type !== 'deterministic') {
+      errors.push(`Not a deterministic proof: ${proof.type}`);
+    }
+    if (!proof.evidence.transcript) {
+      errors.push('No transcript in evidence');
+      return { valid: false, errors };
+    }
+
+    let transcript: ExecutionTranscript;
+    try {
+      transcript = JSON.parse(Buffer.from(proof.evidence.transcript, 'base64').toString('utf-8'));
+    } catch {
+      errors.push('Malformed transcript');
+      return { valid: false, errors };
+    }
+
+    if (transcriptRequestHash(transcript.provider, transcript.request, transcript.inputHash) !== transcript.requestHash) {
+      errors.push('Transcript request hash mismatch');
+    }
+    if (transcript.inputHash !== proof.inputHash) {
+      errors.push('Transcript is for a different order input');
+    }
+    if (proof.evidence.apiCallHash !== undefined && proof.evidence.apiCallHash !== transcript.requestHash) {
+      errors.push('Transcript is for a different request');
+    }
+    if (proof.evidence.seed !== undefined && proof.evidence.seed !== String(transcript.request.seed)) {
+      errors.push('Seed mismatch');
+    }
+    if (!this.verifyOutputHash(proof, transcript.response.content)) {
+      errors.push('Output hash mismatch');
+    }
+
+    if (options.executor) {
+      try {
+        const result = await options.executor.execute({ ...transcript.request });
+        if (!result.success || hashObject(result.content) !== proof.outputHash) {
+          errors.push('Replayed output differs');
+        }
+      } catch (error) {
+        errors.push(`Replay failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
   /**
    * Full verification of a proof
    */
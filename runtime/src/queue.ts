@@ -0,0 +1,279 @@
+/**
+ * Order Queue
+ * Persistent work queue for the standalone runtime
+ * - Orders are dispatched earliest deadline first, then highest price
+ * - Failed orders are retried after a backoff
+ * - Pending work and the processed set survive restarts; processed orders are
+ *   forgotten a day after their deadline, when they can no longer run
+ * - Producers can wait for capacity instead of flooding the runtime
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type { QueuedOrder } from './types.js';
+
+/** Attempts before a failing order is dropped from the queue */
+const MAX_ATTEMPTS = 3;
+
+/** Wait before the first retry of a failed order; doubles with each attempt */
+const RETRY_BACKOFF_MS = 5_000;
+
+/** How long a processed order is remembered after its deadline (or after processing, if unknown) */
+const PROCESSED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/** Most often the processed set is swept for expired orders */
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+interface QueueSnapshot {
+  version: 2;
+  pending: QueuedOrder[];
+  /** Processed order ids, each with when it can be forgotten (ms) */
+  processed: Array<[string, number]>;
+}
+
+/** Snapshot written by older runtimes, without expiry times */
+interface LegacyQueueSnapshot {
+  version: 1;
+  pending: QueuedOrder[];
+  processed: string[];
+}
+
+export class OrderQueue {
+  private file: string;
+  private maxSize: number;
+  private pending = new Map<string, QueuedOrder>();
+  private inFlight = new Map<string, QueuedOrder>();
+  private processed = new Map<string, number>();
+  private lastPrunedAt = 0;
+  private capacityWaiters: Array<() => void> = [];
+
+  /**
+   * @param file    JSON file the queue is persisted to
+   * @param maxSize Pending orders allowed before producers are held back (default 1000)
+   */
+  constructor(file: string = './data/order-queue.json', maxSize = 1000) {
+    this.file = file;
+    this.maxSize = maxSize;
+    this.load();
+  }
+
+  /** Orders waiting to be dispatched */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  /** Orders currently being executed */
+  get inFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  /** Orders that have been finished or skipped */
+  get processedCount(): number {
+    return this.processed.size;
+  }
+
+  get isFull(): boolean {
+    return this.pending.size >= this.maxSize;
+  }
+
+  /**
+   * Whether the order is known in any state (pending, in flight or processed)
+   */
+  has(orderId: string): boolean {
+    return this.pending.has(orderId) || this.inFlight.has(orderId) || this.processed.has(orderId);
+  }
+
+  isInFlight(orderId: string): boolean {
+    return this.inFlight.has(orderId);
+  }
+
+  /**
+   * Add an order to the queue. Returns false if the order is already known.
+   */
+  enqueue(order: Omit<QueuedOrder, 'enqueuedAt' | 'attempts'>): boolean {
+    if (this.has(order.orderId)) return false;
+
+    this.pending.set(order.orderId, { ...order, enqueuedAt: Date.now(), attempts: 0 });
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Take the highest-priority pending order and mark it in flight. Orders
+   * waiting out a retry backoff are skipped.
+   */
+  take(now = Date.now()): QueuedOrder | undefined {
+    let best: QueuedOrder | undefined;
+    for (const entry of this.pending.values()) {
+      if (entry.notBefore !== undefined && entry.notBefore > now) continue;
+      if (!best || compareEntries(entry, best) < 0) best = entry;
+    }
+    if (!best) return undefined;
+
+    this.pending.delete(best.orderId);
+    this.inFlight.set(best.orderId, best);
+    this.persist();
+    this.releaseWaiters();
+    return best;
+  }
+
+  /**
+   * When the earliest order waiting out a retry backoff can be taken, if any
+   */
+  nextReadyAt(now = Date.now()): number | undefined {
+    let earliest: number | undefined;
+    for (const { notBefore } of this.pending.values()) {
+      if (notBefore === undefined || notBefore <= now) continue;
+      if (earliest === undefined || notBefore < earliest) earliest = notBefore;
+    }
+    return earliest;
+  }
+
+  /**
+   * Mark an in-flight order as done. It will not be queued again.
+   */
+  ack(orderId: string): void {
+    const entry = this.inFlight.get(orderId) ?? this.pending.get(orderId);
+    this.inFlight.delete(orderId);
+    this.pending.delete(orderId);
+    this.remember(orderId, entry?.deadline);
+    this.persist();
+    this.releaseWaiters();
+  }
+
+  /**
+   * Return a failed in-flight order to the queue, to be retried after a backoff.
+   * Returns false if it ran out of attempts and was dropped instead.
+   */
+  nack(orderId: string): boolean {
+    const entry = this.inFlight.get(orderId);
+    if (!entry) return false;
+
+    this.inFlight.delete(orderId);
+    const attempts = entry.attempts + 1;
+    if (attempts >= MAX_ATTEMPTS) {
+      this.remember(orderId, entry.deadline);
+      this.persist();
+      this.releaseWaiters();
+      return false;
+    }
+
+    this.pending.set(orderId, {
+      ...entry,
+      attempts,
+      notBefore: Date.now() + RETRY_BACKOFF_MS * 2 ** (attempts - 1),
+    });
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Record an order that never needs queueing (already completed, cancelled, ...)
+   */
+  markProcessed(orderId: string): void {
+    if (this.processed.has(orderId)) return;
+    const entry = this.pending.get(orderId);
+    this.pending.delete(orderId);
+    this.remember(orderId, entry?.deadline);
+    this.persist();
+  }
+
+  /**
+   * Add to the processed set, and drop orders from it that can no longer run
+   * @param deadline Order deadline (unix seconds), if known
+   */
+  private remember(orderId: string, deadline?: number, now = Date.now()): void {
+    const from = deadline !== undefined ? Math.max(deadline * 1000, now) : now;
+    this.processed.set(orderId, from + PROCESSED_RETENTION_MS);
+    this.prune(now);
+  }
+
+  private prune(now: number): void {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+    for (const [orderId, forgetAt] of this.processed) {
+      if (forgetAt <= now) this.processed.delete(orderId);
+    }
+  }
+
+  /**
+   * Resolve once the queue has room for more pending orders
+   */
+  waitForCapacity(): Promise<void> {
+    if (!this.isFull) return Promise.resolve();
+    return new Promise((resolve) => this.capacityWaiters.push(resolve));
+  }
+
+  private releaseWaiters(): void {
+    while (!this.isFull && this.capacityWaiters.length > 0) {
+      this.capacityWaiters.shift()!();
+    }
+  }
+
+  // ============================================================================
+  // Persistence
+  // ============================================================================
+
+  private load(): void {
+    try {
+      if (existsSync(this.file)) {
+        const snapshot = JSON.parse(readFileSync(this.file, 'utf-8')) as QueueSnapshot | LegacyQueueSnapshot;
+        for (const entry of snapshot.pending ?? []) {
+          this.pending.set(entry.orderId, entry);
+        }
+        if (snapshot.version === 1) {
+          const forgetAt = Date.now() + PROCESSED_RETENTION_MS;
+          for (const id of snapshot.processed ?? []) this.processed.set(id, forgetAt);
+        } else {
+          for (const [id, forgetAt] of snapshot.processed ?? []) this.processed.set(id, forgetAt);
+        }
+        this.prune(Date.now());
+        console.log(`[Queue] Restored ${this.pending.size} pending and ${this.processed.size} processed orders`);
+        return;
+      }
+
+      // Migrate the processed set written by older runtimes
+      const legacyFile = join(dirname(this.file), 'processed-orders.json');
+      if (existsSync(legacyFile)) {
+        const forgetAt = Date.now() + PROCESSED_RETENTION_MS;
+        for (const id of JSON.parse(readFileSync(legacyFile, 'utf-8')) as string[]) {
+          this.processed.set(id, forgetAt);
+        }
+        console.log(`[Queue] Migrated ${this.processed.size} processed orders from ${legacyFile}`);
+        this.persist();
+      }
+    } catch (error) {
+      console.error('[Queue] Failed to load queue state:', error);
+    }
+  }
+
+  private persist(): void {
+    // In-flight orders are written back as pending so a crash mid-execution retries them
+    const snapshot: QueueSnapshot = {
+      version: 2,
+      pending: [...this.pending.values(), ...this.inFlight.values()],
+      processed: [...this.processed],
+    };
+
+    try {
+      const dir = dirname(this.file);
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+      const tmp = `${this.file}.tmp`;
+      writeFileSync(tmp, JSON.stringify(snapshot));
+      renameSync(tmp, this.file);
+    } catch (error) {
+      console.error('[Queue] Failed to persist queue state:', error);
+    }
+  }
+}
+
+/**
+ * Earliest deadline first; ties go to the better-paying order, then FIFO
+ */
+function compareEntries(a: QueuedOrder, b: QueuedOrder): number {
+  if (a.deadline !== b.deadline) return a.deadline - b.deadline;
+  const priceA = BigInt(a.totalPrice);
+  const priceB = BigInt(b.totalPrice);
+  if (priceA !== priceB) return priceA > priceB ? -1 : 1;
+  return a.enqueuedAt - b.enqueuedAt;
+}
@@ -0,0 +1,115 @@
+/**
+ * Result Packaging
+ * Turns executor output into the stored result, its on-chain hash,
+ * and (optionally) a payload only the buyer can decrypt
+ */
+
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'crypto';
+import { ethers, SigningKey } from 'ethers';
+import type { EncryptedPayload, ResultAttachment, ResultOutput } from './types.js';
+
+const ENCRYPTION_SCHEME = 'ecies-secp256k1-aes-256-gcm';
+const KDF_INFO = 'agentl2-result-v1';
+
+// ============================================================================
+// Output
+// ============================================================================
+
+/**
+ * Build the stored output from an executor's content and metadata
+ */
+export function buildResultOutput(content: string, metadata?: Record<string, any>): ResultOutput {
+  const output: ResultOutput = { content };
+
+  const structured = parseStructured(content);
+  if (structured !== undefined) {
+    output.structured = structured;
+  }
+
+  const attachments = (metadata?.attachments ?? []).filter(isAttachment);
+  if (attachments.length > 0) {
+    output.attachments = attachments;
+  }
+
+  return output;
+}
+
+/**
+ * Hash submitted on-chain. Covers the plaintext output, so it verifies
+ * whether the stored copy is public or encrypted.
+ */
+export function hashResultOutput(output: ResultOutput): Uint8Array {
+  return ethers.getBytes(ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(output))));
+}
+
+/**
+ * Parse JSON content, either bare or inside a ```json fence
+ */
+export function parseStructured(content: string): unknown {
+  const candidates = [content.trim()];
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) candidates.push(fenced[1].trim());
+
+  for (const candidate of candidates) {
+    if (!candidate.startsWith('{') && !candidate.startsWith('[')) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Not JSON
+    }
+  }
+  return undefined;
+}
+
+function isAttachment(value: unknown): value is ResultAttachment {
+  const a = value as ResultAttachment;
+  return !!a && typeof a.name === 'string' && typeof a.mimeType === 'string' && typeof a.data === 'string';
+}
+
+// ============================================================================
+// Encryption
+// ============================================================================
+
+/**
+ * Encrypt to a secp256k1 public key (ECDH with a one-time key, HKDF, AES-256-GCM)
+ */
+export function encryptForPublicKey(plaintext: string, publicKey: string): EncryptedPayload {
+  const ephemeral = new SigningKey(randomBytes(32));
+  const key = deriveKey(ephemeral.computeSharedSecret(publicKey));
+  const iv = randomBytes(12);
+
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return {
+    scheme: ENCRYPTION_SCHEME,
+    ephemeralPublicKey: ephemeral.compressedPublicKey,
+    iv: iv.toString('hex'),
+    authTag: cipher.getAuthTag().toString('hex'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt a payload with the recipient's private key
+ */
+export function decryptWithPrivateKey(payload: EncryptedPayload, privateKey: string): string {
+  if (payload.scheme !== ENCRYPTION_SCHEME) {
+    throw new Error(`Unsupported encryption scheme: ${payload.scheme}`);
+  }
+
+  const key = deriveKey(new SigningKey(privateKey).computeSharedSecret(payload.ephemeralPublicKey));
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(payload.iv, 'hex'));
+  decipher.setAuthTag(Buffer.from(payload.authTag, 'hex'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(payload.ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+function deriveKey(sharedSecret: string): Buffer {
+  // Shared point is 0x04 || x || y; use the x coordinate as input keying material
+  const x = ethers.getBytes(sharedSecret).slice(1, 33);
+  return Buffer.from(hkdfSync('sha256', x, Buffer.alloc(0), KDF_INFO, 32));
+}
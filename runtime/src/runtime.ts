@@ -1,7 +1,7 @@
 /**
  * AgentL2 Runtime
  * The main engine that runs autonomous agents
- * - Polls for new orders
+ * - Ingests new orders from a block cursor
  * - Executes tasks using registered executors
  * - Submits results and proofs on-chain
  * - Handles failures and retries
@@ -16,38 +16,33 @@ import type {
   RuntimeEvent,
   EventCallback,
   ResultStorage,
-  ExecutionMetadata,
   ResultData,
+  ProofOfWork,
+  QueuedOrder,
+  OrderInputSource,
+  MarketplaceLogEvent,
+  OutputStreamEvent,
 } from './types.js';
-import { ExecutorRegistry, OpenAIExecutor } from './executors/index.js';
-import type { BaseExecutor, ExecutorResult } from './executors/index.js';
+import {
+  BaseExecutor,
+  CachingExecutor,
+  ExecutorRegistry,
+  ModelExecutorAdapter,
+  OpenAIExecutor,
+  PipelineExecutor,
+} from './executors/index.js';
+import type { RoutingStatus } from './executors/index.js';
 import { LocalStorage, IPFSStorage } from './storage.js';
 import { ProofGenerator } from './proof.js';
-
-// Contract ABIs (minimal)
-const REGISTRY_ABI = [
-  'function agents(address) view returns (address owner, string did, string metadataURI, uint256 reputationScore, uint256 totalEarned, uint256 totalSpent, uint256 registeredAt, bool active)',
-  'function services(bytes32) view returns (address agent, string serviceType, uint256 pricePerUnit, string metadataURI, bool active)',
-  'function getAgentServices(address agent) view returns (bytes32[])',
-  'function isActiveAgent(address agent) view returns (bool)',
-];
-
-const MARKETPLACE_ABI = [
-  'function orders(bytes32) view returns (bytes32 serviceId, address buyer, address seller, uint256 units, uint256 totalPrice, uint256 createdAt, uint256 deadline, uint8 status, string resultURI, bytes resultHash)',
-  'function getAgentOrders(address agent) view returns (bytes32[])',
-  'function completeOrder(bytes32 orderId, string resultURI, bytes resultHash)',
-  'event OrderCreated(bytes32 indexed orderId, bytes32 indexed serviceId, address buyer, address seller, uint256 totalPrice)',
-  'event OrderCompleted(bytes32 indexed orderId, string resultURI)',
-];
-
-enum OrderStatus {
-  Pending = 0,
-  Completed = 1,
-  Disputed = 2,
-  Cancelled = 3,
-  Refunded = 4,
-  DisputeResolved = 5,
-}
+import { OrderQueue } from './queue.js';
+import { CompletionManager } from './completion.js';
+import { BlockCursor } from './cursor.js';
+import { OutputStreams } from './stream.js';
+import { REGISTRY_ABI, MARKETPLACE_ABI, OrderStatus } from './contracts.js';
+import { ProfitabilityGuard, type OrderQuote } from './profitability.js';
+import { HTTPInputSource, recoverInputPublicKey, verifyOrderInput } from './input.js';
+import { encryptForPublicKey, hashResultOutput } from './result.js';
+import { validateSchema } from './schema.js';
 
 export class AgentRuntime {
   private config: RuntimeConfig;
@@ -57,15 +52,21 @@ export class AgentRuntime {
   private marketplace: Contract;
   private executors: ExecutorRegistry;
   private storage: ResultStorage;
+  private inputSource?: OrderInputSource;
   private proofGenerator: ProofGenerator;
+  private profitability?: ProfitabilityGuard;
   private eventCallbacks: EventCallback[] = [];
   
   private running = false;
   private pollTimer?: ReturnType<typeof setInterval>;
   private heartbeatTimer?: ReturnType<typeof setInterval>;
-  private processingOrders = new Set<string>();
-  private processedOrders = new Set<string>();
-  private processedOrdersFile: string;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private queue: OrderQueue;
+  private cursor: BlockCursor;
+  private completions: CompletionManager;
+  private streams?: OutputStreams;
+  private inFlightAborts = new Map<string, AbortController>();
+  private abortedCostUsd = 0;
 
   constructor(config: RuntimeConfig) {
     this.config = config;
@@ -83,21 +84,59 @@ export class AgentRuntime {
       this.storage = new LocalStorage('./data/results');
     }
 
-    // Load persisted processed orders
-    this.processedOrdersFile = './data/processed-orders.json';
-    this.loadProcessedOrders();
+    // Setup buyer input channel
+    if (config.inputSource) {
+      this.inputSource = config.inputSource;
+    } else if (config.inputEndpoint) {
+      this.inputSource = new HTTPInputSource(config.inputEndpoint, config.inputApiKey);
+    }
+
+    // Restore persisted queue (pending work + processed orders)
+    this.queue = new OrderQueue(config.queueFile ?? './data/order-queue.json', config.maxQueueSize ?? 1000);
+
+    // Resume event ingestion from the persisted block
+    this.cursor = new BlockCursor(
+      this.provider,
+      this.marketplace,
+      (event) => this.handleMarketplaceEvent(event),
+      config.cursor
+    );
+
+    // Restore completions that were persisted but not yet final
+    this.completions = new CompletionManager(this.marketplace, this.wallet, config.completion, {
+      onConfirmed: (orderId, txHash) => this.emit({ type: 'order_completed', orderId, txHash }),
+      onFailed: (orderId, error) => this.emit({ type: 'error', error: `Failed to complete order ${orderId}: ${error}` }),
+    });
 
     // Register default executors
     if (config.openaiApiKey) {
-      this.executors.register(new OpenAIExecutor(config.openaiApiKey));
+      this.executors.register(this.withResponseCache(new OpenAIExecutor(config.openaiApiKey)));
     }
 
-    // Register custom executors (Executor interface is compatible at runtime)
+    // Register custom executors (model executors are wrapped by the registry)
     if (config.executors) {
       for (const executor of config.executors) {
-        this.executors.register(executor as unknown as BaseExecutor);
+        this.executors.register(this.withResponseCache(executor));
       }
     }
+
+    // Pipelines chain registered executors by id
+    for (const pipeline of config.pipelines ?? []) {
+      this.executors.register(new PipelineExecutor(pipeline, this.executors));
+    }
+
+    if (config.profitability) {
+      this.profitability = new ProfitabilityGuard(config.profitability);
+    }
+
+    if (config.streaming) {
+      this.streams = new OutputStreams(config.streaming === true ? {} : config.streaming);
+    }
+
+    // Routing policies per service type
+    for (const [serviceType, policy] of Object.entries(config.routing ?? {})) {
+      this.executors.setPolicy(serviceType, policy);
+    }
   }
 
   get address(): string {
@@ -136,11 +175,22 @@ export class AgentRuntime {
       console.warn('         Register your agent first using the SDK');
     }
 
+    // Ask self-hosted endpoints which models they serve
+    for (const { model } of this.executors.listModels()) {
+      if (!model.discoverModels) continue;
+      try {
+        const models = await model.discoverModels();
+        console.log(`[Runtime] ${model.name}: discovered ${models.length} model(s)`);
+      } catch (error) {
+        console.warn(`[Runtime] ${model.name}: model discovery failed, using configured models:`, error);
+      }
+    }
+
     // List registered executors
     const executorList = this.executors.list();
     console.log(`Registered Executors (${executorList.length}):`);
     for (const executor of executorList) {
-      const serviceTypes = (executor as any).serviceTypes ?? [executor.provider];
+      const serviceTypes = executor.serviceTypes.length > 0 ? executor.serviceTypes : ['*'];
       console.log(`  - ${executor.name} [${serviceTypes.join(', ')}]`);
     }
     console.log('');
@@ -148,15 +198,15 @@ export class AgentRuntime {
     this.running = true;
     this.emit({ type: 'started', agentAddress: this.address });
 
-    // Start listening for events
-    this.startEventListener();
-
-    // Start polling for orders
+    // Start scanning blocks for marketplace events
     this.startPolling();
 
     // Start heartbeat for dashboard
     this.startHeartbeat();
 
+    // Resume and drive on-chain completions
+    this.completions.start();
+
     // Process any existing pending orders
     await this.processExistingOrders();
 
@@ -182,14 +232,20 @@ export class AgentRuntime {
       this.heartbeatTimer = undefined;
     }
 
-    this.marketplace.removeAllListeners();
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
 
-    // Wait for processing orders to complete
-    while (this.processingOrders.size > 0) {
-      console.log(`[Runtime] Waiting for ${this.processingOrders.size} orders to complete...`);
+    // Wait for processing orders to complete (queued orders stay persisted)
+    while (this.queue.inFlightCount > 0) {
+      console.log(`[Runtime] Waiting for ${this.queue.inFlightCount} orders to complete...`);
       await new Promise((r) => setTimeout(r, 1000));
     }
 
+    // Unfinished completions stay persisted and resume on the next start
+    this.completions.stop();
+
     console.log('[Runtime] Stopped');
   }
 
@@ -197,30 +253,80 @@ export class AgentRuntime {
   // Order Processing
   // ============================================================================
 
-  private startEventListener(): void {
-    this.marketplace.on(
-      'OrderCreated',
-      async (orderId: string, serviceId: string, buyer: string, seller: string, totalPrice: bigint) => {
-        // Only process orders for this agent
-        if (seller.toLowerCase() !== this.address.toLowerCase()) return;
-
-        console.log(`[Event] New order received: ${orderId.slice(0, 10)}...`);
-        this.emit({ type: 'order_received', orderId, serviceType: 'pending' });
-
-        // Process the order
-        await this.processOrder(orderId);
-      }
-    );
-  }
-
   private startPolling(): void {
     const interval = this.config.pollInterval ?? 5000;
     this.pollTimer = setInterval(async () => {
       if (!this.running) return;
-      await this.pollOrders();
+      await this.ingest();
     }, interval);
   }
 
+  /**
+   * Advance the block cursor, backfilling existing orders first on a fresh start
+   */
+  private async ingest(): Promise<void> {
+    try {
+      if (this.cursor.needsBootstrap) {
+        await this.bootstrapOrders();
+      }
+      await this.cursor.scan();
+    } catch (error) {
+      console.error('[Runtime] Ingestion error:', error);
+    }
+  }
+
+  /**
+   * One-time sweep of getAgentOrders when there is no cursor to resume from.
+   * The head is read first so orders created during the sweep are still scanned.
+   */
+  private async bootstrapOrders(): Promise<void> {
+    const head = await this.provider.getBlockNumber();
+    const orderIds: string[] = await this.marketplace.getAgentOrders(this.address);
+
+    for (const orderId of orderIds) {
+      if (this.queue.has(orderId)) continue;
+      await this.queue.waitForCapacity();
+      await this.enqueueOrder(orderId);
+    }
+
+    await this.cursor.resetTo(head);
+    console.log(`[Runtime] Backfilled ${orderIds.length} orders, scanning from block ${head + 1}`);
+  }
+
+  private async handleMarketplaceEvent(event: MarketplaceLogEvent): Promise<void> {
+    const { orderId } = event;
+
+    if (event.type === 'created') {
+      // Only process orders for this agent
+      if (event.seller.toLowerCase() !== this.address.toLowerCase()) return;
+      if (this.queue.has(orderId)) return;
+
+      console.log(`[Event] New order received: ${orderId.slice(0, 10)}...`);
+      this.emit({ type: 'order_received', orderId, serviceType: 'pending' });
+
+      // Back-pressure: hold the cursor until the queue has room
+      await this.queue.waitForCapacity();
+      await this.enqueueOrder(orderId);
+      return;
+    }
+
+    // Cancelled or disputed: stop work in flight, drop it if it's still waiting to run
+    const running = this.inFlightAborts.get(orderId);
+    if (running) {
+      console.log(`[Event] Order ${orderId.slice(0, 10)}... ${event.type}, aborting execution`);
+      running.abort(
+        (event.type === 'disputed'
+          ? { kind: 'disputed', detail: event.reason }
+          : { kind: 'cancelled' }) satisfies AbortReason
+      );
+      return;
+    }
+
+    if (!this.queue.has(orderId) || this.queue.isInFlight(orderId)) return;
+    console.log(`[Event] Order ${orderId.slice(0, 10)}... ${event.type}, dropping from queue`);
+    this.queue.markProcessed(orderId);
+  }
+
   private startHeartbeat(): void {
     // Send heartbeat every 30 seconds to keep dashboard status fresh
     if (!this.config.webhookUrl) return;
@@ -257,83 +363,105 @@ export class AgentRuntime {
     this.heartbeatTimer = setInterval(sendHeartbeat, 30000);
   }
 
-  private async pollOrders(): Promise<void> {
-    try {
-      const orderIds = await this.marketplace.getAgentOrders(this.address);
-      
-      for (const orderId of orderIds) {
-        if (this.processedOrders.has(orderId)) continue;
-        if (this.processingOrders.has(orderId)) continue;
+  private async processExistingOrders(): Promise<void> {
+    console.log('[Runtime] Checking for existing pending orders...');
 
-        const order = await this.marketplace.orders(orderId);
-        if (Number(order.status) === OrderStatus.Pending) {
-          await this.processOrder(orderId);
-        } else {
-          this.processedOrders.add(orderId);
-          this.persistProcessedOrders();
-        }
-      }
-    } catch (error) {
-      console.error('[Runtime] Poll error:', error);
-    }
+    // Resume orders restored from the persisted queue first
+    this.dispatch();
+
+    // Catch up from the persisted cursor (or backfill on a fresh start)
+    await this.ingest();
+    console.log(`[Runtime] ${this.queue.size} orders queued`);
+
+    this.dispatch();
   }
 
-  private async processExistingOrders(): Promise<void> {
-    console.log('[Runtime] Checking for existing pending orders...');
-    
+  /**
+   * Look up an order on-chain and queue it if it still needs work
+   */
+  private async enqueueOrder(orderId: string): Promise<void> {
     try {
-      const orderIds = await this.marketplace.getAgentOrders(this.address);
-      let pendingCount = 0;
-
-      for (const orderId of orderIds) {
-        const order = await this.marketplace.orders(orderId);
-        if (Number(order.status) === OrderStatus.Pending) {
-          pendingCount++;
-          // Don't await - process in background
-          this.processOrder(orderId);
-        } else {
-          this.processedOrders.add(orderId);
-          this.persistProcessedOrders();
-        }
+      const order = await this.marketplace.orders(orderId);
+      if (Number(order.status) !== OrderStatus.Pending) {
+        this.queue.markProcessed(orderId);
+        return;
       }
 
-      console.log(`[Runtime] Found ${pendingCount} pending orders`);
+      const queued = this.queue.enqueue({
+        orderId,
+        deadline: Number(order.deadline),
+        totalPrice: order.totalPrice.toString(),
+      });
+      if (queued) {
+        console.log(`[Runtime] Queued order ${orderId.slice(0, 10)}... (${this.queue.size} pending)`);
+        this.dispatch();
+      }
     } catch (error) {
-      console.error('[Runtime] Error checking existing orders:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Runtime] Failed to queue order ${orderId.slice(0, 10)}...:`, message);
     }
   }
 
-  private async processOrder(orderId: string): Promise<void> {
-    // Check concurrency limit
+  /**
+   * Start queued orders until the concurrency limit is reached
+   */
+  private dispatch(): void {
     const maxConcurrent = this.config.maxConcurrent ?? 5;
-    if (this.processingOrders.size >= maxConcurrent) {
-      console.log(`[Runtime] Max concurrent reached, queueing order ${orderId.slice(0, 10)}...`);
-      return;
-    }
 
-    if (this.processingOrders.has(orderId) || this.processedOrders.has(orderId)) {
-      return;
+    while (this.running && this.queue.inFlightCount < maxConcurrent) {
+      const entry = this.queue.take();
+      if (!entry) {
+        this.scheduleRetries();
+        return;
+      }
+
+      this.processOrder(entry).finally(() => this.dispatch());
     }
+  }
+
+  /**
+   * Dispatch again when the earliest order backing off after a failure is due
+   */
+  private scheduleRetries(): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+
+    const readyAt = this.queue.nextReadyAt();
+    if (readyAt === undefined) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.dispatch();
+    }, readyAt - Date.now());
+  }
+
+  private async processOrder(entry: QueuedOrder): Promise<void> {
+    const { orderId } = entry;
 
-    this.processingOrders.add(orderId);
+    // Aborted by the deadline timer or by OrderCancelled / OrderDisputed
+    const controller = new AbortController();
+    this.inFlightAborts.set(orderId, controller);
+    let streamOutcome: 'completed' | 'failed' | 'aborted' = 'failed';
 
     try {
+      // Already executed; only the on-chain completion is outstanding
+      if (this.completions.has(orderId)) {
+        this.queue.ack(orderId);
+        return;
+      }
+
       // Fetch order details
       const order = await this.marketplace.orders(orderId);
       
       if (Number(order.status) !== OrderStatus.Pending) {
         console.log(`[Runtime] Order ${orderId.slice(0, 10)}... is not pending, skipping`);
-        this.processedOrders.add(orderId);
-        this.persistProcessedOrders();
+        this.queue.ack(orderId);
         return;
       }
 
-      // Check deadline
+      // Check deadline (leaving time to store the result and complete on-chain)
       const deadline = Number(order.deadline);
-      if (Date.now() / 1000 > deadline) {
-        console.log(`[Runtime] Order ${orderId.slice(0, 10)}... has passed deadline, skipping`);
-        this.processedOrders.add(orderId);
-        this.persistProcessedOrders();
+      if (this.timeLeftMs(deadline) <= 0) {
+        this.missDeadline(orderId, deadline, 'expired', 'No time left before the deadline');
         return;
       }
 
@@ -346,16 +474,24 @@ export class AgentRuntime {
       console.log(`  Price: ${ethers.formatEther(order.totalPrice)} ETH`);
       console.log(`  Units: ${order.units}`);
 
-      // Find executor
-      const executor = this.executors.getForServiceType(serviceType);
-      if (!executor) {
-        console.error(`[Runtime] No executor found for service type: ${serviceType}`);
-        this.emit({ type: 'execution_failed', orderId, error: `No executor for ${serviceType}` });
+      // Resolve buyer input before spending anything on execution
+      const { payload, buyerPublicKey } = await this.fetchOrderPayload(orderId, order, service.metadataURI, deadline);
+      const encryptTo = this.resolveEncryptionKey(orderId, buyerPublicKey);
+      if (controller.signal.aborted) {
+        // The deadline timer isn't armed yet, so this can only be a cancellation
+        this.abortOrder(orderId, controller.signal.reason as CancelReason);
         return;
       }
 
-      console.log(`  Executor: ${executor.name}`);
-      this.emit({ type: 'execution_started', orderId, executorId: executor.id });
+      // Input that fails the service type's schema is rejected before any tokens are spent
+      const template = this.config.templates?.[serviceType];
+      if (template?.inputSchema) {
+        const errors = validateSchema(payload, template.inputSchema);
+        if (errors.length > 0) {
+          this.rejectOrder(orderId, 'invalid_input', errors);
+          return;
+        }
+      }
 
       // Build task input
       const task: TaskInput = {
@@ -366,99 +502,372 @@ export class AgentRuntime {
         units: order.units,
         totalPrice: order.totalPrice,
         deadline,
-        payload: await this.fetchOrderPayload(order.serviceId, service.metadataURI),
+        payload,
+        template,
       };
 
-      // Execute task — adapt TaskInput to ExecutorInput for the BaseExecutor interface
-      const executorInput = {
-        prompt: JSON.stringify(task.payload ?? {}),
-        systemPrompt: `Process ${serviceType} order ${orderId}`,
-        maxTokens: 4096,
-      };
+      // Price the order so routing and the profitability guard share one budget
+      const quote = this.profitability ? await this.profitability.quote(task.totalPrice) : undefined;
+
+      // Route to an executor (policies may price the request, so this needs the task)
+      const route = this.executors.route({ task, budgetUsd: quote?.budgetUsd });
+      if (!route) {
+        const budget = quote ? ` within $${quote.budgetUsd.toFixed(4)}` : '';
+        this.rejectOrder(orderId, 'no_executor', [`No executor for ${serviceType}${budget}`]);
+        return;
+      }
+
+      const { executor } = route;
+      task.model = route.model;
+      console.log(`  Executor: ${executor.name}${route.model ? ` (${route.model})` : ''} [${route.reason}]`);
+
+      // Economics check before any tokens are spent
+      let economics: { estimatedCostUsd?: number; downgradedFrom?: string } | null = null;
+      if (quote) {
+        economics = await this.checkProfitability(task, executor, quote);
+        if (!economics) {
+          this.queue.ack(orderId);
+          return;
+        }
+      }
+
+      // Skip orders the executor is not expected to finish in time
+      const timeLeftMs = this.timeLeftMs(deadline);
+      const expectedMs = await this.expectedDurationMs(executor, task);
+      if (timeLeftMs <= 0 || (expectedMs !== undefined && expectedMs > timeLeftMs)) {
+        const needs = expectedMs !== undefined ? `needs ~${Math.round(expectedMs)}ms, ` : '';
+        this.missDeadline(orderId, deadline, 'insufficient_time', `${needs}${Math.max(0, Math.round(timeLeftMs))}ms left`);
+        return;
+      }
+
+      this.emit({ type: 'execution_started', orderId, executorId: executor.id });
+
+      // Stream output as it is produced, unless it must stay private to the buyer
+      if (this.streams && !encryptTo) {
+        const streams = this.streams;
+        streams.begin(orderId);
+        task.onOutput = (chunk) => streams.append(orderId, chunk);
+      }
+
+      // Execute task, aborted once the deadline no longer leaves room to complete
+      const stopDeadline = abortAfter(controller, () => this.timeLeftMs(deadline));
+      task.signal = controller.signal;
+
       const startTime = Date.now();
-      const execResult: ExecutorResult = await executor.execute(executorInput);
-      const endTime = Date.now();
+      let taskResult: TaskResult | undefined;
+      try {
+        taskResult = await raceAbort(executor.execute(task), controller.signal);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          this.executors.recordOutcome(executor.id, false, Date.now() - startTime);
+          throw error;
+        }
+      } finally {
+        stopDeadline();
+      }
 
-      if (!execResult.success) {
-        const errorMsg = (execResult as any).error ?? execResult.content ?? 'Unknown error';
+      if (!taskResult || controller.signal.aborted) {
+        streamOutcome = 'aborted';
+        const reason = controller.signal.reason as AbortReason;
+        if (reason.kind === 'deadline') {
+          this.missDeadline(orderId, deadline, 'timed_out', `Aborted after ${Date.now() - startTime}ms`);
+        } else {
+          this.abortOrder(orderId, reason, { executor, task, taskResult });
+        }
+        return;
+      }
+      this.executors.recordOutcome(executor.id, taskResult.success, Date.now() - startTime);
+
+      if (!taskResult.success || !taskResult.output) {
+        const errorMsg = taskResult.error ?? 'Executor returned no output';
         console.error(`[Runtime] Execution failed: ${errorMsg}`);
         this.emit({ type: 'execution_failed', orderId, error: errorMsg });
+        this.retryOrder(orderId);
         return;
       }
 
-      // Adapt ExecutorResult → TaskResult
-      const resultHash = new Uint8Array(
-        Buffer.from(
-          ethers.keccak256(ethers.toUtf8Bytes(execResult.content)).slice(2),
-          'hex'
-        )
-      );
-      const proof = await this.proofGenerator.generateSimpleProof(task, task.payload, execResult.content);
-      const metadata: ExecutionMetadata = {
-        startTime,
-        endTime,
-        durationMs: endTime - startTime,
-        executorId: executor.id,
-        executorVersion: '1.0.0',
-        modelUsed: execResult.model,
-        tokensUsed: execResult.usage.totalTokens,
-      };
-      const taskResult: TaskResult = {
-        success: true,
-        resultURI: '',
-        resultHash,
-        proof,
-        metadata,
-      };
+      // The on-chain hash always covers the plaintext output
+      const { output, metadata } = taskResult;
+      const resultHash = hashResultOutput(output);
+      taskResult.resultHash = resultHash;
+      taskResult.proof = await this.finalizeProof(taskResult.proof, !!encryptTo);
+      const { proof } = taskResult;
+
+      if (this.profitability && quote) {
+        metadata.pnl = this.profitability.pnl(quote, metadata.costUsd, economics?.estimatedCostUsd, economics?.downgradedFrom);
+      }
 
       console.log(`[Runtime] Execution completed in ${metadata.durationMs}ms`);
+      if (metadata.pnl) {
+        const { revenueUsd, costUsd, profitUsd } = metadata.pnl;
+        console.log(`  P&L: $${revenueUsd.toFixed(4)} revenue - $${costUsd.toFixed(4)} cost = $${profitUsd.toFixed(4)}`);
+      }
       this.emit({ type: 'execution_completed', orderId, result: taskResult });
-
-      // Store result
-      const resultData: ResultData = {
-        orderId,
-        serviceType,
-        input: task.payload ?? {},
-        output: { resultHash: Buffer.from(resultHash).toString('hex') },
-        proof,
-        metadata,
-      };
+      streamOutcome = 'completed';
+
+      // Store result (encrypted to the buyer if configured)
+      const resultData: ResultData = encryptTo
+        ? {
+            orderId,
+            serviceType,
+            input: {},
+            encrypted: encryptForPublicKey(JSON.stringify({ input: task.payload ?? {}, output }), encryptTo),
+            proof,
+            metadata,
+          }
+        : {
+            orderId,
+            serviceType,
+            input: task.payload ?? {},
+            output,
+            proof,
+            metadata,
+          };
       const resultURI = await this.storage.store(resultData);
       taskResult.resultURI = resultURI;
 
       console.log(`[Runtime] Result stored: ${resultURI}`);
 
-      // Complete order on-chain
+      // Cancelled or disputed while storing: completing would only revert
+      if (controller.signal.aborted) {
+        streamOutcome = 'aborted';
+        this.abortOrder(orderId, controller.signal.reason as CancelReason, { executor, task, taskResult });
+        return;
+      }
+
+      // Hand off to the completion manager; the intent is persisted before the ack
       if (this.config.autoComplete !== false) {
-        await this.completeOrderOnChain(orderId, resultURI, resultHash);
+        this.completions.enqueue({ orderId, resultURI, resultHash: ethers.hexlify(resultHash), deadline });
       }
 
-      this.processedOrders.add(orderId);
-      this.persistProcessedOrders();
+      this.queue.ack(orderId);
     } catch (error) {
+      if (error instanceof OrderRejectedError) {
+        this.rejectOrder(orderId, error.reason, error.errors);
+        return;
+      }
       const message = error instanceof Error ? error.message : 'Unknown error';
       console.error(`[Runtime] Error processing order ${orderId.slice(0, 10)}...:`, message);
       this.emit({ type: 'execution_failed', orderId, error: message });
+      this.retryOrder(orderId);
     } finally {
-      this.processingOrders.delete(orderId);
+      this.inFlightAborts.delete(orderId);
+      this.streams?.end(orderId, streamOutcome);
     }
   }
 
-  private async completeOrderOnChain(orderId: string, resultURI: string, resultHash: Uint8Array): Promise<void> {
-    try {
-      console.log(`[Runtime] Completing order on-chain...`);
-      const tx = await this.marketplace.completeOrder(orderId, resultURI, resultHash);
-      const receipt = await tx.wait(1);
-      console.log(`[Runtime] Order completed! TX: ${receipt.hash}`);
-      this.emit({ type: 'order_completed', orderId, txHash: receipt.hash });
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      console.error(`[Runtime] Failed to complete order on-chain: ${message}`);
-      this.emit({ type: 'error', error: `Failed to complete order: ${message}` });
+  /**
+   * Stop an order the buyer cancelled or disputed. It is not retried or completed;
+   * whatever was already spent on it is reported.
+   */
+  private abortOrder(
+    orderId: string,
+    reason: CancelReason,
+    work: { executor?: Executor; task?: TaskInput; taskResult?: TaskResult } = {}
+  ): void {
+    const { executor, task, taskResult } = work;
+
+    // Prefer the executor's reported cost; an aborted model call has at least billed its prompt
+    let costIncurredUsd = taskResult?.metadata.costUsd;
+    if (costIncurredUsd === undefined && executor instanceof ModelExecutorAdapter && task) {
+      costIncurredUsd = executor.estimatePromptCost(task);
+    }
+    this.abortedCostUsd += costIncurredUsd ?? 0;
+
+    const cost = costIncurredUsd !== undefined ? `, ~$${costIncurredUsd.toFixed(4)} spent` : '';
+    console.warn(`[Runtime] Order ${orderId.slice(0, 10)}... ${reason.kind}, stopped work${cost}`);
+    this.emit({
+      type: 'execution_aborted',
+      orderId,
+      reason: reason.kind,
+      detail: reason.kind === 'disputed' ? reason.detail : undefined,
+      executorId: executor?.id,
+      costIncurredUsd,
+    });
+    this.queue.ack(orderId);
+  }
+
+  /**
+   * Sign proofs executors left unsigned. Raw logs, transcripts and participant
+   * proofs are dropped when the result is encrypted so the public proof doesn't
+   * leak plaintext.
+   */
+  private async finalizeProof(proof: ProofOfWork, encrypted: boolean): Promise<ProofOfWork> {
+    const { rawLog, transcript, verifierProofs, ...evidence } = proof.evidence;
+    if (encrypted && (rawLog || transcript || verifierProofs)) {
+      return this.proofGenerator.sign({ ...proof, evidence });
+    }
+    if (!proof.signature) {
+      return this.proofGenerator.sign(proof);
+    }
+    return proof;
+  }
+
+  /**
+   * Apply the profitability guard to a routed order. May switch task.model to a
+   * cheaper model; returns null when the order should be skipped.
+   */
+  private async checkProfitability(
+    task: TaskInput,
+    executor: Executor,
+    quote: OrderQuote
+  ): Promise<{ estimatedCostUsd?: number; downgradedFrom?: string } | null> {
+    const guard = this.profitability!;
+    const { orderId } = task;
+    const check = await guard.check(task, executor, quote);
+    if (check.profitable) {
+      return { estimatedCostUsd: check.estimatedCostUsd };
+    }
+
+    console.warn(
+      `[Runtime] Order ${orderId.slice(0, 10)}... below ${(guard.minMargin * 100).toFixed(0)}% margin: ` +
+      `~$${check.estimatedCostUsd!.toFixed(4)} cost vs $${check.revenueUsd.toFixed(4)} revenue`
+    );
+
+    if (guard.onUnprofitable === 'downgrade') {
+      const cheaper = guard.downgrade(task, executor, quote);
+      if (cheaper) {
+        console.log(`  Downgraded ${check.model} -> ${cheaper.model}`);
+        task.model = cheaper.model;
+        this.emit({ type: 'order_unprofitable', orderId, check, action: 'downgraded' });
+        return { estimatedCostUsd: cheaper.estimatedCostUsd, downgradedFrom: check.model };
+      }
+    } else if (guard.onUnprofitable === 'approve') {
+      const approved = await guard.approve(check);
+      console.log(`  Approval ${approved ? 'granted' : 'denied'}`);
+      this.emit({ type: 'order_unprofitable', orderId, check, action: approved ? 'approved' : 'rejected' });
+      return approved ? { estimatedCostUsd: check.estimatedCostUsd } : null;
+    }
+
+    console.warn(`[Runtime] Skipping unprofitable order ${orderId.slice(0, 10)}...`);
+    this.emit({ type: 'order_unprofitable', orderId, check, action: 'skipped' });
+    return null;
+  }
+
+  /**
+   * Milliseconds left for execution before an order's deadline, after the completion margin
+   */
+  private timeLeftMs(deadline: number): number {
+    return deadline * 1000 - Date.now() - (this.config.deadlineMarginMs ?? 30000);
+  }
+
+  /**
+   * How long the executor is expected to take: its own estimate, else observed latency
+   */
+  private async expectedDurationMs(executor: Executor, task: TaskInput): Promise<number | undefined> {
+    if (executor.estimate) {
+      try {
+        return (await executor.estimate(task)).estimatedDurationMs;
+      } catch {
+        // Fall back to observed latency
+      }
+    }
+    return this.executors.getStats(executor.id).avgLatencyMs;
+  }
+
+  /**
+   * Drop an order that can't be finished before its deadline. It is not retried.
+   */
+  private missDeadline(
+    orderId: string,
+    deadline: number,
+    reason: 'expired' | 'insufficient_time' | 'timed_out',
+    detail: string
+  ): void {
+    console.warn(`[Runtime] Order ${orderId.slice(0, 10)}... missed deadline (${reason}): ${detail}`);
+    this.emit({ type: 'deadline_missed', orderId, deadline, reason, detail });
+    this.queue.ack(orderId);
+  }
+
+  /**
+   * Drop an order that can't be executed. Retrying wouldn't change the outcome.
+   */
+  private rejectOrder(orderId: string, reason: RejectReason, errors: string[]): void {
+    console.warn(`[Runtime] Order ${orderId.slice(0, 10)}... rejected (${reason}): ${errors.join('; ')}`);
+    this.emit({ type: 'order_rejected', orderId, reason, errors });
+    this.queue.ack(orderId);
+  }
+
+  /**
+   * Return an order to the queue after a failure that may not happen again
+   */
+
+  private retryOrder(orderId: string): void {
+    if (this.queue.nack(orderId)) {
+      console.log(`[Runtime] Order ${orderId.slice(0, 10)}... requeued for retry`);
+    } else {
+      console.warn(`[Runtime] Order ${orderId.slice(0, 10)}... dropped after repeated failures`);
+    }
+  }
+
+  private async fetchOrderPayload(
+    orderId: string,
+    order: { serviceId: string; buyer: string },
+    metadataURI: string,
+    deadline: number
+  ): Promise<{ payload: Record<string, unknown>; buyerPublicKey?: string }> {
+    // Prefer the buyer's signed input for this order
+    if (this.inputSource) {
+      const doc = await this.waitForOrderInput(orderId, deadline);
+      if (doc) {
+        const { valid, errors } = verifyOrderInput(doc, {
+          orderId,
+          serviceId: order.serviceId,
+          buyer: order.buyer,
+        });
+        if (!valid) {
+          throw new OrderRejectedError('invalid_input', errors.map((e) => `Invalid order input: ${e}`));
+        }
+        return { payload: doc.payload, buyerPublicKey: recoverInputPublicKey(doc) };
+      }
+      console.warn(`[Runtime] No buyer input for order ${orderId.slice(0, 10)}..., using service metadata`);
+    }
+
+    return { payload: await this.fetchServiceMetadata(metadataURI) };
+  }
+
+  /**
+   * Decide whether this order's result gets encrypted, per config.resultEncryption
+   */
+  private resolveEncryptionKey(orderId: string, buyerPublicKey?: string): string | undefined {
+    const mode = this.config.resultEncryption ?? 'none';
+    if (mode === 'none') return undefined;
+
+    if (!buyerPublicKey) {
+      if (mode === 'required') {
+        throw new OrderRejectedError('encryption_required', ['Result encryption required but buyer published no signed input']);
+      }
+      console.warn(`[Runtime] No buyer key for order ${orderId.slice(0, 10)}..., storing result unencrypted`);
+      return undefined;
+    }
+
+    return buyerPublicKey;
+  }
+
+  /**
+   * Poll the input source until the buyer's document appears or the wait expires.
+   * Buyers can only publish once the order ID is known, so it may lag the order.
+   */
+  private async waitForOrderInput(orderId: string, deadline: number) {
+    // Never wait past the point where the order could still be executed
+    const waitMs = Math.min(this.config.inputWaitMs ?? 30000, Math.max(0, this.timeLeftMs(deadline)));
+    const started = Date.now();
+
+    while (true) {
+      try {
+        const doc = await this.inputSource!.fetch(orderId);
+        if (doc) return doc;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`[Runtime] Order input fetch failed: ${message}`);
+      }
+
+      if (Date.now() - started >= waitMs) return null;
+      await new Promise((r) => setTimeout(r, 2000));
     }
   }
 
-  private async fetchOrderPayload(serviceId: string, metadataURI: string): Promise<Record<string, unknown>> {
+  private async fetchServiceMetadata(metadataURI: string): Promise<Record<string, unknown>> {
     // Try to fetch payload from metadata URI
     if (!metadataURI || metadataURI === '') {
       return {};
@@ -484,32 +893,6 @@ export class AgentRuntime {
     return {};
   }
 
-  private loadProcessedOrders(): void {
-    try {
-      const fs = require('fs');
-      if (fs.existsSync(this.processedOrdersFile)) {
-        const data = JSON.parse(fs.readFileSync(this.processedOrdersFile, 'utf-8'));
-        for (const id of data) {
-          this.processedOrders.add(id);
-        }
-        console.log(`[Runtime] Loaded ${this.processedOrders.size} previously processed orders`);
-      }
-    } catch {
-      // Ignore errors loading cache
-    }
-  }
-
-  private persistProcessedOrders(): void {
-    try {
-      const fs = require('fs');
-      const dir = require('path').dirname(this.processedOrdersFile);
-      if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-      fs.writeFileSync(this.processedOrdersFile, JSON.stringify([...this.processedOrders]));
-    } catch {
-      // Ignore errors persisting cache
-    }
-  }
-
   // ============================================================================
   // Event System
   // ============================================================================
@@ -521,6 +904,17 @@ export class AgentRuntime {
     this.eventCallbacks.push(callback);
   }
 
+  /**
+   * Follow an order's streamed output from an offset (0 for all of it), e.g. to
+   * relay it to a buyer. Requires the streaming option. Returns an unsubscribe function.
+   */
+  subscribeOutput(orderId: string, from: number, listener: (event: OutputStreamEvent) => void): () => void {
+    if (!this.streams) {
+      throw new Error('Output streaming is not enabled (set the streaming option)');
+    }
+    return this.streams.subscribe(orderId, from, listener);
+  }
+
   private emit(event: RuntimeEvent): void {
     for (const callback of this.eventCallbacks) {
       try {
@@ -570,8 +964,17 @@ export class AgentRuntime {
   /**
    * Register a custom executor
    */
-  registerExecutor(executor: Executor): void {
-    this.executors.register(executor as unknown as BaseExecutor);
+  registerExecutor(executor: Executor | BaseExecutor): void {
+    this.executors.register(this.withResponseCache(executor));
+  }
+
+  /**
+   * Put a model executor behind the response cache, when it's enabled
+   */
+  private withResponseCache(executor: Executor | BaseExecutor): Executor | BaseExecutor {
+    const { responseCache } = this.config;
+    if (!responseCache || !(executor instanceof BaseExecutor)) return executor;
+    return new CachingExecutor(executor, responseCache === true ? {} : responseCache);
   }
 
   /**
@@ -593,19 +996,29 @@ export class AgentRuntime {
     address: string;
     isRegistered: boolean;
     processingOrders: number;
+    queuedOrders: number;
     processedOrders: number;
-    executors: { id: string; name: string; healthy: boolean }[];
+    pendingCompletions: number;
+    lastScannedBlock: number | null;
+    abortedCostUsd: number;
+    executors: {
+      id: string;
+      name: string;
+      healthy: boolean;
+      requests: number;
+      failures: number;
+      avgLatencyMs?: number;
+    }[];
+    routing: Record<string, RoutingStatus>;
   }> {
     const isRegistered = await this.registry.isActiveAgent(this.address);
 
-    // Health check each executor individually
-    const healthResults = new Map<string, boolean>();
+    // Health check each executor individually (feeds health-aware routing)
     for (const executor of this.executors.list()) {
       try {
-        const hc = (executor as any).healthCheck;
-        healthResults.set(executor.id, hc ? await hc() : true);
+        this.executors.recordHealthCheck(executor.id, await executor.healthCheck());
       } catch {
-        healthResults.set(executor.id, false);
+        this.executors.recordHealthCheck(executor.id, false);
       }
     }
 
@@ -613,13 +1026,81 @@ export class AgentRuntime {
       running: this.running,
       address: this.address,
       isRegistered,
-      processingOrders: this.processingOrders.size,
-      processedOrders: this.processedOrders.size,
-      executors: this.executors.list().map((e: BaseExecutor) => ({
-        id: e.id,
-        name: e.name,
-        healthy: healthResults.get(e.id) ?? false,
-      })),
+      processingOrders: this.queue.inFlightCount,
+      queuedOrders: this.queue.size,
+      processedOrders: this.queue.processedCount,
+      pendingCompletions: this.completions.size,
+      lastScannedBlock: this.cursor.lastBlock ?? null,
+      abortedCostUsd: this.abortedCostUsd,
+      executors: this.executors.list().map((e) => {
+        const stats = this.executors.getStats(e.id);
+        return {
+          id: e.id,
+          name: e.name,
+          healthy: stats.healthy,
+          requests: stats.requests,
+          failures: stats.failures,
+          avgLatencyMs: stats.avgLatencyMs,
+        };
+      }),
+      routing: this.executors.getRoutingStatus(),
     };
   }
 }
+
+/** Why an order's execution signal was aborted */
+type AbortReason =
+  | { kind: 'deadline' }
+  | { kind: 'cancelled' }
+  | { kind: 'disputed'; detail: string };
+
+type CancelReason = Exclude<AbortReason, { kind: 'deadline' }>;
+
+type RejectReason = Extract<RuntimeEvent, { type: 'order_rejected' }>['reason'];
+
+/** An order that would fail the same way however often it was retried */
+class OrderRejectedError extends Error {
+  readonly reason: RejectReason;
+  readonly errors: string[];
+
+  constructor(reason: RejectReason, errors: string[]) {
+    super(errors.join('; '));
+    this.name = 'OrderRejectedError';
+    this.reason = reason;
+    this.errors = errors;
+  }
+}
+
+/** setTimeout runs delays above this (~24.8 days) after 1ms */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Abort with a deadline reason once `timeLeftMs()` reaches zero. Far-off
+ * deadlines are waited out in MAX_TIMER_MS steps. Returns a stop function.
+ */
+function abortAfter(controller: AbortController, timeLeftMs: () => number): () => void {
+  let timer: ReturnType<typeof setTimeout>;
+  const arm = () => {
+    const left = timeLeftMs();
+    if (left <= 0) {
+      controller.abort({ kind: 'deadline' } satisfies AbortReason);
+      return;
+    }
+    timer = setTimeout(arm, Math.min(left, MAX_TIMER_MS));
+  };
+  arm();
+  return () => clearTimeout(timer);
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal aborts, so an
+ * executor that ignores the signal can't hold a slot past the deadline
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error('Execution aborted'));
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
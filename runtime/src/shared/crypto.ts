@@ -67,3 +67,41 @@ export function decrypt(data: Buffer): string {
 export function hash(data: string | Buffer): string {
   return '0x' + crypto.createHash('sha256').update(data).digest('hex');
 }
+
+/**
+ * Sign a short-lived token (e.g. an OAuth state parameter)
+ * Returns: base64url(JSON payload with exp) + '.' + base64url(HMAC-SHA256)
+ */
+export function signToken(payload: Record<string, unknown>, ttlMs: number): string {
+  const body = Buffer.from(JSON.stringify({ ...payload, exp: Date.now() + ttlMs })).toString('base64url');
+  return `${body}.${tokenSignature(body)}`;
+}
+
+/**
+ * Verify a token from signToken and return its payload
+ * Throws if the signature doesn't match or the token has expired
+ */
+export function verifyToken<T extends Record<string, unknown>>(token: string): T & { exp: number } {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) {
+    throw new Error('Malformed token');
+  }
+
+  const expected = Buffer.from(tokenSignature(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new Error('Invalid token signature');
+  }
+
+  const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as T & { exp: number };
+  if (typeof payload.exp !== 'number' || payload.exp < Date.now()) {
+    throw new Error('Token expired');
+  }
+  return payload;
+}
+
+function tokenSignature(body: string): string {
+  // Separate key from the one used for encryption, derived from it
+  const key = crypto.createHmac('sha256', getEncryptionKey()).update('token-signing').digest();
+  return crypto.createHmac('sha256', key).update(body).digest('base64url');
+}
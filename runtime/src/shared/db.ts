@@ -4,7 +4,17 @@
 
 import pg from 'pg';
 import { pino } from 'pino';
-import type { Agent, Order, ExecutionLog, CreateAgentRequest, UpdateAgentRequest } from './types.js';
+import { DEFAULT_RETRY_POLICY } from './retry.js';
+import type {
+  Agent,
+  AgentUsage,
+  Order,
+  OrderAttemptError,
+  ExecutionLog,
+  CreateAgentRequest,
+  RetryPolicy,
+  UpdateAgentRequest,
+} from './types.js';
 
 const logger = pino({ name: 'db' });
 
@@ -19,6 +29,13 @@ pool.on('error', (err) => {
   logger.error({ err }, 'Unexpected database pool error');
 });
 
+/**
+ * Close the pool's connections, e.g. on shutdown
+ */
+export async function closePool(): Promise<void> {
+  await pool.end();
+}
+
 // =============================================================================
 // Agent Queries
 // =============================================================================
@@ -51,8 +68,8 @@ export async function createAgent(req: CreateAgentRequest): Promise<Agent> {
   const result = await pool.query(
     `INSERT INTO agents (
       name, description, owner_address, model, temperature, max_tokens,
-      system_prompt, tools, guardrails, knowledge_config, status
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'draft')
+      system_prompt, tools, guardrails, retry_policy, knowledge_config, status
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 'draft')
     RETURNING *`,
     [
       req.name,
@@ -68,8 +85,10 @@ export async function createAgent(req: CreateAgentRequest): Promise<Agent> {
         maxRequestsPerMinute: 60,
         blockedTopics: [],
         requireHumanApproval: false,
+        maxToolIterations: 5,
         ...req.guardrails,
       }),
+      JSON.stringify({ ...DEFAULT_RETRY_POLICY, ...req.retryPolicy }),
       req.knowledgeConfig ? JSON.stringify(req.knowledgeConfig) : null,
     ]
   );
@@ -110,8 +129,17 @@ export async function updateAgent(id: string, req: UpdateAgentRequest): Promise<
     values.push(JSON.stringify(req.tools));
   }
   if (req.guardrails !== undefined) {
-    updates.push(`guardrails = guardrails || $${paramIndex++}::jsonb`);
-    values.push(JSON.stringify(req.guardrails));
+    // Merged into the current guardrails; null fields are removed
+    const entries = Object.entries(req.guardrails);
+    updates.push(`guardrails = (guardrails || $${paramIndex++}::jsonb) - $${paramIndex++}::text[]`);
+    values.push(
+      JSON.stringify(Object.fromEntries(entries.filter(([, value]) => value !== null))),
+      entries.filter(([, value]) => value === null).map(([key]) => key)
+    );
+  }
+  if (req.retryPolicy !== undefined) {
+    updates.push(`retry_policy = retry_policy || $${paramIndex++}::jsonb`);
+    values.push(JSON.stringify(req.retryPolicy));
   }
   if (req.knowledgeConfig !== undefined) {
     updates.push(`knowledge_config = $${paramIndex++}`);
@@ -212,6 +240,20 @@ export async function deleteAgentSecret(agentId: string, keyName: string): Promi
   return (result.rowCount ?? 0) > 0;
 }
 
+/**
+ * Spend an OAuth state nonce; false if it was already spent. Spent nonces are
+ * kept until their state expires.
+ */
+export async function spendOAuthNonce(nonce: string, expiresAt: Date): Promise<boolean> {
+  await pool.query(`DELETE FROM oauth_state_nonces WHERE expires_at < NOW()`);
+  const result = await pool.query(
+    `INSERT INTO oauth_state_nonces (nonce, expires_at) VALUES ($1, $2)
+     ON CONFLICT (nonce) DO NOTHING`,
+    [nonce, expiresAt]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
 // =============================================================================
 // Order Queries
 // =============================================================================
@@ -273,16 +315,30 @@ export async function updateOrderStatus(
     resultUri?: string;
     resultHash?: string;
     tokensUsed?: number;
+    costUsd?: number;
     executionTimeMs?: number;
     completeTxHash?: string;
+    /** Pending orders: when the retry may be claimed */
+    nextAttemptAt?: Date;
+    retryPolicy?: RetryPolicy;
+    errorHistory?: OrderAttemptError[];
+    /** Only update while this worker holds the order's lease */
+    claimedBy?: string;
   }
-): Promise<void> {
+): Promise<boolean> {
   const updates = ['status = $2'];
   const values: unknown[] = [id, status];
   let paramIndex = 3;
 
   if (status === 'processing') {
     updates.push(`started_at = NOW()`);
+    // A new attempt streams from scratch
+    updates.push(`partial_output = NULL`);
+  } else {
+    updates.push(`lease_expires_at = NULL`);
+  }
+  if (status === 'pending') {
+    updates.push(`claimed_by = NULL`);
   }
   if (status === 'completed' || status === 'failed') {
     updates.push(`completed_at = NOW()`);
@@ -307,6 +363,10 @@ export async function updateOrderStatus(
     updates.push(`tokens_used = $${paramIndex++}`);
     values.push(extra.tokensUsed);
   }
+  if (extra?.costUsd !== undefined) {
+    updates.push(`cost_usd = $${paramIndex++}`);
+    values.push(extra.costUsd);
+  }
   if (extra?.executionTimeMs !== undefined) {
     updates.push(`execution_time_ms = $${paramIndex++}`);
     values.push(extra.executionTimeMs);
@@ -315,25 +375,228 @@ export async function updateOrderStatus(
     updates.push(`complete_tx_hash = $${paramIndex++}`);
     values.push(extra.completeTxHash);
   }
+  if (extra?.nextAttemptAt !== undefined) {
+    updates.push(`next_attempt_at = $${paramIndex++}`);
+    values.push(extra.nextAttemptAt);
+  }
+  if (extra?.retryPolicy !== undefined) {
+    updates.push(`retry_policy = $${paramIndex++}`);
+    values.push(JSON.stringify(extra.retryPolicy));
+  }
+  if (extra?.errorHistory !== undefined) {
+    updates.push(`error_history = $${paramIndex++}`);
+    values.push(JSON.stringify(extra.errorHistory));
+  }
 
-  await pool.query(
-    `UPDATE orders SET ${updates.join(', ')} WHERE id = $1`,
+  let where = 'id = $1';
+  if (extra?.claimedBy !== undefined) {
+    where += ` AND claimed_by = $${paramIndex++}`;
+    values.push(extra.claimedBy);
+  }
+
+  const result = await pool.query(
+    `UPDATE orders SET ${updates.join(', ')} WHERE ${where}`,
     values
   );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Save streamed output for an order that is still processing (by `claimedBy`,
+ * when given)
+ */
+export async function checkpointOrderOutput(id: string, partialOutput: string, claimedBy?: string): Promise<void> {
+  await pool.query(
+    `UPDATE orders SET partial_output = $2
+     WHERE id = $1 AND status = 'processing' AND ($3::text IS NULL OR claimed_by = $3)`,
+    [id, partialOutput, claimedBy ?? null]
+  );
 }
 
-export async function getPendingOrders(limit = 10): Promise<Order[]> {
+/**
+ * Just what an output stream needs, polled while an order runs
+ */
+export async function getOrderOutput(id: string): Promise<{
+  status: Order['status'];
+  startedAt: Date | null;
+  partialOutput: string | null;
+  response: string | null;
+  errorMessage: string | null;
+} | null> {
   const result = await pool.query(
-    `SELECT * FROM orders 
-     WHERE status = 'pending' 
-     ORDER BY priority DESC, created_at ASC 
-     LIMIT $1
-     FOR UPDATE SKIP LOCKED`,
-    [limit]
+    `SELECT status, started_at, partial_output, result_data->>'response' AS response, error_message
+     FROM orders WHERE id = $1`,
+    [id]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+  return {
+    status: row.status,
+    startedAt: row.started_at ? new Date(row.started_at) : null,
+    partialOutput: row.partial_output,
+    response: row.response,
+    errorMessage: row.error_message,
+  };
+}
+
+/**
+ * Atomically claim up to `limit` orders for a worker: pending orders due to
+ * run, plus processing orders whose lease expired (their worker died
+ * mid-execution).
+ * Claimed orders are marked processing with a lease of `leaseMs`.
+ */
+export async function claimOrders(
+  workerId: string,
+  limit: number,
+  leaseMs: number
+): Promise<Array<Order & { reclaimedFrom: string | null }>> {
+  const result = await pool.query(
+    `WITH claimable AS (
+       SELECT id, claimed_by FROM orders
+       WHERE (status = 'pending' AND (next_attempt_at IS NULL OR next_attempt_at <= NOW()))
+          OR (status = 'processing' AND lease_expires_at < NOW())
+       ORDER BY priority DESC, created_at ASC
+       LIMIT $2
+       FOR UPDATE SKIP LOCKED
+     )
+     UPDATE orders o SET
+       status = 'processing',
+       claimed_by = $1,
+       lease_expires_at = NOW() + $3 * INTERVAL '1 millisecond',
+       started_at = NOW(),
+       partial_output = NULL,
+       attempts = o.attempts + 1,
+       next_attempt_at = NULL
+     FROM claimable c
+     WHERE o.id = c.id
+     RETURNING o.*, CASE WHEN c.claimed_by IS DISTINCT FROM $1 THEN c.claimed_by END AS reclaimed_from`,
+    [workerId, limit, leaseMs]
+  );
+  return result.rows.map((row) => ({ ...rowToOrder(row), reclaimedFrom: row.reclaimed_from }));
+}
+
+/**
+ * Extend a worker's lease on an order. False when the worker no longer holds
+ * it (the lease expired and another worker reclaimed it, or it finished).
+ */
+export async function renewOrderLease(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE orders SET lease_expires_at = NOW() + $3 * INTERVAL '1 millisecond'
+     WHERE id = $1 AND claimed_by = $2 AND status = 'processing'`,
+    [id, workerId, leaseMs]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Return a claimed order to the queue without running it (the claim doesn't
+ * count as an attempt). A deferred order isn't claimed again before
+ * `deferral.until`, and carries the reason as its error message.
+ */
+export async function releaseOrder(
+  id: string,
+  workerId: string,
+  deferral?: { until?: Date; reason: string }
+): Promise<void> {
+  await pool.query(
+    `UPDATE orders SET
+       status = 'pending', claimed_by = NULL, lease_expires_at = NULL, started_at = NULL,
+       attempts = GREATEST(attempts - 1, 0),
+       next_attempt_at = $3, error_message = COALESCE($4, error_message)
+     WHERE id = $1 AND claimed_by = $2 AND status = 'processing'`,
+    [id, workerId, deferral?.until ?? null, deferral?.reason ?? null]
+  );
+}
+
+/**
+ * An agent's usage for checking `order` against its guardrails. Orders are the
+ * agent's by agent or service id; `order` itself isn't counted, and of the
+ * orders running, only those claimed before it are, so orders claimed
+ * together don't hold each other back.
+ */
+export async function getAgentUsage(
+  agentId: string,
+  serviceId: string | null,
+  order: Pick<Order, 'id' | 'buyerAddress'>
+): Promise<AgentUsage> {
+  const result = await pool.query(
+    `WITH self AS (SELECT started_at, id FROM orders WHERE id = $3),
+     usage AS (
+       SELECT o.*,
+         o.started_at > NOW() - INTERVAL '1 minute' AND (o.started_at, o.id) < (SELECT started_at, id FROM self) AS in_minute,
+         o.completed_at > NOW() - INTERVAL '1 day' AS in_day,
+         o.completed_at > NOW() - INTERVAL '30 days' AS in_month,
+         LOWER(o.buyer_address) = LOWER($4)
+           AND o.status IN ('processing', 'completed')
+           AND o.started_at > NOW() - INTERVAL '1 day'
+           AND (o.started_at, o.id) < (SELECT started_at, id FROM self) AS by_buyer
+       FROM orders o
+       WHERE (o.agent_id = $1 OR o.service_id = $2) AND o.id <> $3 AND o.status <> 'rejected'
+         AND (o.completed_at > NOW() - INTERVAL '30 days' OR o.started_at > NOW() - INTERVAL '1 day')
+     )
+     SELECT
+       COUNT(*) FILTER (WHERE in_minute) AS minute_requests,
+       MIN(started_at) FILTER (WHERE in_minute) AS minute_first,
+       COALESCE(SUM(tokens_used) FILTER (WHERE in_day), 0) AS day_tokens,
+       COALESCE(SUM(cost_usd) FILTER (WHERE in_day), 0) AS day_cost_usd,
+       MIN(completed_at) FILTER (WHERE in_day) AS day_first,
+       COALESCE(SUM(tokens_used) FILTER (WHERE in_month), 0) AS month_tokens,
+       COALESCE(SUM(cost_usd) FILTER (WHERE in_month), 0) AS month_cost_usd,
+       MIN(completed_at) FILTER (WHERE in_month) AS month_first,
+       COUNT(*) FILTER (WHERE by_buyer) AS buyer_orders,
+       COALESCE(SUM(tokens_used) FILTER (WHERE by_buyer), 0) AS buyer_tokens,
+       COALESCE(SUM(cost_usd) FILTER (WHERE by_buyer), 0) AS buyer_cost_usd,
+       MIN(started_at) FILTER (WHERE by_buyer) AS buyer_first
+     FROM usage`,
+    [agentId, serviceId, order.id, order.buyerAddress]
+  );
+  const row = result.rows[0];
+  const date = (value: unknown) => (value ? new Date(value as string) : null);
+  return {
+    requestsLastMinute: Number(row.minute_requests),
+    firstRequestAt: date(row.minute_first),
+    day: { tokens: Number(row.day_tokens), costUsd: Number(row.day_cost_usd), firstAt: date(row.day_first) },
+    month: { tokens: Number(row.month_tokens), costUsd: Number(row.month_cost_usd), firstAt: date(row.month_first) },
+    buyer: {
+      orders: Number(row.buyer_orders),
+      tokens: Number(row.buyer_tokens),
+      costUsd: Number(row.buyer_cost_usd),
+      firstAt: date(row.buyer_first),
+    },
+  };
+}
+
+export async function getDeadLetterOrders(options: {
+  agentId?: string;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<Order[]> {
+  const result = await pool.query(
+    `SELECT * FROM orders
+     WHERE status = 'dead_letter' AND ($1::uuid IS NULL OR agent_id = $1)
+     ORDER BY updated_at DESC
+     LIMIT $2 OFFSET $3`,
+    [options.agentId ?? null, options.limit ?? 50, options.offset ?? 0]
   );
   return result.rows.map(rowToOrder);
 }
 
+/**
+ * Queue orders in one of `statuses` to run again with a fresh set of
+ * attempts (their error history is kept). Returns the ids requeued.
+ */
+export async function requeueOrders(ids: string[], statuses: Order['status'][]): Promise<string[]> {
+  const result = await pool.query(
+    `UPDATE orders SET
+       status = 'pending', attempts = 0, next_attempt_at = NULL, error_message = NULL,
+       claimed_by = NULL, lease_expires_at = NULL, completed_at = NULL
+     WHERE id = ANY($1::uuid[]) AND status = ANY($2::text[])
+     RETURNING id`,
+    [ids, statuses]
+  );
+  return result.rows.map((r) => r.id);
+}
+
 // =============================================================================
 // Log Queries
 // =============================================================================
@@ -384,6 +647,7 @@ function rowToAgent(row: Record<string, unknown>): Agent {
     systemPrompt: row.system_prompt as string,
     tools: row.tools as Agent['tools'],
     guardrails: row.guardrails as Agent['guardrails'],
+    retryPolicy: { ...DEFAULT_RETRY_POLICY, ...(row.retry_policy as Partial<RetryPolicy> | null) },
     knowledgeConfig: row.knowledge_config as Agent['knowledgeConfig'],
     status: row.status as Agent['status'],
     pricePerRequest: row.price_per_request as string | null,
@@ -412,11 +676,20 @@ function rowToOrder(row: Record<string, unknown>): Order {
     resultData: row.result_data as Order['resultData'],
     resultUri: row.result_uri as string | null,
     resultHash: row.result_hash as string | null,
+    partialOutput: row.partial_output as string | null,
     status: row.status as Order['status'],
+    claimedBy: row.claimed_by as string | null,
+    leaseExpiresAt: row.lease_expires_at ? new Date(row.lease_expires_at as string) : null,
+    attempts: (row.attempts as number | null) ?? 0,
+    nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at as string) : null,
+    retryPolicy: row.retry_policy as RetryPolicy | null,
+    errorHistory: (row.error_history as OrderAttemptError[] | null) ?? [],
     errorMessage: row.error_message as string | null,
     startedAt: row.started_at ? new Date(row.started_at as string) : null,
     completedAt: row.completed_at ? new Date(row.completed_at as string) : null,
     tokensUsed: row.tokens_used as number | null,
+    // NUMERIC comes back as a string
+    costUsd: row.cost_usd != null ? Number(row.cost_usd) : null,
     executionTimeMs: row.execution_time_ms as number | null,
     completeTxHash: row.complete_tx_hash as string | null,
     createdAt: new Date(row.created_at as string),
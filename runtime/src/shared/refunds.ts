@@ -0,0 +1,80 @@
+/**
+ * Order refunds
+ * AgentMarketplace holds an order's payment in escrow and only returns it when
+ * the buyer cancels before the deadline, or when the fee collector resolves the
+ * buyer's dispute in their favour; the seller can't refund by itself.
+ * refundOrder settles what the chain allows:
+ * - cancelled or refunded on-chain already: recorded as refunded
+ * - disputed, with REFUND_PRIVATE_KEY holding the fee collector key: resolved
+ *   with a refund
+ * - anything else: left as is, with the reason
+ */
+
+import { ethers } from 'ethers';
+import { MARKETPLACE_ABI, OrderStatus } from '../contracts.js';
+import type { Order } from './types.js';
+
+export interface RefundOutcome {
+  id: string;
+  refunded: boolean;
+  txHash?: string;
+  reason?: string;
+}
+
+let marketplace: ethers.Contract | null | undefined;
+
+function getMarketplace(): ethers.Contract | null {
+  if (marketplace !== undefined) return marketplace;
+
+  const rpcUrl = process.env.L2_RPC_URL;
+  const address = process.env.MARKETPLACE_ADDRESS;
+  if (!rpcUrl || !address) {
+    marketplace = null;
+    return null;
+  }
+
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const key = process.env.REFUND_PRIVATE_KEY;
+  marketplace = new ethers.Contract(address, MARKETPLACE_ABI, key ? new ethers.Wallet(key, provider) : provider);
+  return marketplace;
+}
+
+/**
+ * Refund an order's buyer as far as the chain allows. Doesn't update the
+ * order; the caller records `refunded` outcomes.
+ */
+export async function refundOrder(order: Order): Promise<RefundOutcome> {
+  const contract = getMarketplace();
+  if (!contract) {
+    return { id: order.id, refunded: false, reason: 'Blockchain not configured (L2_RPC_URL, MARKETPLACE_ADDRESS)' };
+  }
+
+  const onChain = await contract.orders(order.orderId);
+  const status = Number(onChain.status) as OrderStatus;
+
+  if (status === OrderStatus.Cancelled || status === OrderStatus.Refunded) {
+    return { id: order.id, refunded: true, reason: 'Already refunded on-chain' };
+  }
+  if (status !== OrderStatus.Disputed) {
+    return {
+      id: order.id,
+      refunded: false,
+      reason: status === OrderStatus.Pending
+        ? 'Escrow is only returned when the buyer cancels or disputes the order'
+        : `Order is ${OrderStatus[status] ?? status} on-chain`,
+    };
+  }
+
+  const runner = contract.runner;
+  if (!(runner instanceof ethers.Wallet)) {
+    return { id: order.id, refunded: false, reason: 'Order is disputed; set REFUND_PRIVATE_KEY to the fee collector key to resolve it' };
+  }
+  const feeCollector: string = await contract.feeCollector();
+  if (feeCollector.toLowerCase() !== runner.address.toLowerCase()) {
+    return { id: order.id, refunded: false, reason: `Order is disputed; only the fee collector ${feeCollector} can refund it` };
+  }
+
+  const tx = await contract.resolveDispute(order.orderId, true);
+  const receipt = await tx.wait();
+  return { id: order.id, refunded: true, txHash: receipt.hash };
+}
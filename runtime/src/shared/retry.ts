@@ -0,0 +1,43 @@
+/**
+ * Order retry policy
+ * Classifies execution errors and decides when a failed order runs again
+ */
+
+import type { ErrorClass, RetryPolicy } from './types.js';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  backoffMs: 5_000,
+  backoffMultiplier: 2,
+  maxBackoffMs: 300_000,
+  retryOn: ['timeout', 'rate_limit', 'network', 'provider'],
+};
+
+/**
+ * Class of an execution error, from the HTTP status provider SDKs attach
+ * or the error code/message
+ */
+export function classifyError(err: unknown): ErrorClass {
+  const { status, code, name, message } = (err ?? {}) as { status?: unknown; code?: unknown; name?: unknown; message?: unknown };
+  const text = `${typeof code === 'string' ? code : ''} ${typeof name === 'string' ? name : ''} ${typeof message === 'string' ? message : String(err)}`;
+
+  if (status === 429 || /rate.?limit|too many requests/i.test(text)) return 'rate_limit';
+  if (status === 408 || /timed? ?out|timeout|ETIMEDOUT|AbortError/i.test(text)) return 'timeout';
+  if (/ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|EPIPE|socket hang up|fetch failed|network/i.test(text)) return 'network';
+  if ((typeof status === 'number' && status >= 500) || /overloaded|server error|bad gateway|service unavailable/i.test(text)) {
+    return 'provider';
+  }
+  if (/guardrail|blocked topic|requires human approval/i.test(text)) return 'guardrail';
+  if (typeof status === 'number' && status >= 400) return 'validation';
+  return 'unknown';
+}
+
+/**
+ * When attempt `attempt` (1-based) failing with `errorClass` runs again, or
+ * null when the order is out of retries or the error isn't retryable
+ */
+export function nextRetryAt(policy: RetryPolicy, attempt: number, errorClass: ErrorClass, now = Date.now()): Date | null {
+  if (attempt >= policy.maxAttempts || !policy.retryOn.includes(errorClass)) return null;
+  const delay = Math.min(policy.backoffMs * policy.backoffMultiplier ** (attempt - 1), policy.maxBackoffMs);
+  return new Date(now + delay);
+}
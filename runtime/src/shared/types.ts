@@ -26,6 +26,9 @@ export interface Agent {
   tools: AgentTool[];
   guardrails: AgentGuardrails;
   
+  // How failed orders are retried
+  retryPolicy: RetryPolicy;
+  
   // Knowledge base (optional)
   knowledgeConfig: KnowledgeConfig | null;
   
@@ -62,19 +65,79 @@ export interface AgentTool {
   name: string;
   description: string;
   parameters: Record<string, unknown>;  // JSON Schema
-  handler: 'builtin' | 'webhook';
+  handler: 'builtin' | 'webhook' | 'integration';
   webhookUrl?: string;
   webhookSecret?: string;  // Reference to secret key name
+  integration?: string;  // '<integration>.<action>', e.g. 'github.createIssue'
 }
 
+/**
+ * Limits on an agent's orders. Rate limits, budgets and quotas that are
+ * unset or 0 are not enforced.
+ */
 export interface AgentGuardrails {
   maxTokensPerRequest: number;
   maxRequestsPerMinute: number;
   blockedTopics: string[];
   requireHumanApproval: boolean;
   approvalThreshold?: number;  // 0-1 confidence score
+  maxToolIterations?: number;  // Tool rounds fed back to the model per request (default 5)
+  
+  // Spend budgets across all orders (rolling 24 hours / 30 days)
+  dailyTokenBudget?: number;
+  monthlyTokenBudget?: number;
+  dailyUsdBudget?: number;
+  monthlyUsdBudget?: number;
+  
+  // Per-buyer quotas (rolling 24 hours)
+  buyerDailyOrderQuota?: number;
+  buyerDailyTokenQuota?: number;
+  
+  // What happens to an order over a limit
+  onRateLimit?: GuardrailAction;  // default 'defer'
+  onBudgetExceeded?: GuardrailAction;  // default 'defer'
+  onQuotaExceeded?: GuardrailAction;  // default 'reject'
+}
+
+export type GuardrailAction =
+  | 'defer'  // Back to the queue until the limit's window frees up
+  | 'reject'  // Order is rejected
+  | 'pause';  // Agent is paused until its owner resumes it
+
+/**
+ * An agent's usage in its guardrails' windows, from the orders table
+ */
+export interface AgentUsage {
+  requestsLastMinute: number;
+  firstRequestAt: Date | null;  // Earliest start in the last minute
+  day: UsageWindow;
+  month: UsageWindow;
+  buyer: UsageWindow & { orders: number };  // The order's buyer over the last 24 hours
+}
+
+export interface UsageWindow {
+  tokens: number;
+  costUsd: number;
+  firstAt: Date | null;  // Earliest usage in the window; it frees up a window after this
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;  // Attempts per order, including the first (default 3)
+  backoffMs: number;  // Delay before the first retry (default 5000)
+  backoffMultiplier: number;  // Delay growth per retry (default 2)
+  maxBackoffMs: number;  // Cap on the delay (default 300000)
+  retryOn: ErrorClass[];  // Errors worth retrying (default timeout, rate_limit, network, provider)
 }
 
+export type ErrorClass =
+  | 'timeout'
+  | 'rate_limit'
+  | 'network'
+  | 'provider'  // Provider-side failure (5xx, overloaded)
+  | 'validation'  // Request rejected (4xx)
+  | 'guardrail'
+  | 'unknown';
+
 export interface KnowledgeConfig {
   type: 'pinecone' | 'qdrant' | 'pgvector';
   indexName?: string;
@@ -110,15 +173,25 @@ export interface Order {
   resultData: OrderResult | null;
   resultUri: string | null;
   resultHash: string | null;
+  partialOutput: string | null;  // Streamed output so far (reset on each attempt)
   
   // Execution
   status: OrderStatus;
   errorMessage: string | null;
+  claimedBy: string | null;  // Worker holding the order while processing
+  leaseExpiresAt: Date | null;  // Reclaimable by another worker after this
+  
+  // Retries
+  attempts: number;  // Executions started so far
+  nextAttemptAt: Date | null;  // A scheduled retry isn't claimed before this
+  retryPolicy: RetryPolicy | null;  // Agent's policy, fixed on the order at its first failure
+  errorHistory: OrderAttemptError[];
   
   // Metrics
   startedAt: Date | null;
   completedAt: Date | null;
   tokensUsed: number | null;
+  costUsd: number | null;  // Model cost of the completed execution
   executionTimeMs: number | null;
   
   // On-chain tx
@@ -137,7 +210,18 @@ export type OrderStatus =
   | 'completed'
   | 'failed'
   | 'cancelled'
-  | 'expired';
+  | 'expired'
+  | 'dead_letter'  // Out of retries; waiting for a manual retry or refund
+  | 'refunded'
+  | 'rejected';  // Refused by the agent's guardrails
+
+export interface OrderAttemptError {
+  attempt: number;
+  at: string;  // ISO timestamp
+  errorClass: ErrorClass;
+  message: string;
+  workerId?: string;
+}
 
 export interface OrderInput {
   // User's request
@@ -174,8 +258,30 @@ export interface OrderResult {
   
   // Guardrails info
   guardrailsApplied?: string[];
+
+  // Every model turn and tool call, in order
+  trace?: ExecutionTraceStep[];
 }
 
+export type ExecutionTraceStep =
+  | {
+      type: 'model';
+      iteration: number;
+      content: string;
+      toolCalls: string[];  // Names of the tools the model asked for
+      tokensUsed: { prompt: number; completion: number; total: number };
+      durationMs: number;
+    }
+  | {
+      type: 'tool';
+      iteration: number;
+      tool: string;
+      input: Record<string, unknown>;
+      output: unknown;
+      error?: string;
+      durationMs: number;
+    };
+
 // =============================================================================
 // Execution Log Types
 // =============================================================================
@@ -204,6 +310,7 @@ export interface CreateAgentRequest {
   systemPrompt: string;
   tools?: AgentTool[];
   guardrails?: Partial<AgentGuardrails>;
+  retryPolicy?: Partial<RetryPolicy>;
   knowledgeConfig?: KnowledgeConfig;
 }
 
@@ -215,11 +322,17 @@ export interface UpdateAgentRequest {
   maxTokens?: number;
   systemPrompt?: string;
   tools?: AgentTool[];
-  guardrails?: Partial<AgentGuardrails>;
+  guardrails?: AgentGuardrailsUpdate;
+  retryPolicy?: Partial<RetryPolicy>;
   knowledgeConfig?: KnowledgeConfig;
   status?: AgentStatus;
 }
 
+// Guardrail fields to change; null removes an optional guardrail
+export type AgentGuardrailsUpdate = {
+  [K in keyof AgentGuardrails]?: undefined extends AgentGuardrails[K] ? AgentGuardrails[K] | null : AgentGuardrails[K];
+};
+
 export interface StoreSecretRequest {
   key: string;
   value: string;
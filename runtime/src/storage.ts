@@ -4,10 +4,18 @@
  */
 
 import { createHash } from 'crypto';
-import { writeFile, readFile, mkdir } from 'fs/promises';
+import { writeFile, readFile, mkdir, rename, readdir, stat, unlink } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
-import type { ResultStorage, ResultData } from './types.js';
+import { Redis } from 'ioredis';
+import type {
+  ResultStorage,
+  ResultData,
+  ExecutionTranscript,
+  TranscriptStore,
+  CachedResponse,
+  ResponseCacheStore,
+} from './types.js';
 
 // ============================================================================
 // IPFS Storage (Production)
@@ -174,3 +182,232 @@ export class MemoryStorage implements ResultStorage {
     this.counter = 0;
   }
 }
+
+// ============================================================================
+// Transcript Storage (Deterministic Replay)
+// ============================================================================
+
+export class FileTranscriptStore implements TranscriptStore {
+  private baseDir: string;
+
+  constructor(baseDir: string = './data/transcripts') {
+    this.baseDir = baseDir;
+  }
+
+  async get(requestHash: string): Promise<ExecutionTranscript | null> {
+    try {
+      const content = await readFile(this.file(requestHash), 'utf-8');
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+
+  async put(transcript: ExecutionTranscript): Promise<void> {
+    if (!existsSync(this.baseDir)) {
+      await mkdir(this.baseDir, { recursive: true });
+    }
+
+    const filepath = this.file(transcript.requestHash);
+    const tmp = `${filepath}.tmp`;
+    await writeFile(tmp, JSON.stringify(transcript, null, 2));
+    await rename(tmp, filepath);
+  }
+
+  private file(requestHash: string): string {
+    if (!/^[a-f0-9]{64}$/.test(requestHash)) {
+      throw new Error(`Invalid request hash: ${requestHash}`);
+    }
+    return join(this.baseDir, `${requestHash}.json`);
+  }
+}
+
+export class MemoryTranscriptStore implements TranscriptStore {
+  private transcripts = new Map<string, ExecutionTranscript>();
+
+  async get(requestHash: string): Promise<ExecutionTranscript | null> {
+    return this.transcripts.get(requestHash) ?? null;
+  }
+
+  async put(transcript: ExecutionTranscript): Promise<void> {
+    this.transcripts.set(transcript.requestHash, transcript);
+  }
+
+  clear(): void {
+    this.transcripts.clear();
+  }
+}
+
+// ============================================================================
+// Response Cache Storage
+// ============================================================================
+
+/**
+ * In-memory cache, evicting the least recently used entry past maxEntries
+ */
+export class MemoryResponseCache implements ResponseCacheStore {
+  private entries = new Map<string, CachedResponse>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<CachedResponse | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return null;
+    // Re-insert so iteration order tracks recency
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * One JSON file per entry. Once more than maxEntries are written, the oldest
+ * files are removed down to 90% of maxEntries, so the directory is only
+ * listed again after another 10% of sets.
+ */
+export class FileResponseCache implements ResponseCacheStore {
+  private baseDir: string;
+  private maxEntries: number;
+  /** Files counted at the last eviction plus sets since (overwrites count too); unknown until the first set */
+  private entries?: number;
+
+  constructor(baseDir: string = './data/response-cache', maxEntries: number = 10_000) {
+    this.baseDir = baseDir;
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<CachedResponse | null> {
+    let entry: CachedResponse;
+    try {
+      entry = JSON.parse(await readFile(this.file(key), 'utf-8'));
+    } catch {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    if (!existsSync(this.baseDir)) {
+      await mkdir(this.baseDir, { recursive: true });
+    }
+
+    const filepath = this.file(entry.key);
+    const tmp = `${filepath}.tmp`;
+    await writeFile(tmp, JSON.stringify(entry));
+    await rename(tmp, filepath);
+
+    if (this.entries === undefined || ++this.entries > this.maxEntries) {
+      await this.evict();
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await unlink(this.file(key)).catch(() => {});
+  }
+
+  private async evict(): Promise<void> {
+    const files = (await readdir(this.baseDir)).filter((f) => f.endsWith('.json'));
+    if (files.length <= this.maxEntries) {
+      this.entries = files.length;
+      return;
+    }
+    const keep = Math.ceil(this.maxEntries * 0.9);
+
+    const dated = await Promise.all(files.map(async (f) => {
+      const info = await stat(join(this.baseDir, f)).catch(() => null);
+      return { f, mtime: info?.mtimeMs ?? 0 };
+    }));
+    dated.sort((a, b) => a.mtime - b.mtime);
+    for (const { f } of dated.slice(0, files.length - keep)) {
+      await unlink(join(this.baseDir, f)).catch(() => {});
+    }
+    this.entries = keep;
+  }
+
+  private file(key: string): string {
+    if (!/^[a-f0-9]{64}$/.test(key)) {
+      throw new Error(`Invalid cache key: ${key}`);
+    }
+    return join(this.baseDir, `${key}.json`);
+  }
+}
+
+/**
+ * Redis cache shared between runtimes. Entries expire with the TTL; an index
+ * sorted by insertion time trims the oldest past maxEntries.
+ */
+export class RedisResponseCache implements ResponseCacheStore {
+  private redis: Redis;
+  private prefix: string;
+  private maxEntries: number;
+
+  constructor(
+    redis: Redis | string = process.env.REDIS_URL || 'redis://127.0.0.1:6379',
+    options: { prefix?: string; maxEntries?: number } = {}
+  ) {
+    this.redis = typeof redis === 'string' ? new Redis(redis) : redis;
+    this.prefix = options.prefix ?? 'agentl2:response-cache:';
+    this.maxEntries = options.maxEntries ?? 100_000;
+  }
+
+  async get(key: string): Promise<CachedResponse | null> {
+    const value = await this.redis.get(this.prefix + key);
+    return value ? JSON.parse(value) : null;
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    const ttlMs = Math.max(1, entry.expiresAt - Date.now());
+    const index = `${this.prefix}index`;
+    await this.redis
+      .multi()
+      .set(this.prefix + entry.key, JSON.stringify(entry), 'PX', ttlMs)
+      .zadd(index, entry.cachedAt, entry.key)
+      .exec();
+
+    const excess = (await this.redis.zcard(index)) - this.maxEntries;
+    if (excess > 0) {
+      const oldest = await this.redis.zrange(index, 0, excess - 1);
+      await this.redis
+        .multi()
+        .del(...oldest.map((k) => this.prefix + k))
+        .zrem(index, ...oldest)
+        .exec();
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.redis
+      .multi()
+      .del(this.prefix + key)
+      .zrem(`${this.prefix}index`, key)
+      .exec();
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Output Streams
+ * Live executor output per order
+ * - Executors push chunks as they are generated
+ * - Subscribers replay from an offset, so viewers can reconnect without losing output
+ * - Partial output is checkpointed to disk (throttled) and readable after a restart
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { OutputStreamEvent, OutputStreamOptions, OutputStreamStatus } from './types.js';
+
+interface StreamSnapshot {
+  version: 1;
+  orderId: string;
+  text: string;
+  status: OutputStreamStatus;
+  updatedAt: number;
+}
+
+type OutputListener = (event: OutputStreamEvent) => void;
+
+export class OutputStreams {
+  private dir: string;
+  private checkpointIntervalMs: number;
+  private retentionMs: number;
+
+  private streams = new Map<string, StreamSnapshot>();
+  private listeners = new Map<string, Set<OutputListener>>();
+  private checkpointTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(options: OutputStreamOptions = {}) {
+    this.dir = options.dir ?? './data/streams';
+    this.checkpointIntervalMs = options.checkpointIntervalMs ?? 1000;
+    this.retentionMs = options.retentionMs ?? 60 * 60 * 1000;
+    this.prune();
+  }
+
+  /**
+   * Start an order's output, discarding any from an earlier attempt
+   */
+  begin(orderId: string): void {
+    const previous = this.read(orderId);
+    this.streams.set(orderId, { version: 1, orderId, text: '', status: 'streaming', updatedAt: Date.now() });
+    this.persist(orderId);
+    if (previous?.text) this.notify(orderId, { type: 'reset' });
+  }
+
+  append(orderId: string, chunk: string): void {
+    const stream = this.streams.get(orderId);
+    if (!stream || stream.status !== 'streaming' || !chunk) return;
+
+    stream.text += chunk;
+    stream.updatedAt = Date.now();
+    this.notify(orderId, { type: 'chunk', text: chunk, offset: stream.text.length });
+
+    if (!this.checkpointTimers.has(orderId)) {
+      this.checkpointTimers.set(orderId, setTimeout(() => this.persist(orderId), this.checkpointIntervalMs));
+    }
+  }
+
+  /**
+   * Finish an order's output. No-op if it isn't streaming.
+   */
+  end(orderId: string, status: Exclude<OutputStreamStatus, 'streaming'>): void {
+    const stream = this.streams.get(orderId);
+    if (!stream || stream.status !== 'streaming') return;
+
+    stream.status = status;
+    stream.updatedAt = Date.now();
+    this.persist(orderId);
+    this.notify(orderId, { type: 'end', status });
+
+    // Stays readable for late viewers, then is dropped
+    setTimeout(() => this.remove(orderId), this.retentionMs).unref();
+  }
+
+  /**
+   * Output so far, from memory or the last checkpoint
+   */
+  read(orderId: string): { text: string; status: OutputStreamStatus } | undefined {
+    const stream = this.streams.get(orderId) ?? this.load(orderId);
+    return stream && { text: stream.text, status: stream.status };
+  }
+
+  /**
+   * Follow an order's output starting at an offset (0 for everything). Output
+   * already produced is replayed first. Works before the order has started.
+   * Returns a function that unsubscribes.
+   */
+  subscribe(orderId: string, from: number, listener: OutputListener): () => void {
+    const current = this.read(orderId);
+    if (current) {
+      let offset = from;
+      if (offset > current.text.length) {
+        listener({ type: 'reset' });
+        offset = 0;
+      }
+      if (current.text.length > offset) {
+        listener({ type: 'chunk', text: current.text.slice(offset), offset: current.text.length });
+      }
+      if (current.status !== 'streaming') {
+        listener({ type: 'end', status: current.status });
+        return () => {};
+      }
+    }
+
+    const listeners = this.listeners.get(orderId) ?? new Set<OutputListener>();
+    listeners.add(listener);
+    this.listeners.set(orderId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) this.listeners.delete(orderId);
+    };
+  }
+
+  private notify(orderId: string, event: OutputStreamEvent): void {
+    for (const listener of this.listeners.get(orderId) ?? []) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[Stream] Listener error:', error);
+      }
+    }
+    if (event.type === 'end') this.listeners.delete(orderId);
+  }
+
+  // ============================================================================
+  // Persistence
+  // ============================================================================
+
+  private file(orderId: string): string {
+    return join(this.dir, `${orderId}.json`);
+  }
+
+  private load(orderId: string): StreamSnapshot | undefined {
+    try {
+      const file = this.file(orderId);
+      if (!existsSync(file)) return undefined;
+      return JSON.parse(readFileSync(file, 'utf-8')) as StreamSnapshot;
+    } catch (error) {
+      console.error(`[Stream] Failed to load output for ${orderId.slice(0, 10)}...:`, error);
+      return undefined;
+    }
+  }
+
+  private persist(orderId: string): void {
+    const timer = this.checkpointTimers.get(orderId);
+    if (timer) {
+      clearTimeout(timer);
+      this.checkpointTimers.delete(orderId);
+    }
+
+    const stream = this.streams.get(orderId);
+    if (!stream) return;
+
+    try {
+      if (!existsSync(this.dir)) mkdirSync(this.dir, { recursive: true });
+      const file = this.file(orderId);
+      const tmp = `${file}.tmp`;
+      writeFileSync(tmp, JSON.stringify(stream));
+      renameSync(tmp, file);
+    } catch (error) {
+      console.error(`[Stream] Failed to checkpoint output for ${orderId.slice(0, 10)}...:`, error);
+    }
+  }
+
+  private remove(orderId: string): void {
+    // A retry may have started streaming again since
+    if (this.streams.get(orderId)?.status === 'streaming') return;
+    this.streams.delete(orderId);
+    try {
+      unlinkSync(this.file(orderId));
+    } catch {
+      // Already gone
+    }
+  }
+
+  /**
+   * Drop checkpoints of finished output older than the retention period
+   */
+  private prune(): void {
+    if (!existsSync(this.dir)) return;
+
+    for (const name of readdirSync(this.dir)) {
+      if (!name.endsWith('.json')) continue;
+      const snapshot = this.load(name.slice(0, -'.json'.length));
+      if (snapshot && snapshot.status !== 'streaming' && Date.now() - snapshot.updatedAt > this.retentionMs) {
+        this.remove(snapshot.orderId);
+      }
+    }
+  }
+}
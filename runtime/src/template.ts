@@ -0,0 +1,30 @@
+/**
+ * Templates
+ * `{{path}}` placeholders resolved against a context object
+ */
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Value at a dot path (`steps.translate.content`), or undefined
+ */
+export function getPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const key of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Replace each `{{path}}` with the value at that path. Strings are inserted
+ * as-is, other values as JSON; missing values render empty.
+ */
+export function renderTemplate(template: string, context: Record<string, unknown>): string {
+  return template.replace(PLACEHOLDER, (_, path: string) => {
+    const value = getPath(context, path);
+    if (value === undefined || value === null) return '';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+}
@@ -3,6 +3,8 @@
  * Core type definitions for autonomous agent execution
  */
 
+import type { BaseExecutor, ExecutorInput, ExecutorResult } from './executors/base.js';
+
 // ============================================================================
 // Task & Execution Types
 // ============================================================================
@@ -15,8 +17,18 @@ export interface TaskInput {
   units: bigint;
   totalPrice: bigint;
   deadline: number;
-  /** Arbitrary input data from the order metadata */
+  /** Buyer input for this order (falls back to the service metadata) */
   payload?: Record<string, unknown>;
+  /** Model picked by the routing policy; model executors use it over their default */
+  model?: string;
+  /** Aborted when the order can no longer finish before its deadline */
+  signal?: AbortSignal;
+  /** Set when the runtime streams this order; executors that can stream pass it each output chunk */
+  onOutput?: (chunk: string) => void;
+  /** Template configured for the service type; model executors build their prompts from it */
+  template?: ServiceTemplate;
+  /** Ids of the pipelines running this task as a step, outermost first */
+  pipelineChain?: string[];
 }
 
 export interface TaskResult {
@@ -24,8 +36,10 @@ export interface TaskResult {
   success: boolean;
   /** URI where result is stored (IPFS, HTTP, etc.) */
   resultURI: string;
-  /** Hash of the result for verification */
+  /** Hash of the result for verification (keccak256 of `output`) */
   resultHash: Uint8Array;
+  /** The work product; required when success is true */
+  output?: ResultOutput;
   /** Proof of work data */
   proof: ProofOfWork;
   /** Optional error message if failed */
@@ -43,6 +57,12 @@ export interface ExecutionMetadata {
   modelUsed?: string;
   tokensUsed?: number;
   computeUnits?: number;
+  /** Provider cost of the execution in USD */
+  costUsd?: number;
+  /** Output was served from the response cache instead of the provider */
+  cacheHit?: boolean;
+  /** Order economics, when a profitability guard is configured */
+  pnl?: OrderPnl;
 }
 
 // ============================================================================
@@ -81,16 +101,30 @@ export interface ProofEvidence {
   attestation?: string;
   /** For multi-party: list of verifier signatures */
   verifierSignatures?: string[];
+  /** For multi-party: the signed proofs behind verifierSignatures (base64 JSON) */
+  verifierProofs?: string;
+  /** For pipelines: hashes, executor and cost of each step */
+  steps?: PipelineStepRecord[];
   /** For oracle: oracle response */
   oracleResponse?: string;
   /** Raw evidence data (logged for disputes) */
   rawLog?: string;
+  /** For deterministic: the recorded ExecutionTranscript (base64 JSON) */
+  transcript?: string;
+  /** For cached replies: key of the cached response the output came from */
+  cacheKey?: string;
+  /** For cached replies: when the response was cached */
+  cachedAt?: number;
 }
 
 // ============================================================================
 // Executor Types
 // ============================================================================
 
+/**
+ * Task-level executor contract. This is what the runtime calls for an order.
+ * Model executors (BaseExecutor) are wrapped in a ModelExecutorAdapter on registration.
+ */
 export interface Executor {
   /** Unique identifier for this executor type */
   id: string;
@@ -98,7 +132,7 @@ export interface Executor {
   name: string;
   /** Version string */
   version: string;
-  /** Service types this executor handles */
+  /** Service types this executor handles (empty: any, routed by provider preference) */
   serviceTypes: string[];
   /** Execute a task and return result */
   execute(task: TaskInput): Promise<TaskResult>;
@@ -114,6 +148,210 @@ export interface ExecutionEstimate {
   confidence: number; // 0-1
 }
 
+// ============================================================================
+// Routing Types
+// ============================================================================
+
+/**
+ * Declarative routing policy for a service type. Candidates and keys refer to
+ * an executor id or a model executor's provider.
+ */
+export type RoutingPolicyConfig =
+  /** Cheapest model whose estimated cost fits the budget */
+  | { policy: 'cheapest'; candidates?: string[]; maxCostUsd?: number }
+  /** Lowest observed average latency; unmeasured executors are tried first */
+  | { policy: 'fastest'; candidates?: string[] }
+  /** First healthy executor in order */
+  | { policy: 'failover'; candidates: string[] }
+  /** Random split by weight (A/B tests) */
+  | { policy: 'weighted'; weights: Record<string, number> };
+
+export interface RoutingPolicy {
+  /** Shown in runtime status */
+  name: string;
+  /** Pick an executor from healthy candidates, or undefined if none fit */
+  select(candidates: RouteCandidate[], context: RoutingContext): RoutingDecision | undefined;
+}
+
+export interface RouteCandidate {
+  executor: Executor;
+  stats: ExecutorStats;
+}
+
+export interface RoutingContext {
+  task: TaskInput;
+  /** Order budget in USD, when the ETH price is known */
+  budgetUsd?: number;
+}
+
+export interface RoutingDecision {
+  executor: Executor;
+  /** Model to run, for model executors */
+  model?: string;
+  /** Why this executor was picked (logged and shown in status) */
+  reason: string;
+}
+
+export interface ExecutorStats {
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  /** Exponential moving average of successful execution time */
+  avgLatencyMs?: number;
+  lastFailureAt?: number;
+  healthy: boolean;
+}
+
+// ============================================================================
+// Service Template Types
+// ============================================================================
+
+/**
+ * Prompt and schemas for one service type. Templates use `{{input.*}}`
+ * placeholders over the buyer's input.
+ */
+export interface ServiceTemplate {
+  /** JSON Schema buyer input must match; orders with invalid input are rejected before execution */
+  inputSchema?: JsonSchema;
+  /** System prompt template (default: generic prompt for the service type) */
+  system?: string;
+  /** User prompt template (default: the input as JSON) */
+  user?: string;
+  /** JSON Schema the output must match; the model is asked for JSON and its reply validated */
+  outputSchema?: JsonSchema;
+  /** Follow-up requests asking the model to fix output that fails outputSchema (default: 1) */
+  maxRepairs?: number;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+/**
+ * The JSON Schema keywords the runtime validates; others are ignored
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  /** Objects */
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  /** Arrays */
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  /** Strings */
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  /** Numbers */
+  minimum?: number;
+  maximum?: number;
+  /** Combinators */
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+// ============================================================================
+// Pipeline Types
+// ============================================================================
+
+/**
+ * Several executors chained within one order. Prompts and inputs are templates
+ * with `{{path}}` placeholders over:
+ * - `input`: the order payload
+ * - `previous`: the previous step's `{ content, structured }`
+ * - `steps.<name>`: any earlier step's `{ content, structured }`
+ * - `vars.<name>`: values named by earlier steps' output mappings
+ */
+export interface PipelineConfig {
+  name: string;
+  /** Executor id (default: pipeline-<name>) */
+  id?: string;
+  /** Service types the pipeline handles */
+  serviceTypes: string[];
+  steps: PipelineStep[];
+}
+
+export interface PipelineStep {
+  /** Unique within the pipeline */
+  name: string;
+  /** Id of a registered executor ('openai', 'anthropic', a webhook executor, ...) */
+  executor: string;
+  /** Model executors: model to use (default: the executor's default) */
+  model?: string;
+  /** Model executors: user prompt template (default: previous output, or the payload as JSON) */
+  prompt?: string;
+  /** Model executors: system prompt template */
+  systemPrompt?: string;
+  /** Model executors: output token limit (default: 4096) */
+  maxTokens?: number;
+  /** Task executors: payload whose values are templates (default: previous output, or the payload) */
+  input?: Record<string, string>;
+  /** Values to expose as `vars.<name>`, as paths into `{ content, structured }` */
+  output?: Record<string, string>;
+}
+
+export interface PipelineStepRecord {
+  step: string;
+  executorId: string;
+  model?: string;
+  inputHash: string;
+  outputHash: string;
+  tokensUsed?: number;
+  costUsd?: number;
+  durationMs: number;
+}
+
+// ============================================================================
+// Profitability Types
+// ============================================================================
+
+export interface PriceSource {
+  /** Current ETH price in USD */
+  getEthUsd(): Promise<number>;
+}
+
+export interface ProfitabilityConfig {
+  /** ETH/USD price: a static number or a price source */
+  ethUsd: number | PriceSource;
+  /** Minimum margin as a fraction of order revenue (default: 0.2) */
+  minMargin?: number;
+  /** What to do with orders below the margin (default: 'downgrade') */
+  onUnprofitable?: 'skip' | 'downgrade' | 'approve';
+  /** Approval hook for 'approve'; orders are skipped unless it resolves true */
+  approve?: (check: ProfitabilityCheck) => Promise<boolean>;
+}
+
+export interface ProfitabilityCheck {
+  orderId: string;
+  executorId: string;
+  model?: string;
+  ethUsd: number;
+  revenueUsd: number;
+  /** Undefined when the executor can't estimate cost up front */
+  estimatedCostUsd?: number;
+  /** (revenue - cost) / revenue */
+  margin?: number;
+  profitable: boolean;
+}
+
+export interface OrderPnl {
+  ethUsd: number;
+  revenueUsd: number;
+  costUsd: number;
+  profitUsd: number;
+  margin: number;
+  /** True when costUsd is the pre-execution estimate, not the reported cost */
+  estimated: boolean;
+  /** Model the order was routed to before a downgrade */
+  downgradedFrom?: string;
+}
+
 // ============================================================================
 // Runtime Configuration
 // ============================================================================
@@ -129,18 +367,56 @@ export interface RuntimeConfig {
     marketplace: string;
     bridge?: string;
   };
-  /** Polling interval in ms (default: 5000) */
+  /** Interval between block scans in ms (default: 5000) */
   pollInterval?: number;
+  /** Block cursor used to ingest marketplace events */
+  cursor?: BlockCursorOptions;
   /** Maximum concurrent tasks (default: 5) */
   maxConcurrent?: number;
+  /** Pending orders held before new orders are back-pressured (default: 1000) */
+  maxQueueSize?: number;
+  /** File the order queue is persisted to (default: ./data/order-queue.json) */
+  queueFile?: string;
   /** Auto-complete orders after execution (default: true) */
   autoComplete?: boolean;
+  /** Time kept free before an order's deadline for storing and completing it (default: 30000) */
+  deadlineMarginMs?: number;
+  /** On-chain completion: persistence, confirmations and gas bumping */
+  completion?: CompletionOptions;
   /** IPFS gateway for storing results */
   ipfsGateway?: string;
+  /** Endpoint buyers publish signed order input to (GET {endpoint}/{orderId}; see HTTPInputSource) */
+  inputEndpoint?: string;
+  /** Bearer token sent when reading from inputEndpoint */
+  inputApiKey?: string;
+  /** Custom order input source (overrides inputEndpoint) */
+  inputSource?: OrderInputSource;
+  /** How long to wait for a buyer's input to be published (default: 30000) */
+  inputWaitMs?: number;
+  /**
+   * Encrypt stored results to the buyer's public key, recovered from their
+   * signed order input (default: 'none'). 'required' fails orders without one.
+   */
+  resultEncryption?: 'none' | 'optional' | 'required';
   /** OpenAI API key for LLM executors */
   openaiApiKey?: string;
-  /** Custom executors to register */
-  executors?: Executor[];
+  /** Custom executors to register (task executors or model executors) */
+  executors?: Array<Executor | BaseExecutor>;
+  /** Pipelines to register; steps refer to executors by id */
+  pipelines?: PipelineConfig[];
+  /** Prompt template and input/output schemas per service type */
+  templates?: Record<string, ServiceTemplate>;
+  /**
+   * Routing policy per service type; '*' covers service types without their own.
+   * Unrouted service types use the built-in provider preference.
+   */
+  routing?: Record<string, RoutingPolicyConfig | RoutingPolicy>;
+  /** Compare estimated model cost to order price before executing */
+  profitability?: ProfitabilityConfig;
+  /** Stream executor output per order, checkpointing partial output (default: off) */
+  streaming?: boolean | OutputStreamOptions;
+  /** Serve identical model requests from a response cache (default: off) */
+  responseCache?: boolean | ResponseCacheConfig;
   /** Webhook URL for notifications */
   webhookUrl?: string;
   /** Health check port (default: 3050) */
@@ -157,11 +433,180 @@ export type RuntimeEvent =
   | { type: 'execution_started'; orderId: string; executorId: string }
   | { type: 'execution_completed'; orderId: string; result: TaskResult }
   | { type: 'execution_failed'; orderId: string; error: string }
+  | {
+      type: 'order_unprofitable';
+      orderId: string;
+      check: ProfitabilityCheck;
+      action: 'skipped' | 'downgraded' | 'approved' | 'rejected';
+    }
+  | {
+      type: 'deadline_missed';
+      orderId: string;
+      /** Order deadline (unix seconds) */
+      deadline: number;
+      /** expired: past the deadline before starting; insufficient_time: expected to overrun; timed_out: aborted mid-execution */
+      reason: 'expired' | 'insufficient_time' | 'timed_out';
+      detail: string;
+    }
+  | {
+      type: 'execution_aborted';
+      orderId: string;
+      /** The buyer cancelled or disputed the order while it was being worked on */
+      reason: 'cancelled' | 'disputed';
+      /** Dispute reason given on-chain */
+      detail?: string;
+      executorId?: string;
+      /** Provider cost already spent on the order, if any work had started */
+      costIncurredUsd?: number;
+    }
+  | {
+      type: 'order_rejected';
+      orderId: string;
+      /**
+       * Why the order can't run; it is dropped rather than retried.
+       * invalid_input: the buyer's input failed its signature check or the service type's inputSchema;
+       * encryption_required: results must be encrypted but the buyer published no key;
+       * no_executor: no executor serves the service type within the order's budget
+       */
+      reason: 'invalid_input' | 'encryption_required' | 'no_executor';
+      errors: string[];
+    }
   | { type: 'order_completed'; orderId: string; txHash: string }
   | { type: 'error'; error: string };
 
 export type EventCallback = (event: RuntimeEvent) => void | Promise<void>;
 
+// ============================================================================
+// Order Input Types
+// ============================================================================
+
+/**
+ * Input document a buyer publishes for an order, signed with the buyer's key
+ */
+export interface OrderInputDocument {
+  version: 1;
+  orderId: string;
+  serviceId: string;
+  buyer: string;
+  payload: Record<string, unknown>;
+  /** Unix ms when the document was signed */
+  createdAt: number;
+  /** EIP-191 signature over the canonical document */
+  signature: string;
+}
+
+export interface OrderInputSource {
+  /** Fetch the input document for an order, or null if none is published yet */
+  fetch(orderId: string): Promise<OrderInputDocument | null>;
+}
+
+// ============================================================================
+// Queue Types
+// ============================================================================
+
+export interface QueuedOrder {
+  orderId: string;
+  /** Order deadline (unix seconds) */
+  deadline: number;
+  /** Order price in wei, as a decimal string so it survives JSON */
+  totalPrice: string;
+  enqueuedAt: number;
+  attempts: number;
+  /** Not dispatched before this time (ms) while backing off after a failure */
+  notBefore?: number;
+}
+
+// ============================================================================
+// Ingestion Types
+// ============================================================================
+
+export interface BlockCursorOptions {
+  /** File the last processed block is persisted to (default: ./data/block-cursor.json) */
+  file?: string;
+  /**
+   * First block to scan when no cursor is persisted. Without it the runtime
+   * sweeps getAgentOrders once and starts from the current head.
+   */
+  startBlock?: number;
+  /** Recent block hashes kept to find where a reorg starts (default: 12) */
+  reorgDepth?: number;
+  /** Most blocks requested per getLogs call (default: 2000) */
+  maxBlockRange?: number;
+}
+
+export type MarketplaceLogEvent =
+  | { type: 'created'; orderId: string; seller: string; blockNumber: number }
+  | { type: 'cancelled'; orderId: string; blockNumber: number }
+  | { type: 'disputed'; orderId: string; reason: string; blockNumber: number };
+
+// ============================================================================
+// Completion Types
+// ============================================================================
+
+/**
+ * An on-chain completion the runtime intends to make. Persisted before any
+ * transaction is sent and removed once the order is completed or abandoned.
+ */
+export interface CompletionRecord {
+  orderId: string;
+  resultURI: string;
+  /** 0x-prefixed result hash */
+  resultHash: string;
+  /** Order deadline (unix seconds) */
+  deadline: number;
+  /** 'pending' has no live transaction; 'submitted' holds a nonce */
+  status: 'pending' | 'submitted';
+  nonce?: number;
+  /** Fees of the latest broadcast, in wei as decimal strings */
+  fees?: { maxFeePerGas?: string; maxPriorityFeePerGas?: string; gasPrice?: string };
+  /** Every transaction broadcast for this completion, replacements included */
+  txHashes: string[];
+  bumps: number;
+  /** Broadcasts that failed or reverted */
+  attempts: number;
+  createdAt: number;
+  /** Latest successful broadcast; unset while a reserved nonce hasn't gone out */
+  lastSentAt?: number;
+  lastError?: string;
+}
+
+export interface CompletionOptions {
+  /** File pending completions are persisted to (default: ./data/completions.json) */
+  file?: string;
+  /** Confirmations before a completion is final (default: 1) */
+  confirmations?: number;
+  /** Replace a transaction with higher fees after this long unmined (default: 60000) */
+  bumpAfterMs?: number;
+  /** Fee increase per replacement, in percent (default: 20) */
+  bumpPercent?: number;
+  /** Replacements per transaction before waiting it out (default: 5) */
+  maxBumps?: number;
+  /** How often pending completions are advanced (default: 5000) */
+  pollInterval?: number;
+}
+
+// ============================================================================
+// Output Streaming Types
+// ============================================================================
+
+export interface OutputStreamOptions {
+  /** Directory partial output is checkpointed to (default: ./data/streams) */
+  dir?: string;
+  /** Minimum time between checkpoints of an order's output in ms (default: 1000) */
+  checkpointIntervalMs?: number;
+  /** How long finished output stays readable in ms (default: 3600000) */
+  retentionMs?: number;
+}
+
+export type OutputStreamStatus = 'streaming' | 'completed' | 'failed' | 'aborted';
+
+export type OutputStreamEvent =
+  /** offset is the output length after this chunk; resume from it after a disconnect */
+  | { type: 'chunk'; text: string; offset: number }
+  /** The order is being retried; output starts over */
+  | { type: 'reset' }
+  | { type: 'end'; status: Exclude<OutputStreamStatus, 'streaming'> };
+
 // ============================================================================
 // Storage Types
 // ============================================================================
@@ -173,11 +618,103 @@ export interface ResultStorage {
   retrieve(uri: string): Promise<ResultData | null>;
 }
 
+/**
+ * Model request and response recorded by a deterministic execution, keyed by
+ * the request hash so the same request can be replayed
+ */
+export interface ExecutionTranscript {
+  version: 1;
+  /** SHA-256 of provider + inputHash + request */
+  requestHash: string;
+  /** Hash of the order payload the request was built from (the proof's inputHash) */
+  inputHash: string;
+  provider: string;
+  request: TranscriptRequest;
+  response: {
+    content: string;
+    model: string;
+    usage: { promptTokens: number; completionTokens: number; totalTokens: number };
+    finishReason?: string;
+  };
+  recordedAt: number;
+}
+
+/** Model request with sampling pinned (no abort signal or streaming) */
+export type TranscriptRequest = Omit<ExecutorInput, 'signal' | 'stream'> & {
+  model: string;
+  temperature: 0;
+  seed: number;
+};
+
+export interface TranscriptStore {
+  get(requestHash: string): Promise<ExecutionTranscript | null>;
+  put(transcript: ExecutionTranscript): Promise<void>;
+}
+
+/**
+ * Model reply kept by the response cache, keyed by a hash of the provider and
+ * request
+ */
+export interface CachedResponse {
+  key: string;
+  result: ExecutorResult;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+export interface ResponseCacheStore {
+  /** Entry for a key, or null when missing or expired */
+  get(key: string): Promise<CachedResponse | null>;
+  set(entry: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface ResponseCacheConfig {
+  /** Where replies are cached (default: in memory, 1000 entries) */
+  store?: ResponseCacheStore;
+  /** How long a reply is served from the cache (default: 3600000) */
+  ttlMs?: number;
+  /** Replies larger than this many bytes aren't cached (default: 1 MB) */
+  maxEntryBytes?: number;
+}
+
 export interface ResultData {
   orderId: string;
   serviceType: string;
+  /** Order input (empty when the result is encrypted) */
   input: Record<string, unknown>;
-  output: Record<string, unknown>;
+  /** Executor output (absent when the result is encrypted) */
+  output?: ResultOutput;
+  /** `{ input, output }` encrypted to the buyer's public key */
+  encrypted?: EncryptedPayload;
   proof: ProofOfWork;
   metadata: ExecutionMetadata;
 }
+
+export interface ResultOutput {
+  /** Raw content returned by the executor */
+  content: string;
+  /** Parsed JSON, when the executor returned structured output */
+  structured?: unknown;
+  /** Files produced alongside the content */
+  attachments?: ResultAttachment[];
+}
+
+export interface ResultAttachment {
+  name: string;
+  mimeType: string;
+  /** Base64-encoded bytes */
+  data: string;
+}
+
+export interface EncryptedPayload {
+  scheme: 'ecies-secp256k1-aes-256-gcm';
+  /** Compressed secp256k1 public key of the one-time sender key */
+  ephemeralPublicKey: string;
+  /** Hex-encoded GCM IV */
+  iv: string;
+  /** Hex-encoded GCM auth tag */
+  authTag: string;
+  /** Base64-encoded ciphertext */
+  ciphertext: string;
+}
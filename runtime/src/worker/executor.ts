@@ -5,8 +5,11 @@
 import OpenAI from 'openai';
 import Anthropic from '@anthropic-ai/sdk';
 import { pino } from 'pino';
-import type { Agent, OrderInput, OrderResult, AgentTool } from '../shared/types.js';
+import type { Agent, OrderInput, OrderResult, AgentTool, ExecutionTraceStep } from '../shared/types.js';
 import { errorTracker } from '../utils/errors.js';
+import * as db from '../shared/db.js';
+import { encrypt } from '../shared/crypto.js';
+import { actionToJsonSchema, executeIntegrationTool, resolveIntegrationAction } from '../integrations/tools.js';
 
 const logger = pino({ name: 'executor' });
 
@@ -30,13 +33,24 @@ interface ToolUseBlock {
 }
 
 /**
- * Retry wrapper for transient API failures (rate limits, timeouts, server errors)
+ * Anthropic tool_result content block (not in SDK v0.17.x)
+ */
+interface ToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+}
+
+/**
+ * Retry wrapper for transient API failures (rate limits, timeouts, server errors).
+ * canRetry is asked before each retry, e.g. to stop once output was streamed.
  */
 async function withRetry<T>(
   fn: () => Promise<T>,
-  options: { maxRetries?: number; baseDelayMs?: number; operation?: string } = {}
+  options: { maxRetries?: number; baseDelayMs?: number; operation?: string; canRetry?: () => boolean } = {}
 ): Promise<T> {
-  const { maxRetries = 3, baseDelayMs = 1000, operation = 'operation' } = options;
+  const { maxRetries = 3, baseDelayMs = 1000, operation = 'operation', canRetry = () => true } = options;
   let lastError: Error | undefined;
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
@@ -55,7 +69,7 @@ async function withRetry<T>(
         lastError.message.includes('503') ||
         lastError.message.includes('overloaded');
 
-      if (!isRetryable || attempt === maxRetries) {
+      if (!isRetryable || !canRetry() || attempt === maxRetries) {
         errorTracker.track(lastError, `executor.retry.${operation}`, {
           attempt: attempt + 1,
           maxRetries,
@@ -84,12 +98,14 @@ async function withRetry<T>(
 }
 
 /**
- * Execute an agent with the given input
+ * Execute an agent with the given input. With onChunk, model output is streamed
+ * to it as it is generated (text from every turn of the tool loop).
  */
 export async function executeAgent(
   agent: Agent,
   input: OrderInput,
-  secrets: Record<string, string>
+  secrets: Record<string, string>,
+  onChunk?: (chunk: string) => void
 ): Promise<OrderResult> {
   logger.info({ agentId: agent.id, model: agent.model }, 'Executing agent');
 
@@ -120,9 +136,9 @@ export async function executeAgent(
 
   // Execute based on model provider
   if (agent.model.startsWith('gpt-') || agent.model.startsWith('gpt4')) {
-    return executeOpenAI(agent, messages, secrets, input.params);
+    return executeOpenAI(agent, messages, secrets, input.params, onChunk);
   } else if (agent.model.startsWith('claude-')) {
-    return executeAnthropic(agent, messages, secrets, input.params);
+    return executeAnthropic(agent, messages, secrets, input.params, onChunk);
   } else {
     throw new Error(`Unsupported model: ${agent.model}`);
   }
@@ -135,7 +151,8 @@ async function executeOpenAI(
   agent: Agent,
   messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
   secrets: Record<string, string>,
-  params?: Record<string, unknown>
+  params?: Record<string, unknown>,
+  onChunk?: (chunk: string) => void
 ): Promise<OrderResult> {
   const apiKey = secrets.OPENAI_API_KEY || process.env.OPENAI_API_KEY;
   if (!apiKey) {
@@ -149,47 +166,68 @@ async function executeOpenAI(
     ? agent.tools.map(toolToOpenAI)
     : undefined;
 
-  const response = await withRetry(
-    () => client.chat.completions.create({
-    model: agent.model,
-    messages,
-    temperature: agent.temperature,
-    max_tokens: Math.min(agent.maxTokens, agent.guardrails.maxTokensPerRequest),
-    tools,
-    ...(params || {}),
-  }),
-    { operation: 'OpenAI API call' }
-  );
+  const conversation: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [...messages];
+  const state = createLoopState();
+  const maxIterations = agent.guardrails.maxToolIterations ?? DEFAULT_MAX_TOOL_ITERATIONS;
+  let responseText = '';
+  // Set once the tool rounds are used up without an answer
+  let toolsDisabled = false;
+
+  for (let iteration = 0; ; iteration++) {
+    const startedAt = Date.now();
+    const request: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming = {
+      model: agent.model,
+      messages: conversation,
+      temperature: agent.temperature,
+      max_tokens: Math.min(agent.maxTokens, agent.guardrails.maxTokensPerRequest),
+      tools,
+      ...(toolsDisabled && { tool_choice: 'none' as const }),
+      ...(params || {}),
+    };
+    // A retry would stream the turn again after the chunks already sent
+    let streamed = false;
+    const emit = onChunk && ((chunk: string) => { streamed = true; onChunk(chunk); });
+    const response = await withRetry(
+      () => emit ? streamOpenAI(client, request, emit) : client.chat.completions.create(request),
+      { operation: 'OpenAI API call', canRetry: () => !streamed }
+    );
 
-  const choice = response.choices[0];
-  const toolCalls: OrderResult['toolCalls'] = [];
-
-  // Handle tool calls if any
-  if (choice.message.tool_calls && choice.message.tool_calls.length > 0) {
-    for (const toolCall of choice.message.tool_calls) {
-      const tool = agent.tools.find((t) => t.name === toolCall.function.name);
-      if (tool) {
-        const toolInput = JSON.parse(toolCall.function.arguments);
-        const toolOutput = await executeToolCall(tool, toolInput, secrets);
-        toolCalls.push({
-          tool: tool.name,
-          input: toolInput,
-          output: toolOutput,
-        });
-      }
+    const message = response.choices[0].message;
+    const calls = message.tool_calls ?? [];
+    responseText = message.content || '';
+    recordModelStep(state, {
+      iteration,
+      content: responseText,
+      toolCalls: calls.map((c) => c.function.name),
+      prompt: response.usage?.prompt_tokens || 0,
+      completion: response.usage?.completion_tokens || 0,
+      durationMs: Date.now() - startedAt,
+    });
+
+    if (toolsDisabled) {
+      requireFinalResponse(agent, responseText, maxIterations);
+      break;
+    }
+    if (calls.length === 0) break;
+    if (reachedIterationCap(state, agent, iteration, maxIterations)) {
+      if (responseText) break;
+      // A tool-only turn has nothing to return; ask again without tools
+      toolsDisabled = true;
+      continue;
+    }
+
+    conversation.push({ role: 'assistant', content: message.content, tool_calls: calls });
+    for (const call of calls) {
+      const { output, isError } = await runToolStep(agent, call.function.name, call.function.arguments, secrets, state, iteration);
+      conversation.push({
+        role: 'tool',
+        tool_call_id: call.id,
+        content: JSON.stringify(isError ? { error: output } : output),
+      });
     }
   }
 
-  return {
-    response: choice.message.content || '',
-    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-    model: agent.model,
-    tokensUsed: {
-      prompt: response.usage?.prompt_tokens || 0,
-      completion: response.usage?.completion_tokens || 0,
-      total: response.usage?.total_tokens || 0,
-    },
-  };
+  return buildLoopResult(agent, responseText, state);
 }
 
 /**
@@ -199,7 +237,8 @@ async function executeAnthropic(
   agent: Agent,
   messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
   secrets: Record<string, string>,
-  params?: Record<string, unknown>
+  params?: Record<string, unknown>,
+  onChunk?: (chunk: string) => void
 ): Promise<OrderResult> {
   const apiKey = secrets.ANTHROPIC_API_KEY || process.env.ANTHROPIC_API_KEY;
   if (!apiKey) {
@@ -210,7 +249,7 @@ async function executeAnthropic(
 
   // Extract system message
   const systemMessage = messages.find((m) => m.role === 'system')?.content || '';
-  const chatMessages = messages
+  const chatMessages: Array<{ role: 'user' | 'assistant'; content: string | unknown[] }> = messages
     .filter((m) => m.role !== 'system')
     .map((m) => ({
       role: m.role as 'user' | 'assistant',
@@ -233,40 +272,274 @@ async function executeAnthropic(
     createParams.tools = tools;
   }
 
-  const response = await client.messages.create(
-    createParams as unknown as Anthropic.MessageCreateParams
-  ) as Anthropic.Message;
-
-  // Extract text content
-  let textContent = '';
-  const toolCalls: OrderResult['toolCalls'] = [];
-
-  for (const block of response.content) {
-    if (block.type === 'text') {
-      textContent += (block as any).text;
-    } else if (block.type === 'tool_use') {
-      const toolBlock = block as any;
-      const tool = agent.tools.find((t: AgentTool) => t.name === toolBlock.name);
-      if (tool) {
-        const toolOutput = await executeToolCall(tool, toolBlock.input as Record<string, unknown>, secrets);
-        toolCalls.push({
-          tool: tool.name,
-          input: toolBlock.input as Record<string, unknown>,
-          output: toolOutput,
-        });
+  const state = createLoopState();
+  const maxIterations = agent.guardrails.maxToolIterations ?? DEFAULT_MAX_TOOL_ITERATIONS;
+  let responseText = '';
+  // Set once the tool rounds are used up without an answer
+  let toolsDisabled = false;
+
+  for (let iteration = 0; ; iteration++) {
+    const startedAt = Date.now();
+    // A retry would stream the turn again after the chunks already sent
+    let streamed = false;
+    const emit = onChunk && ((chunk: string) => { streamed = true; onChunk(chunk); });
+    const response = await withRetry(
+      async () => emit
+        ? streamAnthropic(client, createParams, emit)
+        : await client.messages.create(
+          createParams as unknown as Anthropic.MessageCreateParams
+        ) as Anthropic.Message,
+      { operation: 'Anthropic API call', canRetry: () => !streamed }
+    );
+
+    // Extract text content and requested tools
+    let textContent = '';
+    const toolUses: ToolUseBlock[] = [];
+    for (const block of response.content as Array<{ type: string }>) {
+      if (block.type === 'text') {
+        textContent += (block as Anthropic.TextBlock).text;
+      } else if (block.type === 'tool_use') {
+        toolUses.push(block as ToolUseBlock);
       }
     }
+
+    responseText = textContent;
+    recordModelStep(state, {
+      iteration,
+      content: textContent,
+      toolCalls: toolUses.map((b) => b.name),
+      prompt: response.usage.input_tokens,
+      completion: response.usage.output_tokens,
+      durationMs: Date.now() - startedAt,
+    });
+
+    if (toolsDisabled) {
+      requireFinalResponse(agent, responseText, maxIterations);
+      break;
+    }
+    if (toolUses.length === 0) break;
+    if (reachedIterationCap(state, agent, iteration, maxIterations)) {
+      if (responseText) break;
+      // A tool-only turn has nothing to return; ask again without tools
+      toolsDisabled = true;
+      createParams.tool_choice = { type: 'none' };
+      continue;
+    }
+
+    // All results for a turn go back in a single user message
+    const results: ToolResultBlock[] = [];
+    for (const block of toolUses) {
+      const { output, isError } = await runToolStep(agent, block.name, block.input, secrets, state, iteration);
+      results.push({
+        type: 'tool_result',
+        tool_use_id: block.id,
+        content: JSON.stringify(isError ? { error: output } : output),
+        ...(isError ? { is_error: true } : {}),
+      });
+    }
+    chatMessages.push({ role: 'assistant', content: response.content });
+    chatMessages.push({ role: 'user', content: results });
+  }
+
+  return buildLoopResult(agent, responseText, state);
+}
+
+// =============================================================================
+// Streaming
+// =============================================================================
+
+/**
+ * Anthropic stream events, including the tool_use deltas SDK v0.17.x doesn't model
+ */
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message: Anthropic.Message }
+  | { type: 'content_block_start'; index: number; content_block: { type: string; text?: string } & Record<string, unknown> }
+  | { type: 'content_block_delta'; index: number; delta: { type: 'text_delta'; text: string } | { type: 'input_json_delta'; partial_json: string } }
+  | { type: 'message_delta'; delta: { stop_reason: Anthropic.Message['stop_reason'] }; usage: { output_tokens: number } }
+  | { type: 'content_block_stop' | 'message_stop' | 'ping' };
+
+/**
+ * One OpenAI turn, streamed. Resolves to the same shape as a non-streaming call.
+ */
+async function streamOpenAI(
+  client: OpenAI,
+  request: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming,
+  onChunk: (chunk: string) => void
+): Promise<OpenAI.Chat.Completions.ChatCompletion> {
+  const stream = client.beta.chat.completions.stream({
+    ...request,
+    stream: true,
+    stream_options: { include_usage: true },
+  });
+  stream.on('content', (delta) => onChunk(delta));
+  return stream.finalChatCompletion();
+}
+
+/**
+ * One Anthropic turn, streamed. Text and tool_use blocks are reassembled into a Message.
+ */
+async function streamAnthropic(
+  client: Anthropic,
+  createParams: Record<string, unknown>,
+  onChunk: (chunk: string) => void
+): Promise<Anthropic.Message> {
+  const stream = await client.messages.create(
+    { ...createParams, stream: true } as unknown as Anthropic.MessageCreateParamsStreaming
+  );
+
+  let message: Anthropic.Message | undefined;
+  const blocks: Array<Record<string, unknown>> = [];
+  const toolInputs = new Map<number, string>();
+
+  for await (const event of stream as unknown as AsyncIterable<AnthropicStreamEvent>) {
+    switch (event.type) {
+      case 'message_start':
+        message = event.message;
+        break;
+      case 'content_block_start':
+        blocks[event.index] = { ...event.content_block };
+        break;
+      case 'content_block_delta':
+        if (event.delta.type === 'text_delta') {
+          blocks[event.index].text = `${blocks[event.index].text ?? ''}${event.delta.text}`;
+          onChunk(event.delta.text);
+        } else {
+          toolInputs.set(event.index, (toolInputs.get(event.index) ?? '') + event.delta.partial_json);
+        }
+        break;
+      case 'message_delta':
+        if (message) {
+          message.stop_reason = event.delta.stop_reason;
+          message.usage.output_tokens = event.usage.output_tokens;
+        }
+        break;
+    }
+  }
+
+  if (!message) {
+    throw new Error('Anthropic stream ended without a message');
+  }
+  for (const [index, json] of toolInputs) {
+    blocks[index].input = JSON.parse(json || '{}');
+  }
+  return { ...message, content: blocks } as unknown as Anthropic.Message;
+}
+
+// =============================================================================
+// Tool Loop
+// =============================================================================
+
+/** Tool rounds fed back to the model when the agent doesn't set a limit */
+const DEFAULT_MAX_TOOL_ITERATIONS = 5;
+
+interface LoopState {
+  toolCalls: NonNullable<OrderResult['toolCalls']>;
+  trace: ExecutionTraceStep[];
+  tokensUsed: OrderResult['tokensUsed'];
+  guardrailsApplied: string[];
+}
+
+function createLoopState(): LoopState {
+  return {
+    toolCalls: [],
+    trace: [],
+    tokensUsed: { prompt: 0, completion: 0, total: 0 },
+    guardrailsApplied: [],
+  };
+}
+
+function recordModelStep(
+  state: LoopState,
+  step: { iteration: number; content: string; toolCalls: string[]; prompt: number; completion: number; durationMs: number }
+): void {
+  const tokensUsed = { prompt: step.prompt, completion: step.completion, total: step.prompt + step.completion };
+  state.tokensUsed.prompt += tokensUsed.prompt;
+  state.tokensUsed.completion += tokensUsed.completion;
+  state.tokensUsed.total += tokensUsed.total;
+
+  state.trace.push({
+    type: 'model',
+    iteration: step.iteration,
+    content: step.content,
+    toolCalls: step.toolCalls,
+    tokensUsed,
+    durationMs: step.durationMs,
+  });
+}
+
+/**
+ * Whether the model asked for tools after the last allowed round. Its tool
+ * calls aren't run; if the turn had no text either, the caller asks once more
+ * with tools disabled.
+ */
+function reachedIterationCap(state: LoopState, agent: Agent, iteration: number, maxIterations: number): boolean {
+  if (iteration < maxIterations) return false;
+  logger.warn({ agentId: agent.id, maxIterations }, 'Tool iteration limit reached');
+  state.guardrailsApplied.push('maxToolIterations');
+  return true;
+}
+
+/**
+ * Fail rather than complete an order with an empty response when the turn
+ * without tools still produced no text
+ */
+function requireFinalResponse(agent: Agent, response: string, maxIterations: number): void {
+  if (!response) {
+    throw new Error(`Agent ${agent.id} reached the tool iteration limit (${maxIterations}) without a response`);
+  }
+}
+
+/**
+ * Run one requested tool and record it. Failures are returned to the model as
+ * errors instead of aborting the order, so it can recover or explain.
+ */
+async function runToolStep(
+  agent: Agent,
+  name: string,
+  rawInput: unknown,
+  secrets: Record<string, string>,
+  state: LoopState,
+  iteration: number
+): Promise<{ output: unknown; isError: boolean }> {
+  const startedAt = Date.now();
+  let input: Record<string, unknown> = {};
+  let output: unknown;
+  let error: string | undefined;
+
+  try {
+    input = (typeof rawInput === 'string' ? JSON.parse(rawInput || '{}') : rawInput ?? {}) as Record<string, unknown>;
+    const tool = agent.tools.find((t: AgentTool) => t.name === name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+    output = await executeToolCall(agent, tool, input, secrets);
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+    logger.warn({ agentId: agent.id, tool: name, error }, 'Tool call failed');
   }
 
+  state.toolCalls.push({ tool: name, input, output: error !== undefined ? { error } : output });
+  state.trace.push({
+    type: 'tool',
+    iteration,
+    tool: name,
+    input,
+    output,
+    error,
+    durationMs: Date.now() - startedAt,
+  });
+
+  return error !== undefined ? { output: error, isError: true } : { output, isError: false };
+}
+
+function buildLoopResult(agent: Agent, response: string, state: LoopState): OrderResult {
   return {
-    response: textContent,
-    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    response,
+    toolCalls: state.toolCalls.length > 0 ? state.toolCalls : undefined,
     model: agent.model,
-    tokensUsed: {
-      prompt: response.usage.input_tokens,
-      completion: response.usage.output_tokens,
-      total: response.usage.input_tokens + response.usage.output_tokens,
-    },
+    tokensUsed: state.tokensUsed,
+    guardrailsApplied: state.guardrailsApplied.length > 0 ? state.guardrailsApplied : undefined,
+    trace: state.trace,
   };
 }
 
@@ -274,6 +547,7 @@ async function executeAnthropic(
  * Execute a tool call
  */
 async function executeToolCall(
+  agent: Agent,
   tool: AgentTool,
   input: Record<string, unknown>,
   secrets: Record<string, string>
@@ -282,6 +556,11 @@ async function executeToolCall(
     return executeBuiltinTool(tool.name, input, secrets);
   } else if (tool.handler === 'webhook' && tool.webhookUrl) {
     return executeWebhookTool(tool, input, secrets);
+  } else if (tool.handler === 'integration' && tool.integration) {
+    // Refreshed OAuth tokens are written back so later orders don't refresh again
+    return executeIntegrationTool(tool.integration, input, secrets, (key, value) =>
+      db.storeAgentSecret(agent.id, key, encrypt(value))
+    );
   } else {
     throw new Error(`Unknown tool handler: ${tool.handler}`);
   }
@@ -463,7 +742,7 @@ function toolToOpenAI(tool: AgentTool): OpenAI.Chat.Completions.ChatCompletionTo
     function: {
       name: tool.name,
       description: tool.description,
-      parameters: tool.parameters as OpenAI.FunctionParameters,
+      parameters: toolParameters(tool) as OpenAI.FunctionParameters,
     },
   };
 }
@@ -475,6 +754,17 @@ function toolToAnthropic(tool: AgentTool): AnthropicTool {
   return {
     name: tool.name,
     description: tool.description,
-    input_schema: tool.parameters as Record<string, unknown>,
+    input_schema: toolParameters(tool),
   };
 }
+
+/**
+ * JSON Schema for a tool's input. Integration tools always use the action's
+ * current definition rather than whatever was stored with the agent.
+ */
+function toolParameters(tool: AgentTool): Record<string, unknown> {
+  if (tool.handler === 'integration' && tool.integration) {
+    return actionToJsonSchema(resolveIntegrationAction(tool.integration).action);
+  }
+  return tool.parameters;
+}
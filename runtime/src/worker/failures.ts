@@ -0,0 +1,105 @@
+/**
+ * Order Failures
+ * What happens to a claimed order that doesn't complete: a failed attempt is
+ * retried or dead-lettered under the order's retry policy, and an order held
+ * back by guardrails is deferred, rejected or waits for its paused agent.
+ * Both only act while `workerId` still holds the order's lease.
+ */
+
+import { pino } from 'pino';
+import * as db from '../shared/db.js';
+import { nextRetryAt } from '../shared/retry.js';
+import type { GuardrailVerdict } from './guardrails.js';
+import type { Agent, ErrorClass, Order } from '../shared/types.js';
+
+const logger = pino({ name: 'worker' });
+
+/**
+ * Schedule a failed attempt's retry under the order's retry policy (the
+ * agent's, fixed on the order at its first failure), or dead-letter the order
+ * when it's out of retries or the error isn't retryable
+ */
+export async function recordFailure(
+  workerId: string,
+  order: Order,
+  agent: Agent,
+  errorClass: ErrorClass,
+  errorMessage: string,
+  executionTimeMs?: number
+): Promise<void> {
+  const retryPolicy = order.retryPolicy ?? agent.retryPolicy;
+  const errorHistory = [
+    ...order.errorHistory,
+    { attempt: order.attempts, at: new Date().toISOString(), errorClass, message: errorMessage, workerId },
+  ];
+  const retryAt = nextRetryAt(retryPolicy, order.attempts, errorClass);
+
+  const held = await db.updateOrderStatus(order.id, retryAt ? 'pending' : 'dead_letter', {
+    errorMessage,
+    executionTimeMs,
+    retryPolicy,
+    errorHistory,
+    nextAttemptAt: retryAt ?? undefined,
+    claimedBy: workerId,
+  });
+  if (!held) return;
+
+  if (retryAt) {
+    logger.info({ orderId: order.orderId, attempt: order.attempts, errorClass, retryAt }, 'Order retry scheduled');
+    await db.createLog({
+      agentId: agent.id,
+      orderId: order.id,
+      level: 'warn',
+      message: `Order attempt ${order.attempts} failed, retrying`,
+      metadata: { error: errorMessage, errorClass, retryAt: retryAt.toISOString() },
+    });
+    return;
+  }
+
+  logger.warn({ orderId: order.orderId, attempts: order.attempts, errorClass }, 'Order dead-lettered');
+  await db.updateAgentStats(agent.id, { success: false });
+
+  await db.createLog({
+    agentId: agent.id,
+    orderId: order.id,
+    level: 'error',
+    message: 'Order execution failed',
+    metadata: { error: errorMessage, errorClass, attempts: order.attempts, deadLettered: true },
+  });
+}
+
+/**
+ * Hold back an order over one of its agent's guardrails: defer it until the
+ * limit's window frees up, reject it, or pause the agent and queue the order
+ * for when it's resumed
+ */
+export async function enforceGuardrail(
+  workerId: string,
+  order: Order,
+  agent: Agent,
+  verdict: GuardrailVerdict
+): Promise<void> {
+  const { guardrail, action, reason, retryAt } = verdict;
+  logger.warn({ orderId: order.orderId, agentId: agent.id, guardrail, action, retryAt }, reason);
+
+  if (action === 'reject') {
+    const held = await db.updateOrderStatus(order.id, 'rejected', {
+      errorMessage: reason,
+      claimedBy: workerId,
+    });
+    if (!held) return;
+  } else if (action === 'pause') {
+    await db.updateAgent(agent.id, { status: 'paused' });
+    await db.releaseOrder(order.id, workerId, { reason: `Agent paused: ${reason}` });
+  } else {
+    await db.releaseOrder(order.id, workerId, { until: retryAt, reason: `Deferred: ${reason}` });
+  }
+
+  await db.createLog({
+    agentId: agent.id,
+    orderId: order.id,
+    level: 'warn',
+    message: action === 'reject' ? 'Order rejected by guardrails' : action === 'pause' ? 'Agent paused by guardrails' : 'Order deferred by guardrails',
+    metadata: { guardrail, reason, retryAt: retryAt?.toISOString() },
+  });
+}
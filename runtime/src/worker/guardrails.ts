@@ -0,0 +1,94 @@
+/**
+ * Guardrail Engine
+ * Limits from an agent's guardrails, checked before each of its orders runs:
+ * - maxRequestsPerMinute: orders started in the last minute
+ * - daily/monthly token and USD budgets: spend over a rolling 24 hours / 30 days
+ * - buyer quotas: orders and tokens per buyer over a rolling 24 hours
+ * Budgets and quotas count what completed orders used, so orders already
+ * running can take an agent past them; the next order is the one held back.
+ * A limit that is unset or 0 isn't enforced.
+ */
+
+import * as db from '../shared/db.js';
+import type { Agent, AIModel, GuardrailAction, Order, OrderResult, UsageWindow } from '../shared/types.js';
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const MONTH_MS = 30 * DAY_MS;
+
+// Pricing per 1M tokens (USD)
+const MODEL_PRICING: Record<AIModel, { input: number; output: number }> = {
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4-turbo': { input: 10.00, output: 30.00 },
+  'claude-3-opus-20240229': { input: 15.00, output: 75.00 },
+  'claude-3-sonnet-20240229': { input: 3.00, output: 15.00 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+};
+
+export interface GuardrailVerdict {
+  guardrail: string;  // The AgentGuardrails field that was hit
+  action: GuardrailAction;
+  reason: string;
+  retryAt?: Date;  // Deferred orders: when the limit's window frees up
+}
+
+/**
+ * Model cost of an execution, counted against USD budgets
+ */
+export function orderCostUsd(model: string, tokensUsed: OrderResult['tokensUsed']): number {
+  const pricing = MODEL_PRICING[model as AIModel];
+  if (!pricing) return 0;
+  return (tokensUsed.prompt / 1_000_000) * pricing.input + (tokensUsed.completion / 1_000_000) * pricing.output;
+}
+
+/**
+ * The first limit `order` is over, or null when it may run
+ */
+export async function checkGuardrails(order: Order, agent: Agent, now = Date.now()): Promise<GuardrailVerdict | null> {
+  const guardrails = agent.guardrails;
+  const usage = await db.getAgentUsage(agent.id, agent.serviceId, order);
+  const freesAt = (first: Date | null, windowMs: number) => new Date((first?.getTime() ?? now) + windowMs);
+
+  if (guardrails.maxRequestsPerMinute > 0 && usage.requestsLastMinute >= guardrails.maxRequestsPerMinute) {
+    return {
+      guardrail: 'maxRequestsPerMinute',
+      action: guardrails.onRateLimit ?? 'defer',
+      reason: `Agent rate limit of ${guardrails.maxRequestsPerMinute} requests per minute reached`,
+      retryAt: freesAt(usage.firstRequestAt, MINUTE_MS),
+    };
+  }
+
+  const budgets: Array<[string, number | undefined, UsageWindow, 'tokens' | 'costUsd', number]> = [
+    ['dailyTokenBudget', guardrails.dailyTokenBudget, usage.day, 'tokens', DAY_MS],
+    ['dailyUsdBudget', guardrails.dailyUsdBudget, usage.day, 'costUsd', DAY_MS],
+    ['monthlyTokenBudget', guardrails.monthlyTokenBudget, usage.month, 'tokens', MONTH_MS],
+    ['monthlyUsdBudget', guardrails.monthlyUsdBudget, usage.month, 'costUsd', MONTH_MS],
+  ];
+  for (const [guardrail, budget, window, measure, windowMs] of budgets) {
+    if (!budget || window[measure] < budget) continue;
+    const spent = measure === 'costUsd' ? `$${window.costUsd.toFixed(2)} of $${budget}` : `${window.tokens} of ${budget} tokens`;
+    return {
+      guardrail,
+      action: guardrails.onBudgetExceeded ?? 'defer',
+      reason: `Agent ${windowMs === DAY_MS ? 'daily' : 'monthly'} budget spent (${spent})`,
+      retryAt: freesAt(window.firstAt, windowMs),
+    };
+  }
+
+  const quotas: Array<[string, number | undefined, number, string]> = [
+    ['buyerDailyOrderQuota', guardrails.buyerDailyOrderQuota, usage.buyer.orders, 'orders'],
+    ['buyerDailyTokenQuota', guardrails.buyerDailyTokenQuota, usage.buyer.tokens, 'tokens'],
+  ];
+  for (const [guardrail, quota, used, unit] of quotas) {
+    if (!quota || used < quota) continue;
+    return {
+      guardrail,
+      action: guardrails.onQuotaExceeded ?? 'reject',
+      reason: `Buyer ${order.buyerAddress} reached the daily quota of ${quota} ${unit}`,
+      retryAt: freesAt(usage.buyer.firstAt, DAY_MS),
+    };
+  }
+
+  return null;
+}
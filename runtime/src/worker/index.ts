@@ -3,57 +3,134 @@
  */
 
 import 'dotenv/config';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
 import { pino } from 'pino';
 import { ethers } from 'ethers';
 import * as db from '../shared/db.js';
 import { decrypt } from '../shared/crypto.js';
 import { hash } from '../shared/crypto.js';
 import { executeAgent } from './executor.js';
+import { checkGuardrails, orderCostUsd } from './guardrails.js';
+import { enforceGuardrail, recordFailure } from './failures.js';
 import { errorTracker } from '../utils/errors.js';
+import { classifyError } from '../shared/retry.js';
+import { registerBuiltinIntegrations } from '../integrations/tools.js';
+import {
+  HttpKeyManagementService,
+  isSignerSecret,
+  resolveOrderCompleter,
+  type KeyManagementService,
+} from './signers.js';
 import type { Agent, Order, OrderResult } from '../shared/types.js';
 
 const logger = pino({ name: 'worker' });
 
 const MAX_CONCURRENT = parseInt(process.env.MAX_CONCURRENT_EXECUTIONS || '5', 10);
 const POLL_INTERVAL_MS = parseInt(process.env.ORDER_POLL_INTERVAL_MS || '2000', 10);
-
-// Marketplace ABI for completeOrder
-const MARKETPLACE_ABI = [
-  'function completeOrder(bytes32 orderId, string resultURI, bytes32 resultHash) external',
-];
+const CHECKPOINT_INTERVAL_MS = parseInt(process.env.STREAM_CHECKPOINT_INTERVAL_MS || '500', 10);
+// Orders whose lease runs out (the worker died) are reclaimed by another worker
+const LEASE_MS = parseInt(process.env.ORDER_LEASE_MS || '60000', 10);
+const WORKER_ID = process.env.WORKER_ID || `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
 
 let provider: ethers.JsonRpcProvider | null = null;
-let wallet: ethers.Wallet | null = null;
-let marketplace: ethers.Contract | null = null;
+let marketplaceAddress: string | null = null;
+// Completes orders of agents without their own signer, and relays for ERC8004 wallets
+let runtimeWallet: ethers.Wallet | null = null;
+let kms: KeyManagementService | undefined;
 
 function initBlockchain() {
   const rpcUrl = process.env.L2_RPC_URL;
   const privateKey = process.env.RUNTIME_PRIVATE_KEY;
-  const marketplaceAddress = process.env.MARKETPLACE_ADDRESS;
 
-  if (!rpcUrl || !privateKey || !marketplaceAddress) {
+  if (!rpcUrl || !process.env.MARKETPLACE_ADDRESS) {
     logger.warn('Blockchain not configured - orders will be processed but not completed on-chain');
     return;
   }
 
   provider = new ethers.JsonRpcProvider(rpcUrl);
-  wallet = new ethers.Wallet(privateKey, provider);
-  marketplace = new ethers.Contract(marketplaceAddress, MARKETPLACE_ABI, wallet);
+  marketplaceAddress = process.env.MARKETPLACE_ADDRESS;
+  if (privateKey) {
+    runtimeWallet = new ethers.Wallet(privateKey, provider);
+  } else {
+    logger.warn('RUNTIME_PRIVATE_KEY not set - only agents with their own signer complete on-chain');
+  }
+  if (process.env.AGENT_KMS_URL) {
+    kms = new HttpKeyManagementService(process.env.AGENT_KMS_URL, process.env.AGENT_KMS_TOKEN);
+  }
   
-  logger.info({ address: wallet.address, marketplace: marketplaceAddress }, 'Blockchain configured');
+  logger.info({ address: runtimeWallet?.address, marketplace: marketplaceAddress, kms: !!kms }, 'Blockchain configured');
 }
 
 // Track active executions
 let activeExecutions = 0;
 
+/**
+ * Accumulates streamed output and writes it to the order at most every
+ * CHECKPOINT_INTERVAL_MS, so API clients can follow along and resume
+ */
+function createOutputCheckpoint(orderId: string) {
+  let text = '';
+  let saved = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let writing = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    if (text.length === saved) return writing;
+
+    const snapshot = text;
+    // Chained so checkpoints land in order
+    writing = writing
+      .then(() => db.checkpointOrderOutput(orderId, snapshot, WORKER_ID))
+      .then(() => { saved = snapshot.length; })
+      .catch((err) => logger.warn({ err, orderId }, 'Failed to checkpoint streamed output'));
+    return writing;
+  };
+
+  return {
+    append(chunk: string): void {
+      text += chunk;
+      if (!timer) timer = setTimeout(flush, CHECKPOINT_INTERVAL_MS);
+    },
+    flush,
+  };
+}
+
+/**
+ * Renews this worker's lease on an order every third of LEASE_MS until
+ * stopped. Writes for the order are fenced on the lease, so once another
+ * worker takes the order over this one's result is discarded.
+ */
+function startLeaseHeartbeat(order: Order) {
+  const timer = setInterval(() => {
+    db.renewOrderLease(order.id, WORKER_ID, LEASE_MS)
+      .then((held) => {
+        if (!held) {
+          logger.warn({ orderId: order.orderId, workerId: WORKER_ID }, 'Lost lease on order');
+          clearInterval(timer);
+        }
+      })
+      .catch((err) => logger.warn({ err, orderId: order.orderId }, 'Failed to renew order lease'));
+  }, Math.max(1000, Math.floor(LEASE_MS / 3)));
+
+  return {
+    stop: () => clearInterval(timer),
+  };
+}
+
 async function processOrder(order: Order, agent: Agent): Promise<void> {
   const startTime = Date.now();
+  const checkpoint = createOutputCheckpoint(order.id);
+  // Claiming marked the order processing; keep the claim alive while it runs
+  const lease = startLeaseHeartbeat(order);
   
   try {
     logger.info({ orderId: order.orderId, agentId: agent.id }, 'Processing order');
     
-    // Mark as processing
-    await db.updateOrderStatus(order.id, 'processing');
     await db.createLog({
       agentId: agent.id,
       orderId: order.id,
@@ -61,18 +138,30 @@ async function processOrder(order: Order, agent: Agent): Promise<void> {
       message: 'Order execution started',
     });
 
-    // Load agent secrets
+    // Load agent secrets; signing secrets never reach the agent's tools
     const secrets: Record<string, string> = {};
+    const signerSecrets: Record<string, string> = {};
     const secretKeys = await db.getAgentSecretKeys(agent.id);
     for (const key of secretKeys) {
       const encrypted = await db.getAgentSecret(agent.id, key);
       if (encrypted) {
-        secrets[key] = decrypt(encrypted);
+        (isSignerSecret(key) ? signerSecrets : secrets)[key] = decrypt(encrypted);
       }
     }
 
+    // Resolve the on-chain signer before running, so a misconfigured one
+    // fails the order instead of surfacing once the result is ready
+    const completer = provider && marketplaceAddress
+      ? await resolveOrderCompleter(agent, signerSecrets, { provider, marketplaceAddress, runtimeWallet, kms })
+      : null;
+    if (completer && completer.seller.toLowerCase() !== order.sellerAddress.toLowerCase()) {
+      throw new Error(`Order seller ${order.sellerAddress} is not the ${completer.kind} signer ${completer.seller}`);
+    }
+
     // Execute the agent
-    const result = await executeAgent(agent, order.inputData, secrets);
+    const result = await executeAgent(agent, order.inputData, secrets, checkpoint.append);
+    // Streams see all output before the order turns completed
+    await checkpoint.flush();
     
     const executionTimeMs = Date.now() - startTime;
     
@@ -83,14 +172,21 @@ async function processOrder(order: Order, agent: Agent): Promise<void> {
     // For now, store result directly (in production, could upload to IPFS)
     const resultUri = `data:application/json;base64,${Buffer.from(resultJson).toString('base64')}`;
     
-    // Update order as completed
-    await db.updateOrderStatus(order.id, 'completed', {
+    // Update order as completed, unless another worker reclaimed it meanwhile
+    const held = await db.updateOrderStatus(order.id, 'completed', {
       resultData: result,
       resultUri,
       resultHash,
       tokensUsed: result.tokensUsed?.total,
+      costUsd: result.tokensUsed ? orderCostUsd(result.model || agent.model, result.tokensUsed) : undefined,
       executionTimeMs,
+      claimedBy: WORKER_ID,
     });
+    lease.stop();
+    if (!held) {
+      logger.warn({ orderId: order.orderId, workerId: WORKER_ID }, 'Order was reclaimed by another worker; discarding result');
+      return;
+    }
 
     // Update agent stats
     await db.updateAgentStats(agent.id, {
@@ -107,18 +203,17 @@ async function processOrder(order: Order, agent: Agent): Promise<void> {
       metadata: { executionTimeMs, tokensUsed: result.tokensUsed },
     });
 
-    // Complete on-chain
-    if (marketplace && wallet) {
+    // Complete on-chain as the order's seller
+    if (completer) {
       try {
-        logger.info({ orderId: order.orderId }, 'Completing order on-chain');
-        const tx = await marketplace.completeOrder(order.orderId, resultUri, resultHash);
-        const receipt = await tx.wait();
+        logger.info({ orderId: order.orderId, signer: completer.kind, seller: completer.seller }, 'Completing order on-chain');
+        const txHash = await completer.completeOrder(order, resultUri, resultHash);
         
         await db.updateOrderStatus(order.id, 'completed', {
-          completeTxHash: receipt.hash,
+          completeTxHash: txHash,
         });
         
-        logger.info({ orderId: order.orderId, txHash: receipt.hash }, 'Order completed on-chain');
+        logger.info({ orderId: order.orderId, txHash }, 'Order completed on-chain');
       } catch (chainErr) {
         logger.error({ err: chainErr, orderId: order.orderId }, 'Failed to complete order on-chain');
         errorTracker.track(
@@ -140,6 +235,7 @@ async function processOrder(order: Order, agent: Agent): Promise<void> {
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : String(err);
     logger.error({ err, orderId: order.orderId }, 'Order execution failed');
+    await checkpoint.flush();
 
     errorTracker.track(
       err instanceof Error ? err : new Error(errorMessage),
@@ -147,21 +243,66 @@ async function processOrder(order: Order, agent: Agent): Promise<void> {
       { orderId: order.orderId, agentId: agent.id, executionTimeMs: Date.now() - startTime }
     );
 
+    await recordFailure(WORKER_ID, order, agent, classifyError(err), errorMessage, Date.now() - startTime);
+  } finally {
+    lease.stop();
+  }
+}
+
+/**
+ * Start a claimed order, or settle it without running it (no agent, agent
+ * inactive, out of attempts, held back by guardrails)
+ */
+async function startOrder(order: Order & { reclaimedFrom: string | null }): Promise<void> {
+  if (order.reclaimedFrom) {
+    logger.warn({ orderId: order.orderId, previousWorker: order.reclaimedFrom }, 'Reclaimed order from expired lease');
+  }
+
+  // Find the agent for this order
+  const agent = order.agentId 
+    ? await db.getAgentById(order.agentId)
+    : await db.getAgentByServiceId(order.serviceId);
+  
+  if (!agent) {
+    logger.warn({ orderId: order.orderId, serviceId: order.serviceId }, 'No agent found for order');
     await db.updateOrderStatus(order.id, 'failed', {
-      errorMessage,
-      executionTimeMs: Date.now() - startTime,
+      errorMessage: 'No agent configured for this service',
+      claimedBy: WORKER_ID,
     });
+    return;
+  }
 
-    await db.updateAgentStats(agent.id, { success: false });
+  if (agent.status !== 'active') {
+    logger.warn({ orderId: order.orderId, agentId: agent.id, status: agent.status }, 'Agent not active');
+    // Back to pending, will retry later
+    await db.releaseOrder(order.id, WORKER_ID);
+    return;
+  }
 
-    await db.createLog({
-      agentId: agent.id,
-      orderId: order.id,
-      level: 'error',
-      message: 'Order execution failed',
-      metadata: { error: errorMessage },
-    });
+  // A worker that keeps dying on an order uses up its attempts too
+  if (order.reclaimedFrom && order.attempts > (order.retryPolicy ?? agent.retryPolicy).maxAttempts) {
+    await recordFailure(
+      WORKER_ID,
+      { ...order, attempts: order.attempts - 1 },
+      agent,
+      'unknown',
+      `Worker ${order.reclaimedFrom} stopped mid-execution`
+    );
+    return;
   }
+
+  const verdict = await checkGuardrails(order, agent);
+  if (verdict) {
+    await enforceGuardrail(WORKER_ID, order, agent, verdict);
+    return;
+  }
+
+  // Process in background
+  activeExecutions++;
+  processOrder(order, agent)
+    .finally(() => {
+      activeExecutions--;
+    });
 }
 
 async function pollForOrders(): Promise<void> {
@@ -172,34 +313,23 @@ async function pollForOrders(): Promise<void> {
   const slotsAvailable = MAX_CONCURRENT - activeExecutions;
   
   try {
-    const orders = await db.getPendingOrders(slotsAvailable);
+    const orders = await db.claimOrders(WORKER_ID, slotsAvailable, LEASE_MS);
     
     for (const order of orders) {
-      // Find the agent for this order
-      const agent = order.agentId 
-        ? await db.getAgentById(order.agentId)
-        : await db.getAgentByServiceId(order.serviceId);
-      
-      if (!agent) {
-        logger.warn({ orderId: order.orderId, serviceId: order.serviceId }, 'No agent found for order');
-        await db.updateOrderStatus(order.id, 'failed', {
-          errorMessage: 'No agent configured for this service',
+      try {
+        await startOrder(order);
+      } catch (err) {
+        // Hand the order back now rather than leaving it to a lease expiry
+        logger.error({ err, orderId: order.orderId }, 'Error starting order');
+        errorTracker.track(
+          err instanceof Error ? err : new Error(String(err)),
+          'worker.startOrder',
+          { orderId: order.orderId }
+        );
+        await db.releaseOrder(order.id, WORKER_ID).catch((releaseErr) => {
+          logger.error({ err: releaseErr, orderId: order.orderId }, 'Failed to release order');
         });
-        continue;
       }
-
-      if (agent.status !== 'active') {
-        logger.warn({ orderId: order.orderId, agentId: agent.id, status: agent.status }, 'Agent not active');
-        // Leave as pending, will retry later
-        continue;
-      }
-
-      // Process in background
-      activeExecutions++;
-      processOrder(order, agent)
-        .finally(() => {
-          activeExecutions--;
-        });
     }
   } catch (err) {
     logger.error({ err }, 'Error polling for orders');
@@ -210,16 +340,26 @@ async function pollForOrders(): Promise<void> {
   }
 }
 
+/**
+ * Poll, then schedule the next poll once this one is done, so polls never
+ * overlap and claim more orders than there are slots
+ */
+async function pollLoop(): Promise<void> {
+  await pollForOrders();
+  setTimeout(pollLoop, POLL_INTERVAL_MS);
+}
+
 async function main() {
-  logger.info({ maxConcurrent: MAX_CONCURRENT, pollInterval: POLL_INTERVAL_MS }, 'Worker starting');
+  logger.info(
+    { workerId: WORKER_ID, maxConcurrent: MAX_CONCURRENT, pollInterval: POLL_INTERVAL_MS, leaseMs: LEASE_MS },
+    'Worker starting'
+  );
   
   initBlockchain();
+  registerBuiltinIntegrations();
 
   // Start polling
-  setInterval(pollForOrders, POLL_INTERVAL_MS);
-  
-  // Initial poll
-  pollForOrders();
+  void pollLoop();
 
   logger.info('Worker running');
 }
@@ -0,0 +1,275 @@
+/**
+ * Agent Signers
+ * Who sends completeOrder for a hosted agent. AgentMarketplace only lets an
+ * order's seller complete it, so each agent completes as its own address,
+ * configured through agent secrets:
+ * - AGENT_SIGNING_KEY: the agent's private key (stored encrypted like any secret)
+ * - AGENT_KMS_KEY_ID: a key held in a KMS; only transaction digests are sent to it
+ * - AGENT_WALLET_DID: the agent's on-chain address is an ERC8004 wallet with the
+ *   runtime key as the signer for this DID (the bytes32 DID as 0x-prefixed
+ *   hex); completion is relayed through executeAsAgent, so the wallet is the
+ *   seller and gets paid
+ * Agents with none of these complete with the runtime key.
+ */
+
+import {
+  AbstractSigner,
+  Contract,
+  Interface,
+  Signature,
+  Transaction,
+  TypedDataEncoder,
+  Wallet,
+  copyRequest,
+  getAddress,
+  hashMessage,
+  isHexString,
+  recoverAddress,
+  resolveAddress,
+  type Provider,
+  type TransactionLike,
+  type TransactionRequest,
+  type TypedDataDomain,
+  type TypedDataField,
+} from 'ethers';
+import type { Agent, Order } from '../shared/types.js';
+
+export const SIGNING_KEY_SECRET = 'AGENT_SIGNING_KEY';
+export const KMS_KEY_ID_SECRET = 'AGENT_KMS_KEY_ID';
+export const WALLET_DID_SECRET = 'AGENT_WALLET_DID';
+
+const SIGNER_SECRETS = new Set([SIGNING_KEY_SECRET, KMS_KEY_ID_SECRET, WALLET_DID_SECRET]);
+
+export const MARKETPLACE_ABI = [
+  'function completeOrder(bytes32 orderId, string resultURI, bytes resultHash) external',
+];
+
+const ERC8004_ABI = [
+  'function executeAsAgent(bytes32 agentDID, address target, bytes data, uint256 value) external returns (bytes)',
+];
+
+/**
+ * Secrets that configure signing; kept away from the agent's tools
+ */
+export function isSignerSecret(key: string): boolean {
+  return SIGNER_SECRETS.has(key);
+}
+
+// =============================================================================
+// KMS
+// =============================================================================
+
+/**
+ * A key store that signs without releasing keys (AWS KMS, GCP KMS, Vault, ...)
+ */
+export interface KeyManagementService {
+  /** Ethereum address of a secp256k1 key */
+  getAddress(keyId: string): Promise<string>;
+  /** 65-byte signature (r, s, v) over a 32-byte digest */
+  signDigest(keyId: string, digest: string): Promise<string>;
+}
+
+/**
+ * KMS behind an HTTP signing service:
+ * GET  {baseUrl}/keys/{keyId}       -> { address }
+ * POST {baseUrl}/keys/{keyId}/sign  { digest } -> { signature }
+ */
+export class HttpKeyManagementService implements KeyManagementService {
+  private baseUrl: string;
+  private token?: string;
+
+  constructor(baseUrl: string, token?: string) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.token = token;
+  }
+
+  async getAddress(keyId: string): Promise<string> {
+    const { address } = await this.request<{ address: string }>(`/keys/${encodeURIComponent(keyId)}`);
+    return address;
+  }
+
+  async signDigest(keyId: string, digest: string): Promise<string> {
+    const { signature } = await this.request<{ signature: string }>(
+      `/keys/${encodeURIComponent(keyId)}/sign`,
+      { digest }
+    );
+    return signature;
+  }
+
+  private async request<T>(path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: body === undefined ? 'GET' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token && { Authorization: `Bearer ${this.token}` }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(10_000),
+    });
+    if (!response.ok) {
+      throw new Error(`KMS request failed: ${response.status} ${await response.text()}`);
+    }
+    return response.json() as Promise<T>;
+  }
+}
+
+/**
+ * ethers signer for a KMS key
+ */
+export class KmsSigner extends AbstractSigner {
+  private kms: KeyManagementService;
+  private keyId: string;
+  private address?: string;
+
+  constructor(kms: KeyManagementService, keyId: string, provider: Provider | null = null) {
+    super(provider);
+    this.kms = kms;
+    this.keyId = keyId;
+  }
+
+  connect(provider: Provider | null): KmsSigner {
+    return new KmsSigner(this.kms, this.keyId, provider);
+  }
+
+  async getAddress(): Promise<string> {
+    this.address ??= getAddress(await this.kms.getAddress(this.keyId));
+    return this.address;
+  }
+
+  async signTransaction(request: TransactionRequest): Promise<string> {
+    const address = await this.getAddress();
+    // Signers hand over Transaction objects, whose fields are getters a spread would drop
+    const tx = copyRequest(request);
+    if (tx.to != null) tx.to = await resolveAddress(tx.to, this.provider);
+    if (tx.from != null) {
+      if (getAddress(await resolveAddress(tx.from, this.provider)) !== address) {
+        throw new Error(`Transaction from does not match KMS key ${this.keyId}`);
+      }
+      delete tx.from;
+    }
+
+    const unsigned = Transaction.from(tx as TransactionLike<string>);
+    unsigned.signature = await this.signDigest(unsigned.unsignedHash);
+    return unsigned.serialized;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return (await this.signDigest(hashMessage(message))).serialized;
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return (await this.signDigest(TypedDataEncoder.hash(domain, types, value))).serialized;
+  }
+
+  /**
+   * Sign through the KMS, checking the signature recovers to the key's address
+   */
+  private async signDigest(digest: string): Promise<Signature> {
+    const signature = Signature.from(await this.kms.signDigest(this.keyId, digest));
+    if (recoverAddress(digest, signature) !== await this.getAddress()) {
+      throw new Error(`KMS signature for ${this.keyId} does not recover to its address`);
+    }
+    return signature;
+  }
+}
+
+// =============================================================================
+// Order Completion
+// =============================================================================
+
+export interface OrderCompleter {
+  /** Which signing path is used */
+  kind: 'agent-key' | 'kms' | 'erc8004-relay' | 'runtime';
+  /** Address completeOrder is sent from (must be the order's seller) */
+  seller: string;
+  /** Send completeOrder and wait for it; returns the transaction hash */
+  completeOrder(order: Order, resultUri: string, resultHash: string): Promise<string>;
+}
+
+export interface SignerContext {
+  provider: Provider;
+  marketplaceAddress: string;
+  /** Runtime key: the fallback signer and the ERC8004 delegate */
+  runtimeWallet: Wallet | null;
+  kms?: KeyManagementService;
+}
+
+/**
+ * Signer for an agent's completions, from its signing secrets
+ */
+export async function resolveOrderCompleter(
+  agent: Agent,
+  secrets: Record<string, string>,
+  context: SignerContext
+): Promise<OrderCompleter> {
+  const { provider, marketplaceAddress, runtimeWallet, kms } = context;
+
+  const key = secrets[SIGNING_KEY_SECRET];
+  if (key) {
+    return directCompleter('agent-key', new Wallet(key, provider), marketplaceAddress);
+  }
+
+  const keyId = secrets[KMS_KEY_ID_SECRET];
+  if (keyId) {
+    if (!kms) throw new Error(`${KMS_KEY_ID_SECRET} is set but no KMS is configured (AGENT_KMS_URL)`);
+    return directCompleter('kms', new KmsSigner(kms, keyId, provider), marketplaceAddress);
+  }
+
+  if (!runtimeWallet) {
+    throw new Error(`No signer for agent ${agent.id}: set ${SIGNING_KEY_SECRET} or ${KMS_KEY_ID_SECRET}, or RUNTIME_PRIVATE_KEY`);
+  }
+
+  const did = secrets[WALLET_DID_SECRET];
+  if (did) {
+    if (!agent.onChainAddress) {
+      throw new Error(`${WALLET_DID_SECRET} is set but agent ${agent.id} has no on-chain wallet address`);
+    }
+    if (!isHexString(did, 32)) {
+      throw new Error(`${WALLET_DID_SECRET} for agent ${agent.id} must be a bytes32 DID as 0x-prefixed hex (64 hex digits)`);
+    }
+    return relayCompleter(getAddress(agent.onChainAddress), did, runtimeWallet, marketplaceAddress);
+  }
+
+  return directCompleter('runtime', runtimeWallet, marketplaceAddress);
+}
+
+async function directCompleter(
+  kind: OrderCompleter['kind'],
+  signer: AbstractSigner,
+  marketplaceAddress: string
+): Promise<OrderCompleter> {
+  const marketplace = new Contract(marketplaceAddress, MARKETPLACE_ABI, signer);
+  return {
+    kind,
+    seller: await signer.getAddress(),
+    async completeOrder(order, resultUri, resultHash) {
+      const tx = await marketplace.completeOrder(order.orderId, resultUri, resultHash);
+      const receipt = await tx.wait();
+      return receipt.hash;
+    },
+  };
+}
+
+function relayCompleter(
+  agentWallet: string,
+  agentDID: string,
+  runtimeWallet: Wallet,
+  marketplaceAddress: string
+): OrderCompleter {
+  const wallet = new Contract(agentWallet, ERC8004_ABI, runtimeWallet);
+  const marketplace = new Interface(MARKETPLACE_ABI);
+  return {
+    kind: 'erc8004-relay',
+    seller: agentWallet,
+    async completeOrder(order, resultUri, resultHash) {
+      const data = marketplace.encodeFunctionData('completeOrder', [order.orderId, resultUri, resultHash]);
+      const tx = await wallet.executeAsAgent(agentDID, marketplaceAddress, data, 0);
+      const receipt = await tx.wait();
+      return receipt.hash;
+    },
+  };
+}
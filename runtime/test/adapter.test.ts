@@ -0,0 +1,156 @@
+/**
+ * Model executors behind the task executor interface: how they are registered
+ * and picked, the model request built for an order, and the TaskResult returned
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ModelExecutorAdapter } from '../src/executors/adapter.js';
+import type { ExecutorInput } from '../src/executors/base.js';
+import { ExecutorRegistry } from '../src/executors/registry.js';
+import { hashObject } from '../src/proof.js';
+import { hashResultOutput } from '../src/result.js';
+import type { TaskInput } from '../src/types.js';
+import { MarketplaceChain } from './support/marketplace.js';
+import { EchoExecutor, FakeModel, startTestRuntime, type TestRuntime } from './support/runtime.js';
+
+const task = (fields: Partial<TaskInput> = {}): TaskInput => ({
+  orderId: '0x' + '01'.repeat(32),
+  serviceId: '0x' + '02'.repeat(32),
+  serviceType: 'sentiment-analysis',
+  buyer: '0x' + '03'.repeat(20),
+  units: 1n,
+  totalPrice: 1000n,
+  deadline: Math.floor(Date.now() / 1000) + 3600,
+  payload: { text: 'I love it' },
+  ...fields,
+});
+
+/** Prompt tokens at 4 characters per token, as models and the adapter estimate */
+const promptTokensOf = (input: ExecutorInput) => Math.ceil((input.prompt.length + (input.systemPrompt?.length ?? 0)) / 4);
+
+describe('ExecutorRegistry', () => {
+  it('wraps model executors and keeps task executors as they are', () => {
+    const registry = new ExecutorRegistry();
+    const model = new FakeModel({ id: 'gpt' });
+    const echo = new EchoExecutor('hi');
+
+    const wrapped = registry.register(model);
+    assert.ok(wrapped instanceof ModelExecutorAdapter);
+    assert.equal(wrapped.model, model);
+    assert.equal(wrapped.id, 'gpt');
+    assert.equal(registry.register(echo), echo);
+    assert.deepEqual(registry.list().map((e) => e.id), ['gpt', 'echo']);
+    assert.deepEqual(registry.listModels(), [wrapped]);
+  });
+
+  it('prefers executors claiming the service type, then the preferred provider', () => {
+    const registry = new ExecutorRegistry();
+    registry.register(new FakeModel({ provider: 'anthropic' }));
+    registry.register(new FakeModel({ provider: 'google' }));
+    const echo = registry.register(new EchoExecutor('hi', { serviceTypes: ['translation'] }));
+
+    assert.equal(registry.getForServiceType('translation'), echo);
+    assert.equal(registry.getForServiceType('sentiment-analysis')?.id, 'google');
+    assert.equal(registry.getForServiceType('code-review')?.id, 'anthropic');
+    // No preferred provider registered: the first executor
+    assert.equal(registry.getForServiceType('unknown')?.id, 'anthropic');
+  });
+});
+
+describe('ModelExecutorAdapter', () => {
+  it('asks the model with the payload as JSON and returns its reply as the output', async () => {
+    const model = new FakeModel();
+    model.reply('{"label":"positive"}');
+    const result = await new ModelExecutorAdapter(model).execute(task());
+
+    assert.equal(model.inputs[0].prompt, '{"text":"I love it"}');
+    assert.equal(model.inputs[0].systemPrompt, `Process sentiment-analysis order ${task().orderId}`);
+    assert.equal(model.inputs[0].model, undefined);
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.output, { content: '{"label":"positive"}', structured: { label: 'positive' } });
+    assert.deepEqual(result.resultHash, hashResultOutput(result.output!));
+    // Left for the runtime to sign
+    assert.equal(result.proof.signature, '');
+    assert.equal(result.proof.outputHash, hashObject('{"label":"positive"}'));
+    assert.equal(result.metadata.executorId, 'openai');
+    assert.equal(result.metadata.modelUsed, 'fake-1');
+    const promptTokens = promptTokensOf(model.inputs[0]);
+    assert.equal(result.metadata.tokensUsed, promptTokens + 5);
+    assert.equal(result.metadata.costUsd, (promptTokens * 1 + 5 * 2) / 1_000_000);
+  });
+
+  it('uses the routed model and a custom request builder', async () => {
+    const model = new FakeModel({ pricing: { small: { input: 1, output: 1 }, large: { input: 5, output: 5 } } });
+    const adapter = new ModelExecutorAdapter(model, {
+      serviceTypes: ['sentiment-analysis'],
+      buildInput: (t) => ({ prompt: `Classify: ${(t.payload as { text: string }).text}` }),
+    });
+    const signal = new AbortController().signal;
+    const result = await adapter.execute(task({ model: 'large', signal }));
+
+    assert.deepEqual(adapter.serviceTypes, ['sentiment-analysis']);
+    assert.deepEqual(model.inputs, [{ prompt: 'Classify: I love it', model: 'large', signal }]);
+    assert.equal(result.metadata.modelUsed, 'large');
+  });
+
+  it('returns a failed result when the model fails or throws', async () => {
+    const model = new FakeModel();
+    model.reply(new Error('rate limited'));
+    const failed = await new ModelExecutorAdapter(model).execute(task());
+    assert.equal(failed.success, false);
+    assert.equal(failed.error, 'rate limited');
+    assert.equal(failed.output, undefined);
+
+    const thrown = await new ModelExecutorAdapter(model, {
+      buildInput: () => {
+        throw new Error('no prompt');
+      },
+    }).execute(task());
+    assert.equal(thrown.success, false);
+    assert.equal(thrown.error, 'no prompt');
+  });
+
+  it('streams through the model when the task takes output, estimating usage', async () => {
+    const model = new FakeModel();
+    model.reply('It is positive');
+    const chunks: string[] = [];
+    const result = await new ModelExecutorAdapter(model).execute(task({ onOutput: (chunk) => chunks.push(chunk) }));
+
+    assert.deepEqual(chunks, ['It ', 'is ', 'positive']);
+    assert.equal(model.inputs[0].stream, true);
+    assert.equal(result.output?.content, 'It is positive');
+    assert.equal(result.metadata.tokensUsed, promptTokensOf(model.inputs[0]) + 4);
+    assert.equal(result.metadata.costUsd, (promptTokensOf(model.inputs[0]) * 1 + 4 * 2) / 1_000_000);
+  });
+});
+
+describe('AgentRuntime with a model executor', () => {
+  let chain: MarketplaceChain;
+  let test: TestRuntime;
+
+  beforeEach(async () => {
+    chain = await new MarketplaceChain().start();
+  });
+
+  afterEach(async () => {
+    await test.stop();
+    await chain.stop();
+  });
+
+  it('runs orders through a model executor like any task executor', async () => {
+    const model = new FakeModel({ fallback: 'Positive' });
+    test = await startTestRuntime(chain, { executors: [model] });
+    const orderId = chain.createOrder(chain.addService({ serviceType: 'sentiment-analysis' }));
+
+    const started = await test.waitFor('execution_started', orderId);
+    const { result } = await test.waitFor('execution_completed', orderId);
+
+    assert.equal(started.executorId, 'openai');
+    assert.equal(model.inputs.length, 1);
+    assert.deepEqual(result.output, { content: 'Positive' });
+    assert.ok(result.proof.signature);
+    assert.equal(result.metadata.modelUsed, 'fake-1');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Orders cancelled or disputed by the buyer: work in flight is aborted and
+ * reported with its cost, and waiting orders are dropped
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MarketplaceChain } from './support/marketplace.js';
+import { EchoExecutor, FakeModel, startTestRuntime, type TestRuntime } from './support/runtime.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('AgentRuntime cancellation', () => {
+  let chain: MarketplaceChain;
+  let serviceId: string;
+  let test: TestRuntime;
+
+  beforeEach(async () => {
+    chain = await new MarketplaceChain().start();
+    serviceId = chain.addService({ serviceType: 'text-generation' });
+  });
+
+  afterEach(async () => {
+    await test.stop();
+    await chain.stop();
+  });
+
+  it('aborts an execution when the buyer cancels and stores nothing', async () => {
+    const echo = new EchoExecutor('done', { delayMs: 10_000 });
+    test = await startTestRuntime(chain, { executors: [echo] });
+    const orderId = chain.createOrder(serviceId);
+    await test.waitFor('execution_started', orderId);
+
+    chain.cancelOrder(orderId);
+    const aborted = await test.waitFor('execution_aborted', orderId);
+
+    assert.equal(aborted.reason, 'cancelled');
+    assert.equal(aborted.detail, undefined);
+    assert.equal(aborted.executorId, 'echo');
+    // A task executor that didn't finish can't tell what it spent
+    assert.equal(aborted.costIncurredUsd, undefined);
+    assert.deepEqual(echo.tasks[0].signal?.reason, { kind: 'cancelled' });
+
+    await sleep(200);
+    assert.equal(echo.tasks.length, 1);
+    assert.deepEqual(test.results(), []);
+    assert.equal(test.events.some((e) => e.type === 'execution_completed' || e.type === 'execution_failed'), false);
+  });
+
+  it('aborts a model call when the order is disputed and counts its prompt cost', async () => {
+    const model = new FakeModel({ delayMs: 10_000 });
+    test = await startTestRuntime(chain, { executors: [model] });
+    const orderId = chain.createOrder(serviceId);
+    await test.waitFor('execution_started', orderId);
+
+    chain.disputeOrder(orderId, 'Wrong language');
+    const aborted = await test.waitFor('execution_aborted', orderId);
+
+    assert.equal(aborted.reason, 'disputed');
+    assert.equal(aborted.detail, 'Wrong language');
+    assert.equal(model.inputs[0].signal?.aborted, true);
+
+    // The prompt was billed once sent; the unfinished reply isn't counted
+    const { prompt, systemPrompt } = model.inputs[0];
+    const promptCost = Math.ceil((prompt.length + systemPrompt!.length) / 4) / 1_000_000;
+    assert.ok(promptCost > 0);
+    assert.equal(aborted.costIncurredUsd, promptCost);
+    assert.equal((await test.runtime.getStatus()).abortedCostUsd, promptCost);
+  });
+
+  it('drops a waiting order that is cancelled before it starts', async () => {
+    const echo = new EchoExecutor('done', { delayMs: 300 });
+    test = await startTestRuntime(chain, { executors: [echo], maxConcurrent: 1 });
+    const running = chain.createOrder(serviceId);
+    await test.waitFor('execution_started', running);
+    const waiting = chain.createOrder(serviceId);
+    await test.waitFor('order_received', waiting);
+
+    chain.cancelOrder(waiting);
+    await test.waitFor('execution_completed', running);
+    await sleep(200);
+
+    assert.deepEqual(echo.tasks.map((t) => t.orderId), [running]);
+    assert.equal(test.events.some((e) => e.type === 'execution_aborted'), false);
+  });
+
+  it('skips orders cancelled before the runtime saw them', async () => {
+    const echo = new EchoExecutor('done');
+    const orderId = chain.createOrder(serviceId);
+    chain.cancelOrder(orderId);
+    test = await startTestRuntime(chain, { executors: [echo] });
+
+    await sleep(300);
+    assert.deepEqual(echo.tasks, []);
+    assert.equal(test.events.some((e) => 'orderId' in e && e.orderId === orderId && e.type !== 'order_received'), false);
+  });
+});
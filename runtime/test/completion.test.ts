@@ -0,0 +1,262 @@
+/**
+ * CompletionManager: nonce reservation, failed and reverted broadcasts, fee
+ * bumps, orders completed elsewhere, and resuming after a restart
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { id, type Contract, type Wallet } from 'ethers';
+import { CompletionManager } from '../src/completion.js';
+import { OrderStatus } from '../src/contracts.js';
+import type { CompletionOptions, CompletionRecord } from '../src/types.js';
+
+const MARKETPLACE = '0x' + 'aa'.repeat(20);
+const SELLER = '0x' + 'bb'.repeat(20);
+
+interface SentTransaction {
+  hash: string;
+  orderId: string;
+  nonce: number;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+/** The marketplace and the seller's wallet, as much as CompletionManager uses */
+class FakeChain {
+  readonly statuses = new Map<string, OrderStatus>();
+  readonly sent: SentTransaction[] = [];
+  /** Hash of the transaction that completed an order, as OrderCompleted logs it */
+  readonly completedBy = new Map<string, string>();
+  /** Broadcasts that throw before anything goes out */
+  readonly sendErrors: Error[] = [];
+  feeData: { gasPrice: bigint | null; maxFeePerGas: bigint | null; maxPriorityFeePerGas: bigint | null } =
+    { gasPrice: 100n, maxFeePerGas: null, maxPriorityFeePerGas: null };
+  /** Nonces used by mined transactions */
+  latestNonce = 5;
+  private receipts = new Map<string, number>();
+
+  readonly marketplace = {
+    orders: async (orderId: string) => ({ status: BigInt(this.statuses.get(orderId) ?? OrderStatus.Pending) }),
+    completeOrder: {
+      populateTransaction: async (orderId: string) => ({ to: MARKETPLACE, data: orderId }),
+      staticCall: async () => undefined,
+    },
+    filters: { OrderCompleted: (orderId: string) => orderId },
+    queryFilter: async (orderId: string) => {
+      const hash = this.completedBy.get(orderId);
+      return hash ? [{ transactionHash: hash }] : [];
+    },
+  } as unknown as Contract;
+
+  readonly wallet = {
+    address: SELLER,
+    provider: {
+      getTransactionCount: async (_address: string, tag: 'latest' | 'pending') => {
+        if (tag === 'latest') return this.latestNonce;
+        const unmined = this.sent.filter((tx) => tx.nonce >= this.latestNonce).map((tx) => tx.nonce + 1);
+        return Math.max(this.latestNonce, ...unmined);
+      },
+      getFeeData: async () => this.feeData,
+      getTransactionReceipt: async (hash: string) => {
+        const status = this.receipts.get(hash);
+        return status === undefined ? null : { hash, status, confirmations: async () => 1 };
+      },
+    },
+    sendTransaction: async (tx: { data: string; nonce: number; gasPrice?: bigint; maxFeePerGas?: bigint; maxPriorityFeePerGas?: bigint }) => {
+      const error = this.sendErrors.shift();
+      if (error) throw error;
+      const hash = id(`${tx.data}:${this.sent.length}`);
+      this.sent.push({
+        hash,
+        orderId: tx.data,
+        nonce: tx.nonce,
+        gasPrice: tx.gasPrice,
+        maxFeePerGas: tx.maxFeePerGas,
+        maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+      });
+      return { hash };
+    },
+  } as unknown as Wallet;
+
+  /** Mine a broadcast transaction; status 0 means it reverted */
+  mine(hash: string, status = 1): void {
+    const tx = this.sent.find((t) => t.hash === hash)!;
+    this.receipts.set(hash, status);
+    this.latestNonce = Math.max(this.latestNonce, tx.nonce + 1);
+    if (status === 1) {
+      this.statuses.set(tx.orderId, OrderStatus.Completed);
+      this.completedBy.set(tx.orderId, hash);
+    }
+  }
+}
+
+async function until(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const end = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > end) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+const completion = (orderId: string) => ({
+  orderId,
+  resultURI: `data:${orderId}`,
+  resultHash: id(orderId),
+  deadline: Math.floor(Date.now() / 1000) + 3600,
+});
+
+describe('CompletionManager', () => {
+  let dir: string;
+  let file: string;
+  let chain: FakeChain;
+  let confirmed: Array<[string, string]>;
+  let failed: Array<[string, string]>;
+  const managers: CompletionManager[] = [];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'completion-test-'));
+    file = join(dir, 'completions.json');
+    chain = new FakeChain();
+    confirmed = [];
+    failed = [];
+  });
+
+  afterEach(() => {
+    for (const manager of managers.splice(0)) manager.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function startManager(options: CompletionOptions = {}): CompletionManager {
+    const manager = new CompletionManager(chain.marketplace, chain.wallet, { file, pollInterval: 10, ...options }, {
+      onConfirmed: (orderId, txHash) => confirmed.push([orderId, txHash]),
+      onFailed: (orderId, error) => failed.push([orderId, error]),
+    });
+    managers.push(manager);
+    manager.start();
+    return manager;
+  }
+
+  const persisted = (): CompletionRecord[] => JSON.parse(readFileSync(file, 'utf-8')).records;
+
+  it('reserves consecutive nonces and finishes once each completion is mined', async () => {
+    const manager = startManager();
+    manager.enqueue(completion('order-a'));
+    manager.enqueue(completion('order-b'));
+    await until(() => chain.sent.length === 2);
+
+    assert.deepEqual(chain.sent.map((tx) => [tx.orderId, tx.nonce, tx.gasPrice]), [['order-a', 5, 100n], ['order-b', 6, 100n]]);
+    assert.deepEqual(persisted().map((r) => [r.status, r.nonce]), [['submitted', 5], ['submitted', 6]]);
+
+    for (const tx of chain.sent) chain.mine(tx.hash);
+    await until(() => confirmed.length === 2);
+
+    assert.deepEqual(confirmed, chain.sent.map((tx) => [tx.orderId, tx.hash]));
+    assert.equal(manager.size, 0);
+    assert.deepEqual(persisted(), []);
+  });
+
+  it('hands back the nonce of a broadcast that failed and sends it again', async () => {
+    chain.sendErrors.push(new Error('connection reset'));
+    const manager = startManager();
+    manager.enqueue(completion('order-a'));
+    await until(() => chain.sent.length === 1);
+
+    assert.equal(chain.sent[0].nonce, 5);
+    const [record] = persisted();
+    assert.deepEqual([record.status, record.attempts, record.lastError], ['submitted', 1, 'connection reset']);
+  });
+
+  it('gives up after three failed broadcasts without leaving a nonce gap', async () => {
+    chain.sendErrors.push(new Error('insufficient funds'), new Error('insufficient funds'), new Error('insufficient funds'));
+    const manager = startManager();
+    manager.enqueue(completion('order-a'));
+    await until(() => failed.length === 1);
+
+    assert.deepEqual(failed, [['order-a', 'insufficient funds']]);
+    assert.equal(chain.sent.length, 0);
+
+    manager.enqueue(completion('order-b'));
+    await until(() => chain.sent.length === 1);
+    assert.equal(chain.sent[0].nonce, 5);
+  });
+
+  it('sends a reverted completion again with a new nonce', async () => {
+    const manager = startManager();
+    manager.enqueue(completion('order-a'));
+    await until(() => chain.sent.length === 1);
+
+    chain.mine(chain.sent[0].hash, 0);
+    await until(() => chain.sent.length === 2);
+
+    assert.deepEqual(chain.sent.map((tx) => tx.nonce), [5, 6]);
+    assert.equal(persisted()[0].attempts, 1);
+  });
+
+  it('replaces an unmined transaction with bumped fees, up to maxBumps', async () => {
+    const manager = startManager({ bumpAfterMs: 30, bumpPercent: 20, maxBumps: 2 });
+    manager.enqueue(completion('order-a'));
+    await until(() => chain.sent.length === 3);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    assert.deepEqual(chain.sent.map((tx) => [tx.nonce, tx.gasPrice]), [[5, 100n], [5, 120n], [5, 144n]]);
+
+    // Any of the replaced transactions may be the one mined
+    chain.mine(chain.sent[0].hash);
+    await until(() => confirmed.length === 1);
+    assert.deepEqual(confirmed, [['order-a', chain.sent[0].hash]]);
+  });
+
+  it('bumps both EIP-1559 fees and keeps the live fees when a replacement fails', async () => {
+    chain.feeData = { gasPrice: null, maxFeePerGas: 200n, maxPriorityFeePerGas: 10n };
+    const manager = startManager({ bumpAfterMs: 30, bumpPercent: 20, maxBumps: 2 });
+    manager.enqueue(completion('order-a'));
+    await until(() => chain.sent.length === 1);
+
+    // The network fee rose past the bump; the replacement fails to go out
+    chain.feeData = { gasPrice: null, maxFeePerGas: 300n, maxPriorityFeePerGas: 10n };
+    chain.sendErrors.push(new Error('replacement transaction underpriced'));
+    await until(() => chain.sent.length === 2);
+
+    assert.deepEqual(
+      chain.sent.map((tx) => [tx.nonce, tx.maxFeePerGas, tx.maxPriorityFeePerGas]),
+      [[5, 200n, 10n], [5, 300n, 12n]]
+    );
+    const [record] = persisted();
+    // The failed replacement still used up a bump
+    assert.equal(record.bumps, 2);
+    assert.equal(record.attempts, 0);
+  });
+
+  it('finishes an order already completed on-chain without sending anything', async () => {
+    chain.statuses.set('order-a', OrderStatus.Completed);
+    chain.completedBy.set('order-a', '0xfeed');
+    chain.statuses.set('order-b', OrderStatus.Cancelled);
+    const manager = startManager();
+    manager.enqueue(completion('order-a'));
+    manager.enqueue(completion('order-b'));
+    await until(() => confirmed.length + failed.length === 2);
+
+    assert.deepEqual(confirmed, [['order-a', '0xfeed']]);
+    assert.deepEqual(failed, [['order-b', 'Order is no longer pending (status Cancelled)']]);
+    assert.equal(chain.sent.length, 0);
+  });
+
+  it('resumes a submitted completion after a restart without sending it twice', async () => {
+    const first = startManager();
+    first.enqueue(completion('order-a'));
+    await until(() => chain.sent.length === 1);
+    first.stop();
+
+    chain.mine(chain.sent[0].hash);
+    const restarted = startManager();
+    assert.equal(restarted.has('order-a'), true);
+    await until(() => confirmed.length === 1);
+
+    assert.deepEqual(confirmed, [['order-a', chain.sent[0].hash]]);
+    assert.equal(chain.sent.length, 1);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * ConsensusExecutor: quorum, the participant proofs behind a multi-party
+ * proof, and which of them are kept
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Wallet } from 'ethers';
+import { ConsensusExecutor, createSimilarityJudge } from '../src/executors/consensus.js';
+import { ProofVerifier, createUnsignedProof, hashObject } from '../src/proof.js';
+import { hashResultOutput } from '../src/result.js';
+import type { Executor, TaskInput, TaskResult } from '../src/types.js';
+
+const task: TaskInput = {
+  orderId: '0x' + '01'.repeat(32),
+  serviceId: '0x' + '02'.repeat(32),
+  serviceType: 'text-generation',
+  buyer: '0x' + '03'.repeat(20),
+  units: 1n,
+  totalPrice: 1000n,
+  deadline: Math.floor(Date.now() / 1000) + 3600,
+  payload: { prompt: 'Capital of France?' },
+};
+
+/** An executor answering with fixed content and an unsigned proof over `attested` */
+function peer(id: string, content: string | Error, attested: unknown = content): Executor {
+  return {
+    id,
+    name: id,
+    version: '1.0.0',
+    serviceTypes: [],
+    healthCheck: async () => true,
+    async execute(): Promise<TaskResult> {
+      if (content instanceof Error) throw content;
+      const output = { content };
+      return {
+        success: true,
+        resultURI: '',
+        resultHash: hashResultOutput(output),
+        output,
+        proof: createUnsignedProof(task.payload, attested),
+        metadata: { startTime: 0, endTime: 0, durationMs: 0, executorId: id, executorVersion: '1.0.0', tokensUsed: 10 },
+      };
+    },
+  };
+}
+
+const key = () => new Wallet(Wallet.createRandom().privateKey);
+
+describe('ConsensusExecutor', () => {
+  it("signs each participant's proof with that participant's key, even when executor ids repeat", async () => {
+    const [first, second] = [key(), key()];
+    const consensus = new ConsensusExecutor({
+      participants: [
+        { executor: peer('peer', 'Paris'), privateKey: first.privateKey },
+        { executor: peer('peer', ' Paris\n'), privateKey: second.privateKey },
+        { executor: peer('other', 'Lyon') },
+      ],
+    });
+
+    const result = await consensus.execute(task);
+
+    assert.equal(result.success, true);
+    assert.equal(result.output?.content, 'Paris');
+    assert.equal(result.metadata.tokensUsed, 30);
+    assert.equal(result.proof.type, 'multi-party');
+    assert.equal(result.proof.outputHash, hashObject('Paris'));
+    assert.deepEqual(
+      ProofVerifier.recoverParticipants(result.proof).sort(),
+      [first.address, second.address].map((a) => a.toLowerCase()).sort()
+    );
+  });
+
+  it("leaves out proofs that don't commit to the output their participant returned", async () => {
+    const [honest, lying] = [key(), key()];
+    const consensus = new ConsensusExecutor({
+      participants: [
+        { executor: peer('honest', 'Paris'), privateKey: honest.privateKey },
+        { executor: peer('lying', 'Paris', 'Lyon'), privateKey: lying.privateKey },
+      ],
+    });
+
+    const result = await consensus.execute(task);
+
+    assert.equal(result.success, true);
+    assert.equal(result.proof.evidence.verifierSignatures?.length, 1);
+    assert.deepEqual(ProofVerifier.recoverParticipants(result.proof), [honest.address.toLowerCase()]);
+  });
+
+  it('agrees on similar answers with a similarity judge', async () => {
+    const consensus = new ConsensusExecutor({
+      participants: [
+        { executor: peer('a', 'The capital of France is Paris') },
+        { executor: peer('b', 'the capital of France is Paris.') },
+        { executor: peer('c', 'The capital of France is Paris') },
+      ],
+      quorum: 3,
+      judge: createSimilarityJudge(0.6),
+    });
+
+    const result = await consensus.execute(task);
+    assert.equal(result.success, true);
+    assert.equal(result.output?.content, 'The capital of France is Paris');
+  });
+
+  it('fails below quorum, listing the participants that failed', async () => {
+    const consensus = new ConsensusExecutor({
+      participants: [
+        { executor: peer('a', 'Paris') },
+        { executor: peer('b', 'Lyon') },
+        { executor: peer('c', new Error('timed out')) },
+      ],
+    });
+
+    const result = await consensus.execute(task);
+
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'No consensus: 1 of 3 agreed, quorum is 2 (failed: c: timed out)');
+    assert.equal(result.metadata.tokensUsed, 20);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * BlockCursor: ranged log scans, persistence, shrinking ranges the provider
+ * refuses, and rescanning blocks replaced by a reorg
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Interface, getAddress, id, type Contract, type Provider } from 'ethers';
+import { BlockCursor } from '../src/cursor.js';
+import { MARKETPLACE_ABI } from '../src/contracts.js';
+import type { BlockCursorOptions, MarketplaceLogEvent } from '../src/types.js';
+
+const MARKETPLACE = '0x' + 'aa'.repeat(20);
+const SELLER = getAddress('0x' + 'bb'.repeat(20));
+const BUYER = '0x' + 'cc'.repeat(20);
+
+const marketplaceInterface = new Interface(MARKETPLACE_ABI);
+
+interface FakeBlock {
+  hash: string;
+  orders: string[];
+}
+
+/** A chain of blocks, each creating some orders, that can be reorged */
+class FakeChain {
+  blocks: FakeBlock[] = [{ hash: id('block-0'), orders: [] }];
+  /** Ranges getLogs was asked for */
+  readonly ranges: Array<[number, number]> = [];
+  /** getLogs refuses wider ranges than this */
+  maxLogRange = Infinity;
+
+  readonly provider = {
+    getBlockNumber: async () => this.blocks.length - 1,
+    getBlock: async (number: number) => this.blocks[number] ? { number, hash: this.blocks[number].hash } : null,
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) => {
+      this.ranges.push([fromBlock, toBlock]);
+      if (toBlock - fromBlock + 1 > this.maxLogRange) throw new Error('query returned more than 10000 results');
+      return this.blocks.slice(fromBlock, toBlock + 1).flatMap((block, i) =>
+        block.orders.map((orderId, index) => ({
+          ...marketplaceInterface.encodeEventLog('OrderCreated', [orderId, id('service'), BUYER, SELLER, 100n]),
+          blockNumber: fromBlock + i,
+          index,
+        }))
+      );
+    },
+  } as unknown as Provider;
+
+  readonly marketplace = {
+    getAddress: async () => MARKETPLACE,
+    interface: marketplaceInterface,
+  } as unknown as Contract;
+
+  /** Append blocks, one order each */
+  mine(count: number, fork = 'main'): void {
+    for (let i = 0; i < count; i++) {
+      const number = this.blocks.length;
+      this.blocks.push({ hash: id(`${fork}-${number}`), orders: [orderId(`${fork}-${number}`)] });
+    }
+  }
+
+  /** Replace every block from `from` on with `count` blocks of another fork */
+  reorg(from: number, count: number, fork: string): void {
+    this.blocks = this.blocks.slice(0, from);
+    this.mine(count, fork);
+  }
+}
+
+const orderId = (name: string) => id(`order-${name}`);
+
+describe('BlockCursor', () => {
+  let dir: string;
+  let file: string;
+  let chain: FakeChain;
+  let events: MarketplaceLogEvent[];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cursor-test-'));
+    file = join(dir, 'block-cursor.json');
+    chain = new FakeChain();
+    events = [];
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function cursor(options: BlockCursorOptions = {}): BlockCursor {
+    return new BlockCursor(chain.provider, chain.marketplace, async (event) => void events.push(event), {
+      file,
+      startBlock: 1,
+      ...options,
+    });
+  }
+
+  const created = () => events.map((e) => [e.type, e.orderId, e.blockNumber]);
+
+  it('scans from the start block in bounded ranges and resumes after a restart', async () => {
+    chain.mine(5);
+    await cursor({ maxBlockRange: 2 }).scan();
+
+    assert.deepEqual(chain.ranges, [[1, 2], [3, 4], [5, 5]]);
+    assert.deepEqual(created(), [1, 2, 3, 4, 5].map((n) => ['created', orderId(`main-${n}`), n]));
+    assert.deepEqual(events[0], { type: 'created', orderId: orderId('main-1'), seller: SELLER, blockNumber: 1 });
+
+    chain.mine(2);
+    chain.ranges.length = 0;
+    events = [];
+    const restarted = cursor({ maxBlockRange: 2 });
+    assert.equal(restarted.lastBlock, 5);
+    await restarted.scan();
+
+    assert.deepEqual(chain.ranges, [[6, 7]]);
+    assert.deepEqual(created().map(([, , n]) => n), [6, 7]);
+  });
+
+  it('halves the range until the provider accepts it', async () => {
+    chain.mine(8);
+    chain.maxLogRange = 3;
+    const scanner = cursor({ maxBlockRange: 8 });
+    await scanner.scan();
+
+    assert.deepEqual(chain.ranges, [[1, 8], [1, 4], [1, 2], [3, 4], [5, 6], [7, 8]]);
+    assert.deepEqual(created().map(([, , n]) => n), [1, 2, 3, 4, 5, 6, 7, 8]);
+    assert.equal(scanner.lastBlock, 8);
+  });
+
+  it("gives up without advancing when even a single block's logs are refused", async () => {
+    chain.mine(2);
+    chain.maxLogRange = 0;
+    const scanner = cursor();
+
+    await assert.rejects(scanner.scan(), /more than 10000 results/);
+    assert.equal(scanner.lastBlock, undefined);
+    assert.deepEqual(events, []);
+  });
+
+  it('rescans from the first reorged block', async () => {
+    chain.mine(10);
+    const scanner = cursor({ reorgDepth: 4 });
+    await scanner.scan();
+    events = [];
+    chain.ranges.length = 0;
+
+    // Blocks 9 and 10 are replaced and the new fork is a block longer
+    chain.reorg(9, 3, 'fork');
+    await scanner.scan();
+
+    assert.deepEqual(chain.ranges, [[9, 11]]);
+    assert.deepEqual(created(), [9, 10, 11].map((n) => ['created', orderId(`fork-${n}`), n]));
+    assert.equal(scanner.lastBlock, 11);
+  });
+
+  it('rescans from the oldest tracked block when the reorg is deeper than reorgDepth', async () => {
+    chain.mine(10);
+    const scanner = cursor({ reorgDepth: 3 });
+    await scanner.scan();
+    chain.ranges.length = 0;
+
+    chain.reorg(5, 6, 'fork');
+    await scanner.scan();
+
+    // Blocks 5-7 were past the tracked window; 8 is the oldest it can check
+    assert.deepEqual(chain.ranges, [[8, 10]]);
+  });
+
+  it('rescans a range reorged while its events were being handled', async () => {
+    chain.mine(4);
+    const scanner = new BlockCursor(chain.provider, chain.marketplace, async (event) => {
+      events.push(event);
+      if (event.blockNumber === 4 && chain.blocks[4].hash === id('main-4')) chain.reorg(3, 2, 'fork');
+    }, { file, startBlock: 1, maxBlockRange: 2 });
+    await scanner.scan();
+
+    assert.deepEqual(chain.ranges, [[1, 2], [3, 4], [3, 4]]);
+    assert.deepEqual(created().slice(-2), [3, 4].map((n) => ['created', orderId(`fork-${n}`), n]));
+  });
+
+  it('resumes from a snapshot written by an older runtime', async () => {
+    chain.mine(4);
+    writeFileSync(file, JSON.stringify({ version: 1, lastBlock: 2, lastBlockHash: chain.blocks[2].hash }));
+    await cursor().scan();
+
+    assert.deepEqual(chain.ranges, [[3, 4]]);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Order deadlines: earliest-deadline-first dispatch, skipping orders that
+ * can't finish in time, and aborting executions that run into the deadline
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Executor, ExecutionEstimate, TaskInput, TaskResult } from '../src/types.js';
+import { MarketplaceChain } from './support/marketplace.js';
+import { EchoExecutor, startTestRuntime, type TestRuntime } from './support/runtime.js';
+
+const now = () => Math.floor(Date.now() / 1000);
+
+/** An EchoExecutor that expects every task to take durationMs */
+class EstimatingExecutor extends EchoExecutor {
+  constructor(private durationMs: number) {
+    super('done');
+  }
+
+  async estimate(): Promise<ExecutionEstimate> {
+    return { estimatedDurationMs: this.durationMs, estimatedCost: 0n, confidence: 1 };
+  }
+}
+
+describe('AgentRuntime deadlines', () => {
+  let chain: MarketplaceChain;
+  let serviceId: string;
+  let test: TestRuntime;
+
+  beforeEach(async () => {
+    chain = await new MarketplaceChain().start();
+    serviceId = chain.addService({ serviceType: 'text-generation' });
+  });
+
+  afterEach(async () => {
+    await test.stop();
+    await chain.stop();
+  });
+
+  it('dispatches waiting orders earliest deadline first', async () => {
+    const echo = new EchoExecutor('done', { delayMs: 300 });
+    test = await startTestRuntime(chain, { executors: [echo], maxConcurrent: 1 });
+    const running = chain.createOrder(serviceId);
+    await test.waitFor('execution_started', running);
+
+    const later = chain.createOrder(serviceId, { deadline: now() + 3600 });
+    const sooner = chain.createOrder(serviceId, { deadline: now() + 600 });
+    await test.waitFor('execution_completed', later);
+    assert.deepEqual(echo.tasks.map((t) => t.orderId), [running, sooner, later]);
+  });
+
+  it('skips orders already past their deadline and completion margin', async () => {
+    const echo = new EchoExecutor('done');
+    test = await startTestRuntime(chain, { executors: [echo], deadlineMarginMs: 30_000 });
+    const orderId = chain.createOrder(serviceId, { deadline: now() + 10 });
+
+    const missed = await test.waitFor('deadline_missed', orderId);
+    assert.equal(missed.reason, 'expired');
+    assert.equal(missed.deadline, chain.orders.get(orderId)!.deadline);
+    assert.deepEqual(echo.tasks, []);
+  });
+
+  it("skips orders the executor isn't expected to finish in time", async () => {
+    const executor = new EstimatingExecutor(120_000);
+    test = await startTestRuntime(chain, { executors: [executor] });
+    const orderId = chain.createOrder(serviceId, { deadline: now() + 60 });
+
+    const missed = await test.waitFor('deadline_missed', orderId);
+    assert.equal(missed.reason, 'insufficient_time');
+    assert.match(missed.detail, /^needs ~120000ms, \d+ms left$/);
+    assert.deepEqual(executor.tasks, []);
+  });
+
+  it('aborts an execution that runs into the deadline and does not retry it', async () => {
+    const echo = new EchoExecutor('done', { delayMs: 10_000 });
+    test = await startTestRuntime(chain, { executors: [echo] });
+    const orderId = chain.createOrder(serviceId, { deadline: now() + 2 });
+
+    const missed = await test.waitFor('deadline_missed', orderId, 5000);
+    assert.equal(missed.reason, 'timed_out');
+    assert.equal(echo.tasks[0].signal?.aborted, true);
+    assert.deepEqual(echo.tasks[0].signal?.reason, { kind: 'deadline' });
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    assert.equal(echo.tasks.length, 1);
+    assert.deepEqual(test.results(), []);
+    assert.equal(test.events.some((e) => e.type === 'execution_completed' || e.type === 'execution_failed'), false);
+  });
+
+  it('frees the slot of an executor that ignores the abort signal', async () => {
+    const stuck: Executor = {
+      id: 'stuck',
+      name: 'Stuck',
+      version: '1.0.0',
+      serviceTypes: [],
+      healthCheck: async () => true,
+      execute: (_task: TaskInput) => new Promise<TaskResult>(() => {}),
+    };
+    test = await startTestRuntime(chain, { executors: [stuck], maxConcurrent: 1 });
+    const orderId = chain.createOrder(serviceId, { deadline: now() + 2 });
+
+    const missed = await test.waitFor('deadline_missed', orderId, 5000);
+    assert.equal(missed.reason, 'timed_out');
+    assert.equal((await test.runtime.getStatus()).processingOrders, 0);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Deterministic execution: pinned sampling, recorded and replayed
+ * transcripts, and re-verifying proofs from the transcript they carry
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DeterministicExecutor } from '../src/executors/deterministic.js';
+import { ProofVerifier, createUnsignedProof, hashObject } from '../src/proof.js';
+import { FileTranscriptStore } from '../src/storage.js';
+import type { ExecutionTranscript, ProofOfWork, TaskInput } from '../src/types.js';
+import { FakeModel } from './support/runtime.js';
+
+const task = (payload: Record<string, unknown> = { prompt: 'Capital of France?' }): TaskInput => ({
+  orderId: '0x' + '01'.repeat(32),
+  serviceId: '0x' + '02'.repeat(32),
+  serviceType: 'text-generation',
+  buyer: '0x' + '03'.repeat(20),
+  units: 1n,
+  totalPrice: 1000n,
+  deadline: Math.floor(Date.now() / 1000) + 3600,
+  payload,
+});
+
+const transcriptOf = (proof: ProofOfWork): ExecutionTranscript =>
+  JSON.parse(Buffer.from(proof.evidence.transcript!, 'base64').toString('utf-8'));
+
+const withTranscript = (proof: ProofOfWork, transcript: ExecutionTranscript): ProofOfWork => ({
+  ...proof,
+  evidence: { ...proof.evidence, transcript: Buffer.from(JSON.stringify(transcript)).toString('base64') },
+});
+
+describe('DeterministicExecutor', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'transcripts-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('pins sampling and records the transcript in a deterministic proof', async () => {
+    const model = new FakeModel({ fallback: 'Paris' });
+    const executor = new DeterministicExecutor(model, { seed: 7, transcripts: new FileTranscriptStore(dir) });
+    const result = await executor.execute(task());
+
+    assert.equal(executor.id, 'openai-deterministic');
+    assert.equal(model.inputs[0].temperature, 0);
+    assert.equal(model.inputs[0].seed, 7);
+    assert.equal(model.inputs[0].model, 'fake-1');
+
+    assert.equal(result.success, true);
+    assert.equal(result.output?.content, 'Paris');
+    assert.equal(result.proof.type, 'deterministic');
+    assert.equal(result.proof.outputHash, hashObject('Paris'));
+    assert.equal(result.proof.evidence.seed, '7');
+    assert.equal(result.proof.evidence.algorithm, 'openai/fake-1');
+    assert.ok(result.metadata.costUsd! > 0);
+
+    const transcript = transcriptOf(result.proof);
+    assert.equal(transcript.requestHash, result.proof.evidence.apiCallHash);
+    assert.equal(transcript.inputHash, result.proof.inputHash);
+    assert.equal(transcript.response.content, 'Paris');
+    assert.deepEqual(readdirSync(dir), [`${transcript.requestHash}.json`]);
+  });
+
+  it('replays a recorded request instead of calling the model again', async () => {
+    const model = new FakeModel();
+    model.reply('Paris', 'Lyon', 'Berlin');
+    const transcripts = new FileTranscriptStore(dir);
+    const executor = new DeterministicExecutor(model, { transcripts });
+
+    const first = await executor.execute(task());
+    const again = await executor.execute(task());
+    const other = await executor.execute(task({ prompt: 'Capital of Germany?' }));
+
+    assert.equal(model.inputs.length, 2);
+    assert.equal(again.output?.content, 'Paris');
+    assert.equal(again.proof.outputHash, first.proof.outputHash);
+    assert.equal(again.metadata.tokensUsed, 0);
+    assert.equal(again.metadata.costUsd, 0);
+    assert.equal(other.output?.content, 'Lyon');
+
+    // Another executor with replayOnly serves only what was recorded
+    const replayer = new DeterministicExecutor(new FakeModel(), { transcripts, replayOnly: true });
+    assert.equal((await replayer.execute(task())).output?.content, 'Paris');
+    const missing = await replayer.execute(task({ prompt: 'Capital of Spain?' }));
+    assert.equal(missing.success, false);
+    assert.match(missing.error!, /^No recorded transcript for request /);
+  });
+
+  it('records nothing when the model fails', async () => {
+    const model = new FakeModel();
+    model.reply(new Error('overloaded'), 'Paris');
+    const executor = new DeterministicExecutor(model, { transcripts: new FileTranscriptStore(dir) });
+
+    const failed = await executor.execute(task());
+    assert.equal(failed.success, false);
+    assert.equal(failed.error, 'overloaded');
+    assert.deepEqual(readdirSync(dir), []);
+    assert.equal((await executor.execute(task())).output?.content, 'Paris');
+  });
+});
+
+describe('ProofVerifier.replay', () => {
+  let proof: ProofOfWork;
+
+  beforeEach(async () => {
+    const result = await new DeterministicExecutor(new FakeModel({ fallback: 'Paris' })).execute(task());
+    proof = result.proof;
+  });
+
+  it('accepts a proof whose transcript reproduces its hashes', async () => {
+    assert.deepEqual(await ProofVerifier.replay(proof), { valid: true, errors: [] });
+  });
+
+  it('rejects a transcript whose response or request was altered', async () => {
+    const transcript = transcriptOf(proof);
+
+    const response = await ProofVerifier.replay(withTranscript(proof, { ...transcript, response: { ...transcript.response, content: 'Lyon' } }));
+    assert.deepEqual(response.errors, ['Output hash mismatch']);
+
+    const request = await ProofVerifier.replay(withTranscript(proof, { ...transcript, request: { ...transcript.request, prompt: 'Other' } }));
+    assert.deepEqual(request.errors, ['Transcript request hash mismatch']);
+
+    const seed = await ProofVerifier.replay({ ...proof, evidence: { ...proof.evidence, seed: '1' } });
+    assert.deepEqual(seed.errors, ['Seed mismatch']);
+  });
+
+  it("rejects a transcript recorded for another order's input", async () => {
+    const other = await new DeterministicExecutor(new FakeModel({ fallback: 'Paris' })).execute(task({ prompt: 'Capital of France, again?' }));
+
+    const result = await ProofVerifier.replay({ ...proof, evidence: { ...proof.evidence, transcript: other.proof.evidence.transcript } });
+    assert.deepEqual(result.errors, ['Transcript is for a different order input', 'Transcript is for a different request']);
+  });
+
+  it('rejects proofs without a transcript', async () => {
+    const plain = createUnsignedProof({ prompt: 'Capital of France?' }, 'Paris');
+    assert.deepEqual(await ProofVerifier.replay(plain), {
+      valid: false,
+      errors: ['Not a deterministic proof: llm-completion', 'No transcript in evidence'],
+    });
+    assert.deepEqual((await ProofVerifier.replay({ ...proof, evidence: { ...proof.evidence, transcript: 'bm90IGpzb24=' } })).errors, [
+      'Malformed transcript',
+    ]);
+  });
+
+  it('runs the request again when given an executor', async () => {
+    const same = new FakeModel({ fallback: 'Paris' });
+    assert.deepEqual(await ProofVerifier.replay(proof, { executor: same }), { valid: true, errors: [] });
+    assert.equal(same.inputs[0].seed, 0);
+    assert.equal(same.inputs[0].temperature, 0);
+
+    const drifted = new FakeModel({ fallback: 'Paris, France' });
+    assert.deepEqual((await ProofVerifier.replay(proof, { executor: drifted })).errors, ['Replayed output differs']);
+
+    const down = new FakeModel();
+    down.execute = async () => {
+      throw new Error('unreachable');
+    };
+    assert.deepEqual((await ProofVerifier.replay(proof, { executor: down })).errors, ['Replay failed: unreachable']);
+  });
+});
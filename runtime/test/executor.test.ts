@@ -0,0 +1,201 @@
+/**
+ * Worker executor: the tool loop, its trace, the iteration cap, and retries of
+ * provider calls
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { executeAgent } from '../src/worker/executor.js';
+import type { Agent, AgentGuardrails } from '../src/shared/types.js';
+import { startModelServer, type ModelReply, type ModelServer } from './support/models.js';
+
+const calculator = {
+  name: 'calculator',
+  description: 'Evaluate an arithmetic expression',
+  parameters: { type: 'object', properties: { expression: { type: 'string' } } },
+  handler: 'builtin' as const,
+};
+
+function testAgent(model: string, guardrails: Partial<AgentGuardrails> = {}): Agent {
+  return {
+    id: 'agent-1',
+    model,
+    systemPrompt: 'You are a test agent.',
+    temperature: 0,
+    maxTokens: 1000,
+    tools: [calculator],
+    guardrails: { maxTokensPerRequest: 1000, maxRequestsPerMinute: 0, blockedTopics: [], requireHumanApproval: false, ...guardrails },
+  } as unknown as Agent;
+}
+
+/** OpenAI chat completion with optional calculator calls */
+function openai(content: string | null, expressions: string[] = []): ModelReply {
+  return {
+    json: {
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: 0,
+      model: 'gpt-4o',
+      choices: [{
+        index: 0,
+        finish_reason: expressions.length > 0 ? 'tool_calls' : 'stop',
+        message: {
+          role: 'assistant',
+          content,
+          ...(expressions.length > 0 && {
+            tool_calls: expressions.map((expression, i) => ({
+              id: `call_${i}`,
+              type: 'function',
+              function: { name: 'calculator', arguments: JSON.stringify({ expression }) },
+            })),
+          }),
+        },
+      }],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    },
+  };
+}
+
+/** Anthropic message with optional calculator calls */
+function anthropic(text: string, expressions: string[] = []): ModelReply {
+  return {
+    json: {
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      model: 'claude-3-haiku-20240307',
+      content: [
+        ...(text ? [{ type: 'text', text }] : []),
+        ...expressions.map((expression, i) => ({ type: 'tool_use', id: `toolu_${i}`, name: 'calculator', input: { expression } })),
+      ],
+      stop_reason: expressions.length > 0 ? 'tool_use' : 'end_turn',
+      stop_sequence: null,
+      usage: { input_tokens: 10, output_tokens: 5 },
+    },
+  };
+}
+
+describe('executeAgent', () => {
+  let models: ModelServer;
+  const secrets = { OPENAI_API_KEY: 'sk-test', ANTHROPIC_API_KEY: 'sk-ant-test' };
+
+  before(async () => {
+    models = await startModelServer();
+    process.env.OPENAI_BASE_URL = `${models.url}/v1`;
+    process.env.ANTHROPIC_BASE_URL = models.url;
+  });
+
+  beforeEach(() => {
+    models.requests.length = 0;
+  });
+
+  after(async () => {
+    await models.stop();
+  });
+
+  it('runs requested tools, feeds their results back and traces each step', async () => {
+    models.reply(openai(null, ['6*7', '1/0']), openai('The answer is 42.'));
+
+    const result = await executeAgent(testAgent('gpt-4o'), { prompt: 'What is 6*7?' }, secrets);
+
+    assert.equal(result.response, 'The answer is 42.');
+    assert.deepEqual(result.toolCalls, [
+      { tool: 'calculator', input: { expression: '6*7' }, output: { result: 42 } },
+      { tool: 'calculator', input: { expression: '1/0' }, output: { error: 'Division by zero' } },
+    ]);
+    assert.deepEqual(result.tokensUsed, { prompt: 20, completion: 10, total: 30 });
+    assert.equal(result.guardrailsApplied, undefined);
+    assert.deepEqual(
+      result.trace!.map((step) => [step.type, step.iteration, step.type === 'tool' ? step.tool : step.toolCalls]),
+      [['model', 0, ['calculator', 'calculator']], ['tool', 0, 'calculator'], ['tool', 0, 'calculator'], ['model', 1, []]]
+    );
+
+    const followUp = models.requests[1].body.messages;
+    assert.deepEqual(followUp.slice(-2), [
+      { role: 'tool', tool_call_id: 'call_0', content: JSON.stringify({ result: 42 }) },
+      { role: 'tool', tool_call_id: 'call_1', content: JSON.stringify({ error: 'Division by zero' }) },
+    ]);
+  });
+
+  it('asks once more without tools when the cap is hit on a tool-only turn', async () => {
+    models.reply(openai(null, ['1+1']), openai(null, ['2+2']), openai('Done: 2.'));
+
+    const result = await executeAgent(testAgent('gpt-4o', { maxToolIterations: 1 }), { prompt: 'Add' }, secrets);
+
+    assert.equal(result.response, 'Done: 2.');
+    assert.deepEqual(result.guardrailsApplied, ['maxToolIterations']);
+    // The capped turn's calls are never run
+    assert.deepEqual(result.toolCalls!.map((c) => c.input), [{ expression: '1+1' }]);
+
+    assert.equal(models.requests.length, 3);
+    const [, capped, final] = models.requests.map((r) => r.body);
+    assert.equal(capped.tool_choice, undefined);
+    assert.equal(final.tool_choice, 'none');
+    assert.deepEqual(final.messages, capped.messages);
+  });
+
+  it('returns the capped turn as is when it has text', async () => {
+    models.reply(openai('Let me check.', ['1+1']), openai('Still checking.', ['2+2']));
+
+    const result = await executeAgent(testAgent('gpt-4o', { maxToolIterations: 1 }), { prompt: 'Add' }, secrets);
+
+    assert.equal(result.response, 'Still checking.');
+    assert.equal(models.requests.length, 2);
+  });
+
+  it('fails instead of returning an empty response', async () => {
+    models.reply(openai(null, ['1+1']), openai(null));
+
+    await assert.rejects(
+      executeAgent(testAgent('gpt-4o', { maxToolIterations: 0 }), { prompt: 'Add' }, secrets),
+      /reached the tool iteration limit \(0\) without a response/
+    );
+  });
+
+  it('disables Anthropic tools for the last turn the same way', async () => {
+    models.reply(anthropic('', ['1+1']), anthropic('', ['2+2']), anthropic('Done: 2.'));
+
+    const result = await executeAgent(testAgent('claude-3-haiku-20240307', { maxToolIterations: 1 }), { prompt: 'Add' }, secrets);
+
+    assert.equal(result.response, 'Done: 2.');
+    const [first, capped, final] = models.requests.map((r) => r.body);
+    assert.equal(first.tool_choice, undefined);
+    assert.equal(capped.tool_choice, undefined);
+    assert.deepEqual(final.tool_choice, { type: 'none' });
+    assert.ok(final.tools.length > 0, 'tools stay defined for the tool_use blocks in the history');
+    assert.deepEqual(final.messages, capped.messages);
+  });
+
+  it('retries a transient provider failure', async () => {
+    models.reply({ status: 503, json: { error: { message: 'Service unavailable' } } }, openai('Recovered.'));
+
+    const result = await executeAgent(testAgent('gpt-4o'), { prompt: 'Hi' }, secrets);
+
+    assert.equal(result.response, 'Recovered.');
+    assert.equal(models.requests.length, 2);
+  });
+
+  it("doesn't retry a turn that already streamed output", async () => {
+    const chunk = (delta: Record<string, unknown>) => ({
+      id: 'chatcmpl-1',
+      object: 'chat.completion.chunk',
+      created: 0,
+      model: 'gpt-4o',
+      choices: [{ index: 0, delta, finish_reason: null }],
+    });
+    models.reply({
+      events: [
+        { data: chunk({ role: 'assistant', content: 'Hel' }) },
+        { data: { error: { message: 'Service overloaded (503)' } } },
+      ],
+    });
+
+    const chunks: string[] = [];
+    await assert.rejects(
+      executeAgent(testAgent('gpt-4o'), { prompt: 'Hi' }, secrets, (c) => chunks.push(c)),
+      /overloaded/
+    );
+    assert.deepEqual(chunks, ['Hel']);
+    assert.equal(models.requests.length, 1);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Guardrails: an agent's usage in each window, and which limit holds an order back
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AgentGuardrails, Order } from '../src/shared/types.js';
+import { seedAgent, seedOrder, startTestDatabase, type TestDatabase } from './support/database.js';
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const ago = (ms: number) => new Date(Date.now() - ms);
+
+describe('guardrails', () => {
+  let test: TestDatabase;
+  let db: TestDatabase['db'];
+  let checkGuardrails: typeof import('../src/worker/guardrails.js').checkGuardrails;
+
+  before(async () => {
+    test = await startTestDatabase();
+    db = test.db;
+    ({ checkGuardrails } = await import('../src/worker/guardrails.js'));
+  });
+
+  beforeEach(async () => {
+    await test.reset();
+  });
+
+  after(async () => {
+    await test.stop();
+  });
+
+  /** Put an order in a state as if it had run */
+  const setOrder = (
+    order: Order,
+    fields: { status: Order['status']; startedAt?: Date; completedAt?: Date; tokensUsed?: number; costUsd?: number }
+  ) =>
+    test.query(
+      `UPDATE orders SET status = $2, started_at = $3, completed_at = $4, tokens_used = $5, cost_usd = $6 WHERE id = $1`,
+      [order.id, fields.status, fields.startedAt ?? null, fields.completedAt ?? null, fields.tokensUsed ?? null, fields.costUsd ?? null]
+    );
+
+  describe('getAgentUsage', () => {
+    it("counts the last minute's orders started before this one, breaking ties by id", async () => {
+      const agent = await seedAgent(db);
+      const tied = [await seedOrder(db, agent), await seedOrder(db, agent), await seedOrder(db, agent)]
+        .sort((a, b) => (a.id < b.id ? -1 : 1));
+      const startedAt = ago(10_000);
+      for (const order of tied) await setOrder(order, { status: 'processing', startedAt });
+
+      const earlier = await seedOrder(db, agent);
+      await setOrder(earlier, { status: 'completed', startedAt: ago(30_000), completedAt: ago(20_000) });
+      const rejected = await seedOrder(db, agent);
+      await setOrder(rejected, { status: 'rejected', startedAt: ago(40_000) });
+      const old = await seedOrder(db, agent);
+      await setOrder(old, { status: 'completed', startedAt: ago(2 * MINUTE_MS), completedAt: ago(MINUTE_MS) });
+
+      const usage = await db.getAgentUsage(agent.id, agent.serviceId, tied[1]);
+      // tied[0] and `earlier`; not tied[2], which sorts after this order
+      assert.equal(usage.requestsLastMinute, 2);
+      assert.ok(Math.abs(Date.now() - usage.firstRequestAt!.getTime() - 30_000) < 5_000);
+
+      assert.equal((await db.getAgentUsage(agent.id, agent.serviceId, tied[0])).requestsLastMinute, 1);
+      assert.equal((await db.getAgentUsage(agent.id, agent.serviceId, tied[2])).requestsLastMinute, 3);
+    });
+
+    it('sums what completed orders used over the day and the month, leaving out rejected ones', async () => {
+      const agent = await seedAgent(db);
+      const spend: Array<[number, number, number, Order['status']]> = [
+        [HOUR_MS, 100, 1.5, 'completed'],
+        [10 * DAY_MS, 1_000, 10, 'completed'],
+        [40 * DAY_MS, 5_000, 50, 'completed'],
+        [HOUR_MS, 999, 9.99, 'rejected'],
+      ];
+      for (const [age, tokensUsed, costUsd, status] of spend) {
+        const order = await seedOrder(db, agent);
+        await setOrder(order, { status, startedAt: ago(age + MINUTE_MS), completedAt: ago(age), tokensUsed, costUsd });
+      }
+      const order = await seedOrder(db, agent);
+
+      const usage = await db.getAgentUsage(agent.id, agent.serviceId, order);
+      assert.deepEqual([usage.day.tokens, usage.day.costUsd], [100, 1.5]);
+      assert.deepEqual([usage.month.tokens, usage.month.costUsd], [1_100, 11.5]);
+      assert.ok(Math.abs(Date.now() - usage.day.firstAt!.getTime() - HOUR_MS) < 5_000);
+      assert.ok(Math.abs(Date.now() - usage.month.firstAt!.getTime() - 10 * DAY_MS) < 5_000);
+    });
+
+    it("counts the buyer's running and completed orders over the last day", async () => {
+      const agent = await seedAgent(db);
+      const buyer = '0x' + 'ab'.repeat(20);
+      const byBuyer = () => seedOrder(db, agent, { buyerAddress: '0x' + 'AB'.repeat(20) });
+
+      await setOrder(await byBuyer(), { status: 'completed', startedAt: ago(3 * HOUR_MS), completedAt: ago(2 * HOUR_MS), tokensUsed: 50 });
+      await setOrder(await byBuyer(), { status: 'processing', startedAt: ago(HOUR_MS) });
+      await setOrder(await byBuyer(), { status: 'rejected', startedAt: ago(HOUR_MS) });
+      await setOrder(await byBuyer(), { status: 'completed', startedAt: ago(2 * DAY_MS), completedAt: ago(2 * DAY_MS), tokensUsed: 70 });
+      await byBuyer();
+      const other = await seedOrder(db, agent);
+      await setOrder(other, { status: 'completed', startedAt: ago(HOUR_MS), completedAt: ago(HOUR_MS), tokensUsed: 30 });
+
+      const order = await seedOrder(db, agent, { buyerAddress: buyer });
+      await setOrder(order, { status: 'processing', startedAt: new Date() });
+
+      const usage = await db.getAgentUsage(agent.id, agent.serviceId, order);
+      assert.equal(usage.buyer.orders, 2);
+      assert.equal(usage.buyer.tokens, 50);
+      assert.ok(Math.abs(Date.now() - usage.buyer.firstAt!.getTime() - 3 * HOUR_MS) < 5_000);
+    });
+  });
+
+  describe('checkGuardrails', () => {
+    async function agentWithUsage(guardrails: Partial<AgentGuardrails>) {
+      const agent = await seedAgent(db);
+      const done = await seedOrder(db, agent);
+      await setOrder(done, { status: 'completed', startedAt: ago(2 * HOUR_MS), completedAt: ago(HOUR_MS), tokensUsed: 500, costUsd: 5 });
+      const order = await seedOrder(db, agent);
+      await setOrder(order, { status: 'processing', startedAt: new Date() });
+      return { agent: { ...agent, guardrails: { ...agent.guardrails, ...guardrails } }, order };
+    }
+
+    it('treats limits of 0 as unset', async () => {
+      const { agent, order } = await agentWithUsage({
+        maxRequestsPerMinute: 0,
+        dailyTokenBudget: 0,
+        monthlyUsdBudget: 0,
+        buyerDailyOrderQuota: 0,
+        buyerDailyTokenQuota: 0,
+      });
+      assert.equal(await checkGuardrails(order, agent), null);
+    });
+
+    it('defers an order over a budget until its window frees up', async () => {
+      const { agent, order } = await agentWithUsage({ dailyTokenBudget: 500 });
+      const verdict = await checkGuardrails(order, agent);
+
+      assert.equal(verdict?.guardrail, 'dailyTokenBudget');
+      assert.equal(verdict.action, 'defer');
+      assert.match(verdict.reason, /daily budget spent \(500 of 500 tokens\)/);
+      assert.ok(Math.abs(verdict.retryAt!.getTime() - (Date.now() - HOUR_MS + DAY_MS)) < 5_000);
+      assert.equal(await checkGuardrails(order, { ...agent, guardrails: { ...agent.guardrails, dailyTokenBudget: 501 } }), null);
+    });
+
+    it("rejects an order over the buyer's quota", async () => {
+      const { agent, order } = await agentWithUsage({ buyerDailyOrderQuota: 1 });
+      const verdict = await checkGuardrails(order, agent);
+
+      assert.equal(verdict?.guardrail, 'buyerDailyOrderQuota');
+      assert.equal(verdict.action, 'reject');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Order input: documents signed by the SDK verify against the order, and the
+ * HTTP input source reads them back from a store
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Wallet, hexlify, randomBytes } from 'ethers';
+import { AgentClient } from '../../sdk/src/AgentClient.ts';
+import { HTTPInputSource, recoverInputPublicKey, verifyOrderInput } from '../src/input.js';
+import type { OrderInputDocument } from '../src/types.js';
+
+const buyer = new Wallet(Wallet.createRandom().privateKey);
+const orderId = hexlify(randomBytes(32));
+const serviceId = hexlify(randomBytes(32));
+const order = { orderId, serviceId, buyer: buyer.address };
+
+function client(inputEndpoint?: string): AgentClient {
+  return new AgentClient({
+    privateKey: buyer.privateKey,
+    rpcUrl: 'http://127.0.0.1:1',
+    registryAddress: '0x' + '11'.repeat(20),
+    marketplaceAddress: '0x' + '22'.repeat(20),
+    inputEndpoint,
+  });
+}
+
+describe('verifyOrderInput', () => {
+  let doc: OrderInputDocument;
+
+  before(async () => {
+    doc = await client().signOrderInput(orderId, serviceId, { prompt: 'Summarize this', options: { length: 3 } });
+  });
+
+  it("accepts a document the SDK signed with the order's buyer key", () => {
+    assert.deepEqual(verifyOrderInput(doc, order), { valid: true, errors: [] });
+    assert.deepEqual(verifyOrderInput(doc, { ...order, buyer: buyer.address.toLowerCase() }).errors, []);
+  });
+
+  it("recovers the buyer's public key from the signature", () => {
+    assert.equal(recoverInputPublicKey(doc), buyer.signingKey.publicKey);
+  });
+
+  it('rejects a document whose payload was changed after signing', () => {
+    const tampered = { ...doc, payload: { prompt: 'Something else', options: { length: 3 } } };
+    assert.deepEqual(verifyOrderInput(tampered, order).errors, ['Input not signed by buyer']);
+  });
+
+  it('rejects a document for another order, service or buyer', () => {
+    const other = hexlify(randomBytes(32));
+    assert.deepEqual(verifyOrderInput(doc, { ...order, orderId: other }).errors, ['Order ID mismatch']);
+    assert.deepEqual(verifyOrderInput(doc, { ...order, serviceId: other }).errors, ['Service ID mismatch']);
+
+    const stranger = Wallet.createRandom().address;
+    assert.deepEqual(verifyOrderInput(doc, { ...order, buyer: stranger }).errors, ['Buyer mismatch', 'Input not signed by buyer']);
+  });
+
+  it('rejects a document another key signed in the buyer\'s name', async () => {
+    const { signature } = await new AgentClient({
+      privateKey: Wallet.createRandom().privateKey,
+      rpcUrl: 'http://127.0.0.1:1',
+      registryAddress: '0x' + '11'.repeat(20),
+      marketplaceAddress: '0x' + '22'.repeat(20),
+    }).signOrderInput(orderId, serviceId, doc.payload);
+
+    assert.deepEqual(verifyOrderInput({ ...doc, signature }, order).errors, ['Input not signed by buyer']);
+    assert.deepEqual(verifyOrderInput({ ...doc, signature: '0x1234' }, order).errors, ['Invalid signature']);
+  });
+});
+
+describe('HTTPInputSource', () => {
+  const docs = new Map<string, OrderInputDocument>();
+  const reads: Array<string | undefined> = [];
+  let server: Server;
+  let endpoint: string;
+
+  before(async () => {
+    // A store with the contract HTTPInputSource documents
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+        if (req.method === 'POST' && req.url === '/inputs') {
+          const doc = JSON.parse(body) as OrderInputDocument;
+          docs.set(doc.orderId, doc);
+          res.statusCode = 201;
+          res.end('{}');
+          return;
+        }
+        reads.push(req.headers.authorization);
+        const doc = req.method === 'GET' && docs.get(req.url!.replace('/inputs/', ''));
+        if (req.url === '/inputs/broken') res.statusCode = 500;
+        else if (!doc) res.statusCode = 404;
+        res.end(JSON.stringify(doc || { error: 'not found' }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/inputs`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('reads back what the SDK published, with the bearer key', async () => {
+    const source = new HTTPInputSource(`${endpoint}/`, 'input-key');
+    assert.equal(await source.fetch(orderId), null);
+
+    const published = await client(endpoint).publishOrderInput(orderId, serviceId, { prompt: 'Hi' });
+    const doc = await source.fetch(orderId);
+
+    assert.deepEqual(doc, published);
+    assert.equal(verifyOrderInput(doc!, order).valid, true);
+    assert.deepEqual(reads, ['Bearer input-key', 'Bearer input-key']);
+  });
+
+  it('surfaces store errors other than not found', async () => {
+    await assert.rejects(new HTTPInputSource(endpoint).fetch('broken'), /Input source returned 500/);
+    assert.equal(reads.at(-1), undefined);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Order claiming: atomic claims, worker leases, release, fenced updates and
+ * reclaiming orders whose worker stopped heartbeating
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { seedAgent, seedOrder, startTestDatabase, type TestDatabase } from './support/database.js';
+
+const LEASE_MS = 60_000;
+
+describe('order leases', () => {
+  let test: TestDatabase;
+  let db: TestDatabase['db'];
+
+  before(async () => {
+    test = await startTestDatabase();
+    db = test.db;
+  });
+
+  beforeEach(async () => {
+    await test.reset();
+  });
+
+  after(async () => {
+    await test.stop();
+  });
+
+  /** Let a processing order's lease run out */
+  const expireLease = (id: string) =>
+    test.query(`UPDATE orders SET lease_expires_at = NOW() - INTERVAL '1 second' WHERE id = $1`, [id]);
+
+  it('claims pending orders once, up to the limit, and counts the attempt', async () => {
+    const agent = await seedAgent(db);
+    const orders = [await seedOrder(db, agent), await seedOrder(db, agent), await seedOrder(db, agent)];
+
+    const [first, second] = await Promise.all([
+      db.claimOrders('worker-a', 2, LEASE_MS),
+      db.claimOrders('worker-b', 2, LEASE_MS),
+    ]);
+    const claimed = [...first, ...second];
+
+    assert.equal(claimed.length, 3);
+    assert.deepEqual(new Set(claimed.map((o) => o.id)), new Set(orders.map((o) => o.id)));
+    assert.ok(first.length <= 2 && second.length <= 2);
+    for (const order of claimed) {
+      assert.equal(order.status, 'processing');
+      assert.equal(order.attempts, 1);
+      assert.equal(order.reclaimedFrom, null);
+      assert.ok(order.leaseExpiresAt!.getTime() > Date.now() + LEASE_MS / 2);
+    }
+    assert.deepEqual(await db.claimOrders('worker-c', 5, LEASE_MS), []);
+  });
+
+  it("skips pending orders whose retry isn't due yet", async () => {
+    const agent = await seedAgent(db);
+    const order = await seedOrder(db, agent);
+    await test.query(`UPDATE orders SET next_attempt_at = NOW() + INTERVAL '1 hour' WHERE id = $1`, [order.id]);
+
+    assert.deepEqual(await db.claimOrders('worker-a', 5, LEASE_MS), []);
+
+    await test.query(`UPDATE orders SET next_attempt_at = NOW() - INTERVAL '1 second' WHERE id = $1`, [order.id]);
+    const [claimed] = await db.claimOrders('worker-a', 5, LEASE_MS);
+    assert.equal(claimed.id, order.id);
+    assert.equal(claimed.nextAttemptAt, null);
+  });
+
+  it('renews a lease only for the worker holding it', async () => {
+    const agent = await seedAgent(db);
+    const order = await seedOrder(db, agent);
+    await db.claimOrders('worker-a', 1, 1_000);
+
+    assert.equal(await db.renewOrderLease(order.id, 'worker-b', LEASE_MS), false);
+    assert.equal(await db.renewOrderLease(order.id, 'worker-a', LEASE_MS), true);
+    const renewed = await db.getOrderById(order.id);
+    assert.ok(renewed!.leaseExpiresAt!.getTime() > Date.now() + LEASE_MS / 2);
+
+    await db.updateOrderStatus(order.id, 'completed', { claimedBy: 'worker-a' });
+    assert.equal(await db.renewOrderLease(order.id, 'worker-a', LEASE_MS), false);
+  });
+
+  it("releases a claim without counting it, and defers it until the given time", async () => {
+    const agent = await seedAgent(db);
+    const order = await seedOrder(db, agent);
+    await db.claimOrders('worker-a', 1, LEASE_MS);
+
+    // Another worker can't release it
+    await db.releaseOrder(order.id, 'worker-b');
+    assert.equal((await db.getOrderById(order.id))!.status, 'processing');
+
+    const until = new Date(Date.now() + 60_000);
+    await db.releaseOrder(order.id, 'worker-a', { until, reason: 'Deferred: rate limit' });
+    const released = (await db.getOrderById(order.id))!;
+    assert.equal(released.status, 'pending');
+    assert.equal(released.claimedBy, null);
+    assert.equal(released.leaseExpiresAt, null);
+    assert.equal(released.attempts, 0);
+    assert.equal(released.errorMessage, 'Deferred: rate limit');
+    assert.equal(released.nextAttemptAt!.getTime(), until.getTime());
+
+    assert.deepEqual(await db.claimOrders('worker-a', 1, LEASE_MS), []);
+  });
+
+  it('reclaims an order whose lease expired and fences out the previous worker', async () => {
+    const agent = await seedAgent(db);
+    const order = await seedOrder(db, agent);
+    await db.claimOrders('worker-a', 1, LEASE_MS);
+
+    // Still leased: nobody else gets it
+    assert.deepEqual(await db.claimOrders('worker-b', 1, LEASE_MS), []);
+
+    await expireLease(order.id);
+    const [reclaimed] = await db.claimOrders('worker-b', 1, LEASE_MS);
+    assert.equal(reclaimed.id, order.id);
+    assert.equal(reclaimed.reclaimedFrom, 'worker-a');
+    assert.equal(reclaimed.claimedBy, 'worker-b');
+    assert.equal(reclaimed.attempts, 2);
+
+    // The first worker finishing late changes nothing
+    assert.equal(await db.updateOrderStatus(order.id, 'completed', { claimedBy: 'worker-a' }), false);
+    assert.equal(await db.renewOrderLease(order.id, 'worker-a', LEASE_MS), false);
+    await db.checkpointOrderOutput(order.id, 'stale output', 'worker-a');
+    const current = (await db.getOrderById(order.id))!;
+    assert.equal(current.status, 'processing');
+    assert.equal(current.partialOutput, null);
+
+    assert.equal(await db.updateOrderStatus(order.id, 'completed', { claimedBy: 'worker-b', tokensUsed: 12 }), true);
+    const completed = (await db.getOrderById(order.id))!;
+    assert.equal(completed.status, 'completed');
+    assert.equal(completed.leaseExpiresAt, null);
+    assert.ok(completed.completedAt);
+  });
+
+  it("doesn't report a worker's own expired claim as reclaimed", async () => {
+    const agent = await seedAgent(db);
+    const order = await seedOrder(db, agent);
+    await db.claimOrders('worker-a', 1, LEASE_MS);
+    await expireLease(order.id);
+
+    const [again] = await db.claimOrders('worker-a', 1, LEASE_MS);
+    assert.equal(again.reclaimedFrom, null);
+    assert.equal(again.attempts, 2);
+  });
+});
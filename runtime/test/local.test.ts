@@ -0,0 +1,218 @@
+/**
+ * LocalModelExecutor against a stub OpenAI-compatible / Ollama server
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { LocalModelExecutor } from '../src/executors/local.js';
+
+type Handler = (body: any, res: ServerResponse) => void | Promise<void>;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Write a body in pieces, flushed separately so the client reads them apart */
+async function writeInPieces(res: ServerResponse, pieces: string[]): Promise<void> {
+  for (const piece of pieces) {
+    res.write(piece);
+    await sleep(20);
+  }
+  res.end();
+}
+
+describe('LocalModelExecutor', () => {
+  let server: Server;
+  let baseUrl: string;
+  let routes: Record<string, Handler>;
+  let requests: Array<{ path: string; body: any; authorization?: string }>;
+
+  before(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        const body = raw ? JSON.parse(raw) : undefined;
+        requests.push({ path: req.url!, body, authorization: req.headers.authorization });
+        const handler = routes[`${req.method} ${req.url}`];
+        if (!handler) {
+          res.statusCode = 404;
+          res.end('not found');
+          return;
+        }
+        void handler(body, res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    routes = {};
+    requests = [];
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('reads an OpenAI-compatible chat completion', async () => {
+    routes['POST /v1/chat/completions'] = (_body, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        choices: [{ message: { content: 'Hello from llama' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+      }));
+    };
+
+    const executor = new LocalModelExecutor({ baseUrl: `${baseUrl}/v1/`, models: ['llama3'], apiKey: 'secret' });
+    const result = await executor.execute({ prompt: 'Hi', systemPrompt: 'Be brief', seed: 7 });
+
+    assert.equal(result.success, true);
+    assert.equal(result.content, 'Hello from llama');
+    assert.equal(result.model, 'llama3');
+    assert.deepEqual(result.usage, { promptTokens: 12, completionTokens: 4, totalTokens: 16 });
+    assert.equal(result.cost?.total, 0);
+    assert.equal(result.metadata?.finishReason, 'stop');
+
+    const [request] = requests;
+    assert.equal(request.authorization, 'Bearer secret');
+    assert.equal(request.body.model, 'llama3');
+    assert.equal(request.body.seed, 7);
+    assert.equal(request.body.stream, false);
+    assert.deepEqual(request.body.messages[0], { role: 'system', content: 'Be brief' });
+  });
+
+  it('reads an Ollama native chat response', async () => {
+    routes['POST /api/chat'] = (_body, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        message: {
+          role: 'assistant',
+          content: 'Hello from ollama',
+          tool_calls: [{ function: { name: 'lookup', arguments: { q: 'x' } } }],
+        },
+        done: true,
+        done_reason: 'stop',
+        prompt_eval_count: 9,
+        eval_count: 3,
+      }));
+    };
+
+    const executor = new LocalModelExecutor({
+      baseUrl,
+      api: 'ollama',
+      models: ['qwen2'],
+      pricing: { qwen2: { input: 1, output: 2 } },
+    });
+    const result = await executor.execute({ prompt: 'Hi', maxTokens: 100 });
+
+    assert.equal(result.content, 'Hello from ollama');
+    assert.deepEqual(result.usage, { promptTokens: 9, completionTokens: 3, totalTokens: 12 });
+    assert.ok(Math.abs(result.cost!.total - (9 * 1 + 3 * 2) / 1_000_000) < 1e-12);
+    assert.equal(result.metadata?.finishReason, 'stop');
+    assert.deepEqual(result.metadata?.toolCalls, [
+      { id: 'call_0', type: 'function', function: { name: 'lookup', arguments: '{"q":"x"}' } },
+    ]);
+    assert.equal(requests[0].body.options.num_predict, 100);
+  });
+
+  it('surfaces endpoint errors', async () => {
+    routes['POST /v1/chat/completions'] = (_body, res) => {
+      res.statusCode = 500;
+      res.end('model not loaded');
+    };
+
+    const executor = new LocalModelExecutor({ baseUrl: `${baseUrl}/v1` });
+    await assert.rejects(executor.execute({ prompt: 'Hi' }), /Local model error: 500 model not loaded/);
+  });
+
+  it('streams OpenAI SSE lines split across reads', async () => {
+    routes['POST /v1/chat/completions'] = (_body, res) => {
+      res.setHeader('Content-Type', 'text/event-stream');
+      const event = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+      const body = event('Hel') + event('lo, ') + event('world') + 'data: [DONE]\n\n' + event('ignored');
+      // Cut mid-line, including inside the JSON
+      void writeInPieces(res, [body.slice(0, 17), body.slice(17, 60), body.slice(60, 61), body.slice(61)]);
+    };
+
+    const executor = new LocalModelExecutor({ baseUrl: `${baseUrl}/v1` });
+    const chunks: string[] = [];
+    for await (const chunk of executor.stream({ prompt: 'Hi' })) {
+      chunks.push(chunk);
+    }
+
+    assert.deepEqual(chunks, ['Hel', 'lo, ', 'world']);
+    assert.equal(requests[0].body.stream, true);
+  });
+
+  it('streams Ollama NDJSON split across reads, including an unterminated last line', async () => {
+    routes['POST /api/chat'] = (_body, res) => {
+      res.setHeader('Content-Type', 'application/x-ndjson');
+      const lines = [
+        JSON.stringify({ message: { content: 'One ' }, done: false }),
+        JSON.stringify({ message: { content: 'two ' }, done: false }),
+        JSON.stringify({ message: { content: 'three' }, done: true }),
+      ];
+      const body = lines.join('\n');
+      void writeInPieces(res, [body.slice(0, 10), body.slice(10, 45), body.slice(45)]);
+    };
+
+    const executor = new LocalModelExecutor({ baseUrl, api: 'ollama' });
+    const chunks: string[] = [];
+    for await (const chunk of executor.stream({ prompt: 'Hi' })) {
+      chunks.push(chunk);
+    }
+
+    assert.deepEqual(chunks, ['One ', 'two ', 'three']);
+  });
+
+  it('discovers models from an OpenAI-compatible endpoint', async () => {
+    routes['GET /v1/models'] = (_body, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ data: [{ id: 'mistral' }, { id: 'llama3' }] }));
+    };
+
+    const executor = new LocalModelExecutor({
+      baseUrl: `${baseUrl}/v1`,
+      defaultModel: 'llama3',
+      pricing: { mistral: { input: 1, output: 1 } },
+    });
+    const models = await executor.discoverModels();
+
+    assert.deepEqual(models, ['mistral', 'llama3']);
+    assert.deepEqual(executor.models, ['mistral', 'llama3']);
+    // A served default model is kept
+    assert.equal(executor.defaultModel, 'llama3');
+    assert.deepEqual(executor.pricing.mistral, { input: 1, output: 1 });
+    assert.deepEqual(executor.pricing.llama3, { input: 0, output: 0 });
+  });
+
+  it('discovers models from Ollama tags and falls back to the first one', async () => {
+    routes['GET /api/tags'] = (_body, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ models: [{ name: 'qwen2:7b' }, { name: 'phi3' }] }));
+    };
+
+    const executor = new LocalModelExecutor({ baseUrl, api: 'ollama', defaultModel: 'gone' });
+    const models = await executor.discoverModels();
+
+    assert.deepEqual(models, ['qwen2:7b', 'phi3']);
+    assert.equal(executor.defaultModel, 'qwen2:7b');
+  });
+
+  it('keeps the configured models when discovery finds none or fails', async () => {
+    routes['GET /v1/models'] = (_body, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ data: [] }));
+    };
+
+    const executor = new LocalModelExecutor({ baseUrl: `${baseUrl}/v1`, models: ['llama3'] });
+    assert.deepEqual(await executor.discoverModels(), []);
+    assert.deepEqual(executor.models, ['llama3']);
+
+    delete routes['GET /v1/models'];
+    await assert.rejects(executor.discoverModels(), /Local model discovery failed: 404/);
+    assert.equal(executor.defaultModel, 'llama3');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * OAuth connect flow: authorize -> callback against a fake token endpoint
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { GitHubIntegration } from '../src/integrations/dev/github.js';
+import { issueOAuthState, redeemOAuthState, type OAuthNonceStore } from '../src/integrations/oauth.js';
+
+process.env.ENCRYPTION_KEY = 'ab'.repeat(32);
+process.env.GITHUB_CLIENT_ID = 'client-id';
+process.env.GITHUB_CLIENT_SECRET = 'client-secret';
+
+const AGENT_ID = '00000000-0000-0000-0000-000000000001';
+const REDIRECT_URI = `http://localhost:3001/api/agents/${AGENT_ID}/integrations/github/callback`;
+
+function memoryNonces(): OAuthNonceStore {
+  const spent = new Set<string>();
+  return {
+    async spend(nonce) {
+      if (spent.has(nonce)) return false;
+      spent.add(nonce);
+      return true;
+    },
+  };
+}
+
+describe('OAuth connect flow', () => {
+  let server: Server;
+  const exchanges: URLSearchParams[] = [];
+
+  before(async () => {
+    // Fake provider token endpoint: issues a token for code "good-code"
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        const form = new URLSearchParams(body);
+        exchanges.push(form);
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(form.get('code') === 'good-code'
+          ? { access_token: 'gho_test', refresh_token: 'ghr_test', expires_in: 3600 }
+          : { error: 'bad_verification_code' }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    process.env.GITHUB_OAUTH_TOKEN_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/token`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('exchanges the code from the authorize redirect for credentials', async () => {
+    const github = new GitHubIntegration();
+    const state = issueOAuthState({ agentId: AGENT_ID, integrationId: 'github', redirectUri: REDIRECT_URI }, 60_000);
+
+    const authUrl = new URL(github.getAuthUrl(REDIRECT_URI, state)!);
+    assert.equal(authUrl.searchParams.get('redirect_uri'), REDIRECT_URI);
+    assert.equal(authUrl.searchParams.get('client_id'), 'client-id');
+
+    // The provider sends the user back with the state it was given
+    const redeemed = await redeemOAuthState(
+      authUrl.searchParams.get('state')!,
+      { agentId: AGENT_ID, integrationId: 'github' },
+      memoryNonces()
+    );
+    const credentials = await github.exchangeCode('good-code', redeemed.redirectUri);
+
+    assert.equal(credentials.accessToken, 'gho_test');
+    assert.equal(credentials.refreshToken, 'ghr_test');
+    assert.ok(credentials.expiresAt && credentials.expiresAt.getTime() > Date.now());
+
+    const exchange = exchanges.at(-1)!;
+    assert.equal(exchange.get('grant_type'), 'authorization_code');
+    assert.equal(exchange.get('redirect_uri'), REDIRECT_URI);
+    assert.equal(exchange.get('client_secret'), 'client-secret');
+  });
+
+  it('rejects a replayed state', async () => {
+    const nonces = memoryNonces();
+    const state = issueOAuthState({ agentId: AGENT_ID, integrationId: 'github', redirectUri: REDIRECT_URI }, 60_000);
+    const expected = { agentId: AGENT_ID, integrationId: 'github' };
+
+    await redeemOAuthState(state, expected, nonces);
+    await assert.rejects(redeemOAuthState(state, expected, nonces), /already used/);
+  });
+
+  it('rejects a state issued for another agent or integration', async () => {
+    const state = issueOAuthState({ agentId: AGENT_ID, integrationId: 'github', redirectUri: REDIRECT_URI }, 60_000);
+
+    await assert.rejects(
+      redeemOAuthState(state, { agentId: AGENT_ID, integrationId: 'twitter' }, memoryNonces()),
+      /different agent or integration/
+    );
+  });
+
+  it('rejects an expired state', async () => {
+    const state = issueOAuthState({ agentId: AGENT_ID, integrationId: 'github', redirectUri: REDIRECT_URI }, -1);
+
+    await assert.rejects(
+      redeemOAuthState(state, { agentId: AGENT_ID, integrationId: 'github' }, memoryNonces()),
+      /expired/
+    );
+  });
+
+  it('surfaces a rejected code from the token endpoint', async () => {
+    await assert.rejects(new GitHubIntegration().exchangeCode('reused-code', REDIRECT_URI), /bad_verification_code/);
+  });
+});
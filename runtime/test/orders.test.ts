@@ -0,0 +1,105 @@
+/**
+ * Order stream route: one output poll per order however many clients follow
+ * it, and streams closed after their maximum duration
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import pg from 'pg';
+import { seedAgent, seedOrder, startTestDatabase, type TestDatabase } from './support/database.js';
+
+const POLL_MS = 20;
+const MAX_DURATION_MS = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('GET /api/orders/:id/stream', () => {
+  let test: TestDatabase;
+  let server: Server;
+  let baseUrl: string;
+  /** Output polls sent to the database */
+  let outputQueries = 0;
+  const query = pg.Client.prototype.query;
+
+  before(async () => {
+    process.env.STREAM_POLL_INTERVAL_MS = String(POLL_MS);
+    process.env.STREAM_MAX_DURATION_MS = String(MAX_DURATION_MS);
+    test = await startTestDatabase();
+    const { orderRoutes } = await import('../src/api/routes/orders.js');
+
+    pg.Client.prototype.query = function (this: pg.Client, ...args: unknown[]) {
+      if (typeof args[0] === 'string' && args[0].includes('partial_output')) outputQueries++;
+      return (query as (...a: unknown[]) => unknown).apply(this, args);
+    } as typeof query;
+
+    const app = express();
+    app.use('/api/orders', orderRoutes);
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/orders`;
+  });
+
+  beforeEach(async () => {
+    await test.reset();
+    outputQueries = 0;
+  });
+
+  after(async () => {
+    pg.Client.prototype.query = query;
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await test.stop();
+  });
+
+  async function processingOrder() {
+    const order = await seedOrder(test.db, await seedAgent(test.db));
+    await test.query(
+      `UPDATE orders SET status = 'processing', started_at = NOW(), partial_output = 'Hel' WHERE id = $1`,
+      [order.id]
+    );
+    return order;
+  }
+
+  const events = (body: string) =>
+    body.split('\n\n').filter((block) => block.includes('event: ')).map((block) => block.match(/event: (\w+)/)![1]);
+
+  it('shares one poll per order between its streams', async () => {
+    const order = await processingOrder();
+    const opened = Date.now();
+    const bodies = Promise.all([1, 2, 3].map(async () => (await fetch(`${baseUrl}/${order.id}/stream`)).text()));
+
+    await sleep(300);
+    await test.query(
+      `UPDATE orders SET status = 'completed', partial_output = 'Hello', result_data = '{"response":"Hello"}' WHERE id = $1`,
+      [order.id]
+    );
+    const streams = await bodies;
+    const elapsed = Date.now() - opened;
+
+    for (const body of streams) {
+      assert.deepEqual(events(body), ['chunk', 'chunk', 'end']);
+      assert.match(body, /data: \{"status":"completed","response":"Hello"\}/);
+    }
+    // Each stream's first read is its own; the polls after it are shared
+    const polls = outputQueries - 3;
+    assert.ok(polls <= elapsed / POLL_MS + 2, `${polls} polls in ${elapsed}ms`);
+  });
+
+  it('closes a stream after its maximum duration without ending it, and resumes on reconnect', async () => {
+    const order = await processingOrder();
+    const opened = Date.now();
+    const first = await (await fetch(`${baseUrl}/${order.id}/stream`)).text();
+    const lasted = Date.now() - opened;
+
+    assert.ok(lasted >= MAX_DURATION_MS && lasted < MAX_DURATION_MS + 1000, `closed after ${lasted}ms`);
+    assert.deepEqual(events(first), ['chunk']);
+
+    await test.query(`UPDATE orders SET status = 'failed', error_message = 'boom' WHERE id = $1`, [order.id]);
+    const lastEventId = first.match(/id: (\S+)/)![1];
+    const resumed = await (await fetch(`${baseUrl}/${order.id}/stream`, { headers: { 'Last-Event-ID': lastEventId } })).text();
+    assert.deepEqual(events(resumed), ['end']);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * PipelineExecutor: steps feeding each other through templates, per-step
+ * cost and proof trail, failures, and pipelines that would run themselves
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PipelineExecutor } from '../src/executors/pipeline.js';
+import { ExecutorRegistry } from '../src/executors/registry.js';
+import { hashObject } from '../src/proof.js';
+import type { PipelineStepRecord, TaskInput } from '../src/types.js';
+import { MarketplaceChain } from './support/marketplace.js';
+import { EchoExecutor, FakeModel, startTestRuntime, type TestRuntime } from './support/runtime.js';
+
+const task: TaskInput = {
+  orderId: '0x' + '01'.repeat(32),
+  serviceId: '0x' + '02'.repeat(32),
+  serviceType: 'review-digest',
+  buyer: '0x' + '03'.repeat(20),
+  units: 1n,
+  totalPrice: 1000n,
+  deadline: Math.floor(Date.now() / 1000) + 3600,
+  payload: { text: "J'adore ce produit", lang: 'fr' },
+};
+
+describe('PipelineExecutor', () => {
+  let registry: ExecutorRegistry;
+  let translator: FakeModel;
+  let summarizer: FakeModel;
+  let classifier: EchoExecutor;
+
+  beforeEach(() => {
+    registry = new ExecutorRegistry();
+    translator = new FakeModel({ provider: 'google' });
+    summarizer = new FakeModel({ provider: 'anthropic', pricing: { haiku: { input: 1, output: 1 }, sonnet: { input: 3, output: 15 } } });
+    classifier = new EchoExecutor('{"label":"positive"}', { id: 'classifier' });
+    registry.register(translator);
+    registry.register(summarizer);
+    registry.register(classifier);
+  });
+
+  function digest(): PipelineExecutor {
+    return new PipelineExecutor({
+      name: 'digest',
+      serviceTypes: ['review-digest'],
+      steps: [
+        { name: 'translate', executor: 'google', prompt: 'Translate from {{input.lang}}: {{input.text}}', output: { english: 'content' } },
+        { name: 'summarize', executor: 'anthropic', model: 'sonnet', systemPrompt: 'Be brief', prompt: 'Summarize: {{vars.english}}' },
+        { name: 'classify', executor: 'classifier', input: { text: '{{steps.summarize.content}}', original: '{{input.text}}' } },
+      ],
+    }, registry);
+  }
+
+  it('feeds each step into the next and returns the last output', async () => {
+    translator.reply('I love this product');
+    summarizer.reply('Loved it');
+    const result = await digest().execute(task);
+
+    assert.equal(translator.inputs[0].prompt, "Translate from fr: J'adore ce produit");
+    assert.equal(summarizer.inputs[0].prompt, 'Summarize: I love this product');
+    assert.equal(summarizer.inputs[0].systemPrompt, 'Be brief');
+    assert.equal(summarizer.inputs[0].model, 'sonnet');
+    assert.deepEqual(classifier.tasks[0].payload, { text: 'Loved it', original: "J'adore ce produit" });
+    assert.deepEqual(classifier.tasks[0].pipelineChain, ['pipeline-digest']);
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.output, { content: '{"label":"positive"}', structured: { label: 'positive' } });
+  });
+
+  it('accounts cost per step and leaves a proof trail of step hashes', async () => {
+    translator.reply('I love this product');
+    summarizer.reply('Loved it');
+    const result = await digest().execute(task);
+    const steps = result.proof.evidence.steps as PipelineStepRecord[];
+
+    assert.deepEqual(steps.map((s) => [s.step, s.executorId, s.model]), [
+      ['translate', 'google', 'fake-1'],
+      ['summarize', 'anthropic', 'sonnet'],
+      ['classify', 'classifier', undefined],
+    ]);
+    assert.deepEqual(steps.map((s) => s.outputHash), [hashObject('I love this product'), hashObject('Loved it'), hashObject('{"label":"positive"}')]);
+    assert.equal(steps[1].inputHash, hashObject({ prompt: 'Summarize: I love this product', systemPrompt: 'Be brief' }));
+    assert.equal(steps[2].inputHash, hashObject({ text: 'Loved it', original: "J'adore ce produit" }));
+    assert.equal(result.proof.outputHash, hashObject('{"label":"positive"}'));
+
+    const sum = (key: 'tokensUsed' | 'costUsd') => steps.reduce((total, s) => total + (s[key] ?? 0), 0);
+    assert.equal(steps[2].costUsd, 0.001);
+    assert.equal(result.metadata.costUsd, sum('costUsd'));
+    assert.equal(result.metadata.tokensUsed, sum('tokensUsed'));
+  });
+
+  it('passes the previous output, or the payload, to steps without templates', async () => {
+    translator.reply('Bonjour');
+    const pipeline = new PipelineExecutor({
+      name: 'plain',
+      serviceTypes: [],
+      steps: [{ name: 'first', executor: 'google' }, { name: 'second', executor: 'classifier' }],
+    }, registry);
+    await pipeline.execute(task);
+
+    assert.equal(translator.inputs[0].prompt, JSON.stringify(task.payload));
+    assert.deepEqual(classifier.tasks[0].payload, { content: 'Bonjour' });
+  });
+
+  it('fails with the failing step, counting what was spent up to it', async () => {
+    translator.reply('I love this product');
+    summarizer.reply(new Error('overloaded'));
+    const result = await digest().execute(task);
+
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'Step "summarize" failed: overloaded');
+    assert.ok(result.metadata.costUsd! > 0);
+    assert.equal(classifier.tasks.length, 0);
+
+    const unknown = new PipelineExecutor({ name: 'broken', serviceTypes: [], steps: [{ name: 'only', executor: 'missing' }] }, registry);
+    assert.equal((await unknown.execute(task)).error, 'Step "only" failed: Unknown executor: missing');
+  });
+
+  it('refuses pipelines that would run themselves', async () => {
+    const outer = registry.register(new PipelineExecutor({
+      name: 'outer',
+      serviceTypes: [],
+      steps: [{ name: 'inner', executor: 'pipeline-inner' }],
+    }, registry));
+    registry.register(new PipelineExecutor({
+      name: 'inner',
+      serviceTypes: [],
+      steps: [{ name: 'translate', executor: 'google' }, { name: 'back', executor: 'pipeline-outer' }],
+    }, registry));
+    const self = new PipelineExecutor({ name: 'self', serviceTypes: [], steps: [{ name: 'again', executor: 'pipeline-self' }] }, registry);
+    registry.register(self);
+
+    const result = await outer.execute(task);
+    assert.equal(result.success, false);
+    assert.equal(
+      result.error,
+      'Step "inner" failed: Step "back" failed: Pipeline cycle: pipeline-outer -> pipeline-inner -> pipeline-outer'
+    );
+    assert.equal(translator.inputs.length, 1);
+    assert.equal((await self.execute(task)).error, 'Step "again" failed: Pipeline cycle: pipeline-self -> pipeline-self');
+  });
+
+  it('rejects pipelines without steps or with duplicate step names', () => {
+    assert.throws(() => new PipelineExecutor({ name: 'empty', serviceTypes: [], steps: [] }, registry), /Pipeline empty has no steps/);
+    assert.throws(
+      () => new PipelineExecutor({ name: 'dup', serviceTypes: [], steps: [{ name: 'a', executor: 'google' }, { name: 'a', executor: 'google' }] }, registry),
+      /Pipeline dup has duplicate step names/
+    );
+  });
+});
+
+describe('AgentRuntime pipelines', () => {
+  let chain: MarketplaceChain;
+  let test: TestRuntime;
+
+  beforeEach(async () => {
+    chain = await new MarketplaceChain().start();
+  });
+
+  afterEach(async () => {
+    await test.stop();
+    await chain.stop();
+  });
+
+  it('runs orders for a configured pipeline through its steps', async () => {
+    const translator = new FakeModel({ provider: 'google', fallback: 'Hello' });
+    const classifier = new EchoExecutor('{"label":"positive"}', { id: 'classifier' });
+    test = await startTestRuntime(chain, {
+      executors: [translator, classifier],
+      pipelines: [{
+        name: 'digest',
+        serviceTypes: ['review-digest'],
+        steps: [{ name: 'translate', executor: 'google' }, { name: 'classify', executor: 'classifier' }],
+      }],
+    });
+    const orderId = chain.createOrder(chain.addService({ serviceType: 'review-digest' }));
+
+    const started = await test.waitFor('execution_started', orderId);
+    const { result } = await test.waitFor('execution_completed', orderId);
+
+    assert.equal(started.executorId, 'pipeline-digest');
+    assert.equal(translator.inputs.length, 1);
+    assert.equal(result.output?.content, '{"label":"positive"}');
+    assert.equal((result.proof.evidence.steps as PipelineStepRecord[]).length, 2);
+    assert.ok(result.proof.signature);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Profitability guard: pricing orders in USD, checking estimated cost against
+ * the minimum margin, and skipping, downgrading or approving orders below it
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Interface, parseEther, type Provider } from 'ethers';
+import { ModelExecutorAdapter } from '../src/executors/adapter.js';
+import { AggregatorPriceSource, ProfitabilityGuard, StaticPriceSource } from '../src/profitability.js';
+import type { ProfitabilityCheck, TaskInput } from '../src/types.js';
+import { MarketplaceChain } from './support/marketplace.js';
+import { EchoExecutor, FakeModel, startTestRuntime, type TestRuntime } from './support/runtime.js';
+
+const ETH_USD = 2000;
+
+const task: TaskInput = {
+  orderId: '0x' + '01'.repeat(32),
+  serviceId: '0x' + '02'.repeat(32),
+  serviceType: 'text-generation',
+  buyer: '0x' + '03'.repeat(20),
+  units: 1n,
+  totalPrice: parseEther('0.00005'),
+  deadline: Math.floor(Date.now() / 1000) + 3600,
+  payload: { prompt: 'Write a haiku' },
+};
+
+/** Default model first: ~$0.12 per order at the default 4096 output tokens; mini ~$0.002 */
+const model = () => new FakeModel({ pricing: { large: { input: 10, output: 30 }, mini: { input: 0.1, output: 0.4 } } });
+
+describe('price sources', () => {
+  const aggregator = new Interface([
+    'function decimals() view returns (uint8)',
+    'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  ]);
+
+  /** An aggregator answering with a price (8 decimals) updated at a time */
+  function oracle(answer: bigint, updatedAt: number) {
+    const calls: string[] = [];
+    const provider = {
+      async call({ data }: { data: string }) {
+        const fn = aggregator.parseTransaction({ data })!.fragment;
+        calls.push(fn.name);
+        return fn.name === 'decimals'
+          ? aggregator.encodeFunctionResult(fn, [8])
+          : aggregator.encodeFunctionResult(fn, [1n, answer, 0n, BigInt(updatedAt), 1n]);
+      },
+    };
+    return { provider: provider as unknown as Provider, calls };
+  }
+
+  it('rejects a static price that is not positive', () => {
+    assert.throws(() => new StaticPriceSource(0), /Invalid ETH\/USD price: 0/);
+    assert.throws(() => new StaticPriceSource(NaN), /Invalid ETH\/USD price/);
+  });
+
+  it('reads the aggregator, caching its price briefly', async () => {
+    const { provider, calls } = oracle(2_345_67000000n, Math.floor(Date.now() / 1000));
+    const source = new AggregatorPriceSource('0x' + '0a'.repeat(20), provider);
+
+    assert.equal(await source.getEthUsd(), 2345.67);
+    assert.equal(await source.getEthUsd(), 2345.67);
+    assert.equal(calls.length, 2);
+  });
+
+  it('rejects stale and non-positive oracle prices', async () => {
+    const stale = oracle(2000_00000000n, Math.floor(Date.now() / 1000) - 7200);
+    await assert.rejects(new AggregatorPriceSource('0x' + '0a'.repeat(20), stale.provider).getEthUsd(), /stale/);
+
+    const zero = oracle(0n, Math.floor(Date.now() / 1000));
+    await assert.rejects(new AggregatorPriceSource('0x' + '0a'.repeat(20), zero.provider).getEthUsd(), /non-positive/);
+  });
+});
+
+describe('ProfitabilityGuard', () => {
+  const guard = new ProfitabilityGuard({ ethUsd: ETH_USD });
+
+  it('prices the order and keeps the minimum margin out of the budget', async () => {
+    assert.deepEqual(await guard.quote(parseEther('0.001')), { ethUsd: ETH_USD, revenueUsd: 2, budgetUsd: 1.6 });
+    assert.equal(guard.minMargin, 0.2);
+    assert.equal(guard.onUnprofitable, 'downgrade');
+  });
+
+  it('checks the estimated cost of the routed model against the margin', async () => {
+    const executor = new ModelExecutorAdapter(model());
+    const quote = await guard.quote(task.totalPrice);
+    const large = await guard.check(task, executor, quote);
+    const mini = await guard.check({ ...task, model: 'mini' }, executor, quote);
+
+    assert.equal(large.model, 'large');
+    assert.equal(large.revenueUsd, 0.1);
+    assert.equal(large.estimatedCostUsd, executor.model.estimateCost(executor.buildModelInput(task)).estimatedCost);
+    assert.equal(large.profitable, false);
+    assert.ok(large.margin! < 0);
+    assert.equal(mini.model, 'mini');
+    assert.equal(mini.profitable, true);
+  });
+
+  it("lets executors that can't estimate through", async () => {
+    const check = await guard.check(task, new EchoExecutor('hi'), await guard.quote(task.totalPrice));
+    assert.equal(check.estimatedCostUsd, undefined);
+    assert.equal(check.profitable, true);
+  });
+
+  it('downgrades to the priciest model within the budget', async () => {
+    const executor = new ModelExecutorAdapter(
+      new FakeModel({ pricing: { large: { input: 10, output: 30 }, medium: { input: 1, output: 4 }, mini: { input: 0.1, output: 0.4 } } })
+    );
+    assert.equal(guard.downgrade(task, executor, await guard.quote(task.totalPrice))?.model, 'medium');
+    assert.equal(guard.downgrade(task, executor, await guard.quote(1n)), undefined);
+    assert.equal(guard.downgrade(task, new EchoExecutor('hi'), await guard.quote(task.totalPrice)), undefined);
+  });
+
+  it('records P&L from the reported cost, else the estimate', async () => {
+    const quote = await guard.quote(parseEther('0.001'));
+    assert.deepEqual(guard.pnl(quote, 0.5, 0.8), {
+      ethUsd: ETH_USD,
+      revenueUsd: 2,
+      costUsd: 0.5,
+      profitUsd: 1.5,
+      margin: 0.75,
+      estimated: false,
+      downgradedFrom: undefined,
+    });
+    assert.equal(guard.pnl(quote, undefined, 0.8, 'large').estimated, true);
+    assert.equal(guard.pnl(quote, undefined, 0.8, 'large').costUsd, 0.8);
+    assert.equal(guard.pnl(await guard.quote(0n), 0.1, undefined).margin, -1);
+  });
+});
+
+describe('AgentRuntime profitability', () => {
+  let chain: MarketplaceChain;
+  let serviceId: string;
+  let test: TestRuntime;
+
+  beforeEach(async () => {
+    chain = await new MarketplaceChain().start();
+    serviceId = chain.addService({ serviceType: 'text-generation' });
+  });
+
+  afterEach(async () => {
+    await test.stop();
+    await chain.stop();
+  });
+
+  it('runs profitable orders and records their P&L', async () => {
+    const fake = model();
+    test = await startTestRuntime(chain, { executors: [fake], profitability: { ethUsd: ETH_USD } });
+    const orderId = chain.createOrder(serviceId, { totalPrice: parseEther('0.001') });
+
+    const { result } = await test.waitFor('execution_completed', orderId);
+    assert.equal(fake.inputs[0].model, undefined);
+    assert.equal(result.metadata.pnl?.revenueUsd, 2);
+    assert.equal(result.metadata.pnl?.costUsd, result.metadata.costUsd);
+    assert.equal(result.metadata.pnl?.estimated, false);
+    assert.equal(test.events.some((e) => e.type === 'order_unprofitable'), false);
+  });
+
+  it('downgrades an order to a model that keeps the margin', async () => {
+    const fake = model();
+    test = await startTestRuntime(chain, { executors: [fake], profitability: { ethUsd: ETH_USD } });
+    const orderId = chain.createOrder(serviceId, { totalPrice: task.totalPrice });
+
+    const unprofitable = await test.waitFor('order_unprofitable', orderId);
+    const { result } = await test.waitFor('execution_completed', orderId);
+
+    assert.equal(unprofitable.action, 'downgraded');
+    assert.equal(unprofitable.check.model, 'large');
+    assert.equal(fake.inputs[0].model, 'mini');
+    assert.equal(result.metadata.modelUsed, 'mini');
+    assert.equal(result.metadata.pnl?.downgradedFrom, 'large');
+  });
+
+  it('skips an order no model can serve within the margin', async () => {
+    const fake = model();
+    test = await startTestRuntime(chain, { executors: [fake], profitability: { ethUsd: ETH_USD, onUnprofitable: 'skip' } });
+    const orderId = chain.createOrder(serviceId, { totalPrice: task.totalPrice });
+
+    const unprofitable = await test.waitFor('order_unprofitable', orderId);
+    assert.equal(unprofitable.action, 'skipped');
+    assert.equal(fake.inputs.length, 0);
+    assert.equal(test.events.some((e) => e.type === 'execution_started'), false);
+  });
+
+  it('asks for approval of orders below the margin', async () => {
+    const fake = model();
+    const checks: ProfitabilityCheck[] = [];
+    test = await startTestRuntime(chain, {
+      executors: [fake],
+      profitability: {
+        ethUsd: ETH_USD,
+        onUnprofitable: 'approve',
+        approve: async (check) => {
+          checks.push(check);
+          return checks.length === 1;
+        },
+      },
+    });
+    const approvedId = chain.createOrder(serviceId, { totalPrice: task.totalPrice });
+    const approved = await test.waitFor('order_unprofitable', approvedId);
+    await test.waitFor('execution_completed', approvedId);
+    const rejectedId = chain.createOrder(serviceId, { totalPrice: task.totalPrice });
+    const rejected = await test.waitFor('order_unprofitable', rejectedId);
+
+    assert.equal(approved.action, 'approved');
+    assert.equal(rejected.action, 'rejected');
+    assert.deepEqual(checks.map((c) => c.orderId), [approvedId, rejectedId]);
+    assert.equal(fake.inputs.length, 1);
+    assert.equal(fake.inputs[0].model, undefined);
+  });
+});
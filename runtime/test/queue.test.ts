@@ -0,0 +1,148 @@
+/**
+ * OrderQueue: dispatch order, retry backoff, persistence and the processed set
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { OrderQueue } from '../src/queue.js';
+
+const order = (orderId: string, deadline: number, totalPrice = '1000') => ({ orderId, deadline, totalPrice });
+
+describe('OrderQueue', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'queue-test-'));
+    file = join(dir, 'order-queue.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('dispatches earliest deadline first, then highest price, then FIFO', () => {
+    const queue = new OrderQueue(file);
+    queue.enqueue(order('late', 300));
+    queue.enqueue(order('cheap', 200, '10'));
+    queue.enqueue(order('rich', 200, '5000'));
+    queue.enqueue(order('cheap-later', 200, '10'));
+
+    const taken = [queue.take(), queue.take(), queue.take(), queue.take(), queue.take()].map((e) => e?.orderId);
+    assert.deepEqual(taken, ['rich', 'cheap', 'cheap-later', 'late', undefined]);
+    assert.equal(queue.inFlightCount, 4);
+  });
+
+  it('ignores orders it already knows in any state', () => {
+    const queue = new OrderQueue(file);
+    assert.equal(queue.enqueue(order('a', 100)), true);
+    assert.equal(queue.enqueue(order('a', 100)), false);
+    queue.take();
+    assert.equal(queue.enqueue(order('a', 100)), false);
+    queue.ack('a');
+    assert.equal(queue.enqueue(order('a', 100)), false);
+    assert.equal(queue.processedCount, 1);
+  });
+
+  it('backs off a nacked order, doubling the wait, and drops it after three attempts', () => {
+    const queue = new OrderQueue(file);
+    queue.enqueue(order('a', 100));
+
+    const start = Date.now();
+    queue.take();
+    assert.equal(queue.nack('a'), true);
+    assert.equal(queue.take(), undefined);
+    const firstRetry = queue.nextReadyAt()!;
+    assert.ok(firstRetry - start >= 5_000 && firstRetry - Date.now() <= 5_000);
+
+    assert.equal(queue.take(firstRetry)?.orderId, 'a');
+    assert.equal(queue.nack('a'), true);
+    const secondRetry = queue.nextReadyAt()!;
+    assert.ok(secondRetry - Date.now() > 9_000 && secondRetry - Date.now() <= 10_000);
+
+    assert.equal(queue.take(secondRetry)?.attempts, 2);
+    assert.equal(queue.nack('a'), false);
+    assert.equal(queue.size, 0);
+    assert.equal(queue.has('a'), true);
+    assert.equal(queue.nextReadyAt(), undefined);
+  });
+
+  it('dispatches ready orders while others back off', () => {
+    const queue = new OrderQueue(file);
+    queue.enqueue(order('urgent', 100));
+    queue.enqueue(order('later', 500));
+    queue.take();
+    queue.nack('urgent');
+
+    assert.equal(queue.take()?.orderId, 'later');
+    assert.equal(queue.take(), undefined);
+  });
+
+  it('restores pending and in-flight orders and the processed set after a restart', () => {
+    const before = new OrderQueue(file);
+    before.enqueue(order('done', 100));
+    before.enqueue(order('running', 200));
+    before.enqueue(order('waiting', 300));
+    before.take();
+    before.ack('done');
+    before.take();
+
+    const after = new OrderQueue(file);
+    assert.equal(after.size, 2);
+    assert.equal(after.inFlightCount, 0);
+    assert.equal(after.has('done'), true);
+    assert.deepEqual([after.take()?.orderId, after.take()?.orderId], ['running', 'waiting']);
+    assert.equal(after.enqueue(order('done', 100)), false);
+  });
+
+  it('forgets processed orders once their retention has passed', () => {
+    writeFileSync(file, JSON.stringify({
+      version: 2,
+      pending: [],
+      processed: [['expired', Date.now() - 1], ['recent', Date.now() + 60_000]],
+    }));
+
+    const queue = new OrderQueue(file);
+    assert.equal(queue.has('expired'), false);
+    assert.equal(queue.has('recent'), true);
+  });
+
+  it('keeps processed orders until a day after their deadline', () => {
+    const queue = new OrderQueue(file);
+    const deadline = Math.floor(Date.now() / 1000) + 3_600;
+    queue.enqueue(order('a', deadline));
+    queue.take();
+    queue.ack('a');
+
+    const snapshot = JSON.parse(readFileSync(file, 'utf-8'));
+    const [[id, forgetAt]] = snapshot.processed;
+    assert.equal(id, 'a');
+    assert.equal(forgetAt, deadline * 1000 + 24 * 60 * 60 * 1000);
+  });
+
+  it('loads the processed list written by older runtimes', () => {
+    writeFileSync(file, JSON.stringify({ version: 1, pending: [{ ...order('p', 100), enqueuedAt: 1, attempts: 0 }], processed: ['old'] }));
+
+    const queue = new OrderQueue(file);
+    assert.equal(queue.size, 1);
+    assert.equal(queue.has('old'), true);
+  });
+
+  it('holds producers back until there is room', async () => {
+    const queue = new OrderQueue(file, 1);
+    queue.enqueue(order('a', 100));
+    assert.equal(queue.isFull, true);
+
+    let released = false;
+    const waiting = queue.waitForCapacity().then(() => { released = true; });
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(released, false);
+
+    queue.take();
+    await waiting;
+    assert.equal(released, true);
+  });
+});
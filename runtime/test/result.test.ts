@@ -0,0 +1,133 @@
+/**
+ * Results: the stored output and its hash, and results encrypted so only the
+ * order's buyer can read them
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Wallet, hexlify, keccak256, toUtf8Bytes } from 'ethers';
+import { AgentClient } from '../../sdk/src/AgentClient.ts';
+import { MemoryInputSource } from '../src/input.js';
+import { buildResultOutput, decryptWithPrivateKey, encryptForPublicKey, hashResultOutput } from '../src/result.js';
+import type { RuntimeConfig } from '../src/types.js';
+import { MarketplaceChain } from './support/marketplace.js';
+import { EchoExecutor, startTestRuntime, type TestRuntime } from './support/runtime.js';
+
+async function until(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const end = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > end) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('buildResultOutput', () => {
+  it('keeps JSON content, bare or fenced, as structured output', () => {
+    assert.deepEqual(buildResultOutput('{"label":"positive"}').structured, { label: 'positive' });
+    assert.deepEqual(buildResultOutput('Here:\n```json\n[1, 2]\n```').structured, [1, 2]);
+    assert.equal(buildResultOutput('Just text {not json}').structured, undefined);
+  });
+
+  it('keeps well-formed attachments from the metadata', () => {
+    const chart = { name: 'chart.png', mimeType: 'image/png', data: 'iVBORw0KGgo=' };
+    const output = buildResultOutput('See chart', { attachments: [chart, { name: 'broken' }] });
+    assert.deepEqual(output, { content: 'See chart', attachments: [chart] });
+  });
+
+  it('hashes the plaintext output for the chain', () => {
+    const output = { content: 'Paris' };
+    assert.equal(hexlify(hashResultOutput(output)), keccak256(toUtf8Bytes(JSON.stringify(output))));
+  });
+});
+
+describe('result encryption', () => {
+  const buyer = new Wallet(Wallet.createRandom().privateKey);
+
+  it('decrypts with the recipient key only', () => {
+    const payload = encryptForPublicKey('secret result', buyer.signingKey.publicKey);
+
+    assert.equal(payload.scheme, 'ecies-secp256k1-aes-256-gcm');
+    assert.equal(decryptWithPrivateKey(payload, buyer.privateKey), 'secret result');
+    assert.throws(() => decryptWithPrivateKey(payload, Wallet.createRandom().privateKey));
+    assert.throws(() => decryptWithPrivateKey({ ...payload, ciphertext: Buffer.from('tampered').toString('base64') }, buyer.privateKey));
+  });
+
+  it('uses a fresh key for every payload', () => {
+    const a = encryptForPublicKey('same', buyer.signingKey.publicKey);
+    const b = encryptForPublicKey('same', buyer.signingKey.publicKey);
+    assert.notEqual(a.ephemeralPublicKey, b.ephemeralPublicKey);
+    assert.notEqual(a.ciphertext, b.ciphertext);
+  });
+});
+
+describe('AgentRuntime results', () => {
+  const buyer = new Wallet(Wallet.createRandom().privateKey);
+  const sdk = new AgentClient({
+    privateKey: buyer.privateKey,
+    rpcUrl: 'http://127.0.0.1:1',
+    registryAddress: '0x' + '11'.repeat(20),
+    marketplaceAddress: '0x' + '22'.repeat(20),
+  });
+  let chain: MarketplaceChain;
+  let serviceId: string;
+  let test: TestRuntime;
+
+  beforeEach(async () => {
+    chain = await new MarketplaceChain().start();
+    serviceId = chain.addService({ serviceType: 'sentiment-analysis' });
+  });
+
+  afterEach(async () => {
+    await test.stop();
+    await chain.stop();
+  });
+
+  async function runOrder(config: Partial<RuntimeConfig>) {
+    const inputs = new MemoryInputSource();
+    test = await startTestRuntime(chain, { inputSource: inputs, executors: [new EchoExecutor('{"label":"positive"}')], ...config });
+    const orderId = chain.createOrder(serviceId, { buyer: buyer.address });
+    inputs.publish(await sdk.signOrderInput(orderId, serviceId, { text: 'I love it' }));
+    await test.waitFor('execution_completed', orderId);
+    await until(() => test.results().length === 1);
+    return { orderId, stored: test.results()[0] };
+  }
+
+  it('stores the input and output in the clear by default', async () => {
+    const { orderId, stored } = await runOrder({});
+
+    assert.equal(stored.orderId, orderId);
+    assert.equal(stored.serviceType, 'sentiment-analysis');
+    assert.deepEqual(stored.input, { text: 'I love it' });
+    assert.deepEqual(stored.output, { content: '{"label":"positive"}', structured: { label: 'positive' } });
+    assert.equal(stored.encrypted, undefined);
+    assert.ok(stored.proof.signature);
+  });
+
+  it('encrypts results to the key the buyer signed their input with', async () => {
+    const { stored } = await runOrder({ resultEncryption: 'required' });
+
+    assert.deepEqual(stored.input, {});
+    assert.equal(stored.output, undefined);
+    assert.deepEqual(sdk.decryptOrderResult(stored.encrypted!), {
+      input: { text: 'I love it' },
+      output: { content: '{"label":"positive"}', structured: { label: 'positive' } },
+    });
+    // The public proof doesn't carry the plaintext
+    assert.equal(stored.proof.evidence.rawLog, undefined);
+    assert.ok(stored.proof.signature);
+  });
+
+  it('rejects an order it must encrypt for when the buyer published no input', async () => {
+    test = await startTestRuntime(chain, {
+      inputSource: new MemoryInputSource(),
+      inputWaitMs: 0,
+      resultEncryption: 'required',
+      executors: [new EchoExecutor('unused')],
+    });
+    const orderId = chain.createOrder(serviceId, { buyer: buyer.address });
+
+    const rejected = await test.waitFor('order_rejected', orderId);
+    assert.equal(rejected.reason, 'encryption_required');
+    assert.deepEqual(test.results(), []);
+  });
+});
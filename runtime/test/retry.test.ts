@@ -0,0 +1,170 @@
+/**
+ * Order retries: error classes, backoff, and when an order is dead-lettered
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyError, DEFAULT_RETRY_POLICY, nextRetryAt } from '../src/shared/retry.js';
+import type { RetryPolicy } from '../src/shared/types.js';
+import { seedAgent, seedOrder, startTestDatabase, type TestDatabase } from './support/database.js';
+
+describe('classifyError', () => {
+  const withStatus = (status: number, message = 'Request failed') => Object.assign(new Error(message), { status });
+
+  it('classifies by the HTTP status provider SDKs attach', () => {
+    assert.equal(classifyError(withStatus(429)), 'rate_limit');
+    assert.equal(classifyError(withStatus(408)), 'timeout');
+    assert.equal(classifyError(withStatus(500)), 'provider');
+    assert.equal(classifyError(withStatus(503)), 'provider');
+    assert.equal(classifyError(withStatus(400)), 'validation');
+    assert.equal(classifyError(withStatus(401)), 'validation');
+  });
+
+  it('classifies by error code and message', () => {
+    assert.equal(classifyError(new Error('Rate limit reached for gpt-4o')), 'rate_limit');
+    assert.equal(classifyError(new Error('Request timed out')), 'timeout');
+    assert.equal(classifyError(Object.assign(new Error('aborted'), { name: 'AbortError' })), 'timeout');
+    assert.equal(classifyError(Object.assign(new Error('connect failed'), { code: 'ECONNREFUSED' })), 'network');
+    assert.equal(classifyError(new TypeError('fetch failed')), 'network');
+    assert.equal(classifyError(new Error('Overloaded')), 'provider');
+    assert.equal(classifyError(new Error('Response blocked by guardrail: blocked topic')), 'guardrail');
+    assert.equal(classifyError(new Error('Unexpected token in JSON')), 'unknown');
+    assert.equal(classifyError('socket hang up'), 'network');
+    assert.equal(classifyError(undefined), 'unknown');
+  });
+
+  it('prefers rate limits over the 4xx status they arrive with', () => {
+    assert.equal(classifyError(withStatus(429, 'Too Many Requests')), 'rate_limit');
+  });
+});
+
+describe('nextRetryAt', () => {
+  const policy: RetryPolicy = {
+    maxAttempts: 6,
+    backoffMs: 1_000,
+    backoffMultiplier: 3,
+    maxBackoffMs: 20_000,
+    retryOn: ['timeout', 'provider'],
+  };
+  const now = 1_700_000_000_000;
+
+  it('backs off exponentially up to maxBackoffMs', () => {
+    const delays = [1, 2, 3, 4, 5].map((attempt) => nextRetryAt(policy, attempt, 'timeout', now)!.getTime() - now);
+    assert.deepEqual(delays, [1_000, 3_000, 9_000, 20_000, 20_000]);
+  });
+
+  it('stops once the attempts are used up', () => {
+    assert.equal(nextRetryAt(policy, 6, 'timeout', now), null);
+    assert.equal(nextRetryAt(policy, 7, 'timeout', now), null);
+  });
+
+  it('only retries the error classes in retryOn', () => {
+    assert.ok(nextRetryAt(policy, 1, 'provider', now));
+    assert.equal(nextRetryAt(policy, 1, 'rate_limit', now), null);
+    assert.equal(nextRetryAt(policy, 1, 'validation', now), null);
+    assert.ok(nextRetryAt(DEFAULT_RETRY_POLICY, 1, 'rate_limit', now));
+  });
+});
+
+describe('recordFailure', () => {
+  let test: TestDatabase;
+  let db: TestDatabase['db'];
+  let recordFailure: typeof import('../src/worker/failures.js').recordFailure;
+
+  before(async () => {
+    test = await startTestDatabase();
+    db = test.db;
+    ({ recordFailure } = await import('../src/worker/failures.js'));
+  });
+
+  beforeEach(async () => {
+    await test.reset();
+  });
+
+  after(async () => {
+    await test.stop();
+  });
+
+  /** Claim the order and fail the attempt with `errorClass` */
+  async function failAttempt(agent: Awaited<ReturnType<typeof seedAgent>>, errorClass: Parameters<typeof recordFailure>[3]) {
+    const [claimed] = await db.claimOrders('worker-a', 1, 60_000);
+    assert.ok(claimed, 'order is claimable');
+    await recordFailure('worker-a', claimed, agent, errorClass, `attempt ${claimed.attempts} failed`);
+    return (await db.getOrderById(claimed.id))!;
+  }
+
+  /** Make a scheduled retry due now */
+  const makeDue = (id: string) => test.query(`UPDATE orders SET next_attempt_at = NOW() WHERE id = $1`, [id]);
+
+  it('retries with backoff until maxAttempts, then dead-letters the order', async () => {
+    const agent = await seedAgent(db, {
+      retryPolicy: { maxAttempts: 3, backoffMs: 10_000, backoffMultiplier: 2, maxBackoffMs: 15_000 },
+    });
+    const order = await seedOrder(db, agent);
+
+    const first = await failAttempt(agent, 'timeout');
+    assert.equal(first.status, 'pending');
+    assert.equal(first.claimedBy, null);
+    assert.ok(Math.abs(first.nextAttemptAt!.getTime() - Date.now() - 10_000) < 2_000);
+    // The policy is fixed on the order at its first failure
+    assert.equal(first.retryPolicy?.maxAttempts, 3);
+
+    await makeDue(order.id);
+    const second = await failAttempt(agent, 'provider');
+    assert.equal(second.status, 'pending');
+    assert.ok(Math.abs(second.nextAttemptAt!.getTime() - Date.now() - 15_000) < 2_000);
+
+    await makeDue(order.id);
+    const third = await failAttempt(agent, 'timeout');
+    assert.equal(third.status, 'dead_letter');
+    assert.equal(third.attempts, 3);
+    assert.equal(third.errorMessage, 'attempt 3 failed');
+    assert.deepEqual(third.errorHistory.map((e) => [e.attempt, e.errorClass]), [
+      [1, 'timeout'],
+      [2, 'provider'],
+      [3, 'timeout'],
+    ]);
+
+    const deadLetter = await db.getDeadLetterOrders({ agentId: agent.id });
+    assert.deepEqual(deadLetter.map((o) => o.id), [order.id]);
+    assert.equal((await db.getAgentById(agent.id))!.failedRequests, 1);
+  });
+
+  it("dead-letters at once on an error the policy doesn't retry", async () => {
+    const agent = await seedAgent(db);
+    await seedOrder(db, agent);
+
+    const failed = await failAttempt(agent, 'validation');
+    assert.equal(failed.status, 'dead_letter');
+    assert.equal(failed.attempts, 1);
+    assert.equal(failed.nextAttemptAt, null);
+  });
+
+  it("leaves an order alone once another worker holds it", async () => {
+    const agent = await seedAgent(db);
+    const order = await seedOrder(db, agent);
+    const [claimed] = await db.claimOrders('worker-a', 1, 60_000);
+    await test.query(`UPDATE orders SET claimed_by = 'worker-b' WHERE id = $1`, [order.id]);
+
+    await recordFailure('worker-a', claimed, agent, 'validation', 'late failure');
+    const current = (await db.getOrderById(order.id))!;
+    assert.equal(current.status, 'processing');
+    assert.equal(current.errorHistory.length, 0);
+  });
+
+  it('requeues dead-lettered orders with a fresh set of attempts', async () => {
+    const agent = await seedAgent(db);
+    const order = await seedOrder(db, agent);
+    const other = await seedOrder(db, agent);
+    await failAttempt(agent, 'validation');
+
+    const requeued = await db.requeueOrders([order.id, other.id], ['dead_letter']);
+    assert.deepEqual(requeued, [order.id]);
+
+    const retried = (await db.getOrderById(order.id))!;
+    assert.equal(retried.status, 'pending');
+    assert.equal(retried.attempts, 0);
+    assert.equal(retried.errorMessage, null);
+    assert.deepEqual(await db.getDeadLetterOrders(), []);
+  });
+});
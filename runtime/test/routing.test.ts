@@ -0,0 +1,160 @@
+/**
+ * Routing policies: cheapest within budget, fastest by observed latency,
+ * health-aware failover and weighted splits, declared per service type
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ModelExecutorAdapter } from '../src/executors/adapter.js';
+import { ExecutorRegistry } from '../src/executors/registry.js';
+import { WeightedPolicy } from '../src/executors/routing.js';
+import type { Executor, TaskInput } from '../src/types.js';
+import { MarketplaceChain } from './support/marketplace.js';
+import { EchoExecutor, FakeModel, startTestRuntime, type TestRuntime } from './support/runtime.js';
+
+const task: TaskInput = {
+  orderId: '0x' + '01'.repeat(32),
+  serviceId: '0x' + '02'.repeat(32),
+  serviceType: 'sentiment-analysis',
+  buyer: '0x' + '03'.repeat(20),
+  units: 1n,
+  totalPrice: 1000n,
+  deadline: Math.floor(Date.now() / 1000) + 3600,
+  payload: { text: 'I love it' },
+};
+
+const openai = () => new FakeModel({ provider: 'openai', pricing: { 'gpt-large': { input: 2, output: 8 }, 'gpt-mini': { input: 0.1, output: 0.4 } } });
+const anthropic = () => new FakeModel({ provider: 'anthropic', pricing: { haiku: { input: 0.8, output: 4 } } });
+
+/** Estimated cost of the task on a registered model executor */
+function costOf(executor: Executor, model: string): number {
+  const adapter = executor as ModelExecutorAdapter;
+  return adapter.model.estimateCost({ ...adapter.buildModelInput(task), model }).estimatedCost;
+}
+
+describe('ExecutorRegistry routing', () => {
+  let registry: ExecutorRegistry;
+  let gpt: Executor;
+  let claude: Executor;
+
+  beforeEach(() => {
+    registry = new ExecutorRegistry();
+    gpt = registry.register(openai());
+    claude = registry.register(anthropic());
+  });
+
+  it('routes by provider preference without a policy', () => {
+    assert.deepEqual(registry.route({ task }), { executor: gpt, reason: 'provider preference' });
+  });
+
+  it('picks the cheapest model that fits the budget', () => {
+    registry.setPolicy('sentiment-analysis', { policy: 'cheapest' });
+    const cheapest = registry.route({ task })!;
+    assert.equal(cheapest.executor, gpt);
+    assert.equal(cheapest.model, 'gpt-mini');
+    assert.match(cheapest.reason, /^cheapest: ~\$/);
+
+    // Within the order's budget, or the policy's own cap
+    assert.equal(registry.route({ task, budgetUsd: costOf(gpt, 'gpt-mini') / 2 }), undefined);
+    registry.setPolicy('sentiment-analysis', { policy: 'cheapest', maxCostUsd: costOf(gpt, 'gpt-mini') / 2 });
+    assert.equal(registry.route({ task }), undefined);
+
+    // Only the listed candidates, and only the model an order asks for
+    registry.setPolicy('sentiment-analysis', { policy: 'cheapest', candidates: ['anthropic'] });
+    assert.equal(registry.route({ task })?.model, 'haiku');
+    registry.setPolicy('sentiment-analysis', { policy: 'cheapest' });
+    assert.equal(registry.route({ task: { ...task, model: 'gpt-large' } })?.model, 'gpt-large');
+  });
+
+  it('measures every executor before picking the fastest', () => {
+    registry.setPolicy('*', { policy: 'fastest' });
+
+    assert.equal(registry.route({ task })?.executor, gpt);
+    registry.recordOutcome('openai', true, 900);
+    assert.equal(registry.route({ task })?.executor, claude);
+    registry.recordOutcome('anthropic', true, 300);
+
+    const fastest = registry.route({ task })!;
+    assert.equal(fastest.executor, claude);
+    assert.equal(fastest.reason, 'fastest: 300ms average');
+  });
+
+  it('fails over past unhealthy executors and back once they recover', () => {
+    registry.setPolicy('sentiment-analysis', { policy: 'failover', candidates: ['anthropic', 'openai'] });
+    assert.deepEqual(registry.route({ task }), { executor: claude, reason: 'failover: primary' });
+
+    for (let i = 0; i < 3; i++) registry.recordOutcome('anthropic', false, 100);
+    assert.deepEqual(registry.route({ task }), { executor: gpt, reason: 'failover: openai (#2)' });
+
+    registry.recordOutcome('anthropic', true, 100);
+    registry.recordHealthCheck('anthropic', true);
+    assert.equal(registry.route({ task })?.executor, claude);
+    registry.recordHealthCheck('anthropic', false);
+    assert.equal(registry.route({ task })?.executor, gpt);
+
+    // With every candidate unhealthy, the order is still attempted
+    registry.recordHealthCheck('openai', false);
+    assert.equal(registry.route({ task })?.executor, claude);
+  });
+
+  it('splits orders by weight', () => {
+    const rolls = [0.1, 0.5, 0.9];
+    registry.setPolicy('sentiment-analysis', new WeightedPolicy({ weights: { openai: 3, anthropic: 1, missing: 5 } }, () => rolls.shift()!));
+
+    assert.deepEqual(
+      [1, 2, 3].map(() => registry.route({ task })?.reason),
+      ['weighted: openai (3/4)', 'weighted: openai (3/4)', 'weighted: anthropic (1/4)']
+    );
+  });
+
+  it('only considers executors claiming the service type when some do', () => {
+    const echo = registry.register(new EchoExecutor('hi', { serviceTypes: ['sentiment-analysis'] }));
+    registry.setPolicy('sentiment-analysis', { policy: 'fastest' });
+    assert.equal(registry.route({ task })?.executor, echo);
+    registry.setPolicy('sentiment-analysis', { policy: 'cheapest' });
+    // Task executors can't be priced
+    assert.equal(registry.route({ task }), undefined);
+  });
+
+  it('rejects unknown policies', () => {
+    assert.throws(() => registry.setPolicy('*', { policy: 'random' } as never), /Unknown routing policy: random/);
+  });
+});
+
+describe('AgentRuntime routing', () => {
+  let chain: MarketplaceChain;
+  let test: TestRuntime;
+
+  beforeEach(async () => {
+    chain = await new MarketplaceChain().start();
+  });
+
+  afterEach(async () => {
+    await test.stop();
+    await chain.stop();
+  });
+
+  it('routes orders by the policy configured for their service type and reports it', async () => {
+    const gpt = openai();
+    const claude = anthropic();
+    test = await startTestRuntime(chain, {
+      executors: [gpt, claude],
+      routing: { 'sentiment-analysis': { policy: 'cheapest', candidates: ['anthropic'] }, '*': { policy: 'fastest' } },
+    });
+    const orderId = chain.createOrder(chain.addService({ serviceType: 'sentiment-analysis' }));
+
+    const started = await test.waitFor('execution_started', orderId);
+    await test.waitFor('execution_completed', orderId);
+
+    assert.equal(started.executorId, 'anthropic');
+    assert.equal(claude.inputs[0].model, 'haiku');
+    assert.equal(gpt.inputs.length, 0);
+
+    const { routing } = await test.runtime.getStatus();
+    assert.deepEqual(Object.keys(routing).sort(), ['*', 'sentiment-analysis']);
+    assert.equal(routing['*'].policy, 'fastest');
+    assert.equal(routing['sentiment-analysis'].policy, 'cheapest');
+    assert.equal(routing['sentiment-analysis'].lastRoute?.executorId, 'anthropic');
+    assert.equal(routing['sentiment-analysis'].lastRoute?.model, 'haiku');
+  });
+});
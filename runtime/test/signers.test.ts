@@ -0,0 +1,248 @@
+/**
+ * Agent signers: which key completes an order, and the transactions each
+ * completer sends
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Interface, Wallet, getAddress, hexlify, randomBytes, verifyMessage } from 'ethers';
+import {
+  HttpKeyManagementService,
+  KmsSigner,
+  MARKETPLACE_ABI,
+  isSignerSecret,
+  resolveOrderCompleter,
+  type KeyManagementService,
+  type SignerContext,
+} from '../src/worker/signers.js';
+import type { Agent, Order } from '../src/shared/types.js';
+import { StubChain } from './support/chain.js';
+
+const MARKETPLACE = getAddress('0x' + 'aa'.repeat(20));
+const AGENT_WALLET = getAddress('0x' + 'bb'.repeat(20));
+const DID = '0x' + 'cd'.repeat(32);
+
+const marketplace = new Interface(MARKETPLACE_ABI);
+const erc8004 = new Interface([
+  'function executeAsAgent(bytes32 agentDID, address target, bytes data, uint256 value) external returns (bytes)',
+]);
+
+/** Signs with in-memory keys, recording the digests it was asked to sign */
+class LocalKms implements KeyManagementService {
+  readonly signed: string[] = [];
+  private keys = new Map<string, Wallet>();
+
+  add(keyId: string): Wallet {
+    const key = new Wallet(Wallet.createRandom().privateKey);
+    this.keys.set(keyId, key);
+    return key;
+  }
+
+  async getAddress(keyId: string): Promise<string> {
+    return this.key(keyId).address;
+  }
+
+  async signDigest(keyId: string, digest: string): Promise<string> {
+    this.signed.push(digest);
+    return this.key(keyId).signingKey.sign(digest).serialized;
+  }
+
+  private key(keyId: string): Wallet {
+    const key = this.keys.get(keyId);
+    if (!key) throw new Error(`Unknown key ${keyId}`);
+    return key;
+  }
+}
+
+const agent = (onChainAddress: string | null = AGENT_WALLET) => ({ id: 'agent-1', onChainAddress }) as Agent;
+const order = { orderId: hexlify(randomBytes(32)) } as Order;
+const resultHash = hexlify(randomBytes(32));
+
+describe('resolveOrderCompleter', () => {
+  let chain: StubChain;
+  let kms: LocalKms;
+  let runtimeWallet: Wallet;
+  let context: SignerContext;
+
+  beforeEach(() => {
+    chain = new StubChain();
+    kms = new LocalKms();
+    runtimeWallet = new Wallet(Wallet.createRandom().privateKey, chain);
+    context = { provider: chain, marketplaceAddress: MARKETPLACE, runtimeWallet, kms };
+  });
+
+  /** The one transaction the completer sent */
+  function sentTransaction() {
+    assert.equal(chain.transactions.length, 1);
+    return chain.transactions[0];
+  }
+
+  it("completes with the agent's own key first", async () => {
+    const key = Wallet.createRandom();
+    kms.add('kms-key');
+    const completer = await resolveOrderCompleter(agent(), {
+      AGENT_SIGNING_KEY: key.privateKey,
+      AGENT_KMS_KEY_ID: 'kms-key',
+      AGENT_WALLET_DID: DID,
+    }, context);
+    assert.equal(completer.kind, 'agent-key');
+    assert.equal(completer.seller, key.address);
+
+    const txHash = await completer.completeOrder(order, 'data:result', resultHash);
+    const tx = sentTransaction();
+    assert.equal(txHash, tx.hash);
+    assert.equal(tx.from, key.address);
+    assert.equal(tx.to, MARKETPLACE);
+    assert.deepEqual([...marketplace.decodeFunctionData('completeOrder', tx.data)], [order.orderId, 'data:result', resultHash]);
+  });
+
+  it('signs completions through the KMS without the key leaving it', async () => {
+    const key = kms.add('kms-key');
+    const completer = await resolveOrderCompleter(agent(), { AGENT_KMS_KEY_ID: 'kms-key', AGENT_WALLET_DID: DID }, context);
+    assert.equal(completer.kind, 'kms');
+    assert.equal(completer.seller, key.address);
+
+    await completer.completeOrder(order, 'data:result', resultHash);
+    const tx = sentTransaction();
+    assert.equal(tx.from, key.address);
+    assert.equal(tx.to, MARKETPLACE);
+    assert.deepEqual(kms.signed, [tx.unsignedHash]);
+  });
+
+  it("relays completions through the agent's ERC8004 wallet with the runtime key", async () => {
+    const completer = await resolveOrderCompleter(agent(), { AGENT_WALLET_DID: DID }, context);
+    assert.equal(completer.kind, 'erc8004-relay');
+    assert.equal(completer.seller, AGENT_WALLET);
+
+    await completer.completeOrder(order, 'data:result', resultHash);
+    const tx = sentTransaction();
+    assert.equal(tx.from, runtimeWallet.address);
+    assert.equal(tx.to, AGENT_WALLET);
+
+    const [did, target, data, value] = erc8004.decodeFunctionData('executeAsAgent', tx.data);
+    assert.equal(did, DID);
+    assert.equal(target, MARKETPLACE);
+    assert.equal(value, 0n);
+    assert.deepEqual([...marketplace.decodeFunctionData('completeOrder', data)], [order.orderId, 'data:result', resultHash]);
+  });
+
+  it('falls back to the runtime key', async () => {
+    const completer = await resolveOrderCompleter(agent(), {}, context);
+    assert.equal(completer.kind, 'runtime');
+    assert.equal(completer.seller, runtimeWallet.address);
+  });
+
+  it('rejects a wallet DID that is not bytes32 hex before anything is sent', async () => {
+    for (const did of ['did:erc8004:1', '0x1234', 'cd'.repeat(32)]) {
+      await assert.rejects(
+        resolveOrderCompleter(agent(), { AGENT_WALLET_DID: did }, context),
+        /AGENT_WALLET_DID for agent agent-1 must be a bytes32 DID/
+      );
+    }
+    assert.equal(chain.transactions.length, 0);
+  });
+
+  it('rejects configurations it cannot sign for', async () => {
+    await assert.rejects(
+      resolveOrderCompleter(agent(), { AGENT_KMS_KEY_ID: 'kms-key' }, { ...context, kms: undefined }),
+      /no KMS is configured/
+    );
+    await assert.rejects(
+      resolveOrderCompleter(agent(null), { AGENT_WALLET_DID: DID }, context),
+      /has no on-chain wallet address/
+    );
+    await assert.rejects(
+      resolveOrderCompleter(agent(), { AGENT_WALLET_DID: DID }, { ...context, runtimeWallet: null }),
+      /No signer for agent agent-1/
+    );
+  });
+
+  it('keeps signing secrets apart from the rest', () => {
+    assert.equal(isSignerSecret('AGENT_SIGNING_KEY'), true);
+    assert.equal(isSignerSecret('AGENT_KMS_KEY_ID'), true);
+    assert.equal(isSignerSecret('AGENT_WALLET_DID'), true);
+    assert.equal(isSignerSecret('OPENAI_API_KEY'), false);
+  });
+});
+
+describe('KmsSigner', () => {
+  it('signs messages that recover to the KMS key', async () => {
+    const kms = new LocalKms();
+    const key = kms.add('kms-key');
+    const signer = new KmsSigner(kms, 'kms-key');
+
+    assert.equal(await signer.getAddress(), key.address);
+    assert.equal(verifyMessage('hello', await signer.signMessage('hello')), key.address);
+  });
+
+  it("rejects a signature that doesn't recover to the key's address", async () => {
+    const kms = new LocalKms();
+    kms.add('kms-key');
+    const wrongKey = Wallet.createRandom();
+    kms.signDigest = async (_keyId, digest) => wrongKey.signingKey.sign(digest).serialized;
+
+    await assert.rejects(new KmsSigner(kms, 'kms-key').signMessage('hello'), /does not recover to its address/);
+  });
+
+  it('refuses transactions from another address', async () => {
+    const kms = new LocalKms();
+    kms.add('kms-key');
+    const signer = new KmsSigner(kms, 'kms-key');
+
+    await assert.rejects(
+      signer.signTransaction({ from: Wallet.createRandom().address, to: MARKETPLACE, chainId: 1, nonce: 0, gasLimit: 21_000, gasPrice: 1 }),
+      /does not match KMS key/
+    );
+    assert.deepEqual(kms.signed, []);
+  });
+});
+
+describe('HttpKeyManagementService', () => {
+  const key = Wallet.createRandom();
+  const requests: Array<{ method?: string; url?: string; authorization?: string; body: string }> = [];
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, authorization: req.headers.authorization, body });
+        res.setHeader('Content-Type', 'application/json');
+        if (req.url === '/keys/missing') {
+          res.statusCode = 404;
+          res.end(JSON.stringify({ error: 'not found' }));
+        } else if (req.method === 'GET') {
+          res.end(JSON.stringify({ address: key.address }));
+        } else {
+          res.end(JSON.stringify({ signature: key.signingKey.sign(JSON.parse(body).digest).serialized }));
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('reads addresses and signs digests with the bearer token', async () => {
+    const kms = new HttpKeyManagementService(baseUrl, 'secret-token');
+    const signer = new KmsSigner(kms, 'key/1');
+
+    assert.equal(await signer.getAddress(), key.address);
+    assert.equal(verifyMessage('hello', await signer.signMessage('hello')), key.address);
+    assert.deepEqual(requests.map((r) => [r.method, r.url, r.authorization]), [
+      ['GET', '/keys/key%2F1', 'Bearer secret-token'],
+      ['POST', '/keys/key%2F1/sign', 'Bearer secret-token'],
+    ]);
+  });
+
+  it('surfaces failed requests', async () => {
+    await assert.rejects(new HttpKeyManagementService(baseUrl).getAddress('missing'), /KMS request failed: 404/);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * FileResponseCache: expiry, and evicting the oldest entries once the cache
+ * grows past maxEntries
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readdirSync, rmSync, utimesSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createHash } from 'node:crypto';
+import { FileResponseCache } from '../src/storage.js';
+import type { CachedResponse } from '../src/types.js';
+
+const key = (n: number) => createHash('sha256').update(String(n)).digest('hex');
+
+const entry = (n: number, ttlMs = 60_000): CachedResponse => ({
+  key: key(n),
+  result: {
+    success: true,
+    content: `reply ${n}`,
+    model: 'test',
+    usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+    cost: { input: 0, output: 0, total: 0 },
+  },
+  cachedAt: Date.now(),
+  expiresAt: Date.now() + ttlMs,
+});
+
+describe('FileResponseCache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'response-cache-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const files = () => readdirSync(dir).filter((f) => f.endsWith('.json')).sort();
+  const filesFor = (ns: number[]) => ns.map((n) => `${key(n)}.json`).sort();
+
+  /** Store entries with increasing modification times, in order */
+  async function store(cache: FileResponseCache, ns: number[]): Promise<void> {
+    for (const n of ns) {
+      await cache.set(entry(n));
+      const time = new Date(1_700_000_000_000 + n * 1000);
+      utimesSync(join(dir, `${key(n)}.json`), time, time);
+    }
+  }
+
+  it('serves entries until they expire', async () => {
+    const cache = new FileResponseCache(dir);
+    await cache.set(entry(1));
+    await cache.set(entry(2, -1));
+
+    assert.equal((await cache.get(key(1)))?.result.content, 'reply 1');
+    assert.equal(await cache.get(key(2)), null);
+    assert.deepEqual(files(), filesFor([1]));
+  });
+
+  it('removes the oldest entries down to 90% once past maxEntries', async () => {
+    const cache = new FileResponseCache(dir, 10);
+    await store(cache, [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    assert.equal(files().length, 10);
+
+    await store(cache, [11]);
+    assert.deepEqual(files(), filesFor([3, 4, 5, 6, 7, 8, 9, 10, 11]));
+
+    // Room for one more before the next eviction
+    await store(cache, [12]);
+    assert.equal(files().length, 10);
+    await store(cache, [13]);
+    assert.deepEqual(files(), filesFor([5, 6, 7, 8, 9, 10, 11, 12, 13]));
+  });
+
+  it('counts entries already on disk when it starts', async () => {
+    await store(new FileResponseCache(dir, 10), [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+
+    await store(new FileResponseCache(dir, 10), [11]);
+    assert.equal(files().length, 9);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * responseSchema: each provider executor's native JSON mode (or prompted
+ * JSON), and the parsed and validated reply in ExecutorResult
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnthropicExecutor } from '../src/executors/anthropic.js';
+import type { BaseExecutor, ExecutorInput } from '../src/executors/base.js';
+import { DeepSeekExecutor } from '../src/executors/deepseek.js';
+import { GoogleExecutor } from '../src/executors/google.js';
+import { GrokExecutor } from '../src/executors/grok.js';
+import { KimiExecutor } from '../src/executors/kimi.js';
+import { LocalModelExecutor } from '../src/executors/local.js';
+import { OpenAIExecutor } from '../src/executors/openai.js';
+import type { JsonSchema } from '../src/types.js';
+import { startModelServer, type ModelReply, type ModelServer } from './support/models.js';
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['label'],
+  properties: { label: { enum: ['positive', 'negative'] } },
+};
+
+const input: ExecutorInput = { prompt: 'I love it', systemPrompt: 'Classify sentiment.', responseSchema: schema };
+
+const instruction = `Classify sentiment.\n\nReply with only JSON matching this schema:\n${JSON.stringify(schema)}`;
+
+/** OpenAI-style chat completion, as OpenAI, DeepSeek, Grok, Kimi and local servers answer */
+const chat = (content: string): ModelReply => ({
+  json: {
+    choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content } }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+  },
+});
+
+describe('responseSchema', () => {
+  let models: ModelServer;
+
+  before(async () => {
+    models = await startModelServer();
+    process.env.OPENAI_BASE_URL = `${models.url}/v1`;
+    process.env.ANTHROPIC_BASE_URL = models.url;
+    process.env.GOOGLE_BASE_URL = `${models.url}/v1beta`;
+    process.env.DEEPSEEK_BASE_URL = models.url;
+    process.env.XAI_BASE_URL = `${models.url}/v1`;
+    process.env.MOONSHOT_BASE_URL = `${models.url}/v1`;
+  });
+
+  beforeEach(() => {
+    models.requests.length = 0;
+  });
+
+  after(async () => {
+    await models.stop();
+  });
+
+  const lastBody = () => models.requests[models.requests.length - 1].body;
+
+  it('uses OpenAI structured outputs, or JSON mode where the model lacks them', async () => {
+    const openai = new OpenAIExecutor('sk-test');
+    models.reply(chat('{"label":"positive"}'), chat('{"label":"positive"}'), chat('{"label":"positive"}'));
+
+    const result = await openai.execute(input);
+    assert.deepEqual(lastBody().response_format, { type: 'json_schema', json_schema: { name: 'response', schema } });
+    assert.equal(lastBody().messages[0].content, instruction);
+    assert.equal(result.success, true);
+    assert.deepEqual(result.structured, { label: 'positive' });
+
+    await openai.execute({ ...input, model: 'gpt-4-turbo' });
+    assert.deepEqual(lastBody().response_format, { type: 'json_object' });
+    // No JSON mode at all: the prompt asks for it
+    await openai.execute({ ...input, model: 'o1-mini' });
+    assert.equal(lastBody().response_format, undefined);
+    assert.equal(lastBody().messages[0].content, instruction);
+  });
+
+  it('maps to JSON mode for DeepSeek and Kimi and structured outputs for Grok', async () => {
+    const cases: Array<[BaseExecutor, unknown]> = [
+      [new DeepSeekExecutor('key'), { type: 'json_object' }],
+      [new KimiExecutor('key'), { type: 'json_object' }],
+      [new GrokExecutor('key'), { type: 'json_schema', json_schema: { name: 'response', schema } }],
+    ];
+
+    for (const [executor, format] of cases) {
+      models.reply(chat('{"label":"negative"}'));
+      const result = await executor.execute(input);
+      assert.deepEqual(lastBody().response_format, format, executor.id);
+      assert.equal(lastBody().messages[0].content, instruction, executor.id);
+      assert.deepEqual(result.structured, { label: 'negative' }, executor.id);
+    }
+  });
+
+  it('forces an Anthropic tool whose input is the schema and returns its input as JSON', async () => {
+    models.reply({
+      json: {
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'tool_use', id: 'toolu_0', name: 'structured_response', input: { label: 'positive' } }],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 10, output_tokens: 5 },
+      },
+    });
+    const result = await new AnthropicExecutor('key').execute(input);
+
+    assert.deepEqual(lastBody().tools, [{ name: 'structured_response', description: 'Respond with the structured result', input_schema: schema }]);
+    assert.deepEqual(lastBody().tool_choice, { type: 'tool', name: 'structured_response' });
+    assert.equal(result.content, '{"label":"positive"}');
+    assert.deepEqual(result.structured, { label: 'positive' });
+  });
+
+  it('asks Anthropic in the prompt for schemas that are not objects', async () => {
+    models.reply({
+      json: {
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'text', text: '["a","b"]' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 10, output_tokens: 5 },
+      },
+    });
+    const list: JsonSchema = { type: 'array', items: { type: 'string' } };
+    const result = await new AnthropicExecutor('key').execute({ prompt: 'List', responseSchema: list });
+
+    assert.equal(lastBody().tools, undefined);
+    assert.equal(lastBody().system, `Reply with only JSON matching this schema:\n${JSON.stringify(list)}`);
+    assert.deepEqual(result.structured, ['a', 'b']);
+  });
+
+  it('sets the Gemini JSON MIME type with the schema in the prompt', async () => {
+    models.reply({
+      json: {
+        candidates: [{ content: { parts: [{ text: '{"label":"positive"}' }] }, finishReason: 'STOP' }],
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5 },
+      },
+    });
+    const result = await new GoogleExecutor('key').execute(input);
+
+    assert.match(models.requests[0].path, /^\/v1beta\/models\/gemini-2\.0-flash:generateContent\?key=key$/);
+    assert.equal(lastBody().generationConfig.responseMimeType, 'application/json');
+    assert.equal(lastBody().systemInstruction.parts[0].text, instruction);
+    assert.deepEqual(result.structured, { label: 'positive' });
+  });
+
+  it('passes the schema to local OpenAI-compatible servers and as the Ollama format', async () => {
+    models.reply(chat('{"label":"positive"}'), {
+      json: { message: { role: 'assistant', content: '{"label":"negative"}' }, done_reason: 'stop', prompt_eval_count: 10, eval_count: 5 },
+    });
+
+    const compatible = await new LocalModelExecutor({ baseUrl: `${models.url}/v1` }).execute(input);
+    assert.deepEqual(lastBody().response_format, { type: 'json_schema', json_schema: { name: 'response', schema } });
+    assert.deepEqual(compatible.structured, { label: 'positive' });
+
+    const ollama = await new LocalModelExecutor({ baseUrl: models.url, api: 'ollama' }).execute(input);
+    assert.equal(models.requests[1].path, '/api/chat');
+    assert.deepEqual(lastBody().format, schema);
+    assert.deepEqual(ollama.structured, { label: 'negative' });
+  });
+
+  it('fails replies that are not JSON or do not match the schema, listing why', async () => {
+    const openai = new OpenAIExecutor('sk-test');
+    models.reply(chat('It is positive'), chat('```json\n{"label":"happy"}\n```'), chat('I love it'));
+
+    const prose = await openai.execute(input);
+    assert.equal(prose.success, false);
+    assert.deepEqual(prose.schemaErrors, ['Reply is not JSON']);
+    assert.equal(prose.content, 'It is positive');
+
+    const mismatch = await openai.execute(input);
+    assert.equal(mismatch.success, false);
+    assert.deepEqual(mismatch.schemaErrors, ['$.label: must be one of "positive", "negative"']);
+    assert.equal(mismatch.error, 'Reply does not match the schema: $.label: must be one of "positive", "negative"');
+    assert.equal(mismatch.structured, undefined);
+
+    // Without a schema, replies are returned as they are
+    const plain = await openai.execute({ prompt: 'I love it' });
+    assert.equal(plain.success, true);
+    assert.equal(plain.structured, undefined);
+    assert.equal(lastBody().response_format, undefined);
+  });
+});
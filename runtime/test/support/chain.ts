@@ -0,0 +1,112 @@
+/**
+ * Stub Chain
+ * A JSON-RPC provider answering from memory, enough for ethers signers to
+ * send transactions. Every transaction is mined into its own block as soon as
+ * it is broadcast.
+ */
+
+import { JsonRpcApiProvider, Network, Transaction, getAddress, toBeHex, toQuantity } from 'ethers';
+import type { JsonRpcError, JsonRpcPayload, JsonRpcResult } from 'ethers';
+
+const CHAIN_ID = 31337;
+const GAS_PRICE = 1_000_000_000n;
+
+export class StubChain extends JsonRpcApiProvider {
+  /** Broadcast transactions, in order */
+  readonly transactions: Transaction[] = [];
+
+  constructor() {
+    const network = Network.from(CHAIN_ID);
+    super(network, { staticNetwork: network, batchMaxCount: 1, cacheTimeout: -1, pollingInterval: 10 });
+  }
+
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<Array<JsonRpcResult | JsonRpcError>> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    return payloads.map(({ id, method, params }) => {
+      try {
+        return { id, result: this.handle(method, params as unknown[]) };
+      } catch (error) {
+        return { id, error: { code: -32000, message: (error as Error).message } };
+      }
+    });
+  }
+
+  private handle(method: string, params: unknown[]): unknown {
+    switch (method) {
+      case 'eth_chainId':
+        return toQuantity(CHAIN_ID);
+      case 'eth_blockNumber':
+        return toQuantity(this.transactions.length);
+      case 'eth_getBlockByNumber':
+        return this.block(params[0] === 'latest' ? this.transactions.length : Number(params[0]));
+      case 'eth_getTransactionCount': {
+        const address = getAddress(params[0] as string);
+        return toQuantity(this.transactions.filter((tx) => tx.from === address).length);
+      }
+      case 'eth_estimateGas':
+        return toQuantity(100_000);
+      case 'eth_gasPrice':
+      case 'eth_maxPriorityFeePerGas':
+        return toQuantity(GAS_PRICE);
+      case 'eth_call':
+        return '0x';
+      case 'eth_sendRawTransaction': {
+        const tx = Transaction.from(params[0] as string);
+        this.transactions.push(tx);
+        return tx.hash;
+      }
+      case 'eth_getTransactionReceipt': {
+        const index = this.indexOf(params[0] as string);
+        return index < 0 ? null : this.receiptJson(index);
+      }
+      default:
+        throw new Error(`Unsupported method ${method}`);
+    }
+  }
+
+  private indexOf(hash: string): number {
+    return this.transactions.findIndex((tx) => tx.hash === hash);
+  }
+
+  private blockHash(number: number): string {
+    return toBeHex(number + 1, 32);
+  }
+
+  private block(number: number) {
+    return {
+      hash: this.blockHash(number),
+      parentHash: toBeHex(number, 32),
+      number: toQuantity(number),
+      timestamp: toQuantity(1_700_000_000 + number),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: toQuantity(30_000_000),
+      gasUsed: '0x0',
+      miner: '0x' + '0'.repeat(40),
+      extraData: '0x',
+      baseFeePerGas: toQuantity(GAS_PRICE),
+      transactions: number > 0 ? [this.transactions[number - 1].hash] : [],
+    };
+  }
+
+  /** Transaction i is mined in block i + 1 */
+  private receiptJson(index: number) {
+    const tx = this.transactions[index];
+    return {
+      transactionHash: tx.hash,
+      transactionIndex: '0x0',
+      blockNumber: toQuantity(index + 1),
+      blockHash: this.blockHash(index + 1),
+      from: tx.from,
+      to: tx.to,
+      contractAddress: null,
+      gasUsed: toQuantity(100_000),
+      cumulativeGasUsed: toQuantity(100_000),
+      effectiveGasPrice: toQuantity(GAS_PRICE),
+      logsBloom: '0x' + '0'.repeat(512),
+      logs: [],
+      status: '0x1',
+      type: toQuantity(tx.type ?? 0),
+    };
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Test Database
+ * The runtime schema in an in-process Postgres (PGlite), served over the wire
+ * protocol so src/shared/db.ts connects through pg as it does in production.
+ * Modules that import db.ts must be imported after startTestDatabase().
+ */
+
+import { readFileSync } from 'node:fs';
+import { PGlite } from '@electric-sql/pglite';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+import { pgcrypto } from '@electric-sql/pglite/contrib/pgcrypto';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+
+const SCHEMA = new URL('../../db/init.sql', import.meta.url);
+
+export interface TestDatabase {
+  db: typeof import('../../src/shared/db.js');
+  /** Run SQL directly, e.g. to age rows */
+  query<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<T[]>;
+  /** Delete every agent and order */
+  reset(): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export async function startTestDatabase(): Promise<TestDatabase> {
+  const pglite = await PGlite.create({ extensions: { uuid_ossp, pgcrypto } });
+  await pglite.exec(readFileSync(SCHEMA, 'utf-8'));
+
+  const server = new PGLiteSocketServer({ db: pglite, port: 0, maxConnections: 20 });
+  await server.start();
+  process.env.DATABASE_URL = `postgresql://postgres@${server.getServerConn()}/postgres`;
+  const db = await import('../../src/shared/db.js');
+
+  return {
+    db,
+    async query<T>(sql: string, params?: unknown[]) {
+      return (await pglite.query<T>(sql, params)).rows;
+    },
+    async reset() {
+      await pglite.exec('TRUNCATE agents, orders, execution_logs, oauth_state_nonces CASCADE');
+    },
+    async stop() {
+      await db.closePool();
+      await server.stop();
+      await pglite.close();
+    },
+  };
+}
+
+let orderSeq = 0;
+
+/**
+ * Insert an agent with a service id and a pending order for it
+ */
+export async function seedAgent(
+  db: TestDatabase['db'],
+  overrides: Partial<Parameters<TestDatabase['db']['createAgent']>[0]> = {}
+) {
+  const agent = await db.createAgent({
+    name: 'Test Agent',
+    ownerAddress: '0x' + '1'.repeat(40),
+    systemPrompt: 'You are a test agent.',
+    ...overrides,
+  });
+  const serviceId = '0x' + agent.id.replace(/-/g, '').padEnd(64, '0');
+  await db.updateAgent(agent.id, { status: 'active' });
+  return { ...agent, serviceId, status: 'active' as const };
+}
+
+export async function seedOrder(
+  db: TestDatabase['db'],
+  agent: { id: string; serviceId: string },
+  overrides: { buyerAddress?: string } = {}
+) {
+  orderSeq++;
+  return db.createOrder({
+    orderId: '0x' + orderSeq.toString(16).padStart(64, '0'),
+    serviceId: agent.serviceId,
+    agentId: agent.id,
+    buyerAddress: overrides.buyerAddress ?? '0x' + '2'.repeat(40),
+    sellerAddress: '0x' + '3'.repeat(40),
+    priceWei: '1000',
+    inputData: { prompt: `order ${orderSeq}` },
+    inputHash: null,
+  });
+}
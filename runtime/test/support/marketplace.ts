@@ -0,0 +1,246 @@
+/**
+ * Stub Marketplace Chain
+ * A JSON-RPC server holding services and orders in memory and answering the
+ * registry and marketplace calls AgentRuntime makes. Each order change is
+ * mined into its own block with the event the marketplace would log.
+ */
+
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Interface, Wallet, getAddress, id, toBeHex, toQuantity } from 'ethers';
+import { MARKETPLACE_ABI, OrderStatus, REGISTRY_ABI } from '../../src/contracts.js';
+
+const CHAIN_ID = 31337;
+const GAS_PRICE = 1_000_000_000n;
+
+export const REGISTRY = getAddress('0x' + '1e'.repeat(20));
+export const MARKETPLACE = getAddress('0x' + 'ae'.repeat(20));
+
+const registry = new Interface(REGISTRY_ABI);
+const marketplace = new Interface(MARKETPLACE_ABI);
+
+export interface ChainService {
+  serviceType: string;
+  metadataURI?: string;
+}
+
+export interface ChainOrder {
+  orderId: string;
+  serviceId: string;
+  buyer: string;
+  seller: string;
+  units: bigint;
+  totalPrice: bigint;
+  /** Unix seconds */
+  deadline: number;
+  status: OrderStatus;
+}
+
+interface ChainLog {
+  topics: string[];
+  data: string;
+}
+
+export class MarketplaceChain {
+  /** The agent the runtime under test runs as */
+  readonly seller = new Wallet(Wallet.createRandom().privateKey);
+  readonly services = new Map<string, ChainService>();
+  readonly orders = new Map<string, ChainOrder>();
+  url = '';
+
+  /** Logs of each block, by block number */
+  private blocks: ChainLog[][] = [[]];
+  private server?: Server;
+  private orderSeq = 0;
+
+  async start(): Promise<this> {
+    this.server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const payload = JSON.parse(raw);
+        const reply = Array.isArray(payload) ? payload.map((p) => this.answer(p)) : this.answer(payload);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply));
+      });
+    });
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    return this;
+  }
+
+  async stop(): Promise<void> {
+    this.server?.closeIdleConnections();
+    await new Promise((resolve) => this.server?.close(resolve));
+  }
+
+  /** Register a service of the runtime's agent; returns its id */
+  addService(service: ChainService): string {
+    const serviceId = id(`service-${this.services.size}`);
+    this.services.set(serviceId, service);
+    return serviceId;
+  }
+
+  /** Place an order with the runtime's agent; returns its id */
+  createOrder(serviceId: string, fields: Partial<Omit<ChainOrder, 'orderId' | 'serviceId'>> = {}): string {
+    const orderId = id(`order-${++this.orderSeq}`);
+    const order: ChainOrder = {
+      orderId,
+      serviceId,
+      buyer: getAddress('0x' + 'b0'.repeat(20)),
+      seller: this.seller.address,
+      units: 1n,
+      totalPrice: 10n ** 15n,
+      deadline: Math.floor(Date.now() / 1000) + 3600,
+      status: OrderStatus.Pending,
+      ...fields,
+    };
+    this.orders.set(orderId, order);
+    this.mine(marketplace.encodeEventLog('OrderCreated', [orderId, serviceId, order.buyer, order.seller, order.totalPrice]));
+    return orderId;
+  }
+
+  cancelOrder(orderId: string): void {
+    this.orders.get(orderId)!.status = OrderStatus.Cancelled;
+    this.mine(marketplace.encodeEventLog('OrderCancelled', [orderId]));
+  }
+
+  disputeOrder(orderId: string, reason: string): void {
+    this.orders.get(orderId)!.status = OrderStatus.Disputed;
+    this.mine(marketplace.encodeEventLog('OrderDisputed', [orderId, reason]));
+  }
+
+  private mine(log: ChainLog): void {
+    this.blocks.push([log]);
+  }
+
+  private get head(): number {
+    return this.blocks.length - 1;
+  }
+
+  private answer({ id: requestId, method, params }: { id: number; method: string; params: any[] }) {
+    try {
+      return { jsonrpc: '2.0', id: requestId, result: this.handle(method, params) };
+    } catch (error) {
+      return { jsonrpc: '2.0', id: requestId, error: { code: -32000, message: (error as Error).message } };
+    }
+  }
+
+  private handle(method: string, params: any[]): unknown {
+    switch (method) {
+      case 'eth_chainId':
+        return toQuantity(CHAIN_ID);
+      case 'net_version':
+        return String(CHAIN_ID);
+      case 'eth_blockNumber':
+        return toQuantity(this.head);
+      case 'eth_getBlockByNumber':
+        return this.block(params[0] === 'latest' ? this.head : Number(params[0]));
+      case 'eth_gasPrice':
+      case 'eth_maxPriorityFeePerGas':
+        return toQuantity(GAS_PRICE);
+      case 'eth_getLogs':
+        return this.logs(params[0]);
+      case 'eth_call':
+        return this.call(params[0]);
+      default:
+        throw new Error(`Unsupported method ${method}`);
+    }
+  }
+
+  private call({ to, data }: { to: string; data: string }): string {
+    if (getAddress(to) === REGISTRY) {
+      const call = registry.parseTransaction({ data })!;
+      switch (call.name) {
+        case 'isActiveAgent':
+          return registry.encodeFunctionResult(call.fragment, [getAddress(call.args[0]) === this.seller.address]);
+        case 'services': {
+          const service = this.services.get(call.args[0]);
+          return registry.encodeFunctionResult(call.fragment, [
+            this.seller.address,
+            service?.serviceType ?? '',
+            0n,
+            service?.metadataURI ?? '',
+            !!service,
+          ]);
+        }
+      }
+    }
+
+    if (getAddress(to) === MARKETPLACE) {
+      const call = marketplace.parseTransaction({ data })!;
+      switch (call.name) {
+        case 'getAgentOrders':
+          return marketplace.encodeFunctionResult(call.fragment, [
+            [...this.orders.values()].filter((o) => o.seller === getAddress(call.args[0])).map((o) => o.orderId),
+          ]);
+        case 'orders': {
+          const order = this.orders.get(call.args[0]);
+          if (!order) throw new Error('execution reverted: order not found');
+          return marketplace.encodeFunctionResult(call.fragment, [
+            order.serviceId,
+            order.buyer,
+            order.seller,
+            order.units,
+            order.totalPrice,
+            0n,
+            BigInt(order.deadline),
+            order.status,
+            '',
+            '0x',
+          ]);
+        }
+      }
+    }
+
+    throw new Error(`Unsupported call to ${to}`);
+  }
+
+  private logs(filter: { fromBlock: string; toBlock: string; topics?: Array<string | string[] | null> }) {
+    const from = Number(filter.fromBlock);
+    const to = Math.min(Number(filter.toBlock), this.head);
+    const wanted = filter.topics?.[0];
+    const matches = (topic: string) => !wanted || (Array.isArray(wanted) ? wanted.includes(topic) : wanted === topic);
+
+    const logs = [];
+    for (let number = from; number <= to; number++) {
+      for (const [index, log] of this.blocks[number].entries()) {
+        if (!matches(log.topics[0])) continue;
+        logs.push({
+          address: MARKETPLACE,
+          topics: log.topics,
+          data: log.data,
+          blockNumber: toQuantity(number),
+          blockHash: this.blockHash(number),
+          transactionHash: id(`tx-${number}-${index}`),
+          transactionIndex: '0x0',
+          logIndex: toQuantity(index),
+          removed: false,
+        });
+      }
+    }
+    return logs;
+  }
+
+  private blockHash(number: number): string {
+    return toBeHex(number + 1, 32);
+  }
+
+  private block(number: number) {
+    if (number > this.head) return null;
+    return {
+      hash: this.blockHash(number),
+      parentHash: toBeHex(number, 32),
+      number: toQuantity(number),
+      timestamp: toQuantity(Math.floor(Date.now() / 1000)),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: toQuantity(30_000_000),
+      gasUsed: '0x0',
+      miner: '0x' + '0'.repeat(40),
+      extraData: '0x',
+      baseFeePerGas: toQuantity(GAS_PRICE),
+      transactions: [],
+    };
+  }
+}
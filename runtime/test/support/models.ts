@@ -0,0 +1,72 @@
+/**
+ * Stub Model Server
+ * A local HTTP server standing in for model provider APIs. Replies are queued
+ * by the test and served in order; every request is recorded.
+ */
+
+import { createServer, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface ModelRequest {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: any;
+}
+
+export type ModelReply =
+  /** A JSON response; error statuses tell provider SDKs not to retry on their own */
+  | { status?: number; json: unknown }
+  /** A server-sent event stream; string data is sent as is (e.g. '[DONE]') */
+  | { events: Array<{ event?: string; data: unknown }> };
+
+export interface ModelServer {
+  url: string;
+  requests: ModelRequest[];
+  /** Queue replies for the next requests */
+  reply(...replies: ModelReply[]): void;
+  stop(): Promise<void>;
+}
+
+export async function startModelServer(): Promise<ModelServer> {
+  const requests: ModelRequest[] = [];
+  const queue: ModelReply[] = [];
+
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      requests.push({ method: req.method!, path: req.url!, headers: req.headers, body: raw ? JSON.parse(raw) : undefined });
+
+      const reply = queue.shift() ?? { status: 500, json: { error: { message: `No reply queued for ${req.url}` } } };
+      if ('events' in reply) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        for (const { event, data } of reply.events) {
+          res.write(`${event ? `event: ${event}\n` : ''}data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+        }
+        res.end();
+        return;
+      }
+
+      const status = reply.status ?? 200;
+      res.writeHead(status, {
+        'Content-Type': 'application/json',
+        ...(status >= 400 && { 'x-should-retry': 'false' }),
+      });
+      res.end(JSON.stringify(reply.json));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    reply(...replies) {
+      queue.push(...replies);
+    },
+    async stop() {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * Test Runtime
+ * An AgentRuntime running against a stub marketplace chain, in a temporary
+ * working directory so results, queue and cursor files stay out of the tree.
+ * Completions are off; tests read what the runtime emitted and stored.
+ * Also the task and model executors these tests run.
+ */
+
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AgentRuntime } from '../../src/runtime.js';
+import { BaseExecutor, type ExecutorInput, type ExecutorResult } from '../../src/executors/base.js';
+import { TaskExecutor } from '../../src/executors/task.js';
+import { buildResultOutput } from '../../src/result.js';
+import type { ResultData, RuntimeConfig, RuntimeEvent, TaskInput, TaskResult } from '../../src/types.js';
+import { MARKETPLACE, REGISTRY, type MarketplaceChain } from './marketplace.js';
+
+/** Resolves after delayMs, or rejects once the signal aborts */
+function delay(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, delayMs);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted'));
+    });
+  });
+}
+
+/**
+ * Answers every order with fixed content after an optional delay, recording
+ * the tasks it was given. Stops early when the task is aborted.
+ */
+export class EchoExecutor extends TaskExecutor {
+  id: string;
+  name: string;
+  serviceTypes: string[];
+  readonly tasks: TaskInput[] = [];
+  private content: string;
+  private delayMs: number;
+
+  constructor(content: string, options: { id?: string; serviceTypes?: string[]; delayMs?: number } = {}) {
+    super();
+    this.content = content;
+    this.id = options.id ?? 'echo';
+    this.name = `Echo (${this.id})`;
+    this.serviceTypes = options.serviceTypes ?? [];
+    this.delayMs = options.delayMs ?? 0;
+  }
+
+  async execute(task: TaskInput): Promise<TaskResult> {
+    const startTime = Date.now();
+    this.tasks.push(task);
+    await delay(this.delayMs, task.signal);
+    const output = buildResultOutput(this.content);
+    return this.createSuccessResult(output, await this.createProof(task.payload, output.content), startTime, { costUsd: 0.001 });
+  }
+}
+
+export interface FakeModelOptions {
+  id?: string;
+  /** Default: 'openai' */
+  provider?: string;
+  /** Per 1M tokens; its keys are the models, the first the default */
+  pricing?: Record<string, { input: number; output: number }>;
+  /** Reply when none is queued (default: 'ok') */
+  fallback?: string;
+  delayMs?: number;
+}
+
+/**
+ * A model executor replying with queued replies, recording every request.
+ * Usage is counted at 4 characters per token and priced like a provider.
+ */
+export class FakeModel extends BaseExecutor {
+  id: string;
+  name: string;
+  provider: string;
+  models: string[];
+  defaultModel: string;
+  pricing: Record<string, { input: number; output: number }>;
+  readonly inputs: ExecutorInput[] = [];
+  private replies: Array<string | Error> = [];
+  private fallback: string;
+  private delayMs: number;
+
+  constructor(options: FakeModelOptions = {}) {
+    super();
+    this.provider = options.provider ?? 'openai';
+    this.id = options.id ?? this.provider;
+    this.name = `Fake (${this.id})`;
+    this.pricing = options.pricing ?? { 'fake-1': { input: 1, output: 2 } };
+    this.models = Object.keys(this.pricing);
+    this.defaultModel = this.models[0];
+    this.fallback = options.fallback ?? 'ok';
+    this.delayMs = options.delayMs ?? 0;
+  }
+
+  /** Queue replies for the next requests; an Error fails its request */
+  reply(...replies: Array<string | Error>): void {
+    this.replies.push(...replies);
+  }
+
+  async execute(input: ExecutorInput): Promise<ExecutorResult> {
+    this.inputs.push(input);
+    await delay(this.delayMs, input.signal);
+    const reply = this.replies.shift() ?? this.fallback;
+    const model = input.model || this.defaultModel;
+
+    if (reply instanceof Error) {
+      return {
+        success: false,
+        content: '',
+        model,
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        cost: { input: 0, output: 0, total: 0 },
+        error: reply.message,
+      };
+    }
+
+    const promptTokens = Math.ceil((input.prompt.length + (input.systemPrompt?.length ?? 0)) / 4);
+    const completionTokens = Math.ceil(reply.length / 4);
+    return this.applyResponseSchema(input, {
+      success: true,
+      content: reply,
+      model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      cost: this.calculateCost(model, promptTokens, completionTokens),
+    });
+  }
+
+  async *stream(input: ExecutorInput): AsyncGenerator<string, void, unknown> {
+    this.inputs.push(input);
+    await delay(this.delayMs, input.signal);
+    const reply = this.replies.shift() ?? this.fallback;
+    if (reply instanceof Error) throw reply;
+    yield* reply.split(/(?<= )/);
+  }
+}
+
+export interface TestRuntime {
+  runtime: AgentRuntime;
+  events: RuntimeEvent[];
+  /** The first event of this type (for this order), waiting for it if needed */
+  waitFor<T extends RuntimeEvent['type']>(
+    type: T,
+    orderId?: string,
+    timeoutMs?: number
+  ): Promise<Extract<RuntimeEvent, { type: T }>>;
+  /** Results stored so far */
+  results(): ResultData[];
+  stop(): Promise<void>;
+}
+
+export async function startTestRuntime(chain: MarketplaceChain, config: Partial<RuntimeConfig> = {}): Promise<TestRuntime> {
+  const cwd = process.cwd();
+  const dir = mkdtempSync(join(tmpdir(), 'runtime-test-'));
+  // LocalStorage writes ./data/results
+  process.chdir(dir);
+
+  const runtime = new AgentRuntime({
+    privateKey: chain.seller.privateKey,
+    rpcUrl: chain.url,
+    contracts: { registry: REGISTRY, marketplace: MARKETPLACE },
+    pollInterval: 50,
+    autoComplete: false,
+    deadlineMarginMs: 0,
+    queueFile: join(dir, 'order-queue.json'),
+    cursor: { file: join(dir, 'block-cursor.json'), startBlock: 0 },
+    completion: { file: join(dir, 'completions.json') },
+    ...config,
+  });
+
+  const events: RuntimeEvent[] = [];
+  const waiters = new Set<() => void>();
+  runtime.on((event) => {
+    events.push(event);
+    for (const wake of waiters) wake();
+  });
+
+  const find = (type: string, orderId?: string) =>
+    events.find((e) => e.type === type && (orderId === undefined || ('orderId' in e && e.orderId === orderId)));
+
+  await runtime.start();
+
+  return {
+    runtime,
+    events,
+    waitFor(type, orderId, timeoutMs = 5000) {
+      return new Promise((resolve, reject) => {
+        const check = () => {
+          const event = find(type, orderId);
+          if (!event) return;
+          done();
+          resolve(event as Extract<RuntimeEvent, { type: typeof type }>);
+        };
+        const timer = setTimeout(() => {
+          done();
+          reject(new Error(`Timed out waiting for ${type}; saw ${events.map((e) => e.type).join(', ')}`));
+        }, timeoutMs);
+        const done = () => {
+          clearTimeout(timer);
+          waiters.delete(check);
+        };
+        waiters.add(check);
+        check();
+      });
+    },
+    results() {
+      const resultsDir = join(dir, 'data', 'results');
+      let files: string[];
+      try {
+        files = readdirSync(resultsDir);
+      } catch {
+        return [];
+      }
+      return files.map((f) => JSON.parse(readFileSync(join(resultsDir, f), 'utf-8')));
+    },
+    async stop() {
+      await runtime.stop();
+      process.chdir(cwd);
+      rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Service templates: input and output schemas, prompts rendered from buyer
+ * input, repairing output that fails the schema, and rejecting invalid input
+ * before any tokens are spent
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Wallet } from 'ethers';
+import { AgentClient } from '../../sdk/src/AgentClient.ts';
+import { ModelExecutorAdapter } from '../src/executors/adapter.js';
+import { MemoryInputSource } from '../src/input.js';
+import { validateSchema } from '../src/schema.js';
+import { renderTemplate } from '../src/template.js';
+import type { JsonSchema, ServiceTemplate, TaskInput } from '../src/types.js';
+import { MarketplaceChain } from './support/marketplace.js';
+import { FakeModel, startTestRuntime, type TestRuntime } from './support/runtime.js';
+
+const inputSchema: JsonSchema = {
+  type: 'object',
+  required: ['text'],
+  properties: {
+    text: { type: 'string', minLength: 1, maxLength: 500 },
+    language: { type: 'string', enum: ['en', 'fr'] },
+  },
+  additionalProperties: false,
+};
+
+const outputSchema: JsonSchema = {
+  type: 'object',
+  required: ['label', 'score'],
+  properties: {
+    label: { enum: ['positive', 'negative', 'neutral'] },
+    score: { type: 'number', minimum: 0, maximum: 1 },
+  },
+};
+
+const template: ServiceTemplate = {
+  inputSchema,
+  system: 'Classify the sentiment of {{input.language}} text.',
+  user: 'Text: {{input.text}}',
+  outputSchema,
+  temperature: 0,
+};
+
+const task = (fields: Partial<TaskInput> = {}): TaskInput => ({
+  orderId: '0x' + '01'.repeat(32),
+  serviceId: '0x' + '02'.repeat(32),
+  serviceType: 'sentiment-analysis',
+  buyer: '0x' + '03'.repeat(20),
+  units: 1n,
+  totalPrice: 1000n,
+  deadline: Math.floor(Date.now() / 1000) + 3600,
+  payload: { text: 'I love it', language: 'en' },
+  template,
+  ...fields,
+});
+
+describe('validateSchema', () => {
+  it('accepts matching values', () => {
+    assert.deepEqual(validateSchema({ text: 'hi', language: 'fr' }, inputSchema), []);
+    assert.deepEqual(validateSchema({ label: 'neutral', score: 0.5, extra: true }, outputSchema), []);
+  });
+
+  it('reports each mismatch with its path', () => {
+    assert.deepEqual(validateSchema({ language: 'de', note: 1 }, inputSchema), [
+      '$.text: is required',
+      '$.language: must be one of "en", "fr"',
+      '$.note: is not allowed',
+    ]);
+    assert.deepEqual(validateSchema({ text: '' }, inputSchema), ['$.text: must be at least 1 characters']);
+    assert.deepEqual(validateSchema({ label: 'happy', score: 2 }, outputSchema), [
+      '$.label: must be one of "positive", "negative", "neutral"',
+      '$.score: must be <= 1',
+    ]);
+    assert.deepEqual(validateSchema('text', outputSchema), ['$: expected object, got string']);
+    assert.deepEqual(validateSchema([1, 'a'], { type: 'array', items: { type: 'integer' }, maxItems: 1 }), [
+      '$: must have at most 1 items',
+      '$[1]: expected integer, got string',
+    ]);
+  });
+
+  it('supports combinators', () => {
+    const schema: JsonSchema = { oneOf: [{ type: 'string' }, { type: 'number', minimum: 0 }] };
+    assert.deepEqual(validateSchema(3, schema), []);
+    assert.deepEqual(validateSchema(-3, schema), ['$: must match exactly one allowed schema']);
+    assert.deepEqual(validateSchema(null, { anyOf: [{ type: 'string' }, { type: 'null' }] }), []);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills placeholders from the context, JSON for non-strings and empty when missing', () => {
+    const context = { input: { text: 'hi', tags: ['a', 'b'], count: 2 } };
+    assert.equal(renderTemplate('{{ input.text }} {{input.tags}} x{{input.count}} [{{input.missing}}]', context), 'hi ["a","b"] x2 []');
+  });
+});
+
+describe('ModelExecutorAdapter with a service template', () => {
+  it('renders the prompts from the input and asks for JSON matching the output schema', async () => {
+    const model = new FakeModel();
+    model.reply('{"label":"positive","score":0.9}');
+    const result = await new ModelExecutorAdapter(model).execute(task());
+
+    assert.equal(model.inputs[0].systemPrompt, 'Classify the sentiment of en text.');
+    assert.equal(model.inputs[0].prompt, 'Text: I love it');
+    assert.equal(model.inputs[0].temperature, 0);
+    assert.deepEqual(model.inputs[0].responseSchema, outputSchema);
+    assert.equal(result.success, true);
+    assert.deepEqual(result.output?.structured, { label: 'positive', score: 0.9 });
+  });
+
+  it('asks the model to repair output that fails the schema', async () => {
+    const model = new FakeModel();
+    model.reply('{"label":"happy","score":0.9}', '```json\n{"label":"positive","score":0.9}\n```');
+    const result = await new ModelExecutorAdapter(model).execute(task());
+
+    assert.equal(model.inputs.length, 2);
+    const repair = model.inputs[1].prompt;
+    assert.match(repair, /^Text: I love it\n\nYour previous reply was:\n\{"label":"happy","score":0\.9\}/);
+    assert.match(repair, /- \$\.label: must be one of "positive", "negative", "neutral"/);
+    assert.match(repair, /Reply again with only JSON matching this schema:/);
+    assert.equal(result.success, true);
+    assert.deepEqual(result.output?.structured, { label: 'positive', score: 0.9 });
+    // Both requests are paid for
+    assert.ok(result.metadata.tokensUsed! > 0);
+    assert.ok(result.metadata.costUsd! > 0);
+  });
+
+  it('fails once the repairs are used up', async () => {
+    const model = new FakeModel();
+    model.reply('not json', '{"label":"positive"}', '{"label":"positive","score":0.9}');
+    const result = await new ModelExecutorAdapter(model).execute(task({ template: { ...template, maxRepairs: 1 } }));
+
+    assert.equal(model.inputs.length, 2);
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'Output does not match the schema: $.score: is required');
+    assert.ok(result.metadata.costUsd! > 0);
+  });
+
+  it('falls back to the payload as JSON and a generic system prompt', async () => {
+    const model = new FakeModel();
+    await new ModelExecutorAdapter(model).execute(task({ template: { maxTokens: 64 } }));
+
+    assert.equal(model.inputs[0].prompt, '{"text":"I love it","language":"en"}');
+    assert.equal(model.inputs[0].systemPrompt, `Process sentiment-analysis order ${task().orderId}`);
+    assert.equal(model.inputs[0].maxTokens, 64);
+  });
+});
+
+describe('AgentRuntime templates', () => {
+  const buyer = new Wallet(Wallet.createRandom().privateKey);
+  const sdk = new AgentClient({
+    privateKey: buyer.privateKey,
+    rpcUrl: 'http://127.0.0.1:1',
+    registryAddress: '0x' + '11'.repeat(20),
+    marketplaceAddress: '0x' + '22'.repeat(20),
+  });
+  let chain: MarketplaceChain;
+  let serviceId: string;
+  let inputs: MemoryInputSource;
+  let model: FakeModel;
+  let test: TestRuntime;
+
+  beforeEach(async () => {
+    chain = await new MarketplaceChain().start();
+    serviceId = chain.addService({ serviceType: 'sentiment-analysis' });
+    inputs = new MemoryInputSource();
+    model = new FakeModel({ fallback: '{"label":"positive","score":0.9}' });
+    test = await startTestRuntime(chain, { inputSource: inputs, executors: [model], templates: { 'sentiment-analysis': template } });
+  });
+
+  afterEach(async () => {
+    await test.stop();
+    await chain.stop();
+  });
+
+  async function order(payload: Record<string, unknown>): Promise<string> {
+    const orderId = chain.createOrder(serviceId, { buyer: buyer.address });
+    inputs.publish(await sdk.signOrderInput(orderId, serviceId, payload));
+    return orderId;
+  }
+
+  it('renders the service type template for its orders', async () => {
+    const orderId = await order({ text: 'I love it', language: 'en' });
+    const { result } = await test.waitFor('execution_completed', orderId);
+
+    assert.equal(model.inputs[0].prompt, 'Text: I love it');
+    assert.deepEqual(result.output?.structured, { label: 'positive', score: 0.9 });
+  });
+
+  it('rejects input that fails the schema before calling the model', async () => {
+    const orderId = await order({ text: 'Ich liebe es', language: 'de' });
+    const rejected = await test.waitFor('order_rejected', orderId);
+
+    assert.equal(rejected.reason, 'invalid_input');
+    assert.deepEqual(rejected.errors, ['$.language: must be one of "en", "fr"']);
+    assert.equal(model.inputs.length, 0);
+    assert.equal(test.events.some((e) => e.type === 'execution_started'), false);
+  });
+});
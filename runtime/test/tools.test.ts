@@ -0,0 +1,217 @@
+/**
+ * Integration actions as agent tools: references, schemas, credentials from
+ * agent secrets with OAuth refresh, and calls made from the tool loop
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { BaseIntegration, integrationRegistry, type ActionResult, type Credentials } from '../src/integrations/base.js';
+import {
+  actionToJsonSchema,
+  executeIntegrationTool,
+  loadCredentials,
+  registerBuiltinIntegrations,
+  resolveIntegrationAction,
+} from '../src/integrations/tools.js';
+import { executeAgent } from '../src/worker/executor.js';
+import type { Agent } from '../src/shared/types.js';
+import { startModelServer, type ModelServer } from './support/models.js';
+
+/** An OAuth integration recording the calls it is given */
+class NotesIntegration extends BaseIntegration {
+  id = 'notes';
+  name = 'Notes';
+  description = 'Test notes';
+  category = 'productivity' as const;
+  icon = '📝';
+  oauth = { authUrl: 'http://127.0.0.1:1/authorize', tokenUrl: 'http://127.0.0.1:1/token', scopes: ['notes'], clientId: 'id', clientSecret: 'secret' };
+  actions = [
+    {
+      name: 'add',
+      description: 'Add a note',
+      parameters: {
+        text: { type: 'string', description: 'Note text', required: true },
+        tags: { type: 'array', description: 'Tags' },
+        color: { type: 'string', description: 'Color', enum: ['red', 'blue'] },
+      },
+    },
+  ];
+  readonly calls: Array<{ action: string; params: Record<string, any>; credentials: Credentials }> = [];
+
+  async execute(action: string, params: Record<string, any>, credentials: Credentials): Promise<ActionResult> {
+    this.calls.push({ action, params, credentials });
+    if (params.text === 'fail') return { success: false, error: 'Note rejected' };
+    return { success: true, data: { id: this.calls.length, text: params.text } };
+  }
+}
+
+const notes = new NotesIntegration();
+integrationRegistry.register(notes);
+registerBuiltinIntegrations();
+
+describe('integration tool references', () => {
+  it('resolves <integration>.<action> references', () => {
+    const { integration, action } = resolveIntegrationAction('github.createIssue');
+    assert.equal(integration.id, 'github');
+    assert.equal(action.name, 'createIssue');
+
+    assert.throws(() => resolveIntegrationAction('github'), /Invalid integration reference: github/);
+    assert.throws(() => resolveIntegrationAction('github.createIssue.extra'), /Invalid integration reference/);
+    assert.throws(() => resolveIntegrationAction('gitlab.createIssue'), /Unknown integration: gitlab/);
+    assert.throws(() => resolveIntegrationAction('github.deleteRepo'), /Unknown action for GitHub: deleteRepo/);
+  });
+
+  it("builds the tool's JSON Schema from the action parameters", () => {
+    assert.deepEqual(actionToJsonSchema(resolveIntegrationAction('notes.add').action), {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'Note text' },
+        tags: { type: 'array', description: 'Tags', items: { type: 'string' } },
+        color: { type: 'string', description: 'Color', enum: ['red', 'blue'] },
+      },
+      required: ['text'],
+    });
+    assert.deepEqual(actionToJsonSchema(resolveIntegrationAction('github.createIssue').action).required, ['repo', 'title']);
+  });
+});
+
+describe('executeIntegrationTool', () => {
+  let server: Server;
+  const refreshes: URLSearchParams[] = [];
+
+  before(async () => {
+    // Fake token endpoint issuing a new access token for any refresh token
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        refreshes.push(new URLSearchParams(body));
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ access_token: 'fresh-token', expires_in: 3600 }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    process.env.NOTES_OAUTH_TOKEN_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/token`;
+  });
+
+  after(async () => {
+    delete process.env.NOTES_OAUTH_TOKEN_URL;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    notes.calls.length = 0;
+    refreshes.length = 0;
+  });
+
+  it('loads credentials from a JSON secret or a plain API key', () => {
+    const expiresAt = '2030-01-01T00:00:00.000Z';
+    assert.deepEqual(
+      loadCredentials('notes', { NOTES_CREDENTIALS: JSON.stringify({ accessToken: 'token', expiresAt }), NOTES_API_KEY: 'key' }),
+      { accessToken: 'token', expiresAt: new Date(expiresAt) }
+    );
+    assert.deepEqual(loadCredentials('notes', { NOTES_API_KEY: 'key' }), { apiKey: 'key' });
+    assert.throws(() => loadCredentials('notes', {}), /No credentials configured for notes \(set NOTES_CREDENTIALS\)/);
+  });
+
+  it('calls the action with the stored credentials and returns its data', async () => {
+    const data = await executeIntegrationTool('notes.add', { text: 'hello' }, { NOTES_API_KEY: 'key' });
+
+    assert.deepEqual(data, { id: 1, text: 'hello' });
+    assert.deepEqual(notes.calls, [{ action: 'add', params: { text: 'hello' }, credentials: { apiKey: 'key' } }]);
+  });
+
+  it('refreshes expired OAuth credentials and saves them for the next call', async () => {
+    const secrets: Record<string, string> = {
+      NOTES_CREDENTIALS: JSON.stringify({ accessToken: 'old-token', refreshToken: 'refresh', expiresAt: new Date(Date.now() - 1000) }),
+    };
+    const saved: Array<[string, string]> = [];
+    await executeIntegrationTool('notes.add', { text: 'hello' }, secrets, async (key, value) => {
+      saved.push([key, value]);
+    });
+
+    assert.equal(refreshes[0].get('grant_type'), 'refresh_token');
+    assert.equal(refreshes[0].get('refresh_token'), 'refresh');
+    assert.equal(notes.calls[0].credentials.accessToken, 'fresh-token');
+    assert.equal(saved.length, 1);
+    assert.equal(saved[0][0], 'NOTES_CREDENTIALS');
+    assert.equal(secrets.NOTES_CREDENTIALS, saved[0][1]);
+
+    // Still valid: used as is
+    await executeIntegrationTool('notes.add', { text: 'again' }, secrets);
+    assert.equal(refreshes.length, 1);
+    assert.equal(notes.calls[1].credentials.accessToken, 'fresh-token');
+    assert.equal(notes.calls[1].credentials.refreshToken, 'refresh');
+  });
+
+  it('rejects missing parameters and surfaces failed actions', async () => {
+    await assert.rejects(executeIntegrationTool('notes.add', { tags: [] }, { NOTES_API_KEY: 'key' }), /Missing required parameters for notes\.add/);
+    assert.equal(notes.calls.length, 0);
+    await assert.rejects(executeIntegrationTool('notes.add', { text: 'fail' }, { NOTES_API_KEY: 'key' }), /Note rejected/);
+  });
+});
+
+describe('executeAgent with integration tools', () => {
+  let models: ModelServer;
+
+  before(async () => {
+    models = await startModelServer();
+    process.env.OPENAI_BASE_URL = `${models.url}/v1`;
+  });
+
+  after(async () => {
+    await models.stop();
+  });
+
+  /** OpenAI chat completion, optionally calling one tool */
+  const completion = (content: string | null, call?: { name: string; args: unknown }) => ({
+    json: {
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: 0,
+      model: 'gpt-4o',
+      choices: [{
+        index: 0,
+        finish_reason: call ? 'tool_calls' : 'stop',
+        message: {
+          role: 'assistant',
+          content,
+          ...(call && { tool_calls: [{ id: 'call_0', type: 'function', function: { name: call.name, arguments: JSON.stringify(call.args) } }] }),
+        },
+      }],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    },
+  });
+
+  it("offers the action as a tool with the action's schema and runs it when called", async () => {
+    notes.calls.length = 0;
+    const agent = {
+      id: 'agent-1',
+      model: 'gpt-4o',
+      systemPrompt: 'You keep notes.',
+      temperature: 0,
+      maxTokens: 1000,
+      // Stored with a stale schema; the action's current one is offered
+      tools: [{ name: 'notes_add', description: 'Add a note', parameters: {}, handler: 'integration', integration: 'notes.add' }],
+      guardrails: { maxTokensPerRequest: 1000, maxRequestsPerMinute: 0, blockedTopics: [], requireHumanApproval: false },
+    } as unknown as Agent;
+    models.reply(completion(null, { name: 'notes_add', args: { text: 'buy milk' } }), completion('Noted.'));
+
+    const result = await executeAgent(agent, { prompt: 'Remember to buy milk' }, { OPENAI_API_KEY: 'sk-test', NOTES_API_KEY: 'key' });
+
+    assert.equal(result.response, 'Noted.');
+    assert.deepEqual(models.requests[0].body.tools, [{
+      type: 'function',
+      function: { name: 'notes_add', description: 'Add a note', parameters: actionToJsonSchema(notes.actions[0]) },
+    }]);
+    assert.deepEqual(notes.calls.map((c) => c.params), [{ text: 'buy milk' }]);
+    assert.deepEqual(result.toolCalls, [{ tool: 'notes_add', input: { text: 'buy milk' }, output: { id: 1, text: 'buy milk' } }]);
+    assert.deepEqual(models.requests[1].body.messages.at(-1), {
+      role: 'tool',
+      tool_call_id: 'call_0',
+      content: JSON.stringify({ id: 1, text: 'buy milk' }),
+    });
+  });
+});
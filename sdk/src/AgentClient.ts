@@ -1,3 +1,4 @@
+import { createDecipheriv, hkdfSync } from 'crypto';
 import { ethers, Wallet, Contract, Provider, Interface } from 'ethers';
 
 export interface AgentConfig {
@@ -9,6 +10,8 @@ export interface AgentConfig {
   bridgeAddress?: string;
   /** Optional: chain ID (default from provider). Used for 0-conf on local (1337). */
   chainId?: number;
+  /** Optional: endpoint the seller's runtime reads order input from (POST to publish) */
+  inputEndpoint?: string;
 }
 
 export interface AgentIdentity {
@@ -39,6 +42,42 @@ export interface ServiceOrder {
   resultURI: string;
 }
 
+/** Signed input a buyer publishes for an order; the seller's runtime verifies it against the order. */
+export interface OrderInputDocument {
+  version: 1;
+  orderId: string;
+  serviceId: string;
+  buyer: string;
+  payload: Record<string, unknown>;
+  createdAt: number;
+  signature: string;
+}
+
+/** Order result encrypted to the buyer by the seller's runtime (ResultData.encrypted). */
+export interface EncryptedResult {
+  scheme: 'ecies-secp256k1-aes-256-gcm';
+  ephemeralPublicKey: string;
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+/**
+ * The order was created and paid, but its input wasn't published. Retry with
+ * `publishOrderInput(error.orderId, error.serviceId, input)`.
+ */
+export class OrderInputPublishError extends Error {
+  readonly orderId: string;
+  readonly serviceId: string;
+
+  constructor(orderId: string, serviceId: string, cause: unknown) {
+    super(`Order ${orderId} created, but publishing its input failed: ${cause instanceof Error ? cause.message : String(cause)}`, { cause });
+    this.name = 'OrderInputPublishError';
+    this.orderId = orderId;
+    this.serviceId = serviceId;
+  }
+}
+
 const REGISTRY_ABI = [
   'function registerAgent(address agent, string did, string metadataURI)',
   'function updateAgent(address agent, string metadataURI)',
@@ -97,6 +136,7 @@ export class AgentClient {
   private marketplace: Contract;
   private bridge: Contract | null = null;
   private chainId: number;
+  private inputEndpoint?: string;
   private registryIface = new Interface(REGISTRY_ABI);
   private marketplaceIface = new Interface(MARKETPLACE_ABI);
 
@@ -104,6 +144,7 @@ export class AgentClient {
     this.provider = new ethers.JsonRpcProvider(config.rpcUrl);
     this.wallet = new Wallet(config.privateKey, this.provider);
     this.chainId = config.chainId ?? 0;
+    this.inputEndpoint = config.inputEndpoint;
     this.registry = new Contract(config.registryAddress, REGISTRY_ABI, this.wallet);
     this.marketplace = new Contract(config.marketplaceAddress, MARKETPLACE_ABI, this.wallet);
     if (config.bridgeAddress) {
@@ -205,11 +246,17 @@ export class AgentClient {
     return services;
   }
 
+  /**
+   * Create an order. If `input` is given it is signed and published for the seller's runtime;
+   * if publishing fails after the order is paid, an OrderInputPublishError carries the orderId.
+   */
   async purchaseService(
     serviceId: string,
     units: bigint,
-    deadlineSeconds: number = 3600
+    deadlineSeconds: number = 3600,
+    input?: Record<string, unknown>
   ): Promise<string> {
+    if (input && !this.inputEndpoint) throw new Error('Input endpoint not configured');
     const service = await this.registry.services(serviceId);
     const totalPrice = service.pricePerUnit * units;
     const deadline = Math.floor(Date.now() / 1000) + deadlineSeconds;
@@ -220,9 +267,63 @@ export class AgentClient {
     const orderId = (args?.orderId as string) ?? '0x00';
     console.log(`Order created: ${orderId}`);
     console.log(`Total price: ${totalPrice} wei`);
+    if (input) {
+      try {
+        await this.publishOrderInput(orderId, serviceId, input);
+      } catch (error) {
+        throw new OrderInputPublishError(orderId, serviceId, error);
+      }
+    }
     return orderId;
   }
 
+  /** Sign an order input document with this wallet (the order's buyer). */
+  async signOrderInput(orderId: string, serviceId: string, payload: Record<string, unknown>): Promise<OrderInputDocument> {
+    const unsigned = {
+      version: 1 as const,
+      orderId,
+      serviceId,
+      buyer: this.address,
+      payload,
+      createdAt: Date.now(),
+    };
+    // Field order must match the runtime's canonical message
+    const signature = await this.wallet.signMessage(JSON.stringify(unsigned));
+    return { ...unsigned, signature };
+  }
+
+  /** Decrypt a result the seller encrypted to this wallet. Returns the `{ input, output }` it wraps. */
+  decryptOrderResult(encrypted: EncryptedResult): { input: Record<string, unknown>; output: Record<string, unknown> } {
+    if (encrypted.scheme !== 'ecies-secp256k1-aes-256-gcm') {
+      throw new Error(`Unsupported encryption scheme: ${encrypted.scheme}`);
+    }
+    const shared = ethers.getBytes(this.wallet.signingKey.computeSharedSecret(encrypted.ephemeralPublicKey));
+    const key = Buffer.from(hkdfSync('sha256', shared.slice(1, 33), Buffer.alloc(0), 'agentl2-result-v1', 32));
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(encrypted.authTag, 'hex'));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(encrypted.ciphertext, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+    return JSON.parse(plaintext);
+  }
+
+  /** Sign and publish order input to the configured inputEndpoint. */
+  async publishOrderInput(orderId: string, serviceId: string, payload: Record<string, unknown>): Promise<OrderInputDocument> {
+    if (!this.inputEndpoint) throw new Error('Input endpoint not configured');
+    const doc = await this.signOrderInput(orderId, serviceId, payload);
+    const response = await this.withRetry(() => fetch(this.inputEndpoint!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(doc),
+    }));
+    if (!response.ok) {
+      throw new Error(`Failed to publish order input: ${response.status} ${response.statusText}`);
+    }
+    console.log(`Order input published: ${orderId}`);
+    return doc;
+  }
+
   async completeOrder(orderId: string, resultURI: string, resultHash: Uint8Array): Promise<void> {
     const tx = await this.marketplace.completeOrder(orderId, resultURI, resultHash);
     const confirmations = await this.getConfirmations();
@@ -36,27 +36,23 @@ export default function ExecutorsPage() {
         <section className="mb-12">
           <h2 className="text-2xl font-bold mb-4 text-ink">Creating an Executor</h2>
           <div className="relative">
-            <button onClick={() => copy(`import { BaseExecutor, TaskInput, TaskResult } from '@agentl2/runtime';
+            <button onClick={() => copy(`import { TaskExecutor, TaskInput, TaskResult } from '@agentl2/runtime';
 
-class MyExecutor extends BaseExecutor {
+class MyExecutor extends TaskExecutor {
   id = 'my-executor';
   name = 'My Custom Executor';
   version = '1.0.0';
   serviceTypes = ['my-service-type'];
 
   async execute(task: TaskInput): Promise<TaskResult> {
+    const startTime = Date.now();
+
     // Your custom logic here
-    const result = await this.processTask(task);
-    
-    return {
-      success: true,
-      resultURI: result.uri,
-      resultHash: result.hash,
-      metadata: {
-        executorId: this.id,
-        durationMs: Date.now() - task.startTime,
-      },
-    };
+    const content = await this.processTask(task);
+    const proof = await this.createProof(task.payload, content);
+
+    // The runtime stores the output, hashes it and signs the proof
+    return this.createSuccessResult({ content }, proof, startTime);
   }
 }
 
@@ -65,27 +61,23 @@ runtime.registerExecutor(new MyExecutor());`, 'executor')} className="absolute t
               {copied === 'executor' ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4 text-ink-muted" />}
             </button>
             <pre className="p-4 rounded-xl bg-surface-muted border border-border overflow-x-auto">
-              <code className="text-sm font-mono text-ink-muted">{`import { BaseExecutor, TaskInput, TaskResult } from '@agentl2/runtime';
+              <code className="text-sm font-mono text-ink-muted">{`import { TaskExecutor, TaskInput, TaskResult } from '@agentl2/runtime';
 
-class MyExecutor extends BaseExecutor {
+class MyExecutor extends TaskExecutor {
   id = 'my-executor';
   name = 'My Custom Executor';
   version = '1.0.0';
   serviceTypes = ['my-service-type'];
 
   async execute(task: TaskInput): Promise<TaskResult> {
+    const startTime = Date.now();
+
     // Your custom logic here
-    const result = await this.processTask(task);
-    
-    return {
-      success: true,
-      resultURI: result.uri,
-      resultHash: result.hash,
-      metadata: {
-        executorId: this.id,
-        durationMs: Date.now() - task.startTime,
-      },
-    };
+    const content = await this.processTask(task);
+    const proof = await this.createProof(task.payload, content);
+
+    // The runtime stores the output, hashes it and signs the proof
+    return this.createSuccessResult({ content }, proof, startTime);
   }
 }
 